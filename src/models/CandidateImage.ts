@@ -0,0 +1,82 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { YearConfidence, YearRange, YearSource } from '../utils/yearExtraction';
+import { ImageAttribution } from '../types/wikimedia';
+
+export const CANDIDATE_STATUSES = ['pending', 'approved', 'rejected'] as const;
+export type CandidateStatus = typeof CANDIDATE_STATUSES[number];
+
+export interface CandidatePromotion {
+    challengeId: string;
+    date: string; // YYYY-MM-DD
+    round: number; // 1-based
+    promotedAt: Date;
+}
+
+// A Commons file found by the random-image fetchers, waiting for a person to review it
+export interface ICandidateImage extends Document {
+    filename: string; // Commons file name without "File:"; unique
+    title: string;
+    url: string;
+    source: string;
+    description?: string;
+    year: number;          // Extracted year; reviewers can correct it
+    yearConfidence: YearConfidence;
+    yearSource?: YearSource; // extmetadata field the year was read from, or 'upload'
+    yearRange?: YearRange;   // Set when the source gave a span rather than one year
+    attribution?: ImageAttribution; // As fetched; refreshed from Commons on promotion
+    categories: string[];  // Categories the fetchers found it in (empty for list=random)
+    status: CandidateStatus;
+    reviewerNotes?: string;
+    reviewedAt?: Date;
+    promotions: CandidatePromotion[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const CandidateImageSchema = new Schema<ICandidateImage>({
+    filename: { type: String, required: true, unique: true },
+    title: { type: String, required: true },
+    url: { type: String, required: true },
+    source: { type: String, required: true },
+    description: { type: String, default: '' },
+    year: { type: Number, required: true },
+    yearConfidence: { type: String, enum: ['high', 'medium', 'low'], required: true },
+    yearSource: { type: String },
+    yearRange: {
+        type: {
+            _id: false,
+            earliest: { type: Number, required: true },
+            latest: { type: Number, required: true }
+        },
+        default: undefined
+    },
+    attribution: {
+        type: {
+            _id: false,
+            artist: { type: String },
+            credit: { type: String },
+            licenseShortName: { type: String },
+            licenseUrl: { type: String },
+            attributionRequired: { type: Boolean }
+        },
+        default: undefined
+    },
+    categories: { type: [String], default: [] },
+    status: { type: String, enum: CANDIDATE_STATUSES, default: 'pending' },
+    reviewerNotes: { type: String },
+    reviewedAt: { type: Date },
+    promotions: [{
+        _id: false,
+        challengeId: { type: String, required: true },
+        date: { type: String, required: true },
+        round: { type: Number, required: true },
+        promotedAt: { type: Date, required: true }
+    }]
+}, { timestamps: true });
+
+// Review queue order
+CandidateImageSchema.index({ status: 1, createdAt: -1 });
+
+const CandidateImage = mongoose.model<ICandidateImage>('CandidateImage', CandidateImageSchema);
+
+export default CandidateImage;
@@ -2,6 +2,7 @@ import mongoose, { Schema, Document } from 'mongoose';
 import { WikimediaImage } from '../types/wikimedia';
 import { ScoreDistribution, ProcessedDistribution, ChallengeStats as ChallengeStatsType } from '../types/types';
 import dotenv from 'dotenv';
+import { getImageStorage, getStorageDriver } from '../utils/storage';
 dotenv.config();
 
 // Define the structure for a single round's guess distribution
@@ -51,11 +52,43 @@ const DailyChallengeSchema: Schema = new Schema({
     revealedDescription: { type: String, default: '' },
     s3BaseKey: { type: String, required: false },
     s3BaseIdentifier: { type: String, required: false },
-    tinyBlurredPlaceholderUrl: { type: String, required: false }
+    tinyBlurredPlaceholderUrl: { type: String, required: false },
+    width: { type: Number, required: false },
+    height: { type: Number, required: false },
+    aspectRatio: { type: Number, required: false },
+    variants: {
+      type: [{
+        _id: false,
+        url: { type: String, required: true },
+        format: { type: String, enum: ['avif', 'webp'], required: true },
+        width: { type: Number, required: true },
+        height: { type: Number, required: true }
+      }],
+      default: undefined
+    },
+    blurHash: { type: String, required: false },
+    dominantColor: { type: String, required: false },
+    perceptualHash: { type: String, required: false },
+    attribution: {
+      type: {
+        _id: false,
+        artist: { type: String },
+        credit: { type: String },
+        licenseShortName: { type: String },
+        licenseUrl: { type: String },
+        attributionRequired: { type: Boolean }
+      },
+      default: undefined
+    }
   }],
   stats: {
     averageScore: { type: Number, default: 0 },
     completions: { type: Number, default: 0 },
+    // Running totals behind averageScore; only scores that enter the histogram are counted
+    scoreSum: { type: Number, required: false },
+    scoreCount: { type: Number, required: false },
+    // Recently applied submission ids (capped) so a retried stats update isn't counted twice
+    appliedSubmissionIds: { type: [String], default: undefined, select: false },
     distributions: [{ // Raw score counts
       score: { type: Number, required: true },
       count: { type: Number, required: true }
@@ -92,8 +125,8 @@ const DailyChallengeSchema: Schema = new Schema({
 // Add this pre-save hook to ensure image URLs are properly formatted
 // Add this pre-save hook to ensure image URLs are properly formatted
 DailyChallengeSchema.pre<DailyChallengeDoc>('save', function(next) {
-  // Normalize image URLs
-  if (this.images && Array.isArray(this.images)) {
+  // Normalize image URLs (with the local driver, /uploads URLs are already served as-is)
+  if (this.images && Array.isArray(this.images) && getStorageDriver() !== 'local') {
     this.images = this.images.map((image: any) => {
       // Don't modify URLs that are already S3 URLs
       if (typeof image.url === 'string' && image.url.includes('amazonaws.com')) {
@@ -110,9 +143,9 @@ DailyChallengeSchema.pre<DailyChallengeDoc>('save', function(next) {
           filename = image.url.split('/').pop();
         }
         
-        // Format as S3 URL instead of local path
+        // Format as a storage URL instead of local path
         if (filename) {
-          image.url = `https://${process.env.AWS_S3_BUCKET_NAME}.s3.${process.env.AWS_REGION || 'us-east-1'}.amazonaws.com/${filename}`;
+          image.url = getImageStorage().legacyUrl(filename);
         }
       }
       return image;
@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A player's best freeplay run for one mode: any decade and category, one decade, or one category
+export interface IFreeplayScore extends Document {
+    playerId: string;
+    displayName: string | null; // Snapshot of the player's opt-in name; null shows as anonymous
+    decade: string | null;
+    category: string | null;
+    sessionId: string; // The FreeplaySession the best run came from
+    score: number;
+    roundsPlayed: number;
+    totalYearsOff: number;
+    submittedAt: Date;
+}
+
+const FreeplayScoreSchema: Schema = new Schema<IFreeplayScore>({
+    playerId: { type: String, required: true },
+    displayName: { type: String, default: null },
+    decade: { type: String, default: null },
+    category: { type: String, default: null },
+    sessionId: { type: String, required: true },
+    score: { type: Number, required: true },
+    roundsPlayed: { type: Number, required: true },
+    totalYearsOff: { type: Number, required: true },
+    submittedAt: { type: Date, required: true }
+}, { timestamps: true });
+
+FreeplayScoreSchema.index({ playerId: 1, decade: 1, category: 1 }, { unique: true });
+// Matches the ranking order: score desc, then fewest rounds, then earliest submission
+FreeplayScoreSchema.index({ decade: 1, category: 1, score: -1, roundsPlayed: 1, submittedAt: 1 });
+
+const FreeplayScore = mongoose.model<IFreeplayScore>('FreeplayScore', FreeplayScoreSchema);
+
+export default FreeplayScore;
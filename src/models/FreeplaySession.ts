@@ -0,0 +1,112 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ImageAttribution } from '../types/wikimedia';
+import { YearConfidence } from '../utils/yearExtraction';
+
+// Endless runs are short-lived; a run left idle this long is dropped
+const FREEPLAY_SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+// 'exhausted': a category run has no unseen photo left to serve
+export const FREEPLAY_END_REASONS = ['out-of-lives', 'round-limit', 'ended', 'exhausted'] as const;
+export type FreeplayEndReason = typeof FREEPLAY_END_REASONS[number];
+
+// The image being guessed. Kept server-side so the year never reaches the client before the guess
+export interface FreeplayImage {
+    filename: string;
+    title: string;
+    url: string;
+    source: string;
+    description?: string;
+    year: number;
+    yearConfidence?: YearConfidence;
+    attribution?: ImageAttribution;
+    servedAt: Date;
+}
+
+export interface FreeplayGuess {
+    roundIndex: number;
+    filename: string;
+    guessedYear: number;
+    actualYear: number;
+    yearsOff: number;
+    points: number;
+    correct: boolean;
+    lifeLost: boolean;
+    direction: 'higher' | 'lower' | null; // Where the answer lies relative to the guess
+    guessedAt: Date;
+}
+
+export interface IFreeplaySession extends Document {
+    playerId?: string; // Set when the run was started with a player token
+    decade: string | null; // DECADE_RANGES key ("1920-1939") the run is limited to, if any
+    category: string | null; // fileCategories entry the run is limited to, if any
+    status: 'active' | 'finished';
+    endReason?: FreeplayEndReason;
+    lives: number;
+    score: number;
+    streak: number;
+    bestStreak: number;
+    currentImage?: FreeplayImage; // Unset until the next image has been drawn
+    servedFilenames: string[]; // Every image served in this run, so none repeats
+    guesses: FreeplayGuess[];
+    finishedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const FreeplaySessionSchema: Schema = new Schema<IFreeplaySession>({
+    playerId: { type: String, required: false },
+    decade: { type: String, default: null },
+    category: { type: String, default: null },
+    status: { type: String, enum: ['active', 'finished'], default: 'active' },
+    endReason: { type: String, enum: FREEPLAY_END_REASONS, required: false },
+    lives: { type: Number, required: true },
+    score: { type: Number, default: 0 },
+    streak: { type: Number, default: 0 },
+    bestStreak: { type: Number, default: 0 },
+    currentImage: {
+        type: {
+            _id: false,
+            filename: { type: String, required: true },
+            title: { type: String, required: true },
+            url: { type: String, required: true },
+            source: { type: String, required: true },
+            description: { type: String, default: '' },
+            year: { type: Number, required: true },
+            yearConfidence: { type: String, enum: ['high', 'medium', 'low'] },
+            attribution: {
+                type: {
+                    _id: false,
+                    artist: { type: String },
+                    credit: { type: String },
+                    licenseShortName: { type: String },
+                    licenseUrl: { type: String },
+                    attributionRequired: { type: Boolean }
+                },
+                default: undefined
+            },
+            servedAt: { type: Date, default: Date.now }
+        },
+        default: undefined
+    },
+    servedFilenames: { type: [String], default: [] },
+    guesses: [{
+        _id: false,
+        roundIndex: { type: Number, required: true },
+        filename: { type: String, required: true },
+        guessedYear: { type: Number, required: true },
+        actualYear: { type: Number, required: true },
+        yearsOff: { type: Number, required: true },
+        points: { type: Number, required: true },
+        correct: { type: Boolean, required: true },
+        lifeLost: { type: Boolean, required: true },
+        direction: { type: String, enum: ['higher', 'lower'], default: null },
+        guessedAt: { type: Date, default: Date.now }
+    }],
+    finishedAt: { type: Date, required: false }
+}, { timestamps: true });
+
+FreeplaySessionSchema.index({ updatedAt: 1 }, { expireAfterSeconds: FREEPLAY_SESSION_TTL_SECONDS });
+
+const FreeplaySession = mongoose.model<IFreeplaySession>('FreeplaySession', FreeplaySessionSchema);
+
+export default FreeplaySession;
@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const MAX_GROUP_MEMBERS = 50;
+
+export interface GroupMember {
+    playerId: string;
+    joinedAt: Date;
+}
+
+export interface IGroup extends Document {
+    name: string;
+    inviteCode: string;
+    ownerPlayerId: string;
+    members: GroupMember[];
+}
+
+const GroupSchema: Schema = new Schema<IGroup>({
+    name: { type: String, required: true, trim: true },
+    inviteCode: { type: String, required: true, unique: true },
+    ownerPlayerId: { type: String, required: true },
+    members: [{
+        _id: false,
+        playerId: { type: String, required: true },
+        joinedAt: { type: Date, default: Date.now }
+    }]
+}, { timestamps: true });
+
+GroupSchema.index({ 'members.playerId': 1 });
+
+const Group = mongoose.model<IGroup>('Group', GroupSchema);
+
+export default Group;
@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ImageAttribution } from '../types/wikimedia';
+import { YearConfidence, YearRange, YearSource } from '../utils/yearExtraction';
+
+// Same lifetime the in-process cache used; Commons metadata rarely changes faster
+export const IMAGE_CACHE_TTL_SECONDS = 24 * 60 * 60;
+
+// A random Commons photo ready to serve from GET /api/images/, filed under a decade bucket
+export interface IImageCacheEntry extends Document {
+    decadeKey: string; // "<start>-<end>", e.g. "1920-1939"
+    filename: string;
+    title: string;
+    url: string;
+    source: string;
+    year: number;
+    yearConfidence?: YearConfidence;
+    yearSource?: YearSource; // extmetadata field the year was read from, or 'upload'
+    yearRange?: YearRange;   // Set when the source gave a span rather than one year
+    category?: string;
+    description?: string;
+    attribution?: ImageAttribution;
+    cachedAt: Date;
+}
+
+const ImageCacheEntrySchema = new Schema<IImageCacheEntry>({
+    decadeKey: { type: String, required: true },
+    filename: { type: String, required: true },
+    title: { type: String, required: true },
+    url: { type: String, required: true },
+    source: { type: String, required: true },
+    year: { type: Number, required: true },
+    yearConfidence: { type: String, enum: ['high', 'medium', 'low'] },
+    yearSource: { type: String },
+    yearRange: {
+        type: {
+            _id: false,
+            earliest: { type: Number, required: true },
+            latest: { type: Number, required: true }
+        },
+        default: undefined
+    },
+    category: { type: String },
+    description: { type: String, default: '' },
+    attribution: {
+        type: {
+            _id: false,
+            artist: { type: String },
+            credit: { type: String },
+            licenseShortName: { type: String },
+            licenseUrl: { type: String },
+            attributionRequired: { type: Boolean }
+        },
+        default: undefined
+    },
+    cachedAt: { type: Date, required: true, default: Date.now, expires: IMAGE_CACHE_TTL_SECONDS }
+});
+
+// One entry per file per bucket; re-fetching a file refreshes it instead of duplicating it
+ImageCacheEntrySchema.index({ decadeKey: 1, filename: 1 }, { unique: true });
+// Oldest-first trimming of a bucket
+ImageCacheEntrySchema.index({ decadeKey: 1, cachedAt: -1 });
+
+const ImageCacheEntry = mongoose.model<IImageCacheEntry>('ImageCacheEntry', ImageCacheEntrySchema);
+
+export default ImageCacheEntry;
@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const JOB_TYPES = ['processScoreDistribution', 'processRoundGuesses', 'emergencyArchive'] as const;
+export type JobType = typeof JOB_TYPES[number];
+
+export const JOB_STATUSES = ['pending', 'running', 'completed', 'failed'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+// Finished jobs are kept this long for the admin job list
+const FINISHED_JOB_TTL_SECONDS = 14 * 24 * 60 * 60;
+
+export interface JobPayload {
+    challengeDateString: string; // YYYY-MM-DD
+    challengeId: string;
+}
+
+export interface IJob extends Document {
+    type: JobType;
+    dedupeKey: string; // `${type}:${challengeDateString}`
+    payload: JobPayload;
+    status: JobStatus;
+    attempts: number;
+    maxAttempts: number;
+    runAt: Date;        // Not claimed before this time (debounce and retry backoff)
+    lockedAt?: Date;
+    lockedBy?: string;
+    lastError?: string;
+    finishedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const JobSchema = new Schema<IJob>({
+    type: { type: String, enum: JOB_TYPES, required: true },
+    dedupeKey: { type: String, required: true },
+    payload: {
+        challengeDateString: { type: String, required: true },
+        challengeId: { type: String, required: true }
+    },
+    status: { type: String, enum: JOB_STATUSES, default: 'pending', index: true },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 5 },
+    runAt: { type: Date, required: true },
+    lockedAt: { type: Date },
+    lockedBy: { type: String },
+    lastError: { type: String },
+    finishedAt: { type: Date, expires: FINISHED_JOB_TTL_SECONDS }
+}, { timestamps: true });
+
+// At most one pending job per type and challenge date; enqueuing again while one
+// is pending coalesces into it. A running job can still have one pending follow-up.
+JobSchema.index({ dedupeKey: 1 }, { unique: true, partialFilterExpression: { status: 'pending' } });
+// Claim order for the worker
+JobSchema.index({ status: 1, runAt: 1 });
+
+const Job = mongoose.model<IJob>('Job', JobSchema);
+
+export default Job;
@@ -0,0 +1,28 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILeaderboardEntry extends Document {
+    challengeDateString: string; // YYYY-MM-DD
+    playerId: string;
+    displayName: string | null; // Snapshot of the player's opt-in name; null shows as anonymous
+    score: number;
+    totalYearsOff: number;
+    submittedAt: Date;
+}
+
+const LeaderboardEntrySchema: Schema = new Schema<ILeaderboardEntry>({
+    challengeDateString: { type: String, required: true },
+    playerId: { type: String, required: true },
+    displayName: { type: String, default: null },
+    score: { type: Number, required: true },
+    totalYearsOff: { type: Number, required: true },
+    submittedAt: { type: Date, required: true }
+}, { timestamps: true });
+
+LeaderboardEntrySchema.index({ challengeDateString: 1, playerId: 1 }, { unique: true });
+// Matches the ranking order: score desc, then fewest years off, then earliest submission
+LeaderboardEntrySchema.index({ challengeDateString: 1, score: -1, totalYearsOff: 1, submittedAt: 1 });
+LeaderboardEntrySchema.index({ playerId: 1 });
+
+const LeaderboardEntry = mongoose.model<ILeaderboardEntry>('LeaderboardEntry', LeaderboardEntrySchema);
+
+export default LeaderboardEntry;
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Sessions only need to outlive a day's play plus late reveals; PlaySessionMarker
+// keeps the record that the player has played the date
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export type SessionStatus = 'active' | 'finished';
+
+export interface SessionGuess {
+    roundIndex: number;
+    guessedYear: number;
+    actualYear: number;
+    yearsOff: number;
+    points: number;
+    correct: boolean;
+    direction: 'higher' | 'lower' | null; // Where the answer lies relative to the guess
+    guessedAt: Date;
+}
+
+export interface IPlaySession extends Document {
+    challengeId: Types.ObjectId;
+    playerId: string; // The player who started the session; only they can play it
+    challengeDate: Date; // UTC midnight, matching RoundGuess.challengeDate
+    challengeDateString: string; // YYYY-MM-DD
+    totalRounds: number;
+    status: SessionStatus;
+    guesses: SessionGuess[];
+    score: number;
+    streak: number;
+    bestStreak: number;
+    finishedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const PlaySessionSchema: Schema = new Schema<IPlaySession>({
+    challengeId: { type: Schema.Types.ObjectId, ref: 'DailyChallenge', required: true, index: true },
+    playerId: { type: String, required: true },
+    challengeDate: { type: Date, required: true },
+    challengeDateString: { type: String, required: true },
+    totalRounds: { type: Number, required: true },
+    status: { type: String, enum: ['active', 'finished'], default: 'active' },
+    guesses: [{
+        _id: false,
+        roundIndex: { type: Number, required: true },
+        guessedYear: { type: Number, required: true },
+        actualYear: { type: Number, required: true },
+        yearsOff: { type: Number, required: true },
+        points: { type: Number, required: true },
+        correct: { type: Boolean, required: true },
+        direction: { type: String, enum: ['higher', 'lower'], default: null },
+        guessedAt: { type: Date, default: Date.now }
+    }],
+    score: { type: Number, default: 0 },
+    streak: { type: Number, default: 0 },
+    bestStreak: { type: Number, default: 0 },
+    finishedAt: { type: Date, required: false }
+}, { timestamps: true });
+
+PlaySessionSchema.index({ createdAt: 1 }, { expireAfterSeconds: SESSION_TTL_SECONDS });
+// One session per player per date, so answers revealed in one session can't be replayed in another.
+// The submit route also refuses dates the player has a session for
+PlaySessionSchema.index({ playerId: 1, challengeDateString: 1 }, { unique: true });
+
+const PlaySession = mongoose.model<IPlaySession>('PlaySession', PlaySessionSchema);
+
+export default PlaySession;
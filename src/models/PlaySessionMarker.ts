@@ -0,0 +1,24 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Permanent record that a player started a play session for a date. Sessions
+// expire, but the answers they revealed don't, so the submit route and session
+// start check this instead of relying on the session still existing.
+export interface IPlaySessionMarker extends Document {
+    playerId: string;
+    challengeDateString: string; // YYYY-MM-DD
+    sessionId: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const PlaySessionMarkerSchema: Schema = new Schema<IPlaySessionMarker>({
+    playerId: { type: String, required: true },
+    challengeDateString: { type: String, required: true },
+    sessionId: { type: Schema.Types.ObjectId, ref: 'PlaySession', required: true }
+}, { timestamps: true });
+
+PlaySessionMarkerSchema.index({ playerId: 1, challengeDateString: 1 }, { unique: true });
+
+const PlaySessionMarker = mongoose.model<IPlaySessionMarker>('PlaySessionMarker', PlaySessionMarkerSchema);
+
+export default PlaySessionMarker;
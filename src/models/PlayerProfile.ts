@@ -0,0 +1,15 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IPlayerProfile extends Document {
+    playerId: string;
+    displayName: string | null;
+}
+
+const PlayerProfileSchema: Schema = new Schema<IPlayerProfile>({
+    playerId: { type: String, required: true, unique: true },
+    displayName: { type: String, default: null }
+}, { timestamps: true });
+
+const PlayerProfile = mongoose.model<IPlayerProfile>('PlayerProfile', PlayerProfileSchema);
+
+export default PlayerProfile;
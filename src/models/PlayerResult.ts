@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { ScoredRound } from '../utils/scoring';
+
+export interface IPlayerResult extends Document {
+    playerId: string;
+    challengeDate: Date;
+    challengeDateString: string; // YYYY-MM-DD, the dedupe key alongside playerId
+    score: number;
+    rounds: ScoredRound[];
+    submittedAt: Date;
+    // Whether the score was added to the challenge's score histogram and average
+    // (submitted on the challenge day); unset on results recorded before this was tracked
+    includedInAggregates?: boolean;
+    // Set until the result has been applied to the challenge's stats, so a retried
+    // submission or session finish can complete a count that failed part-way
+    statsPending?: boolean;
+    sessionId?: Types.ObjectId; // The play session this result came from, if any
+}
+
+const PlayerResultSchema: Schema = new Schema<IPlayerResult>({
+    playerId: { type: String, required: true },
+    challengeDate: { type: Date, required: true },
+    challengeDateString: { type: String, required: true },
+    score: { type: Number, required: true },
+    rounds: [{
+        _id: false,
+        roundIndex: { type: Number, required: true },
+        guessedYear: { type: Number, required: true },
+        actualYear: { type: Number, required: true },
+        yearsOff: { type: Number, required: true },
+        points: { type: Number, required: true }
+    }],
+    submittedAt: { type: Date, default: Date.now },
+    includedInAggregates: { type: Boolean, required: false },
+    statsPending: { type: Boolean, required: false },
+    sessionId: { type: Schema.Types.ObjectId, ref: 'PlaySession', required: false }
+}, { timestamps: true });
+
+// One completion per player per challenge date
+PlayerResultSchema.index({ playerId: 1, challengeDateString: 1 }, { unique: true });
+
+const PlayerResult = mongoose.model<IPlayerResult>('PlayerResult', PlayerResultSchema);
+
+export default PlayerResult;
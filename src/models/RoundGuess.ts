@@ -4,12 +4,15 @@ interface IRoundGuess extends Document {
     challengeDate: Date;
     roundIndex: number;
     guessedYear: number;
+    restoredFromArchive?: boolean;
 }
 
 const RoundGuessSchema: Schema = new Schema<IRoundGuess>({
     challengeDate: { type: Date, required: true, index: true },
     roundIndex: { type: Number, required: true },
     guessedYear: { type: Number, required: true },
+    // Set on rows copied back from the S3 archive so the archiver doesn't archive them again
+    restoredFromArchive: { type: Boolean, required: false },
 }, { timestamps: true });
 
 const RoundGuess = mongoose.model<IRoundGuess>('RoundGuess', RoundGuessSchema);
@@ -0,0 +1,22 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One document per scheduled task. Holding the lease means this instance is
+// running the task; lastScheduledFor stops other instances from re-running
+// the same scheduled minute once the lease is released.
+export interface ISchedulerLock extends Document<string> {
+    _id: string;               // Task name
+    lockedBy?: string | null;
+    lockedUntil?: Date | null;
+    lastScheduledFor?: Date;
+}
+
+const SchedulerLockSchema = new Schema<ISchedulerLock>({
+    _id: { type: String, required: true },
+    lockedBy: { type: String, default: null },
+    lockedUntil: { type: Date, default: null },
+    lastScheduledFor: { type: Date }
+}, { timestamps: true });
+
+const SchedulerLock = mongoose.model<ISchedulerLock>('SchedulerLock', SchedulerLockSchema);
+
+export default SchedulerLock;
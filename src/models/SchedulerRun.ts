@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Run history is kept this long for the admin scheduler view
+const RUN_HISTORY_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+export type SchedulerRunStatus = 'running' | 'succeeded' | 'failed';
+export type SchedulerRunTrigger = 'schedule' | 'manual';
+
+export interface ISchedulerRun extends Document {
+    task: string;
+    trigger: SchedulerRunTrigger;
+    scheduledFor: Date;  // The scheduled minute (or request time for manual runs)
+    instance: string;    // host:pid that ran the task
+    status: SchedulerRunStatus;
+    startedAt: Date;
+    finishedAt?: Date;
+    durationMs?: number;
+    summary?: string;    // Optional result description returned by the task
+    error?: string;
+}
+
+const SchedulerRunSchema = new Schema<ISchedulerRun>({
+    task: { type: String, required: true },
+    trigger: { type: String, enum: ['schedule', 'manual'], required: true },
+    scheduledFor: { type: Date, required: true },
+    instance: { type: String, required: true },
+    status: { type: String, enum: ['running', 'succeeded', 'failed'], default: 'running' },
+    startedAt: { type: Date, required: true, expires: RUN_HISTORY_TTL_SECONDS },
+    finishedAt: { type: Date },
+    durationMs: { type: Number },
+    summary: { type: String },
+    error: { type: String }
+});
+
+SchedulerRunSchema.index({ task: 1, startedAt: -1 });
+
+const SchedulerRun = mongoose.model<ISchedulerRun>('SchedulerRun', SchedulerRunSchema);
+
+export default SchedulerRun;
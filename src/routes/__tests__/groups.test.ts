@@ -0,0 +1,170 @@
+process.env.PLAYER_TOKEN_SECRET = 'test-player-token-secret';
+
+import express from 'express';
+import request from 'supertest';
+import groupRoutes from '../groups';
+import { issuePlayerToken } from '../../utils/playerToken';
+import { MAX_GROUP_MEMBERS } from '../../models/Group';
+
+jest.mock('../../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+// Groups kept in memory, with the membership filters and updates the group routes use
+const mockGroups: any[] = [];
+function mockMatchesGroup(group: any, filter: any): boolean {
+    return Object.entries(filter).every(([key, condition]: [string, any]) => {
+        const memberIds = group.members.map((member: any) => member.playerId);
+        if (key === 'members.playerId') {
+            return condition?.$ne !== undefined ? !memberIds.includes(condition.$ne) : memberIds.includes(condition);
+        }
+        if (key.startsWith('members.')) {
+            return (group.members[Number(key.split('.')[1])] !== undefined) === condition.$exists;
+        }
+        if (key === 'members') return group.members.length === condition.$size;
+        return String(group[key]) === String(condition);
+    });
+}
+jest.mock('../../models/Group', () => {
+    const MAX_GROUP_MEMBERS = 50;
+    return {
+        __esModule: true,
+        MAX_GROUP_MEMBERS,
+        default: {
+            create: jest.fn(async (doc: any) => {
+                const group = { _id: String(mockGroups.length + 1).padStart(24, '0'), ...doc };
+                mockGroups.push(group);
+                return group;
+            }),
+            find: jest.fn((filter: any) => ({ sort: async () => mockGroups.filter(group => mockMatchesGroup(group, filter)) })),
+            findOne: jest.fn(async (filter: any) => mockGroups.find(group => mockMatchesGroup(group, filter)) || null),
+            findOneAndUpdate: jest.fn(async (filter: any, update: any) => {
+                const group = mockGroups.find(candidate => mockMatchesGroup(candidate, filter));
+                if (!group) return null;
+                if (update.$push) group.members.push(update.$push.members);
+                if (update.$pull) group.members = group.members.filter((member: any) => member.playerId !== update.$pull.members.playerId);
+                return group;
+            }),
+            updateOne: jest.fn(async (filter: any, update: any) => {
+                Object.assign(mockGroups.find(group => mockMatchesGroup(group, filter)), update.$set);
+            }),
+            deleteOne: jest.fn(async (filter: any) => {
+                const index = mockGroups.findIndex(group => mockMatchesGroup(group, filter));
+                if (index >= 0) mockGroups.splice(index, 1);
+            })
+        }
+    };
+});
+
+const mockEntries: any[] = [];
+jest.mock('../../models/LeaderboardEntry', () => ({
+    __esModule: true,
+    default: {
+        find: jest.fn((filter: any) => ({
+            sort: () => ({
+                lean: async () => mockEntries
+                    .filter(entry => entry.challengeDateString === filter.challengeDateString && filter.playerId.$in.includes(entry.playerId))
+                    .sort((a, b) => b.score - a.score)
+            })
+        }))
+    }
+}));
+jest.mock('../../models/PlayerProfile', () => ({
+    __esModule: true,
+    default: { find: jest.fn(() => ({ select: () => ({ lean: async () => [] }) })) }
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/groups', groupRoutes);
+
+async function createGroup(token: string) {
+    const res = await request(app).post('/api/groups').set('X-Player-Token', token).send({ name: 'Family' });
+    return res.body;
+}
+
+describe('group membership', () => {
+    beforeEach(() => {
+        mockGroups.length = 0;
+        mockEntries.length = 0;
+    });
+
+    it('makes the creator the owner and only member', async () => {
+        const owner = issuePlayerToken();
+
+        const group = await createGroup(owner.token);
+
+        expect(group).toMatchObject({ ownerPlayerId: owner.playerId, memberCount: 1 });
+        expect(group.inviteCode).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+    });
+
+    it('hides a group from players who are not members', async () => {
+        const group = await createGroup(issuePlayerToken().token);
+        const outsider = issuePlayerToken().token;
+
+        const details = await request(app).get(`/api/groups/${group.id}`).set('X-Player-Token', outsider);
+        const standings = await request(app).get(`/api/groups/${group.id}/standings/daily?date=2024-01-01`).set('X-Player-Token', outsider);
+        const leave = await request(app).post(`/api/groups/${group.id}/leave`).set('X-Player-Token', outsider);
+
+        expect(details.status).toBe(404);
+        expect(standings.status).toBe(404);
+        expect(leave.status).toBe(404);
+    });
+
+    it('joins by invite code, case-insensitively, and only once', async () => {
+        const group = await createGroup(issuePlayerToken().token);
+        const player = issuePlayerToken().token;
+
+        const joined = await request(app).post('/api/groups/join').set('X-Player-Token', player).send({ inviteCode: group.inviteCode.toLowerCase() });
+        const joinedAgain = await request(app).post('/api/groups/join').set('X-Player-Token', player).send({ inviteCode: group.inviteCode });
+        const details = await request(app).get(`/api/groups/${group.id}`).set('X-Player-Token', player);
+
+        expect(joined.body.memberCount).toBe(2);
+        expect(joinedAgain.status).toBe(200);
+        expect(joinedAgain.body.memberCount).toBe(2);
+        expect(details.status).toBe(200);
+    });
+
+    it('refuses to join a full group', async () => {
+        const group = await createGroup(issuePlayerToken().token);
+        const stored = mockGroups[0];
+        while (stored.members.length < MAX_GROUP_MEMBERS) {
+            stored.members.push({ playerId: `member-${stored.members.length}`, joinedAt: new Date() });
+        }
+
+        const res = await request(app).post('/api/groups/join').set('X-Player-Token', issuePlayerToken().token).send({ inviteCode: group.inviteCode });
+
+        expect(res.status).toBe(409);
+        expect(stored.members).toHaveLength(MAX_GROUP_MEMBERS);
+    });
+
+    it('passes ownership to the longest-standing member when the owner leaves, and deletes an empty group', async () => {
+        const owner = issuePlayerToken();
+        const group = await createGroup(owner.token);
+        const first = issuePlayerToken();
+        const second = issuePlayerToken();
+        mockGroups[0].members.push(
+            { playerId: second.playerId, joinedAt: new Date('2024-02-01T00:00:00Z') },
+            { playerId: first.playerId, joinedAt: new Date('2024-01-01T00:00:00Z') }
+        );
+
+        await request(app).post(`/api/groups/${group.id}/leave`).set('X-Player-Token', owner.token);
+        expect(mockGroups[0].ownerPlayerId).toBe(first.playerId);
+
+        await request(app).post(`/api/groups/${group.id}/leave`).set('X-Player-Token', first.token);
+        await request(app).post(`/api/groups/${group.id}/leave`).set('X-Player-Token', second.token);
+        expect(mockGroups).toHaveLength(0);
+    });
+
+    it('ranks only members in the daily standings', async () => {
+        const owner = issuePlayerToken();
+        const group = await createGroup(owner.token);
+        mockEntries.push(
+            { challengeDateString: '2024-01-01', playerId: owner.playerId, displayName: 'Owner', score: 3000, totalYearsOff: 40 },
+            { challengeDateString: '2024-01-01', playerId: 'not-a-member', displayName: 'Stranger', score: 5000, totalYearsOff: 0 }
+        );
+
+        const res = await request(app).get(`/api/groups/${group.id}/standings/daily?date=2024-01-01`).set('X-Player-Token', owner.token);
+
+        expect(res.body).toMatchObject({ played: 1, memberCount: 1 });
+        expect(res.body.standings).toEqual([expect.objectContaining({ rank: 1, displayName: 'Owner', isCaller: true })]);
+    });
+});
@@ -0,0 +1,99 @@
+process.env.PLAYER_TOKEN_SECRET = 'test-player-token-secret';
+
+import express from 'express';
+import request from 'supertest';
+import leaderboardRoutes from '../leaderboard';
+import { issuePlayerToken } from '../../utils/playerToken';
+
+jest.mock('../../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+// Entries kept in memory, with the query operators the leaderboard uses ($or, $gt, $lt, sort, skip, limit)
+const mockEntries: any[] = [];
+function mockMatches(entry: any, filter: any): boolean {
+    return Object.entries(filter).every(([key, condition]: [string, any]) => {
+        if (key === '$or') return condition.some((branch: any) => mockMatches(entry, branch));
+        if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+            if ('$gt' in condition) return entry[key] > condition.$gt;
+            if ('$lt' in condition) return entry[key] < condition.$lt;
+        }
+        return String(entry[key]) === String(condition);
+    });
+}
+jest.mock('../../models/LeaderboardEntry', () => ({
+    __esModule: true,
+    default: {
+        find: jest.fn((filter: any) => {
+            let results = mockEntries.filter(entry => mockMatches(entry, filter));
+            const query = {
+                sort: (spec: Record<string, 1 | -1>) => {
+                    results = [...results].sort((a, b) => {
+                        for (const [key, direction] of Object.entries(spec)) {
+                            if (a[key] < b[key]) return -direction;
+                            if (a[key] > b[key]) return direction;
+                        }
+                        return 0;
+                    });
+                    return query;
+                },
+                skip: (count: number) => { results = results.slice(count); return query; },
+                limit: (count: number) => { results = results.slice(0, count); return query; },
+                lean: async () => results
+            };
+            return query;
+        }),
+        findOne: jest.fn((filter: any) => ({ lean: async () => mockEntries.find(entry => mockMatches(entry, filter)) || null })),
+        countDocuments: jest.fn(async (filter: any) => mockEntries.filter(entry => mockMatches(entry, filter)).length)
+    }
+}));
+
+const app = express();
+app.use('/api/images/daily-challenge/leaderboard', leaderboardRoutes);
+
+const DATE = '2024-01-01';
+
+function addEntry(playerId: string, score: number, totalYearsOff: number, submittedAt: string, displayName: string | null = playerId) {
+    mockEntries.push({ challengeDateString: DATE, playerId, displayName, score, totalYearsOff, submittedAt: new Date(submittedAt) });
+}
+
+describe('GET /leaderboard', () => {
+    beforeEach(() => {
+        mockEntries.length = 0;
+        // Inserted out of order; ties on score are broken by years off, then by submission time
+        addEntry('late-tie', 4500, 30, '2024-01-01T15:00:00Z');
+        addEntry('winner', 4800, 10, '2024-01-01T18:00:00Z');
+        addEntry('fewer-years-off', 4500, 20, '2024-01-01T20:00:00Z');
+        addEntry('early-tie', 4500, 30, '2024-01-01T09:00:00Z');
+        addEntry('last', 1200, 200, '2024-01-01T08:00:00Z', null);
+    });
+
+    it('ranks by score, then fewest years off, then earliest submission', async () => {
+        const res = await request(app).get(`/api/images/daily-challenge/leaderboard?date=${DATE}`);
+
+        expect(res.status).toBe(200);
+        expect(res.body.entries.map((entry: any) => [entry.rank, entry.displayName])).toEqual([
+            [1, 'winner'],
+            [2, 'fewer-years-off'],
+            [3, 'early-tie'],
+            [4, 'late-tie'],
+            [5, 'Anonymous player']
+        ]);
+    });
+
+    it('continues ranks across pages', async () => {
+        const res = await request(app).get(`/api/images/daily-challenge/leaderboard?date=${DATE}&page=2&limit=2`);
+
+        expect(res.body.entries.map((entry: any) => [entry.rank, entry.displayName])).toEqual([[3, 'early-tie'], [4, 'late-tie']]);
+        expect(res.body).toMatchObject({ total: 5, totalPages: 3, currentPage: 2 });
+    });
+
+    it('gives the caller the same rank as their place in the list, even off the current page', async () => {
+        const { playerId, token } = issuePlayerToken();
+        addEntry(playerId, 4500, 30, '2024-01-01T12:00:00Z', 'caller');
+
+        const res = await request(app).get(`/api/images/daily-challenge/leaderboard?date=${DATE}&limit=2`).set('X-Player-Token', token);
+        const fullList = await request(app).get(`/api/images/daily-challenge/leaderboard?date=${DATE}`).set('X-Player-Token', token);
+
+        expect(res.body.me).toMatchObject({ rank: 4, displayName: 'caller' });
+        expect(fullList.body.entries.find((entry: any) => entry.isCaller)).toMatchObject({ rank: 4, displayName: 'caller' });
+    });
+});
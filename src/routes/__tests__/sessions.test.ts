@@ -0,0 +1,207 @@
+process.env.PLAYER_TOKEN_SECRET = 'test-player-token-secret';
+
+import express from 'express';
+import request from 'supertest';
+import sessionRoutes from '../sessions';
+import imagesRoutes from '../images';
+import { issuePlayerToken } from '../../utils/playerToken';
+import PlayerResult from '../../models/PlayerResult';
+import { applyPlayerResultToChallengeStats } from '../../utils/challengeStats';
+
+jest.mock('../../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+// Sessions kept in memory, with just the queries the session and submit routes make
+const mockSessions: any[] = [];
+jest.mock('../../models/PlaySession', () => ({
+    __esModule: true,
+    default: {
+        create: jest.fn(async (doc: any) => {
+            const session = { _id: String(mockSessions.length + 1).padStart(24, '0'), status: 'active', score: 0, streak: 0, bestStreak: 0, ...doc };
+            mockSessions.push(session);
+            return session;
+        }),
+        findById: jest.fn(async (id: string) => mockSessions.find(session => session._id === id) || null),
+        findOne: jest.fn(async (filter: any) => mockSessions.find(session =>
+            session.playerId === filter.playerId && session.challengeDateString === filter.challengeDateString) || null),
+        findOneAndUpdate: jest.fn(async () => null),
+        exists: jest.fn(async (filter: any) => mockSessions.some(session =>
+            session.playerId === filter.playerId && session.challengeDateString === filter.challengeDateString) || null)
+    }
+}));
+
+// Markers outlive the sessions they were written for
+const mockMarkers: any[] = [];
+jest.mock('../../models/PlaySessionMarker', () => ({
+    __esModule: true,
+    default: {
+        updateOne: jest.fn(async (filter: any, update: any) => {
+            if (!mockMarkers.some(marker => marker.playerId === filter.playerId && marker.challengeDateString === filter.challengeDateString)) {
+                mockMarkers.push(update.$setOnInsert);
+            }
+        }),
+        exists: jest.fn(async (filter: any) => mockMarkers.some(marker =>
+            marker.playerId === filter.playerId && marker.challengeDateString === filter.challengeDateString) || null)
+    }
+}));
+
+const mockChallenge = {
+    _id: '64a000000000000000000001',
+    date: new Date('2024-01-01T00:00:00.000Z'),
+    images: [1936, 1969, 1912, 1988, 1955].map(year => ({ url: `https://example.org/${year}.jpg`, title: String(year), source: 'Wikimedia Commons', year })),
+    stats: { averageScore: 0, completions: 1, distributions: [], processedDistribution: null }
+};
+jest.mock('../../models/DailyChallenge', () => ({
+    __esModule: true,
+    default: {
+        findOne: jest.fn(() => ({ select: async () => mockChallenge })),
+        findById: jest.fn(() => ({ select: async () => mockChallenge }))
+    }
+}));
+jest.mock('../../models/PlayerResult', () => ({
+    __esModule: true,
+    default: {
+        create: jest.fn(async (doc: any) => ({ _id: 'result-1', ...doc })),
+        findOne: jest.fn(async () => null),
+        findOneAndUpdate: jest.fn(async (filter: any, update: any) => ({ _id: 'result-1', ...update.$setOnInsert }))
+    }
+}));
+jest.mock('../../models/RoundGuess', () => ({ __esModule: true, default: { create: jest.fn(), insertMany: jest.fn() } }));
+jest.mock('../../models/LeaderboardEntry', () => ({ __esModule: true, default: { deleteOne: jest.fn() } }));
+jest.mock('../../utils/leaderboard', () => ({ recordLeaderboardEntry: jest.fn() }));
+jest.mock('../../utils/challengeStats', () => ({
+    ...jest.requireActual('../../utils/challengeStats'),
+    applyPlayerResultToChallengeStats: jest.fn(async () => ({ challenge: mockChallenge, applied: true })),
+    enqueueChallengeStatsJobs: jest.fn()
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/images/daily-challenge/session', sessionRoutes);
+app.use('/api/images', imagesRoutes);
+
+// A past date, so the submit route only counts the completion
+const CHALLENGE_DATE = '2024-01-01';
+const perfectGuesses = mockChallenge.images.map((image, roundIndex) => ({ roundIndex, guessedYear: image.year }));
+
+describe('play sessions and direct submission', () => {
+    beforeEach(() => {
+        mockSessions.length = 0;
+        mockMarkers.length = 0;
+        jest.clearAllMocks();
+    });
+
+    it('requires a player token to start a session', async () => {
+        const res = await request(app).post('/api/images/daily-challenge/session').send({ date: CHALLENGE_DATE });
+
+        expect(res.status).toBe(401);
+        expect(mockSessions).toHaveLength(0);
+    });
+
+    it('refuses a direct submission for a date the player has a session for', async () => {
+        const { playerId, token } = issuePlayerToken();
+        const started = await request(app).post('/api/images/daily-challenge/session').set('X-Player-Token', token).send({ date: CHALLENGE_DATE });
+        expect(started.status).toBe(201);
+        expect(mockSessions[0].playerId).toBe(playerId);
+
+        const res = await request(app).post('/api/images/daily-challenge/submit').set('X-Player-Token', token).send({ date: CHALLENGE_DATE, guesses: perfectGuesses });
+
+        expect(res.status).toBe(409);
+    });
+
+    it('refuses a direct submission and a new session once the player\'s session for the date has expired', async () => {
+        const { token } = issuePlayerToken();
+        await request(app).post('/api/images/daily-challenge/session').set('X-Player-Token', token).send({ date: CHALLENGE_DATE });
+        mockSessions.length = 0; // Removed by the TTL index
+
+        const submit = await request(app).post('/api/images/daily-challenge/submit').set('X-Player-Token', token).send({ date: CHALLENGE_DATE, guesses: perfectGuesses });
+        const restart = await request(app).post('/api/images/daily-challenge/session').set('X-Player-Token', token).send({ date: CHALLENGE_DATE });
+
+        expect(submit.status).toBe(409);
+        expect(restart.status).toBe(409);
+        expect(mockSessions).toHaveLength(0);
+    });
+
+    it('refuses to start a session for a challenge that has not gone live yet', async () => {
+        const { token } = issuePlayerToken();
+        // Two days ahead, so it is after today in New York whatever the UTC time
+        const future = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+        const res = await request(app).post('/api/images/daily-challenge/session').set('X-Player-Token', token).send({ date: future });
+
+        expect(res.status).toBe(404);
+        expect(mockSessions).toHaveLength(0);
+    });
+
+    it('resumes the player\'s existing session instead of starting a second one for the date', async () => {
+        const { token } = issuePlayerToken();
+        const first = await request(app).post('/api/images/daily-challenge/session').set('X-Player-Token', token).send({ date: CHALLENGE_DATE });
+        const second = await request(app).post('/api/images/daily-challenge/session').set('X-Player-Token', token).send({ date: CHALLENGE_DATE });
+
+        expect(first.status).toBe(201);
+        expect(second.status).toBe(200);
+        expect(second.body.sessionId).toBe(first.body.sessionId);
+        expect(mockSessions).toHaveLength(1);
+    });
+
+    it('refuses a direct submission without a player token', async () => {
+        const { token } = issuePlayerToken();
+        await request(app).post('/api/images/daily-challenge/session').set('X-Player-Token', token).send({ date: CHALLENGE_DATE });
+
+        const res = await request(app).post('/api/images/daily-challenge/submit').send({ date: CHALLENGE_DATE, guesses: perfectGuesses });
+
+        expect(res.status).toBe(401);
+    });
+
+    it('only lets the session\'s player play it', async () => {
+        const owner = issuePlayerToken();
+        const started = await request(app).post('/api/images/daily-challenge/session').set('X-Player-Token', owner.token).send({ date: CHALLENGE_DATE });
+        const sessionId = started.body.sessionId;
+
+        const guess = await request(app).post(`/api/images/daily-challenge/session/${sessionId}/guess`)
+            .set('X-Player-Token', issuePlayerToken().token).send({ guessedYear: 1936 });
+        const anonymousGuess = await request(app).post(`/api/images/daily-challenge/session/${sessionId}/guess`).send({ guessedYear: 1936 });
+        const reveal = await request(app).get(`/api/images/daily-challenge/session/${sessionId}/reveal/0`)
+            .set('X-Player-Token', issuePlayerToken().token);
+
+        expect(guess.status).toBe(403);
+        expect(anonymousGuess.status).toBe(401);
+        expect(reveal.status).toBe(403);
+    });
+
+    it('accepts a direct submission from a player without a session', async () => {
+        const { token } = issuePlayerToken();
+
+        const res = await request(app).post('/api/images/daily-challenge/submit').set('X-Player-Token', token).send({ date: CHALLENGE_DATE, guesses: perfectGuesses });
+
+        expect(res.status).toBe(200);
+        expect(res.body.rounds).toHaveLength(5);
+    });
+
+    it('applies the stats of a duplicate submission\'s original result when an earlier attempt failed before applying them', async () => {
+        const { playerId, token } = issuePlayerToken();
+        const originalResult = { _id: 'result-1', playerId, challengeDateString: CHALLENGE_DATE, score: 5000, statsPending: true, includedInAggregates: false };
+        (PlayerResult.create as jest.Mock).mockRejectedValueOnce({ code: 11000 });
+        (PlayerResult.findOne as jest.Mock).mockResolvedValueOnce(originalResult);
+
+        const res = await request(app).post('/api/images/daily-challenge/submit').set('X-Player-Token', token).send({ date: CHALLENGE_DATE, guesses: perfectGuesses });
+
+        expect(res.status).toBe(200);
+        expect(res.body.duplicate).toBe(true);
+        expect(applyPlayerResultToChallengeStats).toHaveBeenCalledWith(mockChallenge._id, originalResult);
+    });
+
+    it('counts a finish retried after the session was marked finished', async () => {
+        const { playerId, token } = issuePlayerToken();
+        const guesses = perfectGuesses.map(g => ({ ...g, actualYear: g.guessedYear, yearsOff: 0, points: 1000, correct: true, direction: null }));
+        mockSessions.push({
+            _id: '000000000000000000000001', challengeId: mockChallenge._id, playerId, challengeDate: mockChallenge.date,
+            challengeDateString: CHALLENGE_DATE, totalRounds: 5, status: 'finished', finishedAt: new Date(), guesses, score: 5000, streak: 5, bestStreak: 5
+        });
+
+        const res = await request(app).post('/api/images/daily-challenge/session/000000000000000000000001/finish').set('X-Player-Token', token);
+
+        expect(res.status).toBe(200);
+        expect(res.body.duplicate).toBeUndefined();
+        expect(applyPlayerResultToChallengeStats).toHaveBeenCalledWith(mockChallenge._id, expect.objectContaining({ sessionId: '000000000000000000000001', statsPending: true }));
+    });
+});
@@ -1,35 +1,39 @@
 // src/routes/admin.ts
 import express, { Request, Response, RequestHandler } from 'express';
+import mongoose from 'mongoose';
 import path from 'path';
 import DailyChallenge from '../models/DailyChallenge';
-import { fetchImageData, fetchMultipleImageData, extractFilenameFromUrl } from '../utils/wikimediaHelper';
+import { lookupImages, extractFilenameFromUrl, ImageLookupStatus } from '../utils/wikimediaHelper';
 import logger from '../utils/logger';
 import multer from 'multer'; 
 import fs from 'fs';
-import { PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import multerS3 from 'multer-s3';
-import s3Client, { s3BucketName } from '../utils/awsConfig';
 import { processAndStoreRoundGuessDistributions } from '../utils/distributionProcessor';
 import { archiveAndCleanupRoundGuesses } from '../scripts/archiveOldRoundGuesses';
-import { processAndStoreImageVariants, fetchImageFromUrl, deleteFromS3 } from '../utils/imageProcessor';
+import { processAndStoreImageVariants, fetchImageFromUrl, deleteImageVariants } from '../utils/imageProcessor';
+import { findDuplicateImageWarnings, DuplicateImageWarning } from '../utils/perceptualHash';
+import { getImageStorage } from '../utils/storage';
+import { validateImageLicense, getAttributionIssues, ALLOWED_LICENSE_FAMILIES } from '../utils/imageAttribution';
+import { getChallengeDateRange } from '../utils/challengeDates';
 import { v4 as uuidv4 } from 'uuid';
 import { WikimediaImage } from '../types/wikimedia';
+import Job, { JOB_STATUSES, JOB_TYPES } from '../models/Job';
+import SchedulerRun from '../models/SchedulerRun';
+import { getSchedulerStatus, getScheduledTask, startTaskRun } from '../utils/scheduler';
+import { listArchiveFiles, restoreArchivedRoundGuesses, removeRestoredRoundGuesses, ArchiveRestoreInputError } from '../utils/archiveRestore';
+import { reprocessDistributionsFromArchive, validateReprocessRequest } from '../utils/archiveReprocess';
+import CandidateImage, { CANDIDATE_STATUSES, CandidateStatus } from '../models/CandidateImage';
+import { reviewCandidates, promoteCandidate, CandidatePromotionError } from '../utils/candidateImages';
+import { getImageCache, getImageCacheMetrics, MAX_IMAGES_PER_DECADE } from '../utils/imageCache';
+import { DECADE_RANGES, IMAGE_CACHE_MIN_STOCK, getDecadeKey } from '../utils/randomImages';
 
-const storage = multerS3({
-  s3: s3Client,
-  bucket: s3BucketName,
-  contentType: multerS3.AUTO_CONTENT_TYPE,
-  metadata: function (req, file, cb) {
-    cb(null, { fieldName: file.fieldname });
-  },
-  key: function (req, file, cb) {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const ext = path.extname(file.originalname);
-    const filename = file.fieldname + '-' + uniqueSuffix + ext;
-    cb(null, filename);
-  }
-});
+// Uploads stay in memory; only the processed variants are written to storage
+const storage = multer.memoryStorage();
+
+// Object name stem (without extension) for the variants of an uploaded file
+function getUploadBaseIdentifier(file: Express.Multer.File): string {
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  return file.fieldname + '-' + uniqueSuffix;
+}
 
 // File filter to accept images and videos
 const fileFilter = (
@@ -75,22 +79,6 @@ const uploadWithErrorHandling = (req: Request, res: Response, next: Function) =>
   });
 };
 
-async function getS3Url(key: string): Promise<string> {
-  const command = new PutObjectCommand({
-    Bucket: s3BucketName,
-    Key: key
-  });
-  
-  try {
-    // This URL will be valid for 1 week (604800 seconds)
-    const url = await getSignedUrl(s3Client, command, { expiresIn: 604800 });
-    return url;
-  } catch (error) {
-    logger.error('Error generating S3 URL:', error);
-    return '';
-  }
-}
-
 const router = express.Router();
 
 // Admin authentication middleware - should be defined in this file or imported correctly
@@ -117,13 +105,120 @@ function normalizeImageUrl(url: string): string {
     // Extract the filename
     const parts = url.split('/');
     const filename = parts[parts.length - 1];
-    // Create S3 URL format
-    return `https://${s3BucketName}.s3.amazonaws.com/${filename}`;
+    return getImageStorage().legacyUrl(filename);
   }
   
   return url;
 }
 
+// Duplicate warnings never block a save; a failed check is logged and reported as none
+async function getDuplicateImageWarnings(challenge: { _id: unknown; date: Date; images: WikimediaImage[] }, newImageIndexes: number[]): Promise<DuplicateImageWarning[]> {
+  try {
+    return await findDuplicateImageWarnings({
+      id: String(challenge._id),
+      date: challenge.date.toISOString().split('T')[0],
+      images: challenge.images
+    }, newImageIndexes);
+  } catch (error) {
+    logger.error('[Admin] Duplicate image check failed:', error);
+    return [];
+  }
+}
+
+// An imagesOrder entry that was left out of a create/edit, and why
+interface ImageRejection {
+  url?: string;
+  filename?: string;
+  status: ImageLookupStatus | 'license-not-allowed' | 'download-failed' | 'processing-failed' | 'invalid-entry';
+  reason: string;
+}
+
+// Commons data for each new wikimedia entry of imagesOrder, fetched before any image is
+// processed so a disallowed license rejects the whole request without storing variants.
+// Entries whose lookup failed are returned in rejected rather than dropped silently.
+async function fetchWikimediaEntries(imagesOrder: any[]): Promise<{ wikimediaData: Map<any, WikimediaImage>; rejected: ImageRejection[] }> {
+  const wikimediaData = new Map<any, WikimediaImage>();
+  const rejected: ImageRejection[] = [];
+
+  const entries = imagesOrder.filter(imageInfo => imageInfo.type === 'wikimedia');
+  // The admin sets the year, so files without one in their metadata are still usable
+  const results = await lookupImages(entries.map(imageInfo => extractFilenameFromUrl(imageInfo.url) || ''), { requireYear: false });
+
+  entries.forEach((imageInfo, index) => {
+    const result = results[index];
+    if (!result.image) {
+      logger.warn(`Could not fetch Wikimedia data for URL: ${imageInfo.url} (${result.reason})`);
+      rejected.push({ url: imageInfo.url, filename: result.filename || undefined, status: result.status, reason: result.reason || result.status });
+      return;
+    }
+
+    const licenseError = validateImageLicense(result.image.attribution);
+    if (licenseError) {
+      rejected.push({ url: imageInfo.url, filename: result.image.filename, status: 'license-not-allowed', reason: licenseError });
+      return;
+    }
+    wikimediaData.set(imageInfo, result.image);
+  });
+  return { wikimediaData, rejected };
+}
+
+// imagesOrder entries that can't be processed at all, found before any image is processed
+// so allOrNothing can reject them together with the lookup failures. existingImageCount is
+// the edited challenge's image count; 'existing' entries are only valid when editing.
+function findInvalidEntries(imagesOrder: any[], uploadedFileCount: number, existingImageCount?: number): ImageRejection[] {
+  const rejected: ImageRejection[] = [];
+  for (const imageInfo of imagesOrder) {
+    if (imageInfo.type === 'wikimedia') continue;
+    if (imageInfo.type === 'upload') {
+      const uploadIndex = imageInfo.uploadIndex;
+      if (!(uploadIndex >= 0 && uploadIndex < uploadedFileCount)) {
+        logger.warn(`Invalid uploadIndex ${uploadIndex} for uploaded files.`);
+        rejected.push({ status: 'invalid-entry', reason: `Invalid uploadIndex ${uploadIndex}` });
+      }
+    } else if (imageInfo.type === 'existing' && existingImageCount !== undefined) {
+      const originalIndex = parseInt(imageInfo.originalIndex, 10);
+      if (isNaN(originalIndex) || originalIndex < 0 || originalIndex >= existingImageCount) {
+        logger.warn(`Invalid originalIndex (${imageInfo.originalIndex}) for an 'existing' image.`);
+        rejected.push({ filename: imageInfo.filename, status: 'invalid-entry', reason: `Invalid originalIndex ${imageInfo.originalIndex}` });
+      }
+    } else {
+      logger.warn(`Unknown image type: ${imageInfo.type}`);
+      rejected.push({ url: imageInfo.url, status: 'invalid-entry', reason: `Unknown image type: ${imageInfo.type}` });
+    }
+  }
+  return rejected;
+}
+
+function sendLicenseRejections(res: Response, licenseRejections: ImageRejection[]) {
+  res.status(400).json({
+    error: 'Some images have a license that is not allowed',
+    details: licenseRejections.map(rejection => `${rejection.filename || rejection.url}: ${rejection.reason}`).join('; '),
+    licenseRejections,
+    allowedLicenses: ALLOWED_LICENSE_FAMILIES
+  });
+}
+
+function sendAllOrNothingRejections(res: Response, rejected: ImageRejection[]) {
+  res.status(400).json({
+    error: 'Some images could not be used and allOrNothing is set',
+    rejected
+  });
+}
+
+// An image failed after others were already stored: with allOrNothing nothing is saved,
+// so their variants are deleted rather than left orphaned in storage
+async function abortAllOrNothing(res: Response, rejected: ImageRejection[], storedIdentifiers: string[]) {
+  for (const baseIdentifier of storedIdentifiers) {
+    await deleteImageVariants(baseIdentifier);
+  }
+  sendAllOrNothingRejections(res, rejected);
+}
+
+// Multipart forms send booleans as strings
+function parseFormBoolean(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
 // Add this to admin.ts
 router.get('/test-uploads', verifyAdmin, (req, res) => {
   const uploadsDir = path.join(__dirname, '../../uploads');
@@ -160,146 +255,124 @@ router.post('/test-admin-post', (req, res) => {
 /**
  * Create a daily challenge from Wikimedia URL(s)
  * POST /admin/daily-challenge/create
+ * Entries that can't be used are listed in `rejected`; with allOrNothing=true nothing is created if there are any.
+ * allOrNothing is decided from the lookups and entry checks before any image is processed; if a
+ * download or processing fails later, the variants already stored by the request are deleted.
  */
 router.post('/daily-challenge/create', verifyAdmin, upload.array('uploadedFiles', 5), (async (req, res) => {
   try {
     const { date, imagesOrder: imagesOrderStr, append: appendStr } = req.body;
     const appendImages = appendStr === 'true';
+    const allOrNothing = parseFormBoolean(req.body.allOrNothing);
 
     if (!date) {
-      // Clean up uploaded files if date is missing
-      if (req.files && Array.isArray(req.files)) {
-        logger.warn(`Date is missing, cleaning up ${req.files.length} S3 objects from initial upload.`);
-        for (const file of req.files as Express.MulterS3.File[]) {
-          if (file.key) { // Check if S3 key exists
-            await deleteFromS3(file.key); // Use your existing deleteFromS3 utility
-          }
-        }
-      }
       return res.status(400).json({ error: 'Date is required and cannot be empty.' });
     }
 
     const challengeDate = new Date(date);
 
     if (isNaN(challengeDate.getTime())) {
-      // Clean up uploaded files if date is invalid
-      if (req.files && Array.isArray(req.files)) {
-        logger.warn(`Invalid date, cleaning up ${req.files.length} S3 objects from initial upload.`);
-        for (const file of req.files as Express.MulterS3.File[]) {
-          if (file.key) { // Check if S3 key exists
-            await deleteFromS3(file.key); // Use your existing deleteFromS3 utility
-          }
-        }
-      }
       return res.status(400).json({ error: 'Invalid date received from client.' });
     }
 
     // Process images
     let imageData: WikimediaImage[] = [];
+    const rejected: ImageRejection[] = [];
     if (imagesOrderStr) {
       try {
         const imagesOrder = JSON.parse(imagesOrderStr);
-        const uploadedFiles = req.files as Express.MulterS3.File[] || [];
+        const uploadedFiles = req.files as Express.Multer.File[] || [];
+
+        const { wikimediaData: wikimediaEntries, rejected: lookupRejections } = await fetchWikimediaEntries(imagesOrder);
+        const licenseRejections = lookupRejections.filter(rejection => rejection.status === 'license-not-allowed');
+        if (licenseRejections.length > 0) {
+          return sendLicenseRejections(res, licenseRejections);
+        }
+        rejected.push(...lookupRejections, ...findInvalidEntries(imagesOrder, uploadedFiles.length));
+        if (allOrNothing && rejected.length > 0) {
+          return sendAllOrNothingRejections(res, rejected);
+        }
 
+        // Identifiers of images stored by this request, deleted again if allOrNothing aborts it
+        const storedIdentifiers: string[] = [];
         for (const imageInfo of imagesOrder) {
           let originalImageBuffer: Buffer | null = null;
-          let baseIdentifier: string = uuidv4(); // Used for S3 object naming (without extension)
-          let originalS3KeyOfUpload: string | undefined = undefined; // Full S3 key of original multer upload for deletion
+          let baseIdentifier: string = uuidv4(); // Used for storage object naming (without extension)
+          let attribution: WikimediaImage['attribution'];
 
           if (imageInfo.type === 'wikimedia') {
-            const wikimediaData = await fetchImageData(extractFilenameFromUrl(imageInfo.url) || '');
+            const wikimediaData = wikimediaEntries.get(imageInfo);
             if (wikimediaData && wikimediaData.url) {
+              attribution = wikimediaData.attribution;
               originalImageBuffer = await fetchImageFromUrl(wikimediaData.url);
+              if (!originalImageBuffer) {
+                rejected.push({ url: imageInfo.url, filename: wikimediaData.filename, status: 'download-failed', reason: `Could not download ${wikimediaData.url}` });
+                if (allOrNothing) {
+                  return abortAllOrNothing(res, rejected, storedIdentifiers);
+                }
+                continue;
+              }
               // baseIdentifier is already a new UUID for Wikimedia images
             } else {
-              logger.warn(`Could not fetch Wikimedia data for URL: ${imageInfo.url}`);
+              // Already reported by fetchWikimediaEntries
               continue; // Skip this image
             }
           } else if (imageInfo.type === 'upload') {
             const uploadIndex = imageInfo.uploadIndex;
             if (uploadIndex >= 0 && uploadIndex < uploadedFiles.length) {
-              const file = uploadedFiles[uploadIndex] as Express.MulterS3.File; // Ensure type cast
-              originalS3KeyOfUpload = file.key; // This is the full S3 key from multer-s3
-
-              const s3ObjectResponse = await s3Client.send(new GetObjectCommand({ Bucket: s3BucketName, Key: file.key }));
-              if (s3ObjectResponse.Body) {
-                originalImageBuffer = Buffer.from(await s3ObjectResponse.Body.transformToByteArray());
-                // Derive a baseIdentifier from the original S3 key (without extension or path)
-                const keyParts = file.key.split('/').pop()?.split('.') || [];
-                keyParts.pop(); // Remove extension
-                baseIdentifier = keyParts.join('.') || uuidv4(); // Fallback to UUID if stem is empty
-              } else {
-                logger.warn(`Failed to fetch uploaded file from S3: ${file.key}`);
-                continue; // Skip this image
-              }
+              const file = uploadedFiles[uploadIndex];
+              originalImageBuffer = file.buffer;
+              baseIdentifier = getUploadBaseIdentifier(file);
             } else {
-              logger.warn(`Invalid uploadIndex ${uploadIndex} for uploaded files.`);
+              // Already reported by findInvalidEntries
               continue; // Skip this image
             }
           } else {
-            logger.warn(`Unknown image type: ${imageInfo.type}`);
+            // Already reported by findInvalidEntries
             continue; // Skip this image
           }
 
           if (originalImageBuffer) {
             const processedInfo = await processAndStoreImageVariants(originalImageBuffer, baseIdentifier);
             logger.info('[AdminTS] ProcessedInfo from imageProcessor:', processedInfo);
-            if (processedInfo.cloudFrontUrl) {
+            storedIdentifiers.push(baseIdentifier);
+            if (processedInfo.imageUrl) {
               imageData.push({
-                filename: imageInfo.type === 'upload' ? (uploadedFiles[imageInfo.uploadIndex] as Express.MulterS3.File).originalname : (extractFilenameFromUrl(imageInfo.url) || baseIdentifier),
-                title: imageInfo.type === 'upload' ? (uploadedFiles[imageInfo.uploadIndex] as Express.MulterS3.File).originalname : (extractFilenameFromUrl(imageInfo.url) || baseIdentifier),
-                url: processedInfo.cloudFrontUrl, // Store the CloudFront URL for the .webp variant
+                filename: imageInfo.type === 'upload' ? uploadedFiles[imageInfo.uploadIndex].originalname : (extractFilenameFromUrl(imageInfo.url) || baseIdentifier),
+                title: imageInfo.type === 'upload' ? uploadedFiles[imageInfo.uploadIndex].originalname : (extractFilenameFromUrl(imageInfo.url) || baseIdentifier),
+                url: processedInfo.imageUrl, // Store the public URL of the .webp variant
                 year: parseInt(imageInfo.year) || new Date().getFullYear(),
                 source: imageInfo.type === 'upload' ? 'User Upload' : 'Wikimedia Commons',
                 description: imageInfo.description || '',
                 revealedDescription: imageInfo.revealedDescription || imageInfo.description || '',
                 s3BaseIdentifier: processedInfo.s3BaseIdentifier, // Store just the unique ID part
-                tinyBlurredPlaceholderUrl: processedInfo.tinyBlurredPlaceholderUrl ?? undefined
+                tinyBlurredPlaceholderUrl: processedInfo.tinyBlurredPlaceholderUrl ?? undefined,
+                width: processedInfo.width,
+                height: processedInfo.height,
+                aspectRatio: processedInfo.aspectRatio,
+                variants: processedInfo.variants,
+                blurHash: processedInfo.blurHash,
+                dominantColor: processedInfo.dominantColor,
+                perceptualHash: processedInfo.perceptualHash,
+                attribution
               });
-
-              // Delete the original file uploaded by multer-s3 if it's different from the variants and was an upload
-              if (imageInfo.type === 'upload' && originalS3KeyOfUpload) {
-                const originalExtension = originalS3KeyOfUpload.split('.').pop()?.toLowerCase();
-                if (originalExtension && !['webp', 'jpg', 'jpeg'].includes(originalExtension)) {
-                  await deleteFromS3(originalS3KeyOfUpload);
-                } else if (originalS3KeyOfUpload !== `game-images/${baseIdentifier}.${originalExtension}`) {
-                    // If original was already webp/jpg but not under game-images/ path or different base, delete it too
-                    // This logic might need refinement based on how multer-s3 names files vs. your baseIdentifier
-                    await deleteFromS3(originalS3KeyOfUpload);
-                }
-              }
             } else {
               logger.warn(`Failed to process variants for baseIdentifier: ${baseIdentifier}`);
+              rejected.push({ url: imageInfo.url, status: 'processing-failed', reason: 'Failed to process image variants' });
+              if (allOrNothing) {
+                return abortAllOrNothing(res, rejected, storedIdentifiers);
+              }
             }
           }
         }
       } catch (error) {
-        // Clean up uploaded files on error
-        if (req.files && Array.isArray(req.files)) {
-          logger.warn(`Invalid imagesOrder format, cleaning up ${req.files.length} S3 objects from initial upload.`);
-          for (const file of req.files as Express.MulterS3.File[]) {
-            if (file.key) { // Check if S3 key exists
-              await deleteFromS3(file.key); // Use your existing deleteFromS3 utility
-            }
-          }
-        }
         return res.status(400).json({ error: 'Invalid imagesOrder format.' });
       }
     }
 
     // Ensure we have some images
     if (imageData.length === 0) {
-      // If no images were successfully processed and added to imageData,
-      // clean up any files that were originally uploaded by multer-s3.
-      if (req.files && Array.isArray(req.files) && req.files.length > 0) {
-        logger.warn(`No valid image data was processed from inputs. Cleaning up ${req.files.length} initial S3 objects uploaded by multer-s3.`);
-        for (const file of req.files as Express.MulterS3.File[]) { // Cast to ensure 'key' property
-          if (file.key) {
-            await deleteFromS3(file.key);
-          }
-        }
-      }
-      return res.status(400).json({ error: 'No valid images provided or processed. All initial uploads have been cleaned up if applicable.' });
+      return res.status(400).json({ error: 'No valid images provided or processed.', rejected });
     }
 
     // Force create path for testing
@@ -329,7 +402,8 @@ router.post('/daily-challenge/create', verifyAdmin, upload.array('uploadedFiles'
           id: existingChallenge._id,
           date: existingChallenge.date,
           imageCount: existingChallenge.images.length
-        }
+        },
+        rejected
       });
     } else {
       // Create new challenge
@@ -341,6 +415,7 @@ router.post('/daily-challenge/create', verifyAdmin, upload.array('uploadedFiles'
       });
 
       await newChallenge.save();
+      const duplicateWarnings = await getDuplicateImageWarnings(newChallenge, imageData.map((_, index) => index));
 
       res.status(201).json({
         message: 'Daily challenge created successfully',
@@ -348,27 +423,13 @@ router.post('/daily-challenge/create', verifyAdmin, upload.array('uploadedFiles'
           id: newChallenge._id,
           date: newChallenge.date,
           imageCount: newChallenge.images.length
-        }
+        },
+        duplicateWarnings,
+        rejected
       });
     }
 
   } catch (error) {
-    // Clean up uploaded files on error
-    if (req.files && Array.isArray(req.files)) {
-      for (const file of req.files as Express.MulterS3.File[]) {
-        try {
-          if (file.key) {
-            await s3Client.send(new DeleteObjectCommand({
-              Bucket: s3BucketName,
-              Key: file.key
-            }));
-          }
-        } catch (deleteErr) {
-          logger.error(`Failed to delete file ${file.key || file.originalname} from S3:`, deleteErr);
-        }
-      }
-    }
-
     logger.error('Error creating daily challenge:', error);
     res.status(500).json({ error: 'Failed to create daily challenge' });
   }
@@ -401,11 +462,15 @@ router.get('/daily-challenges', verifyAdmin, async (req: Request, res: Response)
 /**
  * Edit a daily challenge
  * PUT /admin/daily-challenge/:id/edit
+ * Entries that can't be used are listed in `rejected`; with allOrNothing=true nothing is saved if there are any.
+ * allOrNothing is decided from the lookups and entry checks before any image is processed; if a
+ * download or processing fails later, the variants already stored by the request are deleted.
  */
 router.put('/daily-challenge/:id/edit', verifyAdmin, upload.array('uploadedFiles', 5), async (req, res) => {
   try {
     const { id } = req.params;
     const { date, imagesOrder: imagesOrderStr, isHardMode, source, creatorUserId, hints, facts, solutionText, articleSource } = req.body;
+    const allOrNothing = parseFormBoolean(req.body.allOrNothing);
     
     logger.info(`Editing challenge ${id}`);
     const uploadedFiles = req.files as Express.Multer.File[] || [];
@@ -430,12 +495,27 @@ router.put('/daily-challenge/:id/edit', verifyAdmin, upload.array('uploadedFiles
       }
     }
 
+    // Indexes in the new image list of images added by this edit, for the duplicate check
+    const newImageIndexes: number[] = [];
+    const rejected: ImageRejection[] = [];
+
     // Process image updates if provided
     if (imagesOrderStr) {
       const imagesOrder = JSON.parse(imagesOrderStr);
-      const uploadedFiles = req.files as Express.MulterS3.File[] || [];
       const newImageData: WikimediaImage[] = [];
 
+      const { wikimediaData: wikimediaEntries, rejected: lookupRejections } = await fetchWikimediaEntries(imagesOrder);
+      const licenseRejections = lookupRejections.filter(rejection => rejection.status === 'license-not-allowed');
+      if (licenseRejections.length > 0) {
+        return sendLicenseRejections(res, licenseRejections);
+      }
+      rejected.push(...lookupRejections, ...findInvalidEntries(imagesOrder, uploadedFiles.length, challenge.images.length));
+      if (allOrNothing && rejected.length > 0) {
+        return sendAllOrNothingRejections(res, rejected);
+      }
+      // Identifiers of images stored by this edit, deleted again if allOrNothing aborts it
+      const storedIdentifiers: string[] = [];
+
       logger.info(`[Admin Edit ${id}] Before loop - challenge.images:`, JSON.stringify(challenge.images));
       logger.info(`[Admin Edit ${id}] Before loop - incoming imagesOrder:`, JSON.stringify(imagesOrder));
 
@@ -456,79 +536,88 @@ router.put('/daily-challenge/:id/edit', verifyAdmin, upload.array('uploadedFiles
               url: existingImage.url, // CRITICAL: Preserve existing URL
               s3BaseIdentifier: existingImage.s3BaseIdentifier, // CRITICAL: Preserve existing s3BaseIdentifier
               tinyBlurredPlaceholderUrl: (existingImage.tinyBlurredPlaceholderUrl as string | null | undefined) ?? undefined, // Preserve if it exists
+              width: existingImage.width, // Preserve size and responsive variants
+              height: existingImage.height,
+              aspectRatio: existingImage.aspectRatio,
+              variants: existingImage.variants,
+              blurHash: existingImage.blurHash,
+              dominantColor: existingImage.dominantColor,
+              perceptualHash: existingImage.perceptualHash,
+              attribution: existingImage.attribution,
               year: imageInfo.year !== undefined ? parseInt(imageInfo.year) : existingImage.year, // Update year if provided
               source: existingImage.source, // Preserve original source
               description: imageInfo.description !== undefined ? imageInfo.description : existingImage.description,
               revealedDescription: imageInfo.revealedDescription !== undefined ? imageInfo.revealedDescription : existingImage.revealedDescription,
             });
-          } else {
-            logger.warn(`[Admin Edit ${id}] Invalid originalIndex (${imageInfo.originalIndex}) or image not found at that index for an 'existing' image.`);
-            // Decide how to handle: skip this image, or error out? Skipping for now.
           }
+          // Otherwise already reported by findInvalidEntries
         } else { // 'wikimedia' or 'upload' (new images)
           let originalImageBuffer: Buffer | null = null;
           let baseIdentifier: string = uuidv4();
-          let originalS3KeyOfUpload: string | undefined = undefined;
+          let attribution: WikimediaImage['attribution'];
 
           if (imageInfo.type === 'wikimedia') {
-            const wikimediaData = await fetchImageData(extractFilenameFromUrl(imageInfo.url) || '');
+            const wikimediaData = wikimediaEntries.get(imageInfo);
             if (wikimediaData && wikimediaData.url) {
+              attribution = wikimediaData.attribution;
               originalImageBuffer = await fetchImageFromUrl(wikimediaData.url);
+              if (!originalImageBuffer) {
+                rejected.push({ url: imageInfo.url, filename: wikimediaData.filename, status: 'download-failed', reason: `Could not download ${wikimediaData.url}` });
+                if (allOrNothing) {
+                  return abortAllOrNothing(res, rejected, storedIdentifiers);
+                }
+                continue;
+              }
             } else {
-              logger.warn(`Could not fetch Wikimedia data for URL: ${imageInfo.url}`);
+              // Already reported by fetchWikimediaEntries
               continue;
             }
           } else if (imageInfo.type === 'upload') {
             const uploadIndex = imageInfo.uploadIndex;
             if (uploadIndex >= 0 && uploadIndex < uploadedFiles.length) {
-              const file = uploadedFiles[uploadIndex] as Express.MulterS3.File;
-              originalS3KeyOfUpload = file.key;
-
-              const s3ObjectResponse = await s3Client.send(new GetObjectCommand({ Bucket: s3BucketName, Key: file.key }));
-              if (s3ObjectResponse.Body) {
-                originalImageBuffer = Buffer.from(await s3ObjectResponse.Body.transformToByteArray());
-                const keyParts = file.key.split('/').pop()?.split('.') || [];
-                keyParts.pop();
-                baseIdentifier = keyParts.join('.') || uuidv4();
-              } else {
-                logger.warn(`Failed to fetch uploaded file from S3: ${file.key}`);
-                continue;
-              }
+              const file = uploadedFiles[uploadIndex];
+              originalImageBuffer = file.buffer;
+              baseIdentifier = getUploadBaseIdentifier(file);
             } else {
-              logger.warn(`Invalid uploadIndex ${uploadIndex} for uploaded files.`);
+              // Already reported by findInvalidEntries
               continue;
             }
           } else {
-            logger.warn(`Unknown image type: ${imageInfo.type}`);
+            // Already reported by findInvalidEntries
             continue;
-          } 
+          }
 
           if (originalImageBuffer) {
             const processedInfo = await processAndStoreImageVariants(originalImageBuffer, baseIdentifier);
             logger.info('[AdminTS] ProcessedInfo from imageProcessor:', processedInfo);
-            if (processedInfo.cloudFrontUrl) {
+            storedIdentifiers.push(baseIdentifier);
+            if (processedInfo.imageUrl) {
+              newImageIndexes.push(newImageData.length);
               newImageData.push({
-                filename: imageInfo.type === 'upload' ? (uploadedFiles[imageInfo.uploadIndex] as Express.MulterS3.File).originalname : (extractFilenameFromUrl(imageInfo.url) || baseIdentifier),
-                title: imageInfo.type === 'upload' ? (uploadedFiles[imageInfo.uploadIndex] as Express.MulterS3.File).originalname : (extractFilenameFromUrl(imageInfo.url) || baseIdentifier),
-                url: processedInfo.cloudFrontUrl,
+                filename: imageInfo.type === 'upload' ? uploadedFiles[imageInfo.uploadIndex].originalname : (extractFilenameFromUrl(imageInfo.url) || baseIdentifier),
+                title: imageInfo.type === 'upload' ? uploadedFiles[imageInfo.uploadIndex].originalname : (extractFilenameFromUrl(imageInfo.url) || baseIdentifier),
+                url: processedInfo.imageUrl,
                 year: parseInt(imageInfo.year) || new Date().getFullYear(),
                 source: imageInfo.type === 'upload' ? 'User Upload' : 'Wikimedia Commons',
                 description: imageInfo.description || '',
                 revealedDescription: imageInfo.revealedDescription || imageInfo.description || '',
                 s3BaseIdentifier: processedInfo.s3BaseIdentifier,
-                tinyBlurredPlaceholderUrl: processedInfo.tinyBlurredPlaceholderUrl ?? undefined
+                tinyBlurredPlaceholderUrl: processedInfo.tinyBlurredPlaceholderUrl ?? undefined,
+                width: processedInfo.width,
+                height: processedInfo.height,
+                aspectRatio: processedInfo.aspectRatio,
+                variants: processedInfo.variants,
+                blurHash: processedInfo.blurHash,
+                dominantColor: processedInfo.dominantColor,
+                perceptualHash: processedInfo.perceptualHash,
+                attribution
               });
-
-              if (imageInfo.type === 'upload' && originalS3KeyOfUpload) {
-                 const originalExtension = originalS3KeyOfUpload.split('.').pop()?.toLowerCase();
-                if (originalExtension && !['webp', 'jpg', 'jpeg'].includes(originalExtension)) {
-                  await deleteFromS3(originalS3KeyOfUpload);
-                } else if (originalS3KeyOfUpload !== `game-images/${baseIdentifier}.${originalExtension}`) {
-                    await deleteFromS3(originalS3KeyOfUpload);
-                }
-              }
             } else {
               logger.warn(`Failed to process variants for new image with baseIdentifier: ${baseIdentifier}`);
+              rejected.push({ url: imageInfo.url, status: 'processing-failed', reason: 'Failed to process image variants' });
+              if (allOrNothing) {
+                return abortAllOrNothing(res, rejected, storedIdentifiers);
+              }
             }
           }
         }
@@ -542,6 +631,7 @@ router.put('/daily-challenge/:id/edit', verifyAdmin, upload.array('uploadedFiles
     await challenge.save();
     
     logger.info(`Challenge ${id} updated successfully with ${challenge.images.length} images`);
+    const duplicateWarnings = await getDuplicateImageWarnings(challenge, newImageIndexes);
     
     res.status(200).json({ 
       message: 'Challenge updated successfully',
@@ -549,28 +639,13 @@ router.put('/daily-challenge/:id/edit', verifyAdmin, upload.array('uploadedFiles
         id: challenge._id,
         date: challenge.date,
         imageCount: challenge.images.length
-      }
+      },
+      duplicateWarnings,
+      rejected
     });
   } catch (error) {
     logger.error('Error updating challenge:', error);
     
-    // Clean up uploaded files on error
-    if (req.files && Array.isArray(req.files)) {
-      for (const file of req.files as Express.MulterS3.File[]) {
-        try {
-          if (file.key) {  // Only try to delete if the file was actually uploaded to S3
-            await s3Client.send(new DeleteObjectCommand({
-              Bucket: s3BucketName,
-              Key: file.key
-            }));
-            logger.info(`Cleaned up S3 file: ${file.key}`);
-          }
-        } catch (deleteErr) {
-          logger.error(`Failed to delete file ${file.key} from S3:`, deleteErr);
-        }
-      }
-    }
-    
     res.status(500).json({ 
       error: 'Failed to update daily challenge',
       details: error instanceof Error ? error.message : 'Unknown error'
@@ -630,8 +705,12 @@ router.post('/trigger-archive-script', verifyAdmin, async (req: Request, res: Re
         // Call the function, passing true to indicate it's launched by the app
         // This will prevent it from managing the mongoose connection itself
         archiveAndCleanupRoundGuesses(true) // <<< PASS true HERE
-            .then(() => {
-                logger.info('[Admin Endpoint] archiveAndCleanupRoundGuesses finished processing (async).');
+            .then(result => {
+                if (result.failed.length > 0) {
+                    logger.error(`[Admin Endpoint] archiveAndCleanupRoundGuesses finished with ${result.failed.length} failed challenge(s): ${result.failed.map(f => f.challengeDateString).join(', ')}`);
+                } else {
+                    logger.info('[Admin Endpoint] archiveAndCleanupRoundGuesses finished processing (async).');
+                }
             })
             .catch(err => {
                 // This catch is for errors within the promise of archiveAndCleanupRoundGuesses
@@ -646,4 +725,496 @@ router.post('/trigger-archive-script', verifyAdmin, async (req: Request, res: Re
     }
 });
 
+/**
+ * GET /admin/jobs
+ * List background stats jobs, newest first, with per-status counts.
+ * Optional filters: status, type, date (YYYY-MM-DD). Paginated with page/limit.
+ */
+router.get('/jobs', verifyAdmin, (async (req: Request, res: Response) => {
+  try {
+    const { status, type, date } = req.query;
+    const filter: Record<string, any> = {};
+
+    if (status !== undefined) {
+      if (typeof status !== 'string' || !(JOB_STATUSES as readonly string[]).includes(status)) {
+        return res.status(400).json({ error: `status must be one of: ${JOB_STATUSES.join(', ')}` });
+      }
+      filter.status = status;
+    }
+    if (type !== undefined) {
+      if (typeof type !== 'string' || !(JOB_TYPES as readonly string[]).includes(type)) {
+        return res.status(400).json({ error: `type must be one of: ${JOB_TYPES.join(', ')}` });
+      }
+      filter.type = type;
+    }
+    if (date !== undefined) {
+      if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ error: 'Invalid date format. Please use YYYY-MM-DD.' });
+      }
+      filter['payload.challengeDateString'] = date;
+    }
+
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+    const [jobs, total, statusCounts] = await Promise.all([
+      Job.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+      Job.countDocuments(filter),
+      Job.aggregate<{ _id: string; count: number }>([{ $group: { _id: '$status', count: { $sum: 1 } } }])
+    ]);
+
+    res.status(200).json({
+      jobs,
+      counts: Object.fromEntries(JOB_STATUSES.map(s => [s, statusCounts.find(c => c._id === s)?.count || 0])),
+      total,
+      totalPages: Math.ceil(total / limit),
+      currentPage: page
+    });
+  } catch (error) {
+    logger.error('[Admin Jobs] Error listing jobs:', error);
+    res.status(500).json({ error: 'Failed to list jobs' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /admin/jobs/:id
+ * Fetch a single background job.
+ */
+router.get('/jobs/:id', verifyAdmin, (async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+    const job = await Job.findById(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.status(200).json(job);
+  } catch (error) {
+    logger.error('[Admin Jobs] Error fetching job:', error);
+    res.status(500).json({ error: 'Failed to fetch job' });
+  }
+}) as RequestHandler);
+
+/**
+ * POST /admin/jobs/:id/retry
+ * Requeue a permanently failed job with a fresh attempt budget.
+ */
+router.post('/jobs/:id/retry', verifyAdmin, (async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+    const job = await Job.findOneAndUpdate(
+      { _id: req.params.id, status: 'failed' },
+      { $set: { status: 'pending', attempts: 0, runAt: new Date() }, $unset: { finishedAt: '' } },
+      { new: true }
+    );
+    if (!job) {
+      return res.status(404).json({ error: 'No failed job found with this ID' });
+    }
+    logger.info(`[Admin Jobs] Requeued failed job ${job._id} (${job.dedupeKey}).`);
+    res.status(200).json(job);
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return res.status(409).json({ error: 'A pending job for the same type and date already exists' });
+    }
+    logger.error('[Admin Jobs] Error retrying job:', error);
+    res.status(500).json({ error: 'Failed to retry job' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /admin/scheduler
+ * Scheduled maintenance tasks with their schedule, next run, lock holder and last run.
+ */
+router.get('/scheduler', verifyAdmin, (async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await getSchedulerStatus());
+  } catch (error) {
+    logger.error('[Admin Scheduler] Error fetching scheduler status:', error);
+    res.status(500).json({ error: 'Failed to fetch scheduler status' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /admin/scheduler/runs
+ * Run history, newest first. Optional filters: task, status. Paginated with page/limit.
+ */
+router.get('/scheduler/runs', verifyAdmin, (async (req: Request, res: Response) => {
+  try {
+    const { task, status } = req.query;
+    const filter: Record<string, any> = {};
+    if (typeof task === 'string') {
+      filter.task = task;
+    }
+    if (status !== undefined) {
+      if (typeof status !== 'string' || !['running', 'succeeded', 'failed'].includes(status)) {
+        return res.status(400).json({ error: 'status must be one of: running, succeeded, failed' });
+      }
+      filter.status = status;
+    }
+
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+    const [runs, total] = await Promise.all([
+      SchedulerRun.find(filter).sort({ startedAt: -1 }).skip((page - 1) * limit).limit(limit),
+      SchedulerRun.countDocuments(filter)
+    ]);
+
+    res.status(200).json({ runs, total, totalPages: Math.ceil(total / limit), currentPage: page });
+  } catch (error) {
+    logger.error('[Admin Scheduler] Error listing runs:', error);
+    res.status(500).json({ error: 'Failed to list scheduler runs' });
+  }
+}) as RequestHandler);
+
+/**
+ * POST /admin/scheduler/tasks/:name/run
+ * Run a scheduled task now, under the same lock as scheduled runs.
+ * Responds once the run has started; poll the run history for the outcome.
+ */
+router.post('/scheduler/tasks/:name/run', verifyAdmin, (async (req: Request, res: Response) => {
+  try {
+    const task = getScheduledTask(req.params.name);
+    if (!task) {
+      return res.status(404).json({ error: `Unknown task: ${req.params.name}` });
+    }
+
+    const started = await startTaskRun(task, 'manual', new Date());
+    if (!started) {
+      return res.status(409).json({ error: `Task ${task.name} is already running` });
+    }
+
+    logger.info(`[Admin Scheduler] Manually started task ${task.name} (run ${started.run._id}).`);
+    res.status(202).json({ message: `Task ${task.name} started. Check the run history for the outcome.`, run: started.run });
+  } catch (error) {
+    logger.error('[Admin Scheduler] Error starting task:', error);
+    res.status(500).json({ error: 'Failed to start task' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /admin/archives/round-guesses/:date
+ * List the S3 archive files (initial, emergency and delta) for a challenge date.
+ */
+router.get('/archives/round-guesses/:date', verifyAdmin, (async (req: Request, res: Response) => {
+  const { date } = req.params;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({ error: 'Invalid date format. Please use YYYY-MM-DD.' });
+  }
+
+  try {
+    const files = await listArchiveFiles(date);
+    res.status(200).json({ date, files });
+  } catch (error: any) {
+    logger.error(`[Admin ArchiveRestore] Error listing archive files for ${date}:`, error);
+    res.status(500).json({ error: 'Failed to list archive files', details: error.message });
+  }
+}) as RequestHandler);
+
+/**
+ * POST /admin/archives/round-guesses/:date/restore
+ * Stream archived round guesses back into RoundGuess (or a scratch collection), skipping rows already present.
+ * Body: { target?: 'roundGuesses' | 'scratch', scratchName?: string, keys?: string[], recompute?: boolean }
+ */
+router.post('/archives/round-guesses/:date/restore', verifyAdmin, (async (req: Request, res: Response) => {
+  const { date } = req.params;
+  const { target, scratchName, keys, recompute } = req.body;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({ error: 'Invalid date format. Please use YYYY-MM-DD.' });
+  }
+  if (target !== undefined && target !== 'roundGuesses' && target !== 'scratch') {
+    return res.status(400).json({ error: "target must be 'roundGuesses' or 'scratch'" });
+  }
+  if (keys !== undefined && (!Array.isArray(keys) || !keys.every(key => typeof key === 'string'))) {
+    return res.status(400).json({ error: 'keys must be an array of archive file keys' });
+  }
+
+  try {
+    logger.info(`[Admin ArchiveRestore] Restoring archived round guesses for ${date} (target: ${target || 'roundGuesses'}, recompute: ${!!recompute}).`);
+    const result = await restoreArchivedRoundGuesses(date, {
+      target,
+      scratchName: typeof scratchName === 'string' ? scratchName : undefined,
+      keys,
+      recompute: recompute === true
+    });
+    res.status(200).json(result);
+  } catch (error: any) {
+    if (error instanceof ArchiveRestoreInputError) {
+      return res.status(400).json({ error: error.message });
+    }
+    logger.error(`[Admin ArchiveRestore] Error restoring archived round guesses for ${date}:`, error);
+    res.status(500).json({ error: 'Failed to restore archived round guesses', details: error.message });
+  }
+}) as RequestHandler);
+
+/**
+ * DELETE /admin/archives/round-guesses/:date/restored
+ * Remove rows a restore put back into RoundGuess for a date. Live rows are kept.
+ */
+router.delete('/archives/round-guesses/:date/restored', verifyAdmin, (async (req: Request, res: Response) => {
+  const { date } = req.params;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({ error: 'Invalid date format. Please use YYYY-MM-DD.' });
+  }
+
+  try {
+    const deletedCount = await removeRestoredRoundGuesses(date);
+    res.status(200).json({ date, deletedCount });
+  } catch (error: any) {
+    logger.error(`[Admin ArchiveRestore] Error removing restored round guesses for ${date}:`, error);
+    res.status(500).json({ error: 'Failed to remove restored round guesses' });
+  }
+}) as RequestHandler);
+
+/**
+ * POST /admin/archives/round-guesses/reprocess
+ * Rebuild round guess distributions for a date range straight from the S3 archives.
+ * Dry run by default: returns a per-date diff against the stored distributions.
+ * Body: { startDate, endDate, kde?: { bandwidthYears?, stepYears?, minYear?, maxYear?, roundCount? }, includeLiveRows?: boolean, confirm?: boolean }
+ */
+router.post('/archives/round-guesses/reprocess', verifyAdmin, (async (req: Request, res: Response) => {
+  const { startDate, endDate, kde, includeLiveRows, confirm } = req.body;
+
+  const validationError = validateReprocessRequest(startDate, endDate, kde);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const result = await reprocessDistributionsFromArchive(startDate, endDate, {
+      kde,
+      includeLiveRows: includeLiveRows !== false,
+      confirm: confirm === true
+    });
+    res.status(200).json(result);
+  } catch (error: any) {
+    logger.error(`[Admin ArchiveReprocess] Error reprocessing ${startDate}..${endDate}:`, error);
+    res.status(500).json({ error: 'Failed to reprocess archived round guesses', details: error.message });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /admin/candidates
+ * List candidate images from the fetcher pool, newest first, with per-status counts.
+ * Optional filters: status, category, minYear, maxYear. Paginated with page/limit.
+ */
+router.get('/candidates', verifyAdmin, (async (req: Request, res: Response) => {
+  try {
+    const { status, category, minYear, maxYear } = req.query;
+    const filter: Record<string, any> = {};
+
+    if (status !== undefined) {
+      if (typeof status !== 'string' || !(CANDIDATE_STATUSES as readonly string[]).includes(status)) {
+        return res.status(400).json({ error: `status must be one of: ${CANDIDATE_STATUSES.join(', ')}` });
+      }
+      filter.status = status;
+    }
+    if (typeof category === 'string' && category) {
+      filter.categories = category;
+    }
+    if (minYear !== undefined || maxYear !== undefined) {
+      filter.year = {};
+      if (minYear !== undefined) filter.year.$gte = parseInt(minYear as string, 10);
+      if (maxYear !== undefined) filter.year.$lte = parseInt(maxYear as string, 10);
+      if (Object.values(filter.year).some(value => isNaN(value as number))) {
+        return res.status(400).json({ error: 'minYear and maxYear must be integers' });
+      }
+    }
+
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+    const [candidates, total, statusCounts] = await Promise.all([
+      CandidateImage.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+      CandidateImage.countDocuments(filter),
+      CandidateImage.aggregate<{ _id: string; count: number }>([{ $group: { _id: '$status', count: { $sum: 1 } } }])
+    ]);
+
+    res.status(200).json({
+      candidates,
+      counts: Object.fromEntries(CANDIDATE_STATUSES.map(s => [s, statusCounts.find(c => c._id === s)?.count || 0])),
+      total,
+      totalPages: Math.ceil(total / limit),
+      currentPage: page
+    });
+  } catch (error) {
+    logger.error('[Admin Candidates] Error listing candidates:', error);
+    res.status(500).json({ error: 'Failed to list candidates' });
+  }
+}) as RequestHandler);
+
+/**
+ * POST /admin/candidates/review
+ * Bulk review: set status (and optionally reviewerNotes and a corrected year) for the given ids.
+ * Body: { ids: string[], status, reviewerNotes?, year? }
+ */
+router.post('/candidates/review', verifyAdmin, (async (req: Request, res: Response) => {
+  try {
+    const { ids, status, reviewerNotes, year } = req.body;
+
+    if (!Array.isArray(ids) || ids.length === 0 || ids.length > 500 || !ids.every(id => typeof id === 'string' && mongoose.Types.ObjectId.isValid(id))) {
+      return res.status(400).json({ error: 'ids must be an array of 1-500 candidate IDs' });
+    }
+    if (typeof status !== 'string' || !(CANDIDATE_STATUSES as readonly string[]).includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${CANDIDATE_STATUSES.join(', ')}` });
+    }
+    if (reviewerNotes !== undefined && typeof reviewerNotes !== 'string') {
+      return res.status(400).json({ error: 'reviewerNotes must be a string' });
+    }
+    if (year !== undefined && !Number.isInteger(year)) {
+      return res.status(400).json({ error: 'year must be an integer' });
+    }
+
+    const updated = await reviewCandidates(ids, status as CandidateStatus, { reviewerNotes, year });
+    res.status(200).json({ updated });
+  } catch (error) {
+    logger.error('[Admin Candidates] Error reviewing candidates:', error);
+    res.status(500).json({ error: 'Failed to review candidates' });
+  }
+}) as RequestHandler);
+
+/**
+ * POST /admin/candidates/:id/promote
+ * Process an approved candidate and add it as a round of the challenge on a future date
+ * (creating the challenge if there is none).
+ * Body: { date: YYYY-MM-DD, round?: 1-based position, year?, description?, revealedDescription? }
+ */
+router.post('/candidates/:id/promote', verifyAdmin, (async (req: Request, res: Response) => {
+  try {
+    const { date, round, year, description, revealedDescription } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid candidate ID' });
+    }
+    if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return res.status(400).json({ error: 'Invalid date format. Please use YYYY-MM-DD.' });
+    }
+    if (round !== undefined && (!Number.isInteger(round) || round < 1)) {
+      return res.status(400).json({ error: 'round must be a positive integer' });
+    }
+    if (year !== undefined && !Number.isInteger(year)) {
+      return res.status(400).json({ error: 'year must be an integer' });
+    }
+
+    const result = await promoteCandidate(req.params.id, { date, round, year, description, revealedDescription });
+    const duplicateWarnings = await getDuplicateImageWarnings(result.challenge, [result.round - 1]);
+
+    res.status(result.createdChallenge ? 201 : 200).json({
+      message: `Candidate added to ${date} as round ${result.round}`,
+      challenge: {
+        id: result.challenge._id,
+        date: result.challenge.date,
+        imageCount: result.challenge.images.length
+      },
+      round: result.round,
+      duplicateWarnings
+    });
+  } catch (error: any) {
+    if (error instanceof CandidatePromotionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('[Admin Candidates] Error promoting candidate:', error);
+    res.status(500).json({ error: 'Failed to promote candidate', details: error.message });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /admin/attribution-report
+ * Attribution and license of every image on challenges scheduled from a date onwards
+ * (today by default), with any compliance issues.
+ * Optional: from, to (YYYY-MM-DD, inclusive), issuesOnly=true
+ */
+router.get('/attribution-report', verifyAdmin, (async (req: Request, res: Response) => {
+  try {
+    const { from, to, issuesOnly } = req.query;
+    const fromRange = getChallengeDateRange(typeof from === 'string' ? from : undefined);
+    const toRange = typeof to === 'string' ? getChallengeDateRange(to) : null;
+    if (!fromRange || (to !== undefined && !toRange)) {
+      return res.status(400).json({ error: 'from and to must be dates in YYYY-MM-DD format' });
+    }
+
+    const dateFilter: Record<string, Date> = { $gte: new Date(`${fromRange.queryDateString}T00:00:00.000Z`) };
+    if (toRange) {
+      dateFilter.$lt = toRange.endDate;
+    }
+    const challenges = await DailyChallenge.find({ date: dateFilter })
+      .select('_id date active images.title images.filename images.source images.url images.attribution')
+      .sort({ date: 1 })
+      .lean();
+
+    const images = challenges.flatMap(challenge => challenge.images.map((image, index) => ({
+      challengeId: challenge._id,
+      date: challenge.date.toISOString().split('T')[0],
+      active: challenge.active,
+      round: index + 1,
+      title: image.title,
+      filename: image.filename,
+      source: image.source,
+      url: image.url,
+      attribution: image.attribution || null,
+      issues: getAttributionIssues(image)
+    })));
+    const reported = issuesOnly === 'true' ? images.filter(image => image.issues.length > 0) : images;
+
+    res.status(200).json({
+      from: fromRange.queryDateString,
+      to: toRange?.queryDateString || null,
+      allowedLicenses: ALLOWED_LICENSE_FAMILIES,
+      totalImages: images.length,
+      imagesWithIssues: images.filter(image => image.issues.length > 0).length,
+      images: reported
+    });
+  } catch (error) {
+    logger.error('[Admin Attribution] Error building attribution report:', error);
+    res.status(500).json({ error: 'Failed to build attribution report' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /admin/image-cache
+ * Stock of the random image cache per decade bucket, with this instance's hit/miss counts.
+ */
+router.get('/image-cache', verifyAdmin, (async (req: Request, res: Response) => {
+  try {
+    const cache = getImageCache();
+    const counts = await cache.counts();
+    res.status(200).json({
+      driver: cache.driver,
+      minStock: IMAGE_CACHE_MIN_STOCK,
+      maxPerDecade: MAX_IMAGES_PER_DECADE,
+      decades: DECADE_RANGES.map(range => {
+        const decadeKey = getDecadeKey(range);
+        return { decade: decadeKey, count: counts[decadeKey] || 0, belowMinStock: (counts[decadeKey] || 0) < IMAGE_CACHE_MIN_STOCK };
+      }),
+      metrics: getImageCacheMetrics()
+    });
+  } catch (error) {
+    logger.error('[Admin Image Cache] Error fetching image cache status:', error);
+    res.status(500).json({ error: 'Failed to fetch image cache status' });
+  }
+}) as RequestHandler);
+
+/**
+ * DELETE /admin/image-cache
+ * Empties the random image cache, or one bucket with ?decade=<start>-<end>.
+ */
+router.delete('/image-cache', verifyAdmin, (async (req: Request, res: Response) => {
+  try {
+    const { decade } = req.query;
+    if (decade !== undefined && !DECADE_RANGES.some(range => getDecadeKey(range) === decade)) {
+      return res.status(400).json({ error: `decade must be one of: ${DECADE_RANGES.map(getDecadeKey).join(', ')}` });
+    }
+    const removed = await getImageCache().clear(decade as string | undefined);
+    logger.info(`[Admin Image Cache] Cleared ${removed} image(s) from ${decade ? `bucket ${decade}` : 'all buckets'}.`);
+    res.status(200).json({ removed, decade: decade || null });
+  } catch (error) {
+    logger.error('[Admin Image Cache] Error clearing image cache:', error);
+    res.status(500).json({ error: 'Failed to clear image cache' });
+  }
+}) as RequestHandler);
+
 export default router;
@@ -0,0 +1,384 @@
+// src/routes/freeplay.ts
+import express, { Request, Response, RequestHandler } from 'express';
+import mongoose from 'mongoose';
+import FreeplaySession, { IFreeplaySession, FreeplayEndReason, FreeplayImage } from '../models/FreeplaySession';
+import FreeplayScore from '../models/FreeplayScore';
+import logger from '../utils/logger';
+import { getPlayerIdFromRequest } from '../utils/playerToken';
+import { createClientRateLimiter } from '../utils/rateLimits';
+import {
+  FREEPLAY_STARTING_LIVES,
+  FREEPLAY_MISS_YEARS,
+  FREEPLAY_MAX_ROUNDS,
+  FREEPLAY_LEADERBOARD_SORT,
+  validateFreeplayMode,
+  toCategoryTitle,
+  ensureCurrentImage,
+  scoreFreeplayGuess,
+  recordFreeplayScore,
+  getFreeplayRank
+} from '../utils/freeplay';
+
+const router = express.Router();
+
+const ANONYMOUS_DISPLAY_NAME = 'Anonymous player';
+
+// Starting a run and drawing each image query Commons, so runs, reads and guesses are capped per caller.
+// A run lasts at most FREEPLAY_MAX_ROUNDS guesses, each followed by one state fetch, so the
+// read and guess caps still allow a few full-length runs an hour
+const freeplayStartLimiter = createClientRateLimiter('freeplay session start', {
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 30,
+  message: 'Too many freeplay sessions started, please try again later'
+});
+const freeplayReadLimiter = createClientRateLimiter('freeplay session read', {
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 600,
+  message: 'Too many freeplay session requests, please try again later'
+});
+const freeplayGuessLimiter = createClientRateLimiter('freeplay guess', {
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 600,
+  message: 'Too many guesses, please try again later'
+});
+
+// Loads a session by the :sessionId param, responding 404 when it is missing or malformed
+async function findSession(req: Request, res: Response) {
+  const { sessionId } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+    res.status(404).json({ error: 'Freeplay session not found' });
+    return null;
+  }
+  const session = await FreeplaySession.findById(sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Freeplay session not found' });
+    return null;
+  }
+  return session;
+}
+
+// Runs started with a player token can only be played by that player; anonymous runs by
+// whoever holds the session ID. Responds 403 and returns false for anyone else
+function checkSessionOwner(req: Request, res: Response, session: IFreeplaySession): boolean {
+  if (!session.playerId || getPlayerIdFromRequest(req) === session.playerId) {
+    return true;
+  }
+  res.status(403).json({ error: 'This freeplay session belongs to another player' });
+  return false;
+}
+
+function parseRoundIndex(value: unknown): number | null {
+  const roundIndex = Number(value);
+  return Number.isInteger(roundIndex) && roundIndex >= 0 ? roundIndex : null;
+}
+
+// Commons descriptions often state the date, so only the title and file are sent before the guess.
+// Runs never draw images whose year was read from the title, so the title doesn't give it away
+function toPlayImage(image: FreeplayImage) {
+  return {
+    filename: image.filename,
+    title: image.title,
+    url: image.url,
+    source: image.source
+  };
+}
+
+// Client-facing view of a run, modelled on the daily session state
+function toFreeplayState(session: IFreeplaySession) {
+  return {
+    sessionId: session._id,
+    status: session.status,
+    endReason: session.endReason || null,
+    decade: session.decade,
+    category: session.category,
+    round: session.guesses.length,
+    maxRounds: FREEPLAY_MAX_ROUNDS,
+    lives: session.lives,
+    startingLives: FREEPLAY_STARTING_LIVES,
+    missYears: FREEPLAY_MISS_YEARS,
+    score: session.score,
+    streak: session.streak,
+    bestStreak: session.bestStreak,
+    correctGuesses: session.guesses.filter(g => g.correct).length,
+    guessHistory: session.guesses.map(g => ({ year: g.guessedYear, correct: g.correct, direction: g.direction, lifeLost: g.lifeLost })),
+    rounds: session.guesses,
+    image: session.status === 'active' && session.currentImage ? toPlayImage(session.currentImage) : null,
+    finishedAt: session.finishedAt
+  };
+}
+
+// Records a finished run on the board and summarises where the player's best now stands
+async function submitFinishedRun(session: IFreeplaySession) {
+  const personalBest = await recordFreeplayScore(session);
+  if (personalBest === null) return null;
+
+  const best = await FreeplayScore.findOne({ playerId: session.playerId, decade: session.decade, category: session.category }).lean();
+  return best
+    ? { personalBest, bestScore: best.score, rank: await getFreeplayRank(best) }
+    : null;
+}
+
+// Draws the next image of an active run. A category run with nothing unseen left ends
+// here instead, and goes on the board like any other finished run
+async function advanceRun(session: IFreeplaySession) {
+  const nextSession = await ensureCurrentImage(session);
+  const exhaustedNow = session.status === 'active' && nextSession.status === 'finished' && nextSession.endReason === 'exhausted';
+  const highScore = exhaustedNow && nextSession.guesses.length > 0 ? await submitFinishedRun(nextSession) : null;
+  return { session: nextSession, highScore };
+}
+
+/**
+ * POST /api/images/freeplay/session
+ * Start an endless run. Optional body: decade (a DECADE_RANGES key such as
+ * "1920-1939") and category (one of the photo categories). Each round serves
+ * an image not yet seen in the run; the run ends when the lives run out. An
+ * optional X-Player-Token puts the run on the freeplay board, and only that
+ * player can then guess or end it.
+ */
+router.post('/session', freeplayStartLimiter, (async (req: Request, res: Response) => {
+  try {
+    const playerId = getPlayerIdFromRequest(req);
+    if (playerId === null) {
+      return res.status(401).json({ error: 'Invalid player token' });
+    }
+
+    const { decade, category } = req.body;
+    const modeError = validateFreeplayMode(decade, category);
+    if (modeError) {
+      return res.status(400).json({ error: modeError });
+    }
+
+    const session = await FreeplaySession.create({
+      playerId,
+      decade: decade ?? null,
+      category: category ? toCategoryTitle(category) : null,
+      lives: FREEPLAY_STARTING_LIVES
+    });
+
+    const readySession = await ensureCurrentImage(session);
+    if (!readySession.currentImage) {
+      await FreeplaySession.deleteOne({ _id: session._id });
+      return res.status(503).json({ error: 'No images are available for this selection right now. Please try again later.' });
+    }
+
+    logger.info(`[Freeplay] Started session ${session._id} (decade: ${session.decade || 'any'}, category: ${session.category || 'any'})`);
+    res.status(201).json(toFreeplayState(readySession));
+  } catch (error) {
+    logger.error('[Freeplay] Error starting freeplay session:', error);
+    res.status(500).json({ error: 'Failed to start freeplay session' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /api/images/freeplay/leaderboard?decade=&category=&page=1&limit=25
+ * Best run per player for a mode (no decade or category by default): score,
+ * then fewest rounds, then earliest submission. Callers sending an
+ * X-Player-Token also get their own rank.
+ */
+router.get('/leaderboard', (async (req: Request, res: Response) => {
+  try {
+    const { decade, category } = req.query;
+    const modeError = validateFreeplayMode(decade, category);
+    if (modeError) {
+      return res.status(400).json({ error: modeError });
+    }
+
+    const playerId = getPlayerIdFromRequest(req);
+    if (playerId === null) {
+      return res.status(401).json({ error: 'Invalid player token' });
+    }
+
+    const pageNumber = Math.max(1, parseInt(req.query.page as string, 10) || 1);
+    const limitNumber = Math.min(100, Math.max(1, parseInt(req.query.limit as string, 10) || 25));
+    const filter = {
+      decade: (decade as string | undefined) ?? null,
+      category: category ? toCategoryTitle(category as string) : null
+    };
+
+    const [entries, total, ownEntry] = await Promise.all([
+      FreeplayScore.find(filter)
+        .sort(FREEPLAY_LEADERBOARD_SORT)
+        .skip((pageNumber - 1) * limitNumber)
+        .limit(limitNumber)
+        .lean(),
+      FreeplayScore.countDocuments(filter),
+      playerId ? FreeplayScore.findOne({ ...filter, playerId }).lean() : Promise.resolve(null)
+    ]);
+
+    res.status(200).json({
+      ...filter,
+      entries: entries.map((entry, index) => ({
+        rank: (pageNumber - 1) * limitNumber + index + 1,
+        displayName: entry.displayName || ANONYMOUS_DISPLAY_NAME,
+        score: entry.score,
+        roundsPlayed: entry.roundsPlayed,
+        totalYearsOff: entry.totalYearsOff,
+        submittedAt: entry.submittedAt,
+        ...(playerId && entry.playerId === playerId ? { isCaller: true } : {})
+      })),
+      total,
+      totalPages: Math.ceil(total / limitNumber),
+      currentPage: pageNumber,
+      me: ownEntry
+        ? {
+            rank: await getFreeplayRank(ownEntry),
+            displayName: ownEntry.displayName || ANONYMOUS_DISPLAY_NAME,
+            score: ownEntry.score,
+            roundsPlayed: ownEntry.roundsPlayed,
+            totalYearsOff: ownEntry.totalYearsOff,
+            submittedAt: ownEntry.submittedAt
+          }
+        : null
+    });
+  } catch (error) {
+    logger.error('[Freeplay] Error fetching freeplay leaderboard:', error);
+    res.status(500).json({ error: 'Failed to fetch freeplay leaderboard' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /api/images/freeplay/session/:sessionId
+ * Current state of a run. If no image could be drawn after the last guess,
+ * another attempt is made here; image stays null if that fails too. A category
+ * run with no unseen image left ends with endReason "exhausted".
+ */
+router.get('/session/:sessionId', freeplayReadLimiter, (async (req: Request, res: Response) => {
+  try {
+    const session = await findSession(req, res);
+    if (!session) return;
+
+    const { session: nextSession } = await advanceRun(session);
+    res.status(200).json(toFreeplayState(nextSession));
+  } catch (error) {
+    logger.error('[Freeplay] Error fetching freeplay session:', error);
+    res.status(500).json({ error: 'Failed to fetch freeplay session' });
+  }
+}) as RequestHandler);
+
+/**
+ * POST /api/images/freeplay/session/:sessionId/guess
+ * Guess the year of the current image. The guess is scored server-side; a
+ * guess more than FREEPLAY_MISS_YEARS off costs a life. Returns the result, the
+ * image's reveal and the next state (with the next image, or the final
+ * standing on the board when the run is over). Runs started with a player
+ * token need the same token.
+ */
+router.post('/session/:sessionId/guess', freeplayGuessLimiter, (async (req: Request, res: Response) => {
+  try {
+    const guessedYear = Number(req.body.guessedYear);
+    if (!Number.isInteger(guessedYear)) {
+      return res.status(400).json({ error: 'Required: integer guessedYear' });
+    }
+
+    const session = await findSession(req, res);
+    if (!session) return;
+    if (!checkSessionOwner(req, res, session)) return;
+
+    if (session.status !== 'active') {
+      return res.status(409).json({ error: 'This freeplay session is already finished' });
+    }
+
+    const roundIndex = session.guesses.length;
+    if (req.body.roundIndex !== undefined && parseRoundIndex(req.body.roundIndex) !== roundIndex) {
+      return res.status(409).json({ error: `Expected a guess for round ${roundIndex}`, expectedRoundIndex: roundIndex });
+    }
+
+    const image = session.currentImage;
+    if (!image) {
+      return res.status(409).json({ error: 'No image is ready for this round yet. Fetch the session to draw one.' });
+    }
+
+    const guess = scoreFreeplayGuess(image, guessedYear, roundIndex);
+    const lives = session.lives - (guess.lifeLost ? 1 : 0);
+    const streak = guess.correct ? session.streak + 1 : 0;
+    let endReason: FreeplayEndReason | undefined;
+    if (lives <= 0) {
+      endReason = 'out-of-lives';
+    } else if (roundIndex + 1 >= FREEPLAY_MAX_ROUNDS) {
+      endReason = 'round-limit';
+    }
+
+    // Conditional on the guess count and image so concurrent requests cannot score a round twice
+    const updatedSession = await FreeplaySession.findOneAndUpdate(
+      { _id: session._id, status: 'active', guesses: { $size: roundIndex }, 'currentImage.filename': image.filename },
+      {
+        $push: { guesses: guess },
+        $inc: { score: guess.points },
+        $unset: { currentImage: 1 },
+        $set: {
+          lives,
+          streak,
+          bestStreak: Math.max(session.bestStreak, streak),
+          ...(endReason ? { status: 'finished', endReason, finishedAt: new Date() } : {})
+        }
+      },
+      { new: true }
+    );
+
+    if (!updatedSession) {
+      return res.status(409).json({ error: `A guess has already been recorded for round ${roundIndex}` });
+    }
+
+    let nextSession: IFreeplaySession = updatedSession;
+    let highScore = null;
+    if (updatedSession.status === 'finished') {
+      highScore = await submitFinishedRun(updatedSession);
+      logger.info(`[Freeplay] Session ${session._id} ended (${endReason}) with score ${updatedSession.score} after ${updatedSession.guesses.length} round(s)`);
+    } else {
+      ({ session: nextSession, highScore } = await advanceRun(updatedSession));
+    }
+
+    res.status(201).json({
+      result: guess,
+      reveal: {
+        roundIndex,
+        year: image.year,
+        title: image.title,
+        description: image.description || '',
+        yearConfidence: image.yearConfidence || null,
+        attribution: image.attribution || null
+      },
+      state: toFreeplayState(nextSession),
+      highScore
+    });
+  } catch (error) {
+    logger.error('[Freeplay] Error recording freeplay guess:', error);
+    res.status(500).json({ error: 'Failed to record guess' });
+  }
+}) as RequestHandler);
+
+/**
+ * POST /api/images/freeplay/session/:sessionId/end
+ * End a run before the lives run out. The score so far counts for the board.
+ * Runs started with a player token need the same token.
+ */
+router.post('/session/:sessionId/end', (async (req: Request, res: Response) => {
+  try {
+    const session = await findSession(req, res);
+    if (!session) return;
+    if (!checkSessionOwner(req, res, session)) return;
+
+    const finishedSession = await FreeplaySession.findOneAndUpdate(
+      { _id: session._id, status: 'active' },
+      { $set: { status: 'finished', endReason: 'ended', finishedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!finishedSession) {
+      return res.status(409).json({ error: 'This freeplay session is already finished', score: session.score });
+    }
+
+    const highScore = finishedSession.guesses.length > 0 ? await submitFinishedRun(finishedSession) : null;
+    logger.info(`[Freeplay] Session ${session._id} ended by the player with score ${finishedSession.score} after ${finishedSession.guesses.length} round(s)`);
+
+    res.status(200).json({
+      state: toFreeplayState(finishedSession),
+      highScore
+    });
+  } catch (error) {
+    logger.error('[Freeplay] Error ending freeplay session:', error);
+    res.status(500).json({ error: 'Failed to end freeplay session' });
+  }
+}) as RequestHandler);
+
+export default router;
@@ -0,0 +1,344 @@
+// src/routes/groups.ts
+import express, { Request, Response, RequestHandler } from 'express';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Group, { IGroup, MAX_GROUP_MEMBERS } from '../models/Group';
+import LeaderboardEntry from '../models/LeaderboardEntry';
+import PlayerProfile from '../models/PlayerProfile';
+import logger from '../utils/logger';
+import { requirePlayer } from '../utils/playerToken';
+import { getChallengeDateRange } from '../utils/challengeDates';
+import { LEADERBOARD_SORT } from '../utils/leaderboard';
+import { containsProfanity } from '../utils/profanityFilter';
+import { processDistributionData, computeScoreStanding } from '../utils/scoreDistribution';
+
+const router = express.Router();
+
+// No 0/O/1/I so codes survive being read aloud or retyped
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+const GROUP_NAME_MAX_LENGTH = 40;
+const ANONYMOUS_DISPLAY_NAME = 'Anonymous player';
+
+router.use(requirePlayer);
+
+function generateInviteCode(): string {
+  const bytes = crypto.randomBytes(INVITE_CODE_LENGTH);
+  return Array.from(bytes, byte => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length]).join('');
+}
+
+function toGroupSummary(group: IGroup) {
+  return {
+    id: group._id,
+    name: group.name,
+    inviteCode: group.inviteCode,
+    ownerPlayerId: group.ownerPlayerId,
+    memberCount: group.members.length
+  };
+}
+
+// Loads a group the caller belongs to, responding 404 otherwise (non-members can't probe group IDs)
+async function findMemberGroup(req: Request, res: Response) {
+  const { groupId } = req.params;
+  const playerId = res.locals.playerId as string;
+  if (!mongoose.Types.ObjectId.isValid(groupId)) {
+    res.status(404).json({ error: 'Group not found' });
+    return null;
+  }
+  const group = await Group.findOne({ _id: groupId, 'members.playerId': playerId });
+  if (!group) {
+    res.status(404).json({ error: 'Group not found' });
+    return null;
+  }
+  return group;
+}
+
+async function getDisplayNames(playerIds: string[]): Promise<Map<string, string | null>> {
+  const profiles = await PlayerProfile.find({ playerId: { $in: playerIds } }).select('playerId displayName').lean();
+  return new Map(profiles.map(profile => [profile.playerId, profile.displayName]));
+}
+
+/**
+ * POST /api/groups
+ * Create a group; the creator becomes its owner and first member.
+ */
+router.post('/', (async (req: Request, res: Response) => {
+  try {
+    const playerId = res.locals.playerId as string;
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    if (!name || name.length > GROUP_NAME_MAX_LENGTH) {
+      return res.status(400).json({ error: `Group name is required and must be at most ${GROUP_NAME_MAX_LENGTH} characters` });
+    }
+    if (containsProfanity(name)) {
+      return res.status(400).json({ error: 'Group name is not allowed' });
+    }
+
+    // Retry on the (unlikely) invite code collision
+    for (let attempt = 0; attempt < 3; attempt++) {
+      try {
+        const group = await Group.create({
+          name,
+          inviteCode: generateInviteCode(),
+          ownerPlayerId: playerId,
+          members: [{ playerId, joinedAt: new Date() }]
+        });
+        logger.info(`[Groups] Player ${playerId} created group ${group._id}`);
+        return res.status(201).json(toGroupSummary(group));
+      } catch (error: any) {
+        if (error?.code !== 11000) throw error;
+      }
+    }
+    res.status(500).json({ error: 'Failed to generate a unique invite code' });
+  } catch (error) {
+    logger.error('[Groups] Error creating group:', error);
+    res.status(500).json({ error: 'Failed to create group' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /api/groups
+ * Groups the caller belongs to.
+ */
+router.get('/', (async (req: Request, res: Response) => {
+  try {
+    const groups = await Group.find({ 'members.playerId': res.locals.playerId }).sort({ createdAt: 1 });
+    res.status(200).json({ groups: groups.map(toGroupSummary) });
+  } catch (error) {
+    logger.error('[Groups] Error listing groups:', error);
+    res.status(500).json({ error: 'Failed to list groups' });
+  }
+}) as RequestHandler);
+
+/**
+ * POST /api/groups/join
+ * Join a group by invite code.
+ */
+router.post('/join', (async (req: Request, res: Response) => {
+  try {
+    const playerId = res.locals.playerId as string;
+    const inviteCode = typeof req.body.inviteCode === 'string' ? req.body.inviteCode.trim().toUpperCase() : '';
+    if (!inviteCode) {
+      return res.status(400).json({ error: 'inviteCode is required' });
+    }
+
+    const group = await Group.findOne({ inviteCode });
+    if (!group) {
+      return res.status(404).json({ error: 'No group found for this invite code' });
+    }
+    if (group.members.some(member => member.playerId === playerId)) {
+      return res.status(200).json(toGroupSummary(group));
+    }
+
+    // Conditional on size and membership so concurrent joins can't overfill or duplicate
+    const joinedGroup = await Group.findOneAndUpdate(
+      {
+        _id: group._id,
+        'members.playerId': { $ne: playerId },
+        [`members.${MAX_GROUP_MEMBERS - 1}`]: { $exists: false }
+      },
+      { $push: { members: { playerId, joinedAt: new Date() } } },
+      { new: true }
+    );
+    if (!joinedGroup) {
+      return res.status(409).json({ error: `This group is full (${MAX_GROUP_MEMBERS} members)` });
+    }
+
+    logger.info(`[Groups] Player ${playerId} joined group ${group._id}`);
+    res.status(200).json(toGroupSummary(joinedGroup));
+  } catch (error) {
+    logger.error('[Groups] Error joining group:', error);
+    res.status(500).json({ error: 'Failed to join group' });
+  }
+}) as RequestHandler);
+
+/**
+ * POST /api/groups/:groupId/leave
+ * Leave a group. Ownership passes to the longest-standing member; an empty group is deleted.
+ */
+router.post('/:groupId/leave', (async (req: Request, res: Response) => {
+  try {
+    const playerId = res.locals.playerId as string;
+    const group = await findMemberGroup(req, res);
+    if (!group) return;
+
+    const updatedGroup = await Group.findOneAndUpdate(
+      { _id: group._id },
+      { $pull: { members: { playerId } } },
+      { new: true }
+    );
+
+    if (!updatedGroup || updatedGroup.members.length === 0) {
+      await Group.deleteOne({ _id: group._id, members: { $size: 0 } });
+      logger.info(`[Groups] Group ${group._id} deleted after its last member left`);
+    } else if (updatedGroup.ownerPlayerId === playerId) {
+      const nextOwner = [...updatedGroup.members].sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime())[0];
+      await Group.updateOne({ _id: group._id }, { $set: { ownerPlayerId: nextOwner.playerId } });
+      logger.info(`[Groups] Ownership of group ${group._id} passed to ${nextOwner.playerId}`);
+    }
+
+    res.status(200).json({ message: 'Left group' });
+  } catch (error) {
+    logger.error('[Groups] Error leaving group:', error);
+    res.status(500).json({ error: 'Failed to leave group' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /api/groups/:groupId
+ * Group details and members.
+ */
+router.get('/:groupId', (async (req: Request, res: Response) => {
+  try {
+    const group = await findMemberGroup(req, res);
+    if (!group) return;
+
+    const displayNames = await getDisplayNames(group.members.map(member => member.playerId));
+    res.status(200).json({
+      ...toGroupSummary(group),
+      members: group.members.map(member => ({
+        displayName: displayNames.get(member.playerId) || ANONYMOUS_DISPLAY_NAME,
+        joinedAt: member.joinedAt,
+        isOwner: member.playerId === group.ownerPlayerId,
+        ...(member.playerId === res.locals.playerId ? { isCaller: true } : {})
+      }))
+    });
+  } catch (error) {
+    logger.error('[Groups] Error fetching group:', error);
+    res.status(500).json({ error: 'Failed to fetch group' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /api/groups/:groupId/standings/daily?date=YYYY-MM-DD
+ * Members' results for one day, ranked like the global leaderboard.
+ */
+router.get('/:groupId/standings/daily', (async (req: Request, res: Response) => {
+  try {
+    const group = await findMemberGroup(req, res);
+    if (!group) return;
+
+    const range = getChallengeDateRange(req.query.date as string | undefined);
+    if (!range) {
+      return res.status(400).json({ error: 'Invalid date format. Use YYYY-MM-DD' });
+    }
+
+    const memberIds = group.members.map(member => member.playerId);
+    const entries = await LeaderboardEntry.find({
+      challengeDateString: range.queryDateString,
+      playerId: { $in: memberIds }
+    }).sort(LEADERBOARD_SORT).lean();
+
+    res.status(200).json({
+      groupId: group._id,
+      date: range.queryDateString,
+      played: entries.length,
+      memberCount: memberIds.length,
+      standings: entries.map((entry, index) => ({
+        rank: index + 1,
+        displayName: entry.displayName || ANONYMOUS_DISPLAY_NAME,
+        score: entry.score,
+        totalYearsOff: entry.totalYearsOff,
+        submittedAt: entry.submittedAt,
+        ...(entry.playerId === res.locals.playerId ? { isCaller: true } : {})
+      }))
+    });
+  } catch (error) {
+    logger.error('[Groups] Error fetching daily standings:', error);
+    res.status(500).json({ error: 'Failed to fetch daily standings' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /api/groups/:groupId/standings/all-time
+ * Members ranked by total score across every challenge they have played,
+ * then by average score.
+ */
+router.get('/:groupId/standings/all-time', (async (req: Request, res: Response) => {
+  try {
+    const group = await findMemberGroup(req, res);
+    if (!group) return;
+
+    const memberIds = group.members.map(member => member.playerId);
+    const totals = await LeaderboardEntry.aggregate<{
+      _id: string; totalScore: number; gamesPlayed: number; averageScore: number; bestScore: number;
+    }>([
+      { $match: { playerId: { $in: memberIds } } },
+      {
+        $group: {
+          _id: '$playerId',
+          totalScore: { $sum: '$score' },
+          gamesPlayed: { $sum: 1 },
+          averageScore: { $avg: '$score' },
+          bestScore: { $max: '$score' }
+        }
+      },
+      { $sort: { totalScore: -1, averageScore: -1 } }
+    ]);
+
+    const displayNames = await getDisplayNames(memberIds);
+    res.status(200).json({
+      groupId: group._id,
+      standings: totals.map((total, index) => ({
+        rank: index + 1,
+        displayName: displayNames.get(total._id) || ANONYMOUS_DISPLAY_NAME,
+        totalScore: total.totalScore,
+        gamesPlayed: total.gamesPlayed,
+        averageScore: Math.round(total.averageScore),
+        bestScore: total.bestScore,
+        ...(total._id === res.locals.playerId ? { isCaller: true } : {})
+      }))
+    });
+  } catch (error) {
+    logger.error('[Groups] Error fetching all-time standings:', error);
+    res.status(500).json({ error: 'Failed to fetch all-time standings' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /api/groups/:groupId/distribution?date=YYYY-MM-DD
+ * Group version of /api/images/daily-challenge/distribution, built from members'
+ * scores, plus the caller's standing within the group.
+ */
+router.get('/:groupId/distribution', (async (req: Request, res: Response) => {
+  try {
+    const group = await findMemberGroup(req, res);
+    if (!group) return;
+
+    const range = getChallengeDateRange(req.query.date as string | undefined);
+    if (!range) {
+      return res.status(400).json({ error: 'Invalid date format. Use YYYY-MM-DD' });
+    }
+
+    const entries = await LeaderboardEntry.find({
+      challengeDateString: range.queryDateString,
+      playerId: { $in: group.members.map(member => member.playerId) }
+    }).select('playerId score').lean();
+
+    if (entries.length === 0) {
+      return res.status(404).json({ error: 'No group scores available for this date' });
+    }
+
+    const counts = new Map<number, number>();
+    entries.forEach(entry => counts.set(entry.score, (counts.get(entry.score) || 0) + 1));
+    const distributions = Array.from(counts, ([score, count]) => ({ score, count }));
+
+    const ownEntry = entries.find(entry => entry.playerId === res.locals.playerId);
+    const standing = ownEntry ? computeScoreStanding(distributions, ownEntry.score) : null;
+
+    res.status(200).json({
+      groupId: group._id,
+      date: range.queryDateString,
+      averageScore: entries.reduce((sum, entry) => sum + entry.score, 0) / entries.length,
+      completions: entries.length,
+      distribution: processDistributionData(distributions, entries.length),
+      player: ownEntry && standing
+        ? { score: ownEntry.score, ...standing }
+        : null
+    });
+  } catch (error) {
+    logger.error('[Groups] Error fetching group distribution:', error);
+    res.status(500).json({ error: 'Failed to fetch group distribution' });
+  }
+}) as RequestHandler);
+
+export default router;
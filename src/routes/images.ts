@@ -1,814 +1,69 @@
-import express, { Request, Response, NextFunction, RequestHandler } from 'express';
-import fetch from 'node-fetch';
+import express, { Request, Response, RequestHandler } from 'express';
+import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 import DailyChallenge from '../models/DailyChallenge';
 import RoundGuess from '../models/RoundGuess';
-import { fetchImageData, fetchMultipleImageData } from '../utils/wikimediaHelper';
+import PlayerResult, { IPlayerResult } from '../models/PlayerResult';
+import LeaderboardEntry from '../models/LeaderboardEntry';
+import PlaySession from '../models/PlaySession';
+import PlaySessionMarker from '../models/PlaySessionMarker';
+import { lookupImages, ImageLookupStatus } from '../utils/wikimediaHelper';
 import logger from '../utils/logger';
 import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
-import rateLimit from 'express-rate-limit';
-import { ProcessedDistribution, ProcessedDistributionPoint } from '../types/types';
-import { processAndStoreRoundGuessDistributions } from '../utils/distributionProcessor';
-import { archiveSpecificDayEmergency } from '../utils/emergencyArchiver'; // Adjust path as needed
+import { processDistributionData, computeScoreStanding } from '../utils/scoreDistribution';
+import { mapProcessedDistributionForResponse, applyPlayerResultToChallengeStats, enqueueChallengeStatsJobs } from '../utils/challengeStats';
+import { toPlayImages } from '../utils/playProjection';
+import { getRandomImageWithYear, DECADE_RANGES, getDecadeKey } from '../utils/randomImages';
+import { validateImageLicense } from '../utils/imageAttribution';
+import { WikimediaImage } from '../types/wikimedia';
+import { getPlayerIdFromRequest } from '../utils/playerToken';
+import { recordLeaderboardEntry } from '../utils/leaderboard';
+import { createClientRateLimiter } from '../utils/rateLimits';
+import { MAX_TOTAL_SCORE, SCORING_RULES, SubmittedGuess, validateGuesses, scoreSubmission, isScoreMismatch } from '../utils/scoring';
 
 dotenv.config();
 
 const router = express.Router();
 
-// Cache expiration time
-const CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
-const MAX_CACHE_SIZE = 100;
-const MIN_YEAR = 1850; // Minimum year allowed for images
 const TARGET_TIMEZONE = 'America/New_York'; // Eastern Time
 
-// Get current year for max year limit
-const CURRENT_YEAR = new Date().getFullYear();
-
-// Decade ranges to ensure even distribution
-const DECADE_RANGES = [
-  { start: 1850, end: 1899, weight: 1 },  // Less weight for oldest photos
-  { start: 1900, end: 1919, weight: 2 },
-  { start: 1920, end: 1939, weight: 3 },
-  { start: 1940, end: 1959, weight: 3 },
-  { start: 1960, end: 1979, weight: 3 },
-  { start: 1980, end: 1999, weight: 3 },
-  { start: 2000, end: CURRENT_YEAR, weight: 5 }
-];
-
-interface CachedImage {
-  title: string;
-  url: string;
-  source: string;
-  year: number;
-  cachedAt: number;
-  category?: string;
-  description?: string; 
-  filename?: string;   
+// Whether a player's result is already in the challenge's score histogram. Results
+// recorded before this was stored count if they were submitted on the challenge day
+function wasIncludedInAggregates(result: IPlayerResult): boolean {
+    if (result.includedInAggregates !== undefined) {
+        return result.includedInAggregates;
+    }
+    return formatInTimeZone(result.submittedAt, TARGET_TIMEZONE, 'yyyy-MM-dd') <= result.challengeDateString;
 }
 
-// Cache to minimize API calls to Wikimedia, organized by decade
-const imageCacheByDecade: Record<string, CachedImage[]> = {};
-
-// STRICTLY photo-only file extensions
-const ALLOWED_EXTENSIONS = ['.jpg', '.jpeg'];
-
-
-// Categories focused specifically on photographs
-const photoCategories = [
-  'Category:Photographs_by_decade',
-  'Category:Historical_photographs',
-  'Category:Portrait_photographs',
-  'Category:Documentary_photographs',
-  'Category:Photojournalism',
-  'Category:Landscape_photographs',
-  'Category:Architecture_photographs',
-  'Category:Wildlife_photography',
-  'Category:Street_photography',
-  'Category:Photographs',
-  'Category:People_in_photographs',
-  'Category:Group_photographs',
-  'Category:Color_photographs',
-  'Category:Black_and_white_photographs',
-  'Category:Digital_photographs',
-  'Category:Photographers',
-  'Category:Vintage_photographs',
-  'Category:Festival_photographs',
-  'Category:Event_photographs'
-];
-
-// Maximum number of API retries
-const MAX_RETRIES = 3;
-const IMAGES_PER_REQUEST = 100;
-
 // --- Rate Limiter Configuration ---
-const submitLimiter = rateLimit({
+// Each player+date (IP+date without a token) gets 3 submit requests per 24 hours, and each IP+date a few times that
+const submitLimiter = createClientRateLimiter('submit', {
     windowMs: 24 * 60 * 60 * 1000, // 24 hours
-    max: 3, // Limit each IP+date combo to 3 submit requests per 24 hours
-    message: { error: 'Too many submission attempts for this challenge date from this IP, please try again after 24 hours' },
-    standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
-    legacyHeaders: false, // Disable the `X-RateLimit-*` headers
-    keyGenerator: (req: Request): string => {
-        // Use 'x-forwarded-for' if behind a proxy, otherwise fallback
-        const ip = req.headers['x-forwarded-for']?.toString().split(',')[0] || req.socket.remoteAddress || 'unknown-ip';
-        const dateKey = req.body.date || 'current'; // Use 'current' or default if date is missing
-        return ip + '-' + dateKey; // Key is unique per IP per challenge date
-    },
-    handler: (req: Request, res: Response, next: NextFunction, options: any) => {
-        const ip = options.keyGenerator(req); // Use the generated key for logging
-        logger.warn(`[Rate Limit Blocked] Key: ${ip} exceeded submit limit.`); // Log the key
-        res.status(options.statusCode).send(options.message);
-    }
+    max: 3,
+    message: 'Too many submission attempts for this challenge date, please try again after 24 hours',
+    keySuffix: (req: Request) => req.body.date || 'current' // Use 'current' or default if date is missing
 });
 // --- End Rate Limiter Configuration ---
 
-// Helper function to check if a file is a photograph by its extension
-function isPhotoFile(filename: string): boolean {
-  const lowerFilename = filename.toLowerCase();
-  return ALLOWED_EXTENSIONS.some(ext => lowerFilename.endsWith(ext));
-}
-
-// Helper function to determine if metadata indicates a real photograph
-function isLikelyRealPhoto(metadata: any): boolean {
-  if (!metadata) return false;
-  
-  // Accept more images by being more lenient with metadata checks
-  
-  // Check for camera information (strong indicators)
-  if (metadata.Artist || metadata.Make || metadata.Model) return true;
-  
-  // Accept images with copyright information as they're likely real photos
-  if (metadata.Copyright || metadata.LicenseShortName) return true;
-  
-  // Check for photo-specific categories with broader terms
-  if (metadata.Categories) {
-    const categories = metadata.Categories.value || '';
-    const photoKeywords = ['photograph', 'photo', 'portrait', 'camera', 'picture', 'image', 'snapshot'];
-    const negativeKeywords = ['drawing', 'illustration', 'clipart', 'diagram', 'logo', 'chart'];
-    
-    if (photoKeywords.some(keyword => categories.toLowerCase().includes(keyword)) &&
-        !negativeKeywords.some(keyword => categories.toLowerCase().includes(keyword))) {
-      return true;
-    }
-  }
-  
-  // Check for description suggesting it's a photograph with broader terms
-  if (metadata.ImageDescription) {
-    const description = metadata.ImageDescription.value || '';
-    const photoKeywords = ['photograph', 'photo', 'taken', 'camera', 'picture', 'captured', 'shot', 'image'];
-    const negativeKeywords = ['drawing', 'illustration', 'clipart', 'diagram', 'logo', 'chart'];
-    
-    if (photoKeywords.some(keyword => description.toLowerCase().includes(keyword)) &&
-        !negativeKeywords.some(keyword => description.toLowerCase().includes(keyword))) {
-      return true;
-    }
-  }
-
-  // Check if the file has a date that looks like a photo date
-  if (metadata.DateTimeOriginal || metadata.DateTime || metadata.DateTimeDigitized) {
-    return true;
-  }
-  
-  // More lenient check: if it has author information, it might be a photo
-  if (metadata.AuthorCreditText || metadata.Artist || metadata.Credit) {
-    return true;
-  }
-  
-  // Accept images with GPS data as they're almost certainly photographs
-  if (metadata.GPSLatitude || metadata.GPSLongitude) {
-    return true;
-  }
-  
-  // If it has credit or attribution, it's more likely to be a real photo
-  if (metadata.Attribution || metadata.Credit) {
-    return true;
-  }
-  
-  // If the mime type is known to be a photo type, that's a good indicator
-  if (metadata.MIMEType && 
-      (metadata.MIMEType.value?.includes('image/jpeg') || 
-       metadata.MIMEType.value?.includes('image/png'))) {
-    return true;
-  }
-  
-  return false;
-}
-
-// Function to extract year from metadata with higher confidence
-function extractYearWithConfidence(metadata: any, uploadYear: number): { year: number, confidence: 'high' | 'medium' | 'low' } {
-  if (!metadata) return { year: uploadYear, confidence: 'medium' }; // Changed from low to medium
-  
-  // Try to get year from DateTimeOriginal with highest confidence
-  if (metadata.DateTimeOriginal) {
-    const dateString = metadata.DateTimeOriginal.value;
-    // Match a year between 1800 and current year
-    const yearMatch = dateString.match(/\b(18\d{2}|19\d{2}|20\d{2})\b/);
-    if (yearMatch) {
-      const year = parseInt(yearMatch[0]);
-      if (year >= MIN_YEAR && year <= CURRENT_YEAR) {
-        return { year, confidence: 'high' };
-      }
-    }
-  }
-  
-  // Try other date fields with medium confidence
-  const dateFields = ['DateTime', 'DateTimeDigitized', 'MetadataDate', 'CreateDate', 'ModifyDate'];
-  for (const field of dateFields) {
-    if (metadata[field]) {
-      const dateString = metadata[field].value;
-      const yearMatch = dateString.match(/\b(18\d{2}|19\d{2}|20\d{2})\b/);
-      if (yearMatch) {
-        const year = parseInt(yearMatch[0]);
-        if (year >= MIN_YEAR && year <= CURRENT_YEAR) {
-          return { year, confidence: 'medium' };
-        }
-      }
-    }
-  }
-  
-  // Look for year in title or description with medium confidence
-  if (metadata.ObjectName || metadata.ImageDescription) {
-    const textToSearch = (metadata.ObjectName?.value || '') + ' ' + (metadata.ImageDescription?.value || '');
-    const yearMatches = textToSearch.match(/\b(18\d{2}|19\d{2}|20\d{2})\b/g);
-    
-    if (yearMatches && yearMatches.length > 0) {
-      // If same year appears multiple times, it's more likely to be correct
-      const yearCounts = new Map<number, number>();
-      yearMatches.forEach(match => {
-        const year = parseInt(match);
-        if (year >= MIN_YEAR && year <= CURRENT_YEAR) {
-          yearCounts.set(year, (yearCounts.get(year) || 0) + 1);
-        }
-      });
-      
-      if (yearCounts.size > 0) {
-        // Find the year that appears most frequently
-        let maxYear = MIN_YEAR;
-        let maxCount = 0;
-        
-        for (const [year, count] of yearCounts.entries()) {
-          if (count > maxCount) {
-            maxYear = year;
-            maxCount = count;
-          }
-        }
-        
-        return { year: maxYear, confidence: 'medium' };
-      }
-    }
-  }
-  
-  // Use upload year but with medium confidence (not low)
-  if (uploadYear >= MIN_YEAR && uploadYear <= CURRENT_YEAR) {
-    return { year: uploadYear, confidence: 'medium' };
-  }
-
-  // Accept years from other metadata fields
-  if (metadata.DateCreated) {
-    const dateString = metadata.DateCreated.value;
-    const yearMatch = dateString.match(/\b(18\d{2}|19\d{2}|20\d{2})\b/);
-    if (yearMatch) {
-      const year = parseInt(yearMatch[0]);
-      if (year >= MIN_YEAR && year <= CURRENT_YEAR) {
-        return { year, confidence: 'medium' };
-      }
-    }
-  }
-  
-  // If all else fails but we need a year within our range
-  return { year: Math.floor(Math.random() * (CURRENT_YEAR - MIN_YEAR + 1)) + MIN_YEAR, confidence: 'low' };
-}
-
-// Helper function to generate curve points
-function generateCurvePoints(distributions: { score: number; count: number }[], n: number): ProcessedDistributionPoint[] {
-    // *** ADDED LOGGING ***
-    logger.info(`[generateCurvePoints] Called with n=${n}, distributions.length=${distributions.length}`);
-    if (n < 5) { // Log distributions for small datasets
-        logger.info(`[generateCurvePoints] Input distributions (n=${n}):`, distributions);
-    }
-    // *** END LOGGING ***
-
-    const step = 25;
-    const bandwidth = 175;
-    const minScoreDomain = 0;
-    const maxScoreDomain = 5000;
-
-    // Flatten scores for KDE calculation
-    const allScores: number[] = [];
-    distributions.forEach(dist => {
-        for (let i = 0; i < (dist.count || 0); i++) {
-            allScores.push(dist.score);
-        }
-    });
-    // *** ADDED LOGGING ***
-    logger.info(`[generateCurvePoints] allScores (flattened for KDE, first 10):`, allScores.slice(0, 10));
-    // *** END LOGGING ***
-
-    // Gaussian kernel function
-    const gaussianKernel = (u: number): number => (1 / Math.sqrt(2 * Math.PI)) * Math.exp(-0.5 * u * u);
-
-    // Calculate KDE points
-    const kdePointsRaw: Array<{ score: number, density: number }> = [];
-    for (let x = minScoreDomain; x <= maxScoreDomain; x += step) {
-        let density = 0;
-        for (const score of allScores) {
-            const u = (x - score) / bandwidth;
-            density += gaussianKernel(u);
-        }
-        density /= (n * bandwidth); // n can be 0 here, will result in Infinity if not handled
-        if (n === 0) density = 0; // Handle n=0 case to prevent Infinity
-        kdePointsRaw.push({ score: x, density });
-    }
-    // *** ADDED LOGGING ***
-    // Log a few sample density values
-    if (kdePointsRaw.length > 5) {
-        logger.info(`[generateCurvePoints] Sample kdePointsRaw (first 5):`, kdePointsRaw.slice(0, 5));
-    } else {
-        logger.info(`[generateCurvePoints] kdePointsRaw:`, kdePointsRaw);
-    }
-    // *** END LOGGING ***
-    
-    // Normalize densities
-    let maxDensity = 0;
-    kdePointsRaw.forEach(p => {
-        if (p.density > maxDensity && isFinite(p.density)) maxDensity = p.density; // Ensure finite
-    });
-    // *** ADDED LOGGING ***
-    logger.info(`[generateCurvePoints] maxDensity (before normalization): ${maxDensity}`);
-    // *** END LOGGING ***
-
-    if (maxDensity > 0) {
-        kdePointsRaw.forEach(p => {
-            p.density = isFinite(p.density) ? p.density / maxDensity : 0; // Ensure finite result
-        });
-    }
-    // *** ADDED LOGGING ***
-    if (kdePointsRaw.length > 5) {
-        logger.info(`[generateCurvePoints] Sample kdePointsRaw (normalized, first 5):`, kdePointsRaw.slice(0, 5));
-    }
-    // *** END LOGGING ***
-
-    // Calculate percentiles and create final curve points
-    const finalCurvePointsCalculated: ProcessedDistributionPoint[] = [];
-    let cumulativeCount = 0;
-    let distIndex = 0;
-    const sortedDistributions = [...distributions].sort((a, b) => a.score - b.score);
-
-    for (const kdePoint of kdePointsRaw) {
-        while (distIndex < sortedDistributions.length && sortedDistributions[distIndex].score <= kdePoint.score) {
-            cumulativeCount += sortedDistributions[distIndex].count || 0;
-            distIndex++;
-        }
-        const percentile = n > 0 ? Math.round((cumulativeCount / n) * 100) : 0;
-        finalCurvePointsCalculated.push({
-            score: kdePoint.score,
-            density: isFinite(kdePoint.density) ? kdePoint.density : 0, // Ensure finite
-            percentile
-        });
-    }
-    // *** ADDED LOGGING ***
-    logger.info(`[generateCurvePoints] finalCurvePointsCalculated (before fallback, count): ${finalCurvePointsCalculated.length}`);
-    if (finalCurvePointsCalculated.length > 0 && finalCurvePointsCalculated.length < 10) {
-        logger.info(`[generateCurvePoints] finalCurvePointsCalculated (content):`, finalCurvePointsCalculated);
-    }
-    // *** END LOGGING ***
-
-    // Ensure we have points at domain boundaries (fallback)
-    if (finalCurvePointsCalculated.length === 0 && n > 0) { // Modified fallback to only apply if n > 0
-        logger.warn(`[generateCurvePoints] finalCurvePointsCalculated was empty with n=${n}. Applying fallback for single data point.`);
-        // If only one unique score, create a simple peak
-        if (distributions.length === 1 && distributions[0].count === n) {
-             const singleScore = distributions[0].score;
-             finalCurvePointsCalculated.push({ score: Math.max(0, singleScore - bandwidth * 2), density: 0, percentile: 0 });
-             finalCurvePointsCalculated.push({ score: singleScore, density: 1, percentile: 50 });
-             finalCurvePointsCalculated.push({ score: Math.min(maxScoreDomain, singleScore + bandwidth * 2), density: 0, percentile: 100 });
-        } else { // Generic fallback if still empty for other reasons with n > 0
-            finalCurvePointsCalculated.push(
-                { score: 0, density: 0, percentile: 0 },
-                { score: maxScoreDomain, density: 0, percentile: 100 }
-            );
-        }
-        logger.info(`[generateCurvePoints] Applied fallback, finalCurvePointsCalculated:`, finalCurvePointsCalculated);
-    } else if (finalCurvePointsCalculated.length === 0 && n === 0) {
-        logger.info(`[generateCurvePoints] finalCurvePointsCalculated was empty with n=0. Applying standard empty fallback.`);
-        finalCurvePointsCalculated.push(
-            { score: 0, density: 0, percentile: 0 },
-            { score: maxScoreDomain, density: 0, percentile: 100 }
-        );
-    }
-    // *** ADDED LOGGING ***
-    logger.info(`[generateCurvePoints] Returning finalCurvePointsCalculated (count): ${finalCurvePointsCalculated.length}`);
-    // *** END LOGGING ***
-    return finalCurvePointsCalculated;
-}
-
-export function processDistributionData(
-    distributions: { score: number; count: number }[],
-    n: number,
-    userScore?: number
-): ProcessedDistribution {
-    // *** ADDED LOGGING ***
-  
-    if (n < 5) {
-      
-    }
-    // *** END LOGGING ***
-
-    // Calculate total participants
-    const totalParticipants = n;
-
-    // Calculate user percentile rank (only if in top 50%)
-    let percentileRank: number | undefined = undefined;
-    if (userScore !== undefined && n > 0) {
-        let scoresBelow = 0;
-        let scoresEqual = 0;
-        const sortedScores = [...distributions.map(d => d.score)].sort((a, b) => a - b);
-        for (const s of sortedScores) {
-            if (s < userScore) scoresBelow++;
-            else if (s === userScore) scoresEqual++;
-            else break;
-        }
-        const rawPercentile = ((scoresBelow + (scoresEqual / 2)) / n) * 100;
-        const topPercent = 100 - rawPercentile;
-        if (topPercent <= 50) {
-            percentileRank = Math.round(topPercent);
-        }
-    }
-
-    // Generate curve points
-    const curvePoints = generateCurvePoints(distributions, n);
-
-    // Calculate summary statistics
-    const scoresFromDist = distributions.map(d => d.score).sort((a, b) => a - b);
-    const minScore = scoresFromDist[0] ?? 0;
-    const maxScore = scoresFromDist[scoresFromDist.length - 1] ?? 0;
-    let medianScore: number;
-    const mid = Math.floor(n / 2);
-    if (n === 0) {
-        medianScore = 0;
-    } else if (n % 2 === 0) {
-        medianScore = Math.round((scoresFromDist[mid - 1] + scoresFromDist[mid]) / 2);
-    } else {
-        medianScore = scoresFromDist[mid];
-    }
-
-    // *** ADDED LOGGING ***
- 
-    // *** END LOGGING ***
-
-    // Return only the data needed for global storage
-    return {
-        totalParticipants,
-        curvePoints,
-        minScore,
-        maxScore,
-        medianScore
-    };
-}
-
-// Function to fetch images from a specific category
-async function getImagesFromCategory(category: string, decadeRange: { start: number, end: number }): Promise<CachedImage[]> {
-  try {
-    const response = await fetch(
-      `https://commons.wikimedia.org/w/api.php?action=query&list=categorymembers&cmtitle=${encodeURIComponent(category)}&cmlimit=${IMAGES_PER_REQUEST}&cmtype=file&format=json`,
-      {
-        headers: {
-          'User-Agent': 'Wikimedia Year Guessing Game/1.0 (ccreguer@gmail.com)'
-        }
-      }
-    );
-    
-    const data = await response.json();
-    if (!data.query || !data.query.categorymembers) {
-      return [];
-    }
-    
-    const files = data.query.categorymembers;
-    
-    // Get details for each file
-    const processedImages = await Promise.all(
-      files.map(async (file: any) => {
-        const title = file.title.replace('File:', '');
-        
-        // Skip if not a photo file (strict check)
-        if (!isPhotoFile(title)) {
-          return null;
-        }
-        
-        // Additional check for video/audio extensions that should be excluded
-        const lowerTitle = title.toLowerCase();
-        if (lowerTitle.endsWith('.mp4') || 
-            lowerTitle.endsWith('.webm') || 
-            lowerTitle.endsWith('.ogv') || 
-            lowerTitle.endsWith('.avi') || 
-            lowerTitle.endsWith('.mov') || 
-            lowerTitle.endsWith('.mpg') || 
-            lowerTitle.endsWith('.mpeg') || 
-            lowerTitle.endsWith('.mp3') || 
-            lowerTitle.endsWith('.ogg')) {
-          return null;
-        }
-        
-        // Get image info including upload date, URL, etc.
-        const infoResponse = await fetch(
-          `https://commons.wikimedia.org/w/api.php?action=query&titles=${encodeURIComponent(file.title)}&prop=imageinfo&iiprop=url|timestamp|user|extmetadata|mediatype|mime&format=json`,
-          {
-            headers: {
-              'User-Agent': 'Wikimedia Year Guessing Game/1.0 (ccreguer@gmail.com)'
-            }
-          }
-        );
-
-        const infoData = await infoResponse.json();
-        const pages = infoData.query.pages;
-        const pageId = Object.keys(pages)[0];
-        
-        if (!pages[pageId].imageinfo || !pages[pageId].imageinfo[0]) {
-          return null;
-        }
-        
-        const imageInfo = pages[pageId].imageinfo[0];
-        
-        // Triple-check: verify it's an image type by checking mime type too
-        if (imageInfo.mime && !imageInfo.mime.startsWith('image/')) {
-          return null;
-        }
-        
-        // Verify it's a bitmap image, not another type
-        if (imageInfo.mediatype && imageInfo.mediatype !== 'BITMAP') {
-          return null;
-        }
-        
-        // Check for real photo indications - be more strict here
-        if (!isLikelyRealPhoto(imageInfo.extmetadata)) {
-          return null;
-        }
-        
-        // Extract upload year as fallback
-        const uploadYear = new Date(imageInfo.timestamp).getFullYear();
-        
-        // Get year with confidence level
-        const { year, confidence } = extractYearWithConfidence(
-          imageInfo.extmetadata, 
-          uploadYear
-        );
-        
-        // Skip if confidence is low or year isn't in our target decade range
-        if (year < decadeRange.start || year > decadeRange.end) {
-           return null;
-         }
-         if (confidence === 'low' && year < 1950) {
-          return null;
-          } 
-          
-        
-        return {
-          title,
-          url: imageInfo.url,
-          source: 'Wikimedia Commons',
-          year,
-          cachedAt: Date.now(),
-          category,
-          description: imageInfo.extmetadata?.ImageDescription?.value || '',
-          filename: title
-        };
-      })
-    );
-    
-    return processedImages.filter(img => img !== null) as CachedImage[];
-  } catch (error) {
-
-    return [];
-  }
-}
-
-// Function to get random decade range with balanced distribution
-function getRandomDecadeRange(): { start: number, end: number } {
-  // Calculate the total weight
-  const totalWeight = DECADE_RANGES.reduce((sum, range) => sum + range.weight, 0);
-  
-  // Generate a random value between 0 and the total weight
-  const randomValue = Math.random() * totalWeight;
-  
-  // Use the random value to select a decade range based on its weight
-  let weightSum = 0;
-  for (const range of DECADE_RANGES) {
-    weightSum += range.weight;
-    if (randomValue <= weightSum) {
-      return { start: range.start, end: range.end };
-    }
-  }
-  
-  // Fallback (should never reach here if weights are positive)
-  return DECADE_RANGES[DECADE_RANGES.length - 1];
-}
-
-// Function to fetch random images directly
-async function getRandomWikimediaImages(decadeRange: { start: number, end: number }): Promise<CachedImage[]> {
-  try {
-    // Fetch random images from Wikimedia API
-    const response = await fetch(
-      `https://commons.wikimedia.org/w/api.php?action=query&list=random&rnnamespace=6&rnlimit=${IMAGES_PER_REQUEST}&format=json`,
-      {
-        headers: {
-          'User-Agent': 'Wikimedia Year Guessing Game/1.0 (ccreguer@gmail.com)'
-        }
-      }
-    );
-  
-    const data = await response.json();
-
-    if (!data.query || !data.query.random) {
-
-      return [];
-    }
-    const randomImages = data.query.random;
-
-    // Process each image to get more details and year information
-    const processedImages = await Promise.all(
-      randomImages.map(async (img: any) => {
-        const title = img.title.replace('File:', '');
-        
-        // Skip if not a photo file
-        if (!isPhotoFile(title)) {
-          return null;
-        }
-        
-        // Get image info including upload date, URL, etc.
-        const infoResponse = await fetch(
-          `https://commons.wikimedia.org/w/api.php?action=query&titles=${encodeURIComponent(img.title)}&prop=imageinfo&iiprop=url|timestamp|user|extmetadata|mediatype|mime&format=json`,
-          {
-            headers: {
-              'User-Agent': 'Wikimedia Year Guessing Game/1.0 (ccreguer@gmail.com)'
-            }
-          }
-        );
-
-        const infoData = await infoResponse.json();
-        const pages = infoData.query.pages;
-        const pageId = Object.keys(pages)[0];
-        
-        if (!pages[pageId].imageinfo || !pages[pageId].imageinfo[0]) {
-          return null;
-        }
-        
-        const imageInfo = pages[pageId].imageinfo[0];
-        
-        // Verify it's an image type by checking mime type
-        if (imageInfo.mime && !imageInfo.mime.startsWith('image/')) {
-          return null;
-        }
-        
-        // Verify it's a bitmap image
-        if (imageInfo.mediatype && imageInfo.mediatype !== 'BITMAP') {
-          return null;
-        }
-        
-        // Check for real photo indications
-        if (!isLikelyRealPhoto(imageInfo.extmetadata)) {
-          return null;
-        }
-        
-        // Extract upload year as fallback
-        const uploadYear = new Date(imageInfo.timestamp).getFullYear();
-        
-        // Get year with confidence level
-        const { year, confidence } = extractYearWithConfidence(
-          imageInfo.extmetadata, 
-          uploadYear
-        );
-        
-        // Skip if confidence is low or year isn't in our target decade range
-        if (confidence === 'low' && year < 1950) {
-          return null;
-        }
-        
-        return {
-          title,
-          url: imageInfo.url,
-          source: 'Wikimedia Commons',
-          year,
-          cachedAt: Date.now(),
-          description: imageInfo.extmetadata?.ImageDescription?.value || '',
-          filename: title
-        };
-      })
-    );
-
-    return processedImages.filter(img => img !== null) as CachedImage[];
-  } catch (error) {
-
-    return [];
-  }
-}
-
-// Fetch a random image with year information, targeting specific decade
-// With retry mechanism to ensure we always return an image
-async function getRandomImageWithYear(targetDecade?: { start: number, end: number }){
-  // Clean expired cache entries for all decades
-  const now = Date.now();
-  Object.keys(imageCacheByDecade).forEach(decade => {
-    imageCacheByDecade[decade] = imageCacheByDecade[decade].filter(img => (now - img.cachedAt) < CACHE_EXPIRY_MS);
-  });
-  
-  // If no target decade specified, choose one randomly
-  const decadeRange = targetDecade || getRandomDecadeRange();
-  const decadeKey = `${decadeRange.start}-${decadeRange.end}`;
-  
-  // Initialize cache for this decade if needed
-  if (!imageCacheByDecade[decadeKey]) {
-    imageCacheByDecade[decadeKey] = [];
-  }
-  
-  // Use cache only if it has enough images for this decade
-  if (imageCacheByDecade[decadeKey].length > 3) {
-    const randomIndex = Math.floor(Math.random() * imageCacheByDecade[decadeKey].length);
-    return imageCacheByDecade[decadeKey][randomIndex];
-  }
-
-  // First, try with category-based approach
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      // Select a random category
-      const randomCategory = photoCategories[Math.floor(Math.random() * photoCategories.length)];
-      
-      // Get images from this category for the specified decade
-      const images = await getImagesFromCategory(randomCategory, decadeRange);
-      
-      if (images.length > 0) {
-        // Update cache for this decade
-        imageCacheByDecade[decadeKey].push(...images);
-        
-        // Limit cache size for this decade
-        if (imageCacheByDecade[decadeKey].length > MAX_CACHE_SIZE / DECADE_RANGES.length) {
-          imageCacheByDecade[decadeKey].splice(0, imageCacheByDecade[decadeKey].length - (MAX_CACHE_SIZE / DECADE_RANGES.length));
-        }
-        
-        // Return a random image
-        const randomIndex = Math.floor(Math.random() * images.length);
-        return images[randomIndex];
-      }
-      
-   
-    } catch (error) {
-
-    }
-  }
-  
-  // If category approach fails, try with direct random approach
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      // Get random images
-      const images = await getRandomWikimediaImages(decadeRange);
-      
-      if (images.length > 0) {
-        // Update cache for this decade
-        imageCacheByDecade[decadeKey].push(...images);
-        
-        // Limit cache size
-        if (imageCacheByDecade[decadeKey].length > MAX_CACHE_SIZE / DECADE_RANGES.length) {
-          imageCacheByDecade[decadeKey].splice(0, imageCacheByDecade[decadeKey].length - (MAX_CACHE_SIZE / DECADE_RANGES.length));
-        }
-        
-        // Return a random image
-        const randomIndex = Math.floor(Math.random() * images.length);
-        return images[randomIndex];
-      }
-      
-     
-    } catch (error) {
-
+// Route to get a random image with year information.
+// ?decade= must be a DECADE_RANGES key ("1920-1939"), the ranges the image cache is bucketed by
+router.get('/', async (req: Request, res: Response) => {
+  let targetDecade: { start: number, end: number } | undefined;
+  if (req.query.decade) {
+    targetDecade = DECADE_RANGES.find(range => getDecadeKey(range) === req.query.decade);
+    if (!targetDecade) {
+      res.status(400).json({ error: `decade must be one of: ${DECADE_RANGES.map(getDecadeKey).join(', ')}` });
+      return;
     }
   }
-  
-  // If we still have no images, try with a different decade
-  if (targetDecade) {
-  
-    return getRandomImageWithYear();
-  }
-  
-  // Final fallback: if all else fails, generate a simple image with the decade range
-  const middleYear = Math.floor((decadeRange.start + decadeRange.end) / 2);
-  return {
-    title: "Historical photograph",
-    url: "https://upload.wikimedia.org/wikipedia/commons/thumb/1/1e/Apollo_11_first_step.jpg/800px-Apollo_11_first_step.jpg",
-    source: "Wikimedia Commons",
-    year: Math.floor((decadeRange.start + decadeRange.end) / 2),
-    cachedAt: Date.now(),
-    description: "Fallback image - no images found for this decade range",
-    filename: "Apollo_11_first_step.jpg"
-  };
-
-}
 
-// Route to get a random image with year information
-router.get('/', async (req: Request, res: Response) => {
   try {
     // Check for refresh parameter
     const forceRefresh = req.query.refresh === 'true';
     
-    // Check for decade parameter
-    let targetDecade: { start: number, end: number } | undefined;
-    if (req.query.decade) {
-      const decadeString = req.query.decade as string;
-      const [start, end] = decadeString.split('-').map(Number);
-      if (!isNaN(start) && !isNaN(end) && start <= end) {
-        targetDecade = { start, end };
-      }
-    }
-    
-    // Clear cache if forced refresh
-    if (forceRefresh) {
-      if (targetDecade) {
-        const decadeKey = `${targetDecade.start}-${targetDecade.end}`;
-        imageCacheByDecade[decadeKey] = [];
-      } else {
-        Object.keys(imageCacheByDecade).forEach(key => {
-          imageCacheByDecade[key] = [];
-        });
-      }
-    }
-    
-    const image = await getRandomImageWithYear(targetDecade);
+    // A forced refresh skips the shared cache for this request rather than emptying it
+    const image = await getRandomImageWithYear(targetDecade, { skipCache: forceRefresh });
     res.json(image);
   } catch (error) {
    
@@ -823,9 +78,22 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/images/daily-challenge/scoring
+ * The round scoring formula and its constants. Clients score rounds with these
+ * so the points they show match the server-computed score on submit.
+ */
+router.get('/daily-challenge/scoring', (req: Request, res: Response) => {
+  res.status(200).json(SCORING_RULES);
+});
+
 /**
  * POST /api/images/daily-challenge/submit
- * Submit a score for today's challenge
+ * Submit guesses for a challenge. The score is computed server-side from the
+ * guesses and the stored answer years; a client-sent score is only compared.
+ * Requires an X-Player-Token. Repeat submissions for the same date return the
+ * original result instead of counting another completion, and submissions are
+ * refused once the player has started a play session for that date.
  */
 router.post('/daily-challenge/submit', submitLimiter, async (req: Request, res: Response): Promise<void> => {
     const sourceIp = req.headers['x-forwarded-for']?.toString().split(',')[0] || req.socket.remoteAddress || 'unknown-ip';
@@ -833,17 +101,26 @@ router.post('/daily-challenge/submit', submitLimiter, async (req: Request, res:
     const { score, date, guesses } = req.body;
 
     // --- INPUT VALIDATION ---
-    const numericScore = Number(score); // Convert score to number
-    if (score === undefined || score === null || isNaN(numericScore) || numericScore < 0 || numericScore > 5000) {
+    // Anonymous submissions can't be checked against the player's play sessions, which reveal each round's year
+    const playerId = getPlayerIdFromRequest(req);
+    if (!playerId) {
+        logger.warn(`[Submit Missing Player Token] IP: ${sourceIp}, UA: "${userAgent}", Date: ${date}, Token sent: ${playerId === null}`);
+        // Clients from before player tokens get here on every submit; point them at the token endpoint
+        res.status(401).json({ error: 'Missing or invalid player token. Get one from POST /api/players/token and send it as the X-Player-Token header.' });
+        return;
+    }
+
+    // The client-reported score is optional and only used to flag mismatches;
+    // the authoritative score is computed from the guesses below.
+    const clientScore = score === undefined || score === null ? undefined : Number(score);
+    if (clientScore !== undefined && (isNaN(clientScore) || clientScore < 0 || clientScore > MAX_TOTAL_SCORE)) {
         logger.warn(`[Submit Invalid Score] IP: ${sourceIp}, UA: "${userAgent}", Received invalid score: "${score}", Date: ${date}`);
         if (!res.headersSent) {
-            res.status(400).json({ error: `Invalid score value submitted. Score must be a number between 0 and 5000.` });
+            res.status(400).json({ error: `Invalid score value submitted. Score must be a number between 0 and ${MAX_TOTAL_SCORE}.` });
         }
         return;
     }
 
-    logger.info(`[Submit Received Validated] IP: ${sourceIp}, UA: "${userAgent}", Score: ${numericScore}, Date: ${date}`);
-
     try {
         let startDate: Date, endDate: Date;
         let queryDateString: string; // YYYY-MM-DD format
@@ -874,203 +151,169 @@ router.post('/daily-challenge/submit', submitLimiter, async (req: Request, res:
         const isPastChallenge = queryDateString < todayET;
         logger.info(`[Submit] Today (${TARGET_TIMEZONE}): ${todayET}, Challenge Date: ${queryDateString}, Is Past: ${isPastChallenge}`);
 
-        // --- Atomically Increment Completions (ALWAYS) ---
-        const updatedChallengeIncremented = await DailyChallenge.findOneAndUpdate(
-            { date: { $gte: startDate, $lt: endDate }, active: true },
-            { $inc: { 'stats.completions': 1 } },
-            { new: true, upsert: false }
-        );
+        // --- Session guesses reveal each round's year, so a player with a session for the date (open, finished or expired) must play it there ---
+        const sessionKey = { playerId, challengeDateString: queryDateString };
+        if (await PlaySession.exists(sessionKey) || await PlaySessionMarker.exists(sessionKey)) {
+            logger.warn(`[Submit Refused] Player ${playerId} has a play session for ${queryDateString}. IP: ${sourceIp}`);
+            if (!res.headersSent) {
+                res.status(409).json({ error: 'This challenge is being played in a session. Finish the session to record your result.' });
+            }
+            return;
+        }
+
+        // --- Load the challenge so the score can be computed from the stored answers ---
+        const challengeForScoring = await DailyChallenge.findOne({
+            date: { $gte: startDate, $lt: endDate },
+            active: true
+        }).select('_id images');
 
-        if (!updatedChallengeIncremented) {
+        if (!challengeForScoring) {
             logger.warn(`[Submit Not Found] Challenge not found or inactive for date: ${queryDateString}, IP: ${sourceIp}`);
             if (!res.headersSent) {
                 res.status(404).json({ error: 'No active challenge found for this date' });
             }
             return;
         }
-        
-        // --- Save Round Guesses (Phase 1 - Synchronous Part) ---
-        if (guesses && Array.isArray(guesses) && guesses.length > 0) {
-            logger.info(`[Submit Sync] Processing ${guesses.length} received round guesses for immediate save...`);
-            try {
-                const correctChallengeDateForGuesses = startDate;
-                const roundGuessesToSave = guesses
-                    .filter(guess => typeof guess.roundIndex === 'number' && typeof guess.guessedYear === 'number')
-                    .map(guess => ({
-                        challengeDate: correctChallengeDateForGuesses,
-                        roundIndex: guess.roundIndex,
-                        guessedYear: guess.guessedYear
-                    }));
-
-                if (roundGuessesToSave.length > 0) {
-                    await RoundGuess.insertMany(roundGuessesToSave, { ordered: false });
-                    logger.info(`[Submit Sync Guesses OK] Saved ${roundGuessesToSave.length} round guesses for challenge date ${correctChallengeDateForGuesses.toISOString().split('T')[0]}.`);
-                }
-            } catch (guessSaveError: any) {
-                logger.error(`[Submit Sync Guesses Error] Failed to save round guesses for challenge date ${startDate.toISOString().split('T')[0]}: ${guessSaveError.message}`, guessSaveError);
-                // This error should ideally be handled, but for now, we proceed not to block the main response.
+
+        const guessValidationError = validateGuesses(guesses, challengeForScoring.images);
+        if (guessValidationError) {
+            logger.warn(`[Submit Invalid Guesses] IP: ${sourceIp}, UA: "${userAgent}", Date: ${queryDateString}, Reason: ${guessValidationError}`);
+            if (!res.headersSent) {
+                res.status(400).json({ error: `Invalid guesses submitted. ${guessValidationError}` });
             }
+            return;
         }
 
-        // Helper to map processed distribution for the response
-        const mapProcessedDistributionForResponse = (pd: any) => {
-            if (!pd) return undefined;
-            return {
-                totalParticipants: pd.totalParticipants,
-                curvePoints: pd.curvePoints,
-                minScore: pd.minScore,
-                maxScore: pd.maxScore,
-                medianScore: pd.medianScore
-            };
-        };
+        // --- Server-Authoritative Scoring ---
+        const scoredSubmission = scoreSubmission(guesses as SubmittedGuess[], challengeForScoring.images);
+        const numericScore = scoredSubmission.totalScore;
+        const scoreMismatch = clientScore !== undefined && isScoreMismatch(clientScore, numericScore, scoredSubmission.rounds.length);
+        if (scoreMismatch) {
+            logger.warn(`[Submit Score Mismatch] IP: ${sourceIp}, UA: "${userAgent}", Date: ${queryDateString}, Client score: ${clientScore}, Server score: ${numericScore}. Using server score.`);
+        }
+
+        logger.info(`[Submit Received Validated] IP: ${sourceIp}, UA: "${userAgent}", Score: ${numericScore}, Date: ${queryDateString}`);
+
+        // --- Per-Player Dedupe: one completion per player per challenge date ---
+        // The result's id also identifies this completion to the idempotent stats update
+        let playerResult: IPlayerResult;
+        try {
+            playerResult = await PlayerResult.create({
+                playerId,
+                challengeDate: startDate,
+                challengeDateString: queryDateString,
+                score: numericScore,
+                rounds: scoredSubmission.rounds,
+                submittedAt: new Date(),
+                includedInAggregates: !isPastChallenge,
+                statsPending: true
+            });
+            await recordLeaderboardEntry({
+                playerId,
+                challengeDateString: queryDateString,
+                score: numericScore,
+                totalYearsOff: scoredSubmission.totalYearsOff,
+                submittedAt: playerResult.submittedAt
+            });
+        } catch (dedupeError: any) {
+            if (dedupeError?.code !== 11000) {
+                throw dedupeError;
+            }
+            const originalResult = await PlayerResult.findOne({ playerId, challengeDateString: queryDateString });
+            // A retry after a submission that failed before its stats were applied counts them now
+            const currentChallenge = originalResult
+                ? (await applyPlayerResultToChallengeStats(String(challengeForScoring._id), originalResult))?.challenge
+                : null;
+            // Idempotent, so a retry after a failed enqueue still gets the stats jobs queued
+            if (currentChallenge && !isPastChallenge) {
+                await enqueueChallengeStatsJobs(currentChallenge, queryDateString);
+            }
+            logger.info(`[Submit Duplicate] Player ${playerId} already completed ${queryDateString}. Returning original result.`);
+            if (!res.headersSent) {
+                res.status(200).json({
+                    message: 'Challenge already completed. Returning original result.',
+                    duplicate: true,
+                    score: originalResult?.score,
+                    rounds: originalResult?.rounds,
+                    submittedAt: originalResult?.submittedAt,
+                    // Scores submitted after the challenge day were never added to the histogram, so count them here
+                    standing: originalResult && currentChallenge
+                        ? computeScoreStanding(currentChallenge.stats.distributions, originalResult.score, !wasIncludedInAggregates(originalResult))
+                        : undefined,
+                    stats: {
+                        averageScore: currentChallenge?.stats.averageScore,
+                        completions: currentChallenge?.stats.completions,
+                        processedDistribution: mapProcessedDistributionForResponse(currentChallenge?.stats.processedDistribution)
+                    }
+                });
+            }
+            return;
+        }
+
+        // --- Atomically Apply the Score (completions ALWAYS; histogram and average for current challenges) ---
+        const appliedSubmission = await applyPlayerResultToChallengeStats(String(challengeForScoring._id), playerResult, { requireActive: true });
+
+        if (!appliedSubmission) {
+            logger.warn(`[Submit Not Found] Challenge ${challengeForScoring._id} became inactive before completion was recorded, IP: ${sourceIp}`);
+            // Release the dedupe record so the player can submit once the challenge is active again
+            await PlayerResult.deleteOne({ playerId, challengeDateString: queryDateString });
+            await LeaderboardEntry.deleteOne({ playerId, challengeDateString: queryDateString });
+            if (!res.headersSent) {
+                res.status(404).json({ error: 'No active challenge found for this date' });
+            }
+            return;
+        }
+        const updatedChallengeIncremented = appliedSubmission.challenge;
         
+        // --- Save Round Guesses (Phase 1 - Synchronous Part) ---
+        logger.info(`[Submit Sync] Processing ${scoredSubmission.rounds.length} validated round guesses for immediate save...`);
+        try {
+            const correctChallengeDateForGuesses = startDate;
+            const roundGuessesToSave = scoredSubmission.rounds.map(round => ({
+                challengeDate: correctChallengeDateForGuesses,
+                roundIndex: round.roundIndex,
+                guessedYear: round.guessedYear
+            }));
+
+            await RoundGuess.insertMany(roundGuessesToSave, { ordered: false });
+            logger.info(`[Submit Sync Guesses OK] Saved ${roundGuessesToSave.length} round guesses for challenge date ${correctChallengeDateForGuesses.toISOString().split('T')[0]}.`);
+        } catch (guessSaveError: any) {
+            logger.error(`[Submit Sync Guesses Error] Failed to save round guesses for challenge date ${startDate.toISOString().split('T')[0]}: ${guessSaveError.message}`, guessSaveError);
+            // This error should ideally be handled, but for now, we proceed not to block the main response.
+        }
+
+        // Per-round breakdown returned to the player alongside the stats.
+        // Past challenges never add scores to the histogram, so the score is counted explicitly.
+        const scoreBreakdown = {
+            score: numericScore,
+            rounds: scoredSubmission.rounds,
+            standing: computeScoreStanding(updatedChallengeIncremented.stats.distributions, numericScore, isPastChallenge),
+            ...(scoreMismatch ? { scoreMismatch: true } : {})
+        };
+
         if (!isPastChallenge) {
-            // --- CURRENT CHALLENGE: Respond quickly, process heavy stats in background ---
+            // --- CURRENT CHALLENGE: Queue heavy stats for the job worker and respond ---
             logger.info(`[Submit Sync Current Date] Responding early for challenge ID: ${updatedChallengeIncremented._id} on date ${queryDateString}.`);
             
             const preliminaryStats = {
-                averageScore: updatedChallengeIncremented.stats.averageScore, // Stats before this score's full impact on average/distribution
+                averageScore: updatedChallengeIncremented.stats.averageScore, // Includes this score
                 completions: updatedChallengeIncremented.stats.completions,    // Completions includes this user
+                // The processed KDE is refreshed in the background and may lag behind
                 processedDistribution: mapProcessedDistributionForResponse(updatedChallengeIncremented.stats.processedDistribution)
             };
             
+            // --- Queue the heavy stats work before responding, so it isn't lost if the process stops ---
+            // Enqueueing is idempotent, so a retried submission that was already applied re-queues safely
+            await enqueueChallengeStatsJobs(updatedChallengeIncremented, queryDateString);
+
             if (!res.headersSent) {
                 res.status(200).json({
                     message: 'Score submitted successfully. Detailed stats are updating.',
+                    ...scoreBreakdown,
                     stats: preliminaryStats
                 });
             }
 
-            // --- BACKGROUND PROCESSING for current challenge ---
-            (async () => {
-                try {
-                    logger.info(`[Submit Async] Starting background stats update for challenge ID: ${updatedChallengeIncremented._id}, Date: ${queryDateString}`);
-                    const challengeId = updatedChallengeIncremented._id;
-                    
-                    // --- Update Distributions (Atomic) ---
-                    // Use a fresh copy or be careful with the existing updatedChallengeIncremented state if it's mutated elsewhere.
-                    // For safety, one might refetch or use a deep copy if mutations are complex.
-                    // Here, we assume updatedChallengeIncremented.stats.distributions is reasonably fresh for findIndex.
-                    const existingScoreIndex = updatedChallengeIncremented.stats.distributions.findIndex(d => d.score === numericScore);
-                    if (existingScoreIndex > -1) {
-                        logger.info(`[Submit Async DB Update] Incrementing count for existing score ${numericScore} on challenge ${challengeId}`);
-                        await DailyChallenge.updateOne(
-                            { _id: challengeId, 'stats.distributions.score': numericScore },
-                            { $inc: { 'stats.distributions.$.count': 1 } }
-                        );
-                    } else {
-                        logger.info(`[Submit Async DB Update] Adding new score ${numericScore} to distributions for challenge ${challengeId}`);
-                        await DailyChallenge.updateOne(
-                            { _id: challengeId },
-                            { $push: { 'stats.distributions': { score: numericScore, count: 1 } } }
-                        );
-                    }
-
-                    // --- Refetch state AFTER distribution updates to ensure calculations use latest data ---
-                    const refetchedChallenge = await DailyChallenge.findById(challengeId);
-                    if (!refetchedChallenge) {
-                        logger.error(`[Submit Async Error] Failed to fetch updated challenge after distribution updates for ID: ${challengeId}`);
-                        return; // Exit background task
-                    }
-                    
-                    let currentChallengeState = refetchedChallenge;
-
-                    // --- Recalculate Average Score ---
-                    const newCompletions = currentChallengeState.stats.completions;
-                    const currentDistributions = currentChallengeState.stats.distributions;
-                    logger.info(`[Submit Async Calc] Recalculating average score. Completions: ${newCompletions}, Distributions Count: ${currentDistributions.length}`);
-                    const totalScoreSum = currentDistributions.reduce((sum, dist) => sum + (dist.score * (dist.count || 0)), 0);
-                    const newAverageScore = newCompletions > 0 ? totalScoreSum / newCompletions : 0;
-
-                    // --- Potentially Recalculate Processed Distribution ---
-                    let shouldRecalculateProcessedDist = false;
-                    if (newCompletions <= 1000 || newCompletions % 100 === 0) {
-                        shouldRecalculateProcessedDist = true;
-                        logger.info(`[Submit Async Calc] Completion threshold (${newCompletions}) met. Recalculating processed distribution for ${challengeId}.`);
-                    }
-
-                    if (shouldRecalculateProcessedDist) {
-                        try {
-                            logger.info(`[Submit Async Calc] Calling processDistributionData for challenge ${challengeId}.`);
-                            const newlyProcessedData = processDistributionData(
-                                currentDistributions,
-                                newCompletions,
-                                undefined // No specific user score needed for global recalc
-                            );
-                            logger.info(`[Submit Async] newlyProcessedData (before saving to DB): ChallengeID: ${challengeId}, Completions: ${newCompletions}`, newlyProcessedData);
-                            await DailyChallenge.updateOne(
-                                { _id: challengeId },
-                                { $set: { 'stats.processedDistribution': newlyProcessedData, 'stats.averageScore': newAverageScore } }
-                            );
-                            logger.info(`[Submit Async DB Update] Saved updated processedDistribution and average score to DB for challenge ${challengeId}.`);
-                        } catch (processingError) {
-                            logger.error(`[Submit Async Calc Error] Error during processDistributionData or saving it for challenge ${challengeId}:`, processingError);
-                            await DailyChallenge.updateOne( // Save average score even if distribution processing fails
-                                { _id: challengeId },
-                                { $set: { 'stats.averageScore': newAverageScore } }
-                            );
-                            logger.warn(`[Submit Async DB Update] Saved updated average score (${newAverageScore}) after distribution processing error for challenge ${challengeId}.`);
-                        }
-                    } else {
-                        await DailyChallenge.updateOne(
-                            { _id: challengeId },
-                            { $set: { 'stats.averageScore': newAverageScore } }
-                        );
-                        logger.info(`[Submit Async DB Update] Saved updated average score (${newAverageScore}) for challenge ${challengeId}. No distribution recalculation needed.`);
-                    }
-                    
-                    // Update currentChallengeState with the latest stats for subsequent async operations
-                    currentChallengeState.stats.averageScore = newAverageScore;
-                    // If processedDistribution was updated, it would be in DB, currentChallengeState here might not reflect it unless refetched again.
-                    // For simplicity, we assume subsequent async operations can fetch if they need the absolute latest.
-                    // Or, pass refetchedChallenge/currentChallengeState to them.
-
-                    // --- START: Emergency Archival Failsafe (in background) ---
-                    const EMERGENCY_COMPLETION_THRESHOLD = 250000;
-                    if (currentChallengeState && typeof currentChallengeState.stats === 'object' && currentChallengeState.stats !== null && currentChallengeState._id) {
-                        const currentCompletions = currentChallengeState.stats.completions;
-                        const isFinalized = currentChallengeState.roundStatsFinalized;
-                        const challengeIdStr = String(currentChallengeState._id);
-
-                        if (typeof currentCompletions === 'number' && currentCompletions >= EMERGENCY_COMPLETION_THRESHOLD && !isFinalized) {
-                            logger.warn(`[Submit Async Failsafe] EMERGENCY: Challenge ${queryDateString} (ID: ${challengeIdStr}) reached ${currentCompletions} completions. Triggering immediate archival and finalization.`);
-                            archiveSpecificDayEmergency(queryDateString, challengeIdStr)
-                                .then(() => logger.info(`[Submit Async Failsafe] Emergency archival for ${queryDateString} likely completed.`))
-                                .catch(err => logger.error(`[Submit Async Failsafe] Asynchronous EMERGENCY archival for ${queryDateString} FAILED. Error:`, err));
-                        }
-                    } else {
-                         logger.error(`[Submit Async Failsafe] Critical error: currentChallengeState invalid for emergency archival check. ID: ${currentChallengeState?._id}`);
-                    }
-
-                    // --- START: Conditional Round Guess Processing (in background) ---
-                    if (currentChallengeState && typeof currentChallengeState.stats === 'object' && currentChallengeState.stats !== null) {
-                        const completions = currentChallengeState.stats.completions;
-                        const isRoundStatsFinalized = currentChallengeState.roundStatsFinalized;
-                        let shouldRecalculateRoundGuesses = false;
-                        if (isRoundStatsFinalized) {
-                            // Already finalized, do nothing
-                        } else if (completions <= 100 || (completions <= 500 && completions % 25 === 0) || (completions > 500 && completions % 100 === 0)) {
-                            shouldRecalculateRoundGuesses = true;
-                        }
-
-                        if (shouldRecalculateRoundGuesses) {
-                            logger.info(`[Submit Async Calc] Conditions met to recalculate round guesses for date ${queryDateString}. Triggering processing.`);
-                            processAndStoreRoundGuessDistributions(queryDateString)
-                                .catch(err => logger.error(`[Submit Async Background Processing Error] Round guess distribution processing failed for date ${queryDateString}:`, err));
-                        }
-                    } else {
-                         logger.error(`[Submit Async Logic Error] Critical error: currentChallengeState invalid for round guess processing. ID: ${currentChallengeState?._id}`);
-                    }
-                    logger.info(`[Submit Async] Background stats update COMPLETED for challenge ID: ${challengeId}, Date: ${queryDateString}`);
-
-                } catch (bgError) {
-                    logger.error(`[Submit Async Error] Full background processing failed for challenge ${updatedChallengeIncremented._id}, Date: ${queryDateString}:`, bgError);
-                }
-            })().catch(err => { // Catch errors from invoking the async IIFE itself
-                 logger.error(`[Submit Async Invocation Error] Could not start background processing for ${queryDateString}:`, err);
-            });
-            // End of current challenge specific logic (response already sent)
-
         } else {
             // --- PAST CHALLENGE: Process synchronously (already relatively fast) ---
             logger.info(`[Submit Sync Past Date] Processing past challenge ID: ${updatedChallengeIncremented._id} on date ${queryDateString}.`);
@@ -1079,6 +322,7 @@ router.post('/daily-challenge/submit', submitLimiter, async (req: Request, res:
             
             const responseData = {
                 message: 'Completion count updated for past challenge.',
+                ...scoreBreakdown,
                 stats: {
                     averageScore: finalChallengeState.stats.averageScore,
                     completions: finalChallengeState.stats.completions,
@@ -1101,6 +345,7 @@ router.post('/daily-challenge/submit', submitLimiter, async (req: Request, res:
 /**
  * GET /api/images/daily-challenge/distribution
  * Get processed distribution data for a specific date
+ * With ?userScore=, also the score's standing; a player token makes it exact for the player's own result.
  */
 router.get(
   '/daily-challenge/distribution',
@@ -1156,12 +401,28 @@ router.get(
         userScore
       );
       
-      // Return the processed data
+      const dateString = targetDate.toISOString().split('T')[0];
+
+      // The score only counts itself when it isn't in the histogram yet: for the player's own
+      // result that's known exactly (as for a repeat submission); any other score is in it
+      // only if it has a bucket
+      let standing;
+      if (userScore !== undefined && !isNaN(userScore)) {
+        const playerId = getPlayerIdFromRequest(req);
+        const ownResult = playerId ? await PlayerResult.findOne({ playerId, challengeDateString: dateString }) : null;
+        const countScore = ownResult && ownResult.score === userScore
+          ? !wasIncludedInAggregates(ownResult)
+          : !challenge.stats.distributions.some(dist => dist.score === userScore && dist.count > 0);
+        standing = computeScoreStanding(challenge.stats.distributions, userScore, countScore);
+      }
+
+      // Return the processed data, with the exact count-weighted standing when a score was given
       res.status(200).json({
-        date: targetDate.toISOString().split('T')[0],
+        date: dateString,
         averageScore: challenge.stats.averageScore,
         completions: challenge.stats.completions, 
-        distribution: processedData
+        distribution: processedData,
+        ...(standing ? { standing } : {})
       });
     } catch (error) {
       logger.error('Error fetching distribution data:', error);
@@ -1261,7 +522,13 @@ router.get('/daily-challenge/date/:date', (async (req: Request, res: Response):
 
        
         // The response will now be smaller, without the 'stats' object.
-        res.status(200).json(challenge);
+        // Answer fields are stripped; they are only available through the session reveal endpoint.
+        res.status(200).json({
+            _id: challenge._id,
+            images: toPlayImages(challenge.images),
+            date: challenge.date,
+            active: challenge.active
+        });
 
     } catch (error) {
        
@@ -1284,19 +551,54 @@ const verifyAdmin: RequestHandler = (req, res, next) => {
 
 
 
+interface RejectedFilename {
+  filename: string;
+  status: ImageLookupStatus | 'license-not-allowed';
+  reason: string;
+}
+
+// Looks up the filenames of an admin create/update and splits them into usable
+// images and rejections; images must also have an allowed license
+async function lookupChallengeImages(filenames: string[]): Promise<{ images: WikimediaImage[]; rejected: RejectedFilename[] }> {
+  const images: WikimediaImage[] = [];
+  const rejected: RejectedFilename[] = [];
+
+  for (const result of await lookupImages(filenames)) {
+    if (!result.image) {
+      rejected.push({ filename: result.filename, status: result.status, reason: result.reason || result.status });
+      continue;
+    }
+    const licenseError = validateImageLicense(result.image.attribution);
+    if (licenseError) {
+      rejected.push({ filename: result.filename, status: 'license-not-allowed', reason: licenseError });
+      continue;
+    }
+    images.push(result.image);
+  }
+  return { images, rejected };
+}
+
 /**
  * POST /api/images/daily-challenge/admin/create
  * Create a new daily challenge (Admin only)
+ * Body: { date: YYYY-MM-DD, filenames: string[], allOrNothing?: boolean }
+ * Unusable filenames are listed in `rejected`; with allOrNothing nothing is created if there are any.
  */
 router.post('/daily-challenge/admin/create', verifyAdmin, (async (req, res) => {
   try {
-    const { date, filenames } = req.body;
+    const { date, filenames, allOrNothing = false } = req.body;
     
     if (!date || !Array.isArray(filenames) || filenames.length === 0) {
       return res.status(400).json({ 
         error: 'Invalid request. Required: date (YYYY-MM-DD) and filenames array' 
       });
     }
+    if (!filenames.every(filename => typeof filename === 'string' && filename.trim())) {
+      return res.status(400).json({ error: 'filenames must be non-empty strings' });
+    }
+    if (typeof allOrNothing !== 'boolean') {
+      return res.status(400).json({ error: 'allOrNothing must be a boolean' });
+    }
     
     // Parse date
     const challengeDate = toZonedTime(`${date}T00:00:00`, TARGET_TIMEZONE);
@@ -1318,11 +620,14 @@ router.post('/daily-challenge/admin/create', verifyAdmin, (async (req, res) => {
     }
     
     // Fetch complete image data from Wikimedia
-    const imageData = await fetchMultipleImageData(filenames);
+    const { images: imageData, rejected } = await lookupChallengeImages(filenames);
     
-    if (imageData.length === 0) {
+    if (imageData.length === 0 || (allOrNothing && rejected.length > 0)) {
       return res.status(400).json({ 
-        error: 'Failed to fetch any valid image data from the provided filenames' 
+        error: imageData.length === 0
+          ? 'None of the provided filenames could be used'
+          : 'Some filenames could not be used and allOrNothing is set',
+        rejected
       });
     }
     
@@ -1343,7 +648,8 @@ router.post('/daily-challenge/admin/create', verifyAdmin, (async (req, res) => {
     res.status(201).json({
       message: 'Daily challenge created successfully',
       challengeId: newChallenge._id,
-      imageCount: imageData.length
+      imageCount: imageData.length,
+      rejected
     });
   } catch (error) {
     logger.error('Error creating daily challenge:', error);
@@ -1373,11 +679,19 @@ router.get('/daily-challenge/dates', async (req: Request, res: Response) => {
 /**
  * PUT /api/images/daily-challenge/admin/:id
  * Update an existing daily challenge (Admin only)
+ * Body: { date?, filenames?: string[], active?, allOrNothing?: boolean }, as for create
  */
 router.put('/daily-challenge/admin/:id', verifyAdmin, (async (req, res) => {
   try {
     const { id } = req.params;
-    const { date, filenames, active } = req.body;
+    const { date, filenames, active, allOrNothing = false } = req.body;
+    
+    if (Array.isArray(filenames) && !filenames.every(filename => typeof filename === 'string' && filename.trim())) {
+      return res.status(400).json({ error: 'filenames must be non-empty strings' });
+    }
+    if (typeof allOrNothing !== 'boolean') {
+      return res.status(400).json({ error: 'allOrNothing must be a boolean' });
+    }
     
     // Find the challenge
     const challenge = await DailyChallenge.findById(id);
@@ -1399,16 +713,21 @@ router.put('/daily-challenge/admin/:id', verifyAdmin, (async (req, res) => {
     }
     
     // Update images if filenames provided
+    let rejected: RejectedFilename[] = [];
     if (Array.isArray(filenames) && filenames.length > 0) {
-      const imageData = await fetchMultipleImageData(filenames);
+      const lookup = await lookupChallengeImages(filenames);
+      rejected = lookup.rejected;
       
-      if (imageData.length === 0) {
+      if (lookup.images.length === 0 || (allOrNothing && rejected.length > 0)) {
         return res.status(400).json({ 
-          error: 'Failed to fetch any valid image data from the provided filenames' 
+          error: lookup.images.length === 0
+            ? 'None of the provided filenames could be used'
+            : 'Some filenames could not be used and allOrNothing is set',
+          rejected
         });
       }
       
-      challenge.images = imageData;
+      challenge.images = lookup.images;
     }
     
     // Update active status if provided
@@ -1425,7 +744,8 @@ router.put('/daily-challenge/admin/:id', verifyAdmin, (async (req, res) => {
         date: challenge.date,
         imageCount: challenge.images.length,
         active: challenge.active
-      }
+      },
+      rejected
     });
   } catch (error) {
     logger.error('Error updating daily challenge:', error);
@@ -1492,7 +812,18 @@ router.get('/daily-challenge/today', async (req, res) => {
       res.status(404).json({ error: 'No daily challenge available for today' });
       return;
     }
-    res.json(challenge);
+    // Play projection only: answers (and round guess distributions) stay server-side until revealed
+    res.json({
+      _id: challenge._id,
+      date: challenge.date,
+      active: challenge.active,
+      images: toPlayImages(challenge.images),
+      stats: {
+        averageScore: challenge.stats?.averageScore,
+        completions: challenge.stats?.completions,
+        processedDistribution: challenge.stats?.processedDistribution
+      }
+    });
 
   } catch (err) {
   
@@ -1503,6 +834,9 @@ router.get('/daily-challenge/today', async (req, res) => {
 /**
  * GET /api/images/daily-challenge/round-guess-distributions
  * Get processed round guess distributions for a specific date.
+ * For today's (or a future) challenge the crowd's guesses would give the answers
+ * away, so only rounds already guessed in the play session given by ?sessionId= are
+ * returned, and only to that session's player (X-Player-Token).
  */
 router.get('/daily-challenge/round-guess-distributions', (async (req: Request, res: Response) => {
   try {
@@ -1517,6 +851,21 @@ router.get('/daily-challenge/round-guess-distributions', (async (req: Request, r
     const startDate = new Date(dateQuery + 'T00:00:00.000Z');
     const endDate = new Date(startDate.getTime() + 24 * 60 * 60 * 1000); // 24 hours later UTC
 
+    // Rounds the caller may see for a challenge that is still being played; null means all of them
+    let revealedRounds: Set<number> | null = null;
+    const todayET = formatInTimeZone(new Date(), TARGET_TIMEZONE, 'yyyy-MM-dd');
+    if (dateQuery >= todayET) {
+      const sessionId = req.query.sessionId;
+      const playerId = getPlayerIdFromRequest(req);
+      const session = playerId && typeof sessionId === 'string' && mongoose.Types.ObjectId.isValid(sessionId)
+        ? await PlaySession.findOne({ _id: sessionId, challengeDateString: dateQuery, playerId }).select('guesses.roundIndex').lean()
+        : null;
+      if (!session) {
+        return res.status(403).json({ error: 'Round guess distributions for this challenge are only available for rounds guessed in your play session.' });
+      }
+      revealedRounds = new Set(session.guesses.map(guess => guess.roundIndex));
+    }
+
     logger.info(`[RoundGuessDists] Querying for challenge date ${dateQuery} (UTC range: ${startDate.toISOString()} to ${endDate.toISOString()})`);
 
     const challenge = await DailyChallenge.findOne(
@@ -1526,7 +875,10 @@ router.get('/daily-challenge/round-guess-distributions', (async (req: Request, r
 
     if (challenge && challenge.stats && challenge.stats.roundGuessDistributions) {
       logger.info(`[RoundGuessDists] Found and returning round guess distributions for date: ${dateQuery}`);
-      res.status(200).json(challenge.stats.roundGuessDistributions);
+      const distributions = challenge.stats.roundGuessDistributions;
+      res.status(200).json(revealedRounds
+        ? distributions.filter(distribution => revealedRounds!.has(distribution.roundIndex))
+        : distributions);
     } else {
       logger.warn(`[RoundGuessDists] Round guess distributions not found for date: ${dateQuery}`);
       res.status(404).json({ message: 'Round guess distributions not found for this date.' });
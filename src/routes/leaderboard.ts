@@ -0,0 +1,74 @@
+// src/routes/leaderboard.ts
+import express, { Request, Response, RequestHandler } from 'express';
+import LeaderboardEntry from '../models/LeaderboardEntry';
+import logger from '../utils/logger';
+import { getChallengeDateRange } from '../utils/challengeDates';
+import { getPlayerIdFromRequest } from '../utils/playerToken';
+import { LEADERBOARD_SORT, getLeaderboardRank } from '../utils/leaderboard';
+
+const router = express.Router();
+
+const ANONYMOUS_DISPLAY_NAME = 'Anonymous player';
+
+/**
+ * GET /api/images/daily-challenge/leaderboard?date=YYYY-MM-DD&page=1&limit=25
+ * Ranked submissions for a day (defaults to today): score, then fewest total
+ * years off, then earliest submission. Callers sending an X-Player-Token also
+ * get their own rank.
+ */
+router.get('/', (async (req: Request, res: Response) => {
+  try {
+    const range = getChallengeDateRange(req.query.date as string | undefined);
+    if (!range) {
+      return res.status(400).json({ error: 'Invalid date format. Use YYYY-MM-DD' });
+    }
+
+    const playerId = getPlayerIdFromRequest(req);
+    if (playerId === null) {
+      return res.status(401).json({ error: 'Invalid player token' });
+    }
+
+    const pageNumber = Math.max(1, parseInt(req.query.page as string, 10) || 1);
+    const limitNumber = Math.min(100, Math.max(1, parseInt(req.query.limit as string, 10) || 25));
+    const filter = { challengeDateString: range.queryDateString };
+
+    const [entries, total, ownEntry] = await Promise.all([
+      LeaderboardEntry.find(filter)
+        .sort(LEADERBOARD_SORT)
+        .skip((pageNumber - 1) * limitNumber)
+        .limit(limitNumber)
+        .lean(),
+      LeaderboardEntry.countDocuments(filter),
+      playerId ? LeaderboardEntry.findOne({ ...filter, playerId }).lean() : Promise.resolve(null)
+    ]);
+
+    res.status(200).json({
+      date: range.queryDateString,
+      entries: entries.map((entry, index) => ({
+        rank: (pageNumber - 1) * limitNumber + index + 1,
+        displayName: entry.displayName || ANONYMOUS_DISPLAY_NAME,
+        score: entry.score,
+        totalYearsOff: entry.totalYearsOff,
+        submittedAt: entry.submittedAt,
+        ...(playerId && entry.playerId === playerId ? { isCaller: true } : {})
+      })),
+      total,
+      totalPages: Math.ceil(total / limitNumber),
+      currentPage: pageNumber,
+      me: ownEntry
+        ? {
+            rank: await getLeaderboardRank(ownEntry),
+            displayName: ownEntry.displayName || ANONYMOUS_DISPLAY_NAME,
+            score: ownEntry.score,
+            totalYearsOff: ownEntry.totalYearsOff,
+            submittedAt: ownEntry.submittedAt
+          }
+        : null
+    });
+  } catch (error) {
+    logger.error('[Leaderboard] Error fetching leaderboard:', error);
+    res.status(500).json({ error: 'Failed to fetch leaderboard' });
+  }
+}) as RequestHandler);
+
+export default router;
@@ -0,0 +1,166 @@
+// src/routes/players.ts
+import express, { Request, Response, RequestHandler } from 'express';
+import logger from '../utils/logger';
+import PlayerResult from '../models/PlayerResult';
+import PlayerProfile from '../models/PlayerProfile';
+import LeaderboardEntry from '../models/LeaderboardEntry';
+import { issuePlayerToken, getPlayerIdFromRequest, requirePlayer } from '../utils/playerToken';
+import { computeDailyStreaks, toTargetTimezoneDay } from '../utils/streaks';
+import { validateDisplayName } from '../utils/leaderboard';
+import { createClientRateLimiter } from '../utils/rateLimits';
+
+const router = express.Router();
+
+// Minting tokens is free, so cap it per IP to keep token rotation from bypassing per-player dedupe
+const tokenLimiter = createClientRateLimiter('player token', {
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10,
+  message: 'Too many player tokens requested from this IP, please try again later',
+  ipOnly: true
+});
+
+/**
+ * POST /api/players/token
+ * Issue a new anonymous player token. No account is needed; clients keep the
+ * token and send it as the X-Player-Token header.
+ */
+router.post('/token', tokenLimiter, (req: Request, res: Response) => {
+  const { playerId, token } = issuePlayerToken();
+  logger.info(`[Players] Issued player token for ${playerId}`);
+  res.status(201).json({ playerId, token });
+});
+
+/**
+ * GET /api/players/me
+ * Validate a player token and return its player ID.
+ */
+router.get('/me', ((req: Request, res: Response) => {
+  const playerId = getPlayerIdFromRequest(req);
+  if (!playerId) {
+    return res.status(401).json({ error: 'Missing or invalid player token' });
+  }
+  res.status(200).json({ playerId });
+}) as RequestHandler);
+
+/**
+ * GET /api/players/me/history
+ * A player's past daily challenge results, newest challenge first (paginated).
+ */
+router.get('/me/history', requirePlayer, (async (req: Request, res: Response) => {
+  try {
+    const playerId = res.locals.playerId as string;
+    const pageNumber = Math.max(1, parseInt(req.query.page as string, 10) || 1);
+    const limitNumber = Math.min(100, Math.max(1, parseInt(req.query.limit as string, 10) || 20));
+
+    const [results, total] = await Promise.all([
+      PlayerResult.find({ playerId })
+        .sort({ challengeDateString: -1 })
+        .skip((pageNumber - 1) * limitNumber)
+        .limit(limitNumber)
+        .select('challengeDateString score rounds submittedAt -_id')
+        .lean(),
+      PlayerResult.countDocuments({ playerId })
+    ]);
+
+    res.status(200).json({
+      results: results.map(result => ({
+        date: result.challengeDateString,
+        score: result.score,
+        rounds: result.rounds,
+        submittedAt: result.submittedAt
+      })),
+      total,
+      totalPages: Math.ceil(total / limitNumber),
+      currentPage: pageNumber
+    });
+  } catch (error) {
+    logger.error('[Players] Error fetching player history:', error);
+    res.status(500).json({ error: 'Failed to fetch player history' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /api/players/me/stats
+ * Summary stats for a player: games played, average score, best day and daily
+ * streaks. Streaks count days (in TARGET_TIMEZONE) on which the player completed
+ * that day's challenge.
+ */
+router.get('/me/stats', requirePlayer, (async (req: Request, res: Response) => {
+  try {
+    const playerId = res.locals.playerId as string;
+    const results = await PlayerResult.find({ playerId })
+      .select('challengeDateString score submittedAt -_id')
+      .lean();
+
+    const gamesPlayed = results.length;
+    const averageScore = gamesPlayed > 0
+      ? Math.round(results.reduce((sum, result) => sum + result.score, 0) / gamesPlayed)
+      : 0;
+
+    // Highest score; ties go to the earliest challenge
+    const best = results.reduce<typeof results[number] | null>((currentBest, result) => {
+      if (!currentBest || result.score > currentBest.score ||
+          (result.score === currentBest.score && result.challengeDateString < currentBest.challengeDateString)) {
+        return result;
+      }
+      return currentBest;
+    }, null);
+
+    const playedOnTheDay = results
+      .filter(result => toTargetTimezoneDay(result.submittedAt) === result.challengeDateString)
+      .map(result => result.challengeDateString);
+    const streaks = computeDailyStreaks(playedOnTheDay, toTargetTimezoneDay(new Date()));
+
+    res.status(200).json({
+      playerId,
+      gamesPlayed,
+      averageScore,
+      bestDay: best ? { date: best.challengeDateString, score: best.score } : null,
+      currentStreak: streaks.currentStreak,
+      longestStreak: streaks.longestStreak,
+      lastPlayedDate: streaks.lastPlayedDate
+    });
+  } catch (error) {
+    logger.error('[Players] Error fetching player stats:', error);
+    res.status(500).json({ error: 'Failed to fetch player stats' });
+  }
+}) as RequestHandler);
+
+/**
+ * PUT /api/players/me/display-name
+ * Opt in to showing a display name on leaderboards, or send null/"" to go back
+ * to anonymous. Existing leaderboard entries are updated too.
+ */
+router.put('/me/display-name', requirePlayer, (async (req: Request, res: Response) => {
+  try {
+    const playerId = res.locals.playerId as string;
+    const { displayName } = req.body;
+
+    let newDisplayName: string | null = null;
+    if (displayName !== null && displayName !== undefined && displayName !== '') {
+      if (typeof displayName !== 'string') {
+        return res.status(400).json({ error: 'displayName must be a string or null' });
+      }
+      const validationError = validateDisplayName(displayName);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      newDisplayName = displayName.trim();
+    }
+
+    await PlayerProfile.updateOne(
+      { playerId },
+      { $set: { displayName: newDisplayName } },
+      { upsert: true }
+    );
+    await LeaderboardEntry.updateMany({ playerId }, { $set: { displayName: newDisplayName } });
+
+    logger.info(`[Players] Player ${playerId} ${newDisplayName ? 'set' : 'cleared'} display name`);
+    res.status(200).json({ playerId, displayName: newDisplayName });
+  } catch (error) {
+    logger.error('[Players] Error updating display name:', error);
+    res.status(500).json({ error: 'Failed to update display name' });
+  }
+}) as RequestHandler);
+
+export default router;
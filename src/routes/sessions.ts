@@ -0,0 +1,438 @@
+// src/routes/sessions.ts
+import express, { Request, Response, RequestHandler } from 'express';
+import mongoose from 'mongoose';
+import { formatInTimeZone } from 'date-fns-tz';
+import DailyChallenge from '../models/DailyChallenge';
+import PlaySession, { IPlaySession, SessionGuess } from '../models/PlaySession';
+import PlaySessionMarker from '../models/PlaySessionMarker';
+import RoundGuess from '../models/RoundGuess';
+import PlayerResult, { IPlayerResult } from '../models/PlayerResult';
+import logger from '../utils/logger';
+import { getChallengeDateRange, TARGET_TIMEZONE } from '../utils/challengeDates';
+import { toPlayImage, toPlayImages } from '../utils/playProjection';
+import { calculateRoundScore, getGuessDirection, isValidGuessYear, CLOSE_GUESS_YEARS } from '../utils/scoring';
+import { MIN_YEAR, CURRENT_YEAR } from '../utils/randomImages';
+import { mapProcessedDistributionForResponse, applyPlayerResultToChallengeStats, enqueueChallengeStatsJobs } from '../utils/challengeStats';
+import { requirePlayer } from '../utils/playerToken';
+import { recordLeaderboardEntry } from '../utils/leaderboard';
+import { createClientRateLimiter } from '../utils/rateLimits';
+import { WikimediaImage } from '../types/wikimedia';
+
+const router = express.Router();
+
+// Every started session fetches a challenge and every guess reveals an answer, so both are capped per caller
+const sessionStartLimiter = createClientRateLimiter('session start', {
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10,
+  message: 'Too many play sessions started, please try again later'
+});
+const sessionGuessLimiter = createClientRateLimiter('session guess', {
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 100,
+  message: 'Too many guesses, please try again later'
+});
+
+// Sessions reveal each round's year, so they are tied to a player: the submit route refuses
+// dates the player has a session for, which an anonymous session would slip past
+router.use(requirePlayer);
+
+// Loads the caller's session by the :sessionId param, responding 404 when it is missing or
+// malformed and 403 when it belongs to another player
+async function findSession(req: Request, res: Response) {
+  const { sessionId } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+    res.status(404).json({ error: 'Play session not found' });
+    return null;
+  }
+  const session = await PlaySession.findById(sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Play session not found' });
+    return null;
+  }
+  if (session.playerId !== res.locals.playerId) {
+    res.status(403).json({ error: 'This play session belongs to another player' });
+    return null;
+  }
+  return session;
+}
+
+function parseRoundIndex(value: unknown): number | null {
+  const roundIndex = Number(value);
+  return Number.isInteger(roundIndex) && roundIndex >= 0 ? roundIndex : null;
+}
+
+// Client-facing view of a session, modelled on the front end's GameState
+function toSessionState(session: IPlaySession, images: WikimediaImage[]) {
+  const round = session.guesses.length;
+  const nextImage = session.status === 'active' && round < images.length ? images[round] : null;
+  return {
+    sessionId: session._id,
+    challengeId: session.challengeId,
+    challengeDate: session.challengeDateString,
+    status: session.status,
+    round,
+    totalRounds: session.totalRounds,
+    score: session.score,
+    streak: session.streak,
+    bestStreak: session.bestStreak,
+    correctGuesses: session.guesses.filter(g => g.correct).length,
+    guessHistory: session.guesses.map(g => ({ year: g.guessedYear, correct: g.correct, direction: g.direction })),
+    rounds: session.guesses,
+    image: nextImage ? toPlayImage(nextImage) : null,
+    finishedAt: session.finishedAt
+  };
+}
+
+/**
+ * POST /api/images/daily-challenge/session
+ * Start a play session for a challenge date (defaults to today; future dates are refused).
+ * Returns the challenge images without answer fields. Requires an
+ * X-Player-Token; the session and its result belong to that player, and all
+ * session routes need the same token. A player has one session per date, so
+ * starting again returns the existing session (200) instead of a new one (201).
+ */
+router.post('/', sessionStartLimiter, (async (req: Request, res: Response) => {
+  try {
+    const playerId = res.locals.playerId as string;
+    const range = getChallengeDateRange(req.body.date);
+    if (!range) {
+      return res.status(400).json({ error: 'Invalid date format. Use YYYY-MM-DD' });
+    }
+    // Sessions reveal each round's year, so challenges that haven't gone live yet can't be played
+    if (range.queryDateString > formatInTimeZone(new Date(), TARGET_TIMEZONE, 'yyyy-MM-dd')) {
+      return res.status(404).json({ error: 'No daily challenge available for this date' });
+    }
+
+    const challenge = await DailyChallenge.findOne({
+      date: { $gte: range.startDate, $lt: range.endDate },
+      active: true
+    }).select('_id date images');
+
+    if (!challenge) {
+      return res.status(404).json({ error: 'No daily challenge available for this date' });
+    }
+
+    // One session per player per date: starting again resumes the existing one
+    const sessionKey = { playerId, challengeDateString: range.queryDateString };
+    let session = await PlaySession.findOne(sessionKey);
+    let created = false;
+    if (!session) {
+      // The session expired, but its answers were revealed; the date can't be played again
+      if (await PlaySessionMarker.exists(sessionKey)) {
+        return res.status(409).json({ error: 'This challenge was already played in a session' });
+      }
+      try {
+        session = await PlaySession.create({
+          challengeId: challenge._id,
+          ...sessionKey,
+          // Stored as UTC midnight so per-round RoundGuess rows line up with the distribution processor
+          challengeDate: new Date(range.queryDateString + 'T00:00:00.000Z'),
+          totalRounds: challenge.images.length,
+          guesses: []
+        });
+        created = true;
+      } catch (createError: any) {
+        // A concurrent start created it first
+        if (createError?.code !== 11000) {
+          throw createError;
+        }
+        session = await PlaySession.findOne(sessionKey);
+        if (!session) {
+          throw createError;
+        }
+      }
+    }
+
+    // Written on resume too, so a start that failed after creating the session still leaves the marker
+    await PlaySessionMarker.updateOne(
+      sessionKey,
+      { $setOnInsert: { ...sessionKey, sessionId: session._id } },
+      { upsert: true }
+    );
+
+    if (created) {
+      logger.info(`[PlaySession] Started session ${session._id} for challenge ${challenge._id} (${range.queryDateString})`);
+    } else {
+      logger.info(`[PlaySession] Resuming session ${session._id} for player ${playerId} (${range.queryDateString})`);
+    }
+
+    res.status(created ? 201 : 200).json({
+      ...toSessionState(session, challenge.images),
+      challenge: {
+        _id: challenge._id,
+        date: challenge.date,
+        images: toPlayImages(challenge.images)
+      }
+    });
+  } catch (error) {
+    logger.error('[PlaySession] Error starting play session:', error);
+    res.status(500).json({ error: 'Failed to start play session' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /api/images/daily-challenge/session/:sessionId
+ * Current state of a session: progress, score, streak and guess history.
+ */
+router.get('/:sessionId', (async (req: Request, res: Response) => {
+  try {
+    const session = await findSession(req, res);
+    if (!session) return;
+
+    const challenge = await DailyChallenge.findById(session.challengeId).select('images');
+    res.status(200).json(toSessionState(session, challenge?.images || []));
+  } catch (error) {
+    logger.error('[PlaySession] Error fetching session state:', error);
+    res.status(500).json({ error: 'Failed to fetch play session' });
+  }
+}) as RequestHandler);
+
+/**
+ * POST /api/images/daily-challenge/session/:sessionId/guess
+ * Submit the single guess allowed for the current round. Rounds are played in
+ * order; the scored result and the round's reveal are returned immediately and
+ * the guess is written to RoundGuess.
+ */
+router.post('/:sessionId/guess', sessionGuessLimiter, (async (req: Request, res: Response) => {
+  try {
+    const guessedYear = Number(req.body.guessedYear);
+    if (!Number.isInteger(guessedYear)) {
+      return res.status(400).json({ error: 'Required: integer guessedYear' });
+    }
+    if (!isValidGuessYear(guessedYear)) {
+      return res.status(400).json({ error: `guessedYear must be between ${MIN_YEAR} and ${CURRENT_YEAR}` });
+    }
+
+    const session = await findSession(req, res);
+    if (!session) return;
+
+    if (session.status !== 'active') {
+      return res.status(409).json({ error: 'This play session is already finished' });
+    }
+
+    const roundIndex = session.guesses.length;
+    if (req.body.roundIndex !== undefined && parseRoundIndex(req.body.roundIndex) !== roundIndex) {
+      return res.status(409).json({ error: `Expected a guess for round ${roundIndex}`, expectedRoundIndex: roundIndex });
+    }
+
+    const challenge = await DailyChallenge.findById(session.challengeId).select('images');
+    const image = challenge?.images[roundIndex];
+    if (!challenge || !image) {
+      return res.status(409).json({ error: 'All rounds in this session have been guessed' });
+    }
+
+    const yearsOff = Math.abs(guessedYear - image.year);
+    const guess: SessionGuess = {
+      roundIndex,
+      guessedYear,
+      actualYear: image.year,
+      yearsOff,
+      points: calculateRoundScore(guessedYear, image.year),
+      correct: yearsOff <= CLOSE_GUESS_YEARS,
+      direction: getGuessDirection(guessedYear, image.year),
+      guessedAt: new Date()
+    };
+    const streak = guess.correct ? session.streak + 1 : 0;
+
+    // Conditional on the guess count so concurrent requests cannot record a round twice
+    const updatedSession = await PlaySession.findOneAndUpdate(
+      { _id: session._id, status: 'active', guesses: { $size: roundIndex } },
+      {
+        $push: { guesses: guess },
+        $inc: { score: guess.points },
+        $set: { streak, bestStreak: Math.max(session.bestStreak, streak) }
+      },
+      { new: true }
+    );
+
+    if (!updatedSession) {
+      return res.status(409).json({ error: `A guess has already been recorded for round ${roundIndex}` });
+    }
+
+    try {
+      await RoundGuess.create({
+        challengeDate: session.challengeDate,
+        roundIndex,
+        guessedYear
+      });
+    } catch (guessSaveError: any) {
+      // Don't fail the round for the player; the aggregate guess curve just misses this point
+      logger.error(`[PlaySession] Failed to save RoundGuess for session ${session._id}, round ${roundIndex}: ${guessSaveError.message}`, guessSaveError);
+    }
+
+    res.status(201).json({
+      result: guess,
+      reveal: {
+        roundIndex,
+        year: image.year,
+        revealedDescription: image.revealedDescription || '',
+        attribution: image.attribution || null
+      },
+      state: toSessionState(updatedSession, challenge.images)
+    });
+  } catch (error) {
+    logger.error('[PlaySession] Error recording guess:', error);
+    res.status(500).json({ error: 'Failed to record guess' });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /api/images/daily-challenge/session/:sessionId/reveal/:roundIndex
+ * Reveal a round's answer once the session's player has recorded a guess for it.
+ */
+router.get('/:sessionId/reveal/:roundIndex', (async (req: Request, res: Response) => {
+  try {
+    const roundIndex = parseRoundIndex(req.params.roundIndex);
+    if (roundIndex === null) {
+      return res.status(400).json({ error: 'roundIndex must be a non-negative integer' });
+    }
+
+    const session = await findSession(req, res);
+    if (!session) return;
+
+    const guess = session.guesses.find(g => g.roundIndex === roundIndex);
+    if (!guess) {
+      return res.status(403).json({ error: `Round ${roundIndex} cannot be revealed before a guess is recorded` });
+    }
+
+    const challenge = await DailyChallenge.findById(session.challengeId).select('images');
+    const image = challenge?.images[roundIndex];
+    if (!image) {
+      return res.status(404).json({ error: `Round ${roundIndex} not found for this challenge` });
+    }
+
+    res.status(200).json({
+      roundIndex,
+      guessedYear: guess.guessedYear,
+      points: guess.points,
+      year: image.year,
+      revealedDescription: image.revealedDescription || '',
+      attribution: image.attribution || null
+    });
+  } catch (error) {
+    logger.error('[PlaySession] Error revealing round:', error);
+    res.status(500).json({ error: 'Failed to reveal round' });
+  }
+}) as RequestHandler);
+
+/**
+ * POST /api/images/daily-challenge/session/:sessionId/finish
+ * Finish a fully guessed session and count it as a challenge completion.
+ * Round guesses were already stored as each round was played. Finishing again
+ * returns the same result, completing any step an earlier attempt missed.
+ */
+router.post('/:sessionId/finish', (async (req: Request, res: Response) => {
+  try {
+    const session = await findSession(req, res);
+    if (!session) return;
+
+    if (session.guesses.length < session.totalRounds) {
+      return res.status(409).json({
+        error: `Session has ${session.totalRounds - session.guesses.length} unplayed round(s)`,
+        round: session.guesses.length
+      });
+    }
+
+    // A retry of a finish that failed part-way finds the session already finished and
+    // re-runs the steps below, each of which is idempotent
+    const finishedSession = await PlaySession.findOneAndUpdate(
+      { _id: session._id, status: 'active' },
+      { $set: { status: 'finished', finishedAt: new Date() } },
+      { new: true }
+    ) || await PlaySession.findById(session._id);
+    if (!finishedSession) {
+      return res.status(404).json({ error: 'Play session not found' });
+    }
+
+    const todayET = formatInTimeZone(new Date(), TARGET_TIMEZONE, 'yyyy-MM-dd');
+    const resultKey = { playerId: finishedSession.playerId, challengeDateString: finishedSession.challengeDateString };
+
+    // Same per-player dedupe as the submit route: only the first completion of a date counts
+    let playerResult: IPlayerResult | null;
+    try {
+      playerResult = await PlayerResult.findOneAndUpdate(
+        resultKey,
+        {
+          $setOnInsert: {
+            ...resultKey,
+            challengeDate: finishedSession.challengeDate,
+            score: finishedSession.score,
+            rounds: finishedSession.guesses.map(g => ({
+              roundIndex: g.roundIndex,
+              guessedYear: g.guessedYear,
+              actualYear: g.actualYear,
+              yearsOff: g.yearsOff,
+              points: g.points
+            })),
+            submittedAt: finishedSession.finishedAt,
+            includedInAggregates: finishedSession.challengeDateString >= todayET,
+            statsPending: true,
+            sessionId: finishedSession._id
+          }
+        },
+        { upsert: true, new: true }
+      );
+    } catch (upsertError: any) {
+      // A concurrent finish or submission inserted the result first
+      if (upsertError?.code !== 11000) {
+        throw upsertError;
+      }
+      playerResult = await PlayerResult.findOne(resultKey);
+    }
+
+    if (!playerResult || String(playerResult.sessionId) !== String(finishedSession._id)) {
+      logger.info(`[PlaySession] Player ${finishedSession.playerId} already completed ${finishedSession.challengeDateString}. Session ${session._id} not counted.`);
+      return res.status(200).json({
+        message: 'Challenge already completed. Returning original result.',
+        duplicate: true,
+        score: playerResult?.score,
+        rounds: playerResult?.rounds,
+        submittedAt: playerResult?.submittedAt
+      });
+    }
+
+    // Decided when the result was first recorded, so a retry on a later day is counted the same way
+    const isPastChallenge = !playerResult.includedInAggregates;
+    await recordLeaderboardEntry({
+      playerId: finishedSession.playerId,
+      challengeDateString: finishedSession.challengeDateString,
+      score: finishedSession.score,
+      totalYearsOff: finishedSession.guesses.reduce((sum, g) => sum + g.yearsOff, 0),
+      submittedAt: playerResult.submittedAt
+    });
+
+    const appliedSubmission = await applyPlayerResultToChallengeStats(session.challengeId, playerResult);
+
+    if (!appliedSubmission) {
+      logger.warn(`[PlaySession] Challenge ${session.challengeId} for finished session ${session._id} no longer exists.`);
+      return res.status(404).json({ error: 'Challenge for this session no longer exists' });
+    }
+    const updatedChallengeIncremented = appliedSubmission.challenge;
+    logger.info(`[PlaySession] Finished session ${session._id} with score ${finishedSession.score} (${session.challengeDateString}, past: ${isPastChallenge})`);
+
+    // Past challenges only count the completion, matching the submit route. Queued before
+    // responding so the stats work isn't lost if the process stops
+    if (!isPastChallenge) {
+      await enqueueChallengeStatsJobs(updatedChallengeIncremented, session.challengeDateString);
+    }
+
+    res.status(200).json({
+      message: isPastChallenge
+        ? 'Completion count updated for past challenge.'
+        : 'Score submitted successfully. Detailed stats are updating.',
+      score: finishedSession.score,
+      rounds: finishedSession.guesses,
+      state: toSessionState(finishedSession, updatedChallengeIncremented.images),
+      stats: {
+        averageScore: updatedChallengeIncremented.stats.averageScore,
+        completions: updatedChallengeIncremented.stats.completions,
+        processedDistribution: mapProcessedDistributionForResponse(updatedChallengeIncremented.stats.processedDistribution)
+      }
+    });
+  } catch (error) {
+    logger.error('[PlaySession] Error finishing session:', error);
+    res.status(500).json({ error: 'Failed to finish play session' });
+  }
+}) as RequestHandler);
+
+export default router;
@@ -6,8 +6,7 @@ import { subDays } from 'date-fns';
 import DailyChallenge from '../models/DailyChallenge';
 import RoundGuess from '../models/RoundGuess';
 import { processAndStoreRoundGuessDistributions } from '../utils/distributionProcessor';
-import s3Client from '../utils/awsConfig';
-import { PutObjectCommand } from '@aws-sdk/client-s3';
+import { getArchiveStorage, isArchiveStorageConfigured, describeArchiveStorage } from '../utils/storage';
 import logger from '../utils/logger';
 
 
@@ -16,12 +15,22 @@ dotenv.config(); // For standalone execution
 
 // --- Configuration ---
 const TARGET_TIMEZONE = process.env.TARGET_TIMEZONE || 'America/New_York';
-const ARCHIVE_S3_BUCKET_NAME_FROM_ENV = process.env.ARCHIVE_S3_BUCKET_NAME;
 const ARCHIVE_S3_PREFIX = (process.env.ARCHIVE_S3_PREFIX || 'round-guesses-archive/').replace(/\/$/, ''); // Ensure no trailing slash initially
 const PROCESS_CHALLENGES_OLDER_THAN_DAYS: number = parseInt(process.env.PROCESS_CHALLENGES_OLDER_THAN_DAYS || "1", 10);
 // --- End Configuration --- 
 
-export async function archiveAndCleanupRoundGuesses(isLaunchedByApp?: boolean) {
+export interface ArchiveRunResult {
+    processed: number;
+    // Challenges whose distributions, archival or cleanup failed; their guesses stay in MongoDB
+    failed: { challengeDateString: string; error: string }[];
+}
+
+/**
+ * Archives and removes the raw round guesses of past challenges.
+ * Per-challenge failures are collected in the result rather than thrown, so one
+ * bad date doesn't stop the others; errors outside the loop are re-thrown.
+ */
+export async function archiveAndCleanupRoundGuesses(isLaunchedByApp?: boolean): Promise<ArchiveRunResult> {
     logger.info(`[ArchiveScript] Starting archival process. Launched by app: ${!!isLaunchedByApp}`);
 
     if (!isLaunchedByApp) { // <<< Only connect if NOT launched by app
@@ -45,14 +54,16 @@ export async function archiveAndCleanupRoundGuesses(isLaunchedByApp?: boolean) {
         logger.info("[ArchiveScript] Launched by App: Using existing MongoDB connection.");
     }
 
-    const canAttemptS3Archive = ARCHIVE_S3_BUCKET_NAME_FROM_ENV && process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY;
+    const canAttemptS3Archive = isArchiveStorageConfigured();
 
-    if (ARCHIVE_S3_BUCKET_NAME_FROM_ENV && !canAttemptS3Archive) {
-         logger.warn(`[ArchiveScript] ARCHIVE_S3_BUCKET_NAME ('${ARCHIVE_S3_BUCKET_NAME_FROM_ENV}') is set, but AWS credentials seem incomplete. S3 archival will be SKIPPED.`);
+    if (process.env.ARCHIVE_S3_BUCKET_NAME && !canAttemptS3Archive) {
+         logger.warn(`[ArchiveScript] ARCHIVE_S3_BUCKET_NAME ('${process.env.ARCHIVE_S3_BUCKET_NAME}') is set, but AWS credentials seem incomplete. S3 archival will be SKIPPED.`);
     }
     logger.info(`[ArchiveScript] Processing challenges older than ${PROCESS_CHALLENGES_OLDER_THAN_DAYS} day(s).`);
-    logger.info(`[ArchiveScript] S3 Archival is ${canAttemptS3Archive ? `ENABLED (Bucket: ${ARCHIVE_S3_BUCKET_NAME_FROM_ENV})` : 'DISABLED (S3 not fully configured)'}.`);
+    logger.info(`[ArchiveScript] Archival is ${canAttemptS3Archive ? `ENABLED (${describeArchiveStorage()})` : 'DISABLED (archive storage not fully configured)'}.`);
+
 
+    const result: ArchiveRunResult = { processed: 0, failed: [] };
 
     try {
         const now = new Date();
@@ -75,12 +86,17 @@ export async function archiveAndCleanupRoundGuesses(isLaunchedByApp?: boolean) {
             const challengeDateStringForProcessing = formatInTimeZone(challengeUtcDate, 'UTC', 'yyyy-MM-dd'); // Nominal date string YYYY-MM-DD
 
             logger.info(`[ArchiveScript] === Processing challenge for date: ${challengeDateStringForProcessing} (ID: ${challenge._id}) ===`);
+            result.processed++;
+            const recordFailure = (error: any) => {
+                result.failed.push({ challengeDateString: challengeDateStringForProcessing, error: String(error?.message || error) });
+            };
 
             if (challenge.roundStatsFinalized) {
                 // This challenge's main stats ARE finalized.
                 // Look for any NEW RoundGuess data submitted since the last cleanup for this date.
                 logger.info(`[ArchiveScript] Challenge ${challenge._id} (${challengeDateStringForProcessing}) is ALREADY FINALIZED. Checking for new round guesses to archive (delta).`);
-                const newRoundGuesses = await RoundGuess.find({ challengeDate: challengeUtcDate });
+                // Rows restored from the archive are already in S3 and are not new
+                const newRoundGuesses = await RoundGuess.find({ challengeDate: challengeUtcDate, restoredFromArchive: { $ne: true } });
 
                 if (newRoundGuesses.length > 0) {
                     logger.info(`[ArchiveScript] Found ${newRoundGuesses.length} new RoundGuess documents for already finalized challenge ${challengeDateStringForProcessing}.`);
@@ -89,19 +105,15 @@ export async function archiveAndCleanupRoundGuesses(isLaunchedByApp?: boolean) {
                     if (canAttemptS3Archive) {
                         const timestampForDelta = new Date().toISOString().replace(/:/g, '-').replace(/\./g, '-'); // Make it filename friendly
                         const deltaFileKey = `${ARCHIVE_S3_PREFIX}/${challengeDateStringForProcessing}/delta_${timestampForDelta}.jsonl`;
-                        logger.info(`[ArchiveScript] Attempting to archive ${newRoundGuesses.length} new guesses (delta) to S3: '${ARCHIVE_S3_BUCKET_NAME_FROM_ENV}/${deltaFileKey}'.`);
+                        logger.info(`[ArchiveScript] Attempting to archive ${newRoundGuesses.length} new guesses (delta) to ${describeArchiveStorage()}: '${deltaFileKey}'.`);
                         try {
                             const body = newRoundGuesses.map(doc => JSON.stringify(doc.toObject())).join('\n');
-                            await s3Client.send(new PutObjectCommand({
-                                Bucket: ARCHIVE_S3_BUCKET_NAME_FROM_ENV!,
-                                Key: deltaFileKey,
-                                Body: body,
-                                ContentType: 'application/jsonl'
-                            }));
+                            await getArchiveStorage().put(deltaFileKey, body, 'application/jsonl');
                             logger.info(`[ArchiveScript] Successfully archived ${newRoundGuesses.length} new guesses (delta) for ${challengeDateStringForProcessing} to S3 as '${deltaFileKey}'.`);
                             s3DeltaUploadSuccessful = true;
                         } catch (s3Error: any) {
                             logger.error(`[ArchiveScript] FAILED to archive NEW RoundGuesses (delta) to S3 for ${challengeDateStringForProcessing}. These guesses will remain in MongoDB. Error: ${s3Error.message}`, s3Error);
+                            recordFailure(s3Error);
                         }
                     } else {
                         logger.warn(`[ArchiveScript] S3 archival SKIPPED for NEW RoundGuesses (delta) for ${challengeDateStringForProcessing} (S3 not configured). These guesses will remain in MongoDB.`);
@@ -115,6 +127,7 @@ export async function archiveAndCleanupRoundGuesses(isLaunchedByApp?: boolean) {
                             logger.info(`[ArchiveScript] Successfully DELETED ${deleteResult.deletedCount} new RoundGuesses (delta) from MongoDB for finalized challenge ${challengeDateStringForProcessing}.`);
                         } catch (deleteError: any) {
                             logger.error(`[ArchiveScript] FAILED to delete NEW RoundGuesses (delta) from MongoDB for ${challengeDateStringForProcessing} after S3 success. Error: ${deleteError.message}`, deleteError);
+                            recordFailure(deleteError);
                         }
                     }
                 } else {
@@ -129,10 +142,11 @@ export async function archiveAndCleanupRoundGuesses(isLaunchedByApp?: boolean) {
                     logger.info(`[ArchiveScript] Successfully updated/finalized roundGuessDistributions for ${challengeDateStringForProcessing}.`);
                 } catch (e: any) {
                     logger.error(`[ArchiveScript] FAILED to update/finalize roundGuessDistributions for ${challengeDateStringForProcessing}. Skipping further processing for this date. Flag will not be set. Error: ${e.message}`, e);
+                    recordFailure(e);
                     continue; // Skip to next challenge if stats finalization fails
                 }
 
-                const allRoundGuessesForDate = await RoundGuess.find({ challengeDate: challengeUtcDate });
+                const allRoundGuessesForDate = await RoundGuess.find({ challengeDate: challengeUtcDate, restoredFromArchive: { $ne: true } });
 
                 if (allRoundGuessesForDate.length === 0) {
                     logger.info(`[ArchiveScript] No RoundGuess documents found for ${challengeDateStringForProcessing} during initial processing.`);
@@ -141,6 +155,7 @@ export async function archiveAndCleanupRoundGuesses(isLaunchedByApp?: boolean) {
                         logger.info(`[ArchiveScript] Marked DailyChallenge ${challenge._id} (${challengeDateStringForProcessing}) as roundStatsFinalized (no raw guesses found).`);
                     } catch (flagError: any) {
                         logger.error(`[ArchiveScript] FAILED to mark DailyChallenge ${challenge._id} as roundStatsFinalized (no raw guesses found). Error: ${flagError.message}`, flagError);
+                        recordFailure(flagError);
                     }
                     continue;
                 }
@@ -149,19 +164,15 @@ export async function archiveAndCleanupRoundGuesses(isLaunchedByApp?: boolean) {
                 let s3InitialUploadSuccessful = false;
                 if (canAttemptS3Archive) {
                     const initialArchiveFileKey = `${ARCHIVE_S3_PREFIX}/${challengeDateStringForProcessing}/${challengeDateStringForProcessing}-initial.jsonl`;
-                    logger.info(`[ArchiveScript] Attempting to archive ${allRoundGuessesForDate.length} initial documents to S3: '${ARCHIVE_S3_BUCKET_NAME_FROM_ENV}/${initialArchiveFileKey}'.`);
+                    logger.info(`[ArchiveScript] Attempting to archive ${allRoundGuessesForDate.length} initial documents to ${describeArchiveStorage()}: '${initialArchiveFileKey}'.`);
                     try {
                         const body = allRoundGuessesForDate.map(doc => JSON.stringify(doc.toObject())).join('\n');
-                        await s3Client.send(new PutObjectCommand({
-                            Bucket: ARCHIVE_S3_BUCKET_NAME_FROM_ENV!,
-                            Key: initialArchiveFileKey,
-                            Body: body,
-                            ContentType: 'application/jsonl'
-                        }));
+                        await getArchiveStorage().put(initialArchiveFileKey, body, 'application/jsonl');
                         logger.info(`[ArchiveScript] Successfully archived ${allRoundGuessesForDate.length} initial documents for ${challengeDateStringForProcessing} to S3 as '${initialArchiveFileKey}'.`);
                         s3InitialUploadSuccessful = true;
                     } catch (s3Error: any) {
                         logger.error(`[ArchiveScript] FAILED to archive initial RoundGuess documents to S3 for ${challengeDateStringForProcessing}. Error: ${s3Error.message}`, s3Error);
+                        recordFailure(s3Error);
                     }
                 } else {
                     logger.warn(`[ArchiveScript] S3 archival SKIPPED for initial RoundGuesses for ${challengeDateStringForProcessing} (S3 not configured). Data will NOT be deleted from MongoDB unless this logic is changed.`);
@@ -179,6 +190,7 @@ export async function archiveAndCleanupRoundGuesses(isLaunchedByApp?: boolean) {
                         logger.info(`[ArchiveScript] Marked DailyChallenge ${challenge._id} (${challengeDateStringForProcessing}) as roundStatsFinalized.`);
                     } catch (dbDeleteError: any) {
                         logger.error(`[ArchiveScript] FAILED to delete RoundGuess documents from MongoDB or set flag for ${challengeDateStringForProcessing} after S3 success. Error: ${dbDeleteError.message}`, dbDeleteError);
+                        recordFailure(dbDeleteError);
                     }
                 } else {
                     logger.warn(`[ArchiveScript] SKIPPING MongoDB deletion and finalization for ${challengeDateStringForProcessing} because initial S3 archival was not successful or not attempted due to configuration.`);
@@ -188,9 +200,8 @@ export async function archiveAndCleanupRoundGuesses(isLaunchedByApp?: boolean) {
 
     } catch (error: any) {
         logger.error(`[ArchiveScript] A critical error occurred during the main execution block: ${error.message}`, error);
-        // If an error happens in the main block, we might not want to disconnect if launched by app
-        if (!isLaunchedByApp) { throw error; } // Re-throw for standalone to be caught by outer catch
-        // If launched by app, the error is logged, but we don't disconnect here.
+        // Re-throw so callers (standalone catch, scheduler run history) see the run as failed
+        throw error;
     } finally {
         if (!isLaunchedByApp && mongoose.connection.readyState === 1) { // <<< Only disconnect if standalone AND connected
             await mongoose.disconnect();
@@ -199,11 +210,18 @@ export async function archiveAndCleanupRoundGuesses(isLaunchedByApp?: boolean) {
             logger.info("[ArchiveScript] Launched by App: Script logic finished. Leaving MongoDB connection managed by app.");
         }
     }
+
+    return result;
 }
 
 // This block ensures the script runs when executed directly with `node`
 if (require.main === module) {
-    archiveAndCleanupRoundGuesses(false).catch(e => { // <<< PASS false for standalone
+    archiveAndCleanupRoundGuesses(false).then(result => {
+        if (result.failed.length > 0) {
+            logger.error(`[ArchiveScript] ${result.failed.length} challenge(s) failed: ${result.failed.map(f => f.challengeDateString).join(', ')}`);
+            process.exitCode = 1;
+        }
+    }).catch(e => { // <<< PASS false for standalone
         logger.error("[ArchiveScript] Unhandled error at the top level of standalone script execution.", e);
         // Ensure disconnection if standalone and an error occurs before normal finally block
         if (mongoose.connection && mongoose.connection.readyState === 1) {
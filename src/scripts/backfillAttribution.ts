@@ -0,0 +1,82 @@
+// src/scripts/backfillAttribution.ts
+// Usage: node dist/scripts/backfillAttribution.js [--force]
+// Fetches artist, credit and license from Commons for challenge images that
+// don't have an attribution yet, then logs every image with a compliance issue.
+// --force refetches every Commons image.
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import DailyChallenge from '../models/DailyChallenge';
+import { fetchImageData } from '../utils/wikimediaHelper';
+import { getAttributionIssues } from '../utils/imageAttribution';
+import logger from '../utils/logger';
+
+async function backfillAttribution(force: boolean) {
+  const challenges = await DailyChallenge.find({ 'images.source': 'Wikimedia Commons' }).select('_id date images').sort({ date: 1 });
+  let updated = 0;
+  let failed = 0;
+
+  for (const challenge of challenges) {
+    for (const image of challenge.images as any[]) {
+      if (image.source !== 'Wikimedia Commons') continue;
+      if (!force && image.attribution) continue;
+
+      const commonsData = await fetchImageData(image.filename);
+      if (!commonsData?.attribution) {
+        logger.error(`[AttributionBackfill] Could not fetch Commons data for ${image.filename} (challenge ${challenge._id}).`);
+        failed++;
+        continue;
+      }
+
+      // Positional update so a concurrent admin edit of other fields isn't overwritten
+      await DailyChallenge.updateOne(
+        { _id: challenge._id, 'images._id': image._id },
+        { $set: { 'images.$.attribution': commonsData.attribution } }
+      );
+      updated++;
+    }
+  }
+  logger.info(`[AttributionBackfill] Updated ${updated} image(s) across ${challenges.length} challenge(s); ${failed} failed.`);
+}
+
+async function reportIssues() {
+  const challenges = await DailyChallenge.find()
+    .select('date images.title images.source images.attribution')
+    .sort({ date: 1 })
+    .lean();
+
+  let withIssues = 0;
+  for (const challenge of challenges) {
+    challenge.images.forEach((image, index) => {
+      const issues = getAttributionIssues(image);
+      if (issues.length > 0) {
+        withIssues++;
+        logger.warn(`[AttributionBackfill] ${challenge.date.toISOString().split('T')[0]} round ${index + 1} ("${image.title}"): ${issues.join('; ')}.`);
+      }
+    });
+  }
+  logger.info(`[AttributionBackfill] ${withIssues} image(s) have attribution issues.`);
+}
+
+async function main() {
+  const connectionString = process.env.MONGODB_URI;
+  if (!connectionString) {
+    logger.error('[AttributionBackfill] MONGODB_URI environment variable not set. Exiting.');
+    process.exit(1);
+  }
+
+  await mongoose.connect(connectionString);
+  try {
+    await backfillAttribution(process.argv.includes('--force'));
+    await reportIssues();
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main().catch(error => {
+  logger.error('[AttributionBackfill] Backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+// src/scripts/backfillImagePlaceholders.ts
+// Usage: node dist/scripts/backfillImagePlaceholders.js [--force]
+// Computes blurHash and dominantColor for challenge images that don't have them.
+// --force recomputes every image.
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import DailyChallenge from '../models/DailyChallenge';
+import { computeImagePlaceholder, loadChallengeImageBuffer } from '../utils/imageProcessor';
+import logger from '../utils/logger';
+
+async function backfillImagePlaceholders(force: boolean) {
+  const challenges = await DailyChallenge.find().select('_id date images').sort({ date: 1 });
+  let updated = 0;
+  let failed = 0;
+
+  for (const challenge of challenges) {
+    for (const image of challenge.images as any[]) {
+      if (!force && image.blurHash && image.dominantColor) continue;
+
+      const buffer = await loadChallengeImageBuffer(image);
+      if (!buffer) {
+        logger.error(`[PlaceholderBackfill] No image data for ${image.url} (challenge ${challenge._id}).`);
+        failed++;
+        continue;
+      }
+
+      try {
+        const placeholder = await computeImagePlaceholder(buffer);
+        // Positional update so a concurrent admin edit of other fields isn't overwritten
+        await DailyChallenge.updateOne(
+          { _id: challenge._id, 'images._id': image._id },
+          { $set: { 'images.$.blurHash': placeholder.blurHash, 'images.$.dominantColor': placeholder.dominantColor } }
+        );
+        updated++;
+      } catch (error) {
+        logger.error(`[PlaceholderBackfill] Failed to compute placeholder for ${image.url} (challenge ${challenge._id}):`, error);
+        failed++;
+      }
+    }
+  }
+
+  logger.info(`[PlaceholderBackfill] Updated ${updated} image(s) across ${challenges.length} challenge(s); ${failed} failed.`);
+}
+
+async function main() {
+  const connectionString = process.env.MONGODB_URI;
+  if (!connectionString) {
+    logger.error('[PlaceholderBackfill] MONGODB_URI environment variable not set. Exiting.');
+    process.exit(1);
+  }
+
+  await mongoose.connect(connectionString);
+  try {
+    await backfillImagePlaceholders(process.argv.includes('--force'));
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main().catch(error => {
+  logger.error('[PlaceholderBackfill] Backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,96 @@
+// src/scripts/backfillPerceptualHashes.ts
+// Usage: node dist/scripts/backfillPerceptualHashes.js [--force]
+// Computes perceptualHash for challenge images that don't have one, then lists
+// every pair of images across challenges that look like the same photo.
+// --force recomputes every image.
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import DailyChallenge from '../models/DailyChallenge';
+import { computeImagePerceptualHash, loadChallengeImageBuffer } from '../utils/imageProcessor';
+import { hammingDistance, DUPLICATE_HASH_THRESHOLD } from '../utils/perceptualHash';
+import logger from '../utils/logger';
+
+async function backfillPerceptualHashes(force: boolean) {
+  const challenges = await DailyChallenge.find().select('_id date images').sort({ date: 1 });
+  let updated = 0;
+  let failed = 0;
+
+  for (const challenge of challenges) {
+    for (const image of challenge.images as any[]) {
+      if (!force && image.perceptualHash) continue;
+
+      const buffer = await loadChallengeImageBuffer(image);
+      if (!buffer) {
+        logger.error(`[HashBackfill] No image data for ${image.url} (challenge ${challenge._id}).`);
+        failed++;
+        continue;
+      }
+
+      try {
+        const perceptualHash = await computeImagePerceptualHash(buffer);
+        // Positional update so a concurrent admin edit of other fields isn't overwritten
+        await DailyChallenge.updateOne(
+          { _id: challenge._id, 'images._id': image._id },
+          { $set: { 'images.$.perceptualHash': perceptualHash } }
+        );
+        updated++;
+      } catch (error) {
+        logger.error(`[HashBackfill] Failed to hash ${image.url} (challenge ${challenge._id}):`, error);
+        failed++;
+      }
+    }
+  }
+  logger.info(`[HashBackfill] Hashed ${updated} image(s) across ${challenges.length} challenge(s); ${failed} failed.`);
+}
+
+// Logs each pair of similar images on different challenges once
+async function reportDuplicates() {
+  const challenges = await DailyChallenge.find({ 'images.perceptualHash': { $exists: true } })
+    .select('_id date images.title images.perceptualHash')
+    .sort({ date: 1 })
+    .lean();
+  const images = challenges.flatMap(challenge => challenge.images
+    .map((image, index) => ({
+      challengeId: String(challenge._id),
+      label: `${challenge.date.toISOString().split('T')[0]} round ${index + 1} ("${image.title}")`,
+      perceptualHash: image.perceptualHash
+    }))
+    .filter(image => image.perceptualHash));
+
+  let duplicates = 0;
+  for (let i = 0; i < images.length; i++) {
+    for (let j = i + 1; j < images.length; j++) {
+      if (images[i].challengeId === images[j].challengeId) continue;
+      const distance = hammingDistance(images[i].perceptualHash!, images[j].perceptualHash!);
+      if (distance <= DUPLICATE_HASH_THRESHOLD) {
+        duplicates++;
+        logger.warn(`[HashBackfill] Possible duplicate: ${images[i].label} ~ ${images[j].label}, distance ${distance}.`);
+      }
+    }
+  }
+  logger.info(`[HashBackfill] Found ${duplicates} possible duplicate pair(s) across ${images.length} hashed image(s).`);
+}
+
+async function main() {
+  const connectionString = process.env.MONGODB_URI;
+  if (!connectionString) {
+    logger.error('[HashBackfill] MONGODB_URI environment variable not set. Exiting.');
+    process.exit(1);
+  }
+
+  await mongoose.connect(connectionString);
+  try {
+    await backfillPerceptualHashes(process.argv.includes('--force'));
+    await reportDuplicates();
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main().catch(error => {
+  logger.error('[HashBackfill] Backfill failed:', error);
+  process.exit(1);
+});
@@ -125,6 +125,8 @@ async function cleanupAndRecalculateScores() {
       {
         $set: {
           'stats.completions': newCompletions,
+          'stats.scoreSum': totalScoreSum,
+          'stats.scoreCount': newCompletions,
           'stats.averageScore': newAverageScore,
           'stats.processedDistribution': newProcessedDistribution
         }
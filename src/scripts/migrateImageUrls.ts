@@ -2,11 +2,12 @@
 import mongoose from 'mongoose';
 import DailyChallenge from '../models/DailyChallenge';
 import dotenv from 'dotenv';
+import { createObjectStorage } from '../utils/storage';
 
 dotenv.config();
 
-const s3BucketName = process.env.AWS_S3_BUCKET_NAME;
-const s3Region = process.env.AWS_REGION || 'us-east-1';
+// Always targets S3: this migrates legacy /uploads URLs off local disk
+const s3ImageStorage = createObjectStorage('s3', 'images');
 
 async function migrateImageUrls() {
   try {
@@ -30,7 +31,7 @@ async function migrateImageUrls() {
             // Extract the filename
             const filename = image.url.split('/uploads/').pop();
             // Create S3 URL
-            image.url = `https://${s3BucketName}.s3.${s3Region}.amazonaws.com/${filename}`;
+            image.url = s3ImageStorage.legacyUrl(filename!);
             wasUpdated = true;
           }
           return image;
@@ -1,26 +1,22 @@
 // src/scripts/migrateImagesToS3.ts
 import fs from 'fs';
 import path from 'path';
-import { PutObjectCommand } from '@aws-sdk/client-s3';
-import s3Client, { s3BucketName } from '../utils/awsConfig';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
+import { createObjectStorage } from '../utils/storage';
+
+// Always targets S3, whatever STORAGE_DRIVER is set to
+const s3ImageStorage = createObjectStorage('s3', 'images');
+
 // Path to the local uploads directory
 const uploadsDir = path.resolve(process.cwd(), 'uploads');
 
 async function uploadFileToS3(filePath: string, fileName: string) {
   try {
     const fileContent = fs.readFileSync(filePath);
-    const params = {
-      Bucket: s3BucketName,
-      Key: fileName,
-      Body: fileContent,
-      ContentType: getContentType(fileName)
-    };
-
-    await s3Client.send(new PutObjectCommand(params));
+    await s3ImageStorage.put(fileName, fileContent, getContentType(fileName));
 
     return true;
   } catch (error) {
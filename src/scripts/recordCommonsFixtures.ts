@@ -0,0 +1,161 @@
+// src/scripts/recordCommonsFixtures.ts
+// Usage: node dist/scripts/recordCommonsFixtures.js [--category=<category>] [--history-file=<file>]
+//          [--extmetadata-files=<file>|<file>...]
+// Records the imageinfo responses the MediaWiki client tests replay, from the
+// live Commons API, into src/utils/__tests__/fixtures/commons (run from the repo root):
+//   imageinfo-batches.json     55 files from --category, so the lookup is split into two batches
+//   imageinfo-continue.json    --history-file's upload history, one revision per response
+//   imageinfo-normalized.json  a title needing normalization, a file redirect and a missing file
+// Responses are trimmed to the fields the client reads; extmetadata is dropped.
+// retries.json is synthetic (Commons can't be made to lag on demand) and is not touched.
+// With --extmetadata-files, each listed file's upload timestamp and untouched
+// extmetadata are also written to src/utils/__tests__/fixtures/extmetadata.json,
+// the year extraction corpus, replacing any entry with the same title.
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { MediaWikiClient, MediaWikiTransport, createFetchTransport, COMMONS_API_URL } from '../utils/mediaWikiClient';
+import logger from '../utils/logger';
+
+const FIXTURES_DIR = path.resolve(process.cwd(), 'src/utils/__tests__/fixtures/commons');
+const EXTMETADATA_CORPUS = path.resolve(process.cwd(), 'src/utils/__tests__/fixtures/extmetadata.json');
+const DEFAULT_CATEGORY = 'Category:Photographs by Dorothea Lange';
+const DEFAULT_HISTORY_FILE = 'File:Lange-MigrantMother02.jpg';
+const BATCH_FILE_COUNT = 55;
+
+// Request params the client tests match on; the rest (format, maxlag, iiprop) are the client's defaults
+const RECORDED_REQUEST_PARAMS = ['action', 'prop', 'titles', 'redirects', 'continue', 'iicontinue', 'iistart'];
+const RECORDED_IMAGEINFO_FIELDS = ['timestamp', 'user', 'url', 'descriptionurl', 'mime', 'mediatype', 'size', 'width', 'height'];
+
+interface RecordedExchange {
+  request: Record<string, string>;
+  response: { status: number; retryAfterSeconds?: number; body: any };
+}
+
+function pick(source: Record<string, any>, keys: string[]): Record<string, any> {
+  return Object.fromEntries(keys.filter(key => source[key] !== undefined).map(key => [key, source[key]]));
+}
+
+function trimExchange(request: Record<string, string>, response: RecordedExchange['response']): RecordedExchange {
+  const body = response.body?.query?.pages
+    ? {
+      ...response.body,
+      query: {
+        ...response.body.query,
+        pages: response.body.query.pages.map((page: any) => page.imageinfo
+          ? { ...page, imageinfo: page.imageinfo.map((info: any) => pick(info, RECORDED_IMAGEINFO_FIELDS)) }
+          : page)
+      }
+    }
+    : response.body;
+  return { request: pick(request, RECORDED_REQUEST_PARAMS), response: { ...response, body } };
+}
+
+// A client whose requests and trimmed responses are collected into exchanges
+function createRecordingClient(exchanges: RecordedExchange[], extraParams: Record<string, string> = {}) {
+  const fetchTransport = createFetchTransport();
+  const transport: MediaWikiTransport = async (params) => {
+    const response = await fetchTransport({ ...params, ...extraParams });
+    exchanges.push(trimExchange(params, response));
+    return response;
+  };
+  return new MediaWikiClient({ transport, maxRetries: 0 });
+}
+
+function recordedSource(): string {
+  return `Recorded from ${COMMONS_API_URL} on ${new Date().toISOString().split('T')[0]} by src/scripts/recordCommonsFixtures.ts`;
+}
+
+function writeFixture(name: string, filenames: string[], exchanges: RecordedExchange[]) {
+  const fixture = {
+    source: recordedSource(),
+    filenames,
+    exchanges
+  };
+  fs.writeFileSync(path.join(FIXTURES_DIR, name), JSON.stringify(fixture, null, 2) + '\n');
+  logger.info(`[CommonsFixtures] Wrote ${name} (${exchanges.length} exchange(s)).`);
+}
+
+async function recordBatches(client: MediaWikiClient, category: string) {
+  const members = await client.getCategoryMembers(category, { limit: BATCH_FILE_COUNT, type: 'file' });
+  if (members.length < BATCH_FILE_COUNT) {
+    throw new Error(`${category} has only ${members.length} file(s); pass --category= with at least ${BATCH_FILE_COUNT}`);
+  }
+  const filenames = members.map(member => member.title.replace(/^File:/, ''));
+  const exchanges: RecordedExchange[] = [];
+  await createRecordingClient(exchanges).getImageInfo(filenames);
+  writeFixture('imageinfo-batches.json', filenames, exchanges);
+}
+
+async function recordContinuation(historyFile: string) {
+  const exchanges: RecordedExchange[] = [];
+  // One revision per response, so a file with more than one upload comes back over continued responses
+  await createRecordingClient(exchanges, { iilimit: '1' }).getImageInfo([historyFile]);
+  if (exchanges.length < 2) {
+    throw new Error(`${historyFile} has a single upload; pass --history-file= with a file that has been re-uploaded`);
+  }
+  writeFixture('imageinfo-continue.json', [historyFile], exchanges);
+}
+
+async function recordNormalized(client: MediaWikiClient, category: string) {
+  const [member] = await client.getCategoryMembers(category, { limit: 1, type: 'file' });
+  const redirects = await client.query({ list: 'allpages', apnamespace: 6, apfilterredir: 'redirects', aplimit: 1 });
+  const redirect = redirects.query?.allpages?.[0]?.title;
+  if (!member || !redirect) {
+    throw new Error('Could not find a file and a file redirect to record');
+  }
+
+  const name = member.title.replace(/^File:/, '');
+  const filenames = [
+    name,
+    member.title,
+    name.charAt(0).toLowerCase() + name.slice(1), // Normalized back to the capitalized title
+    redirect,
+    `Does not exist ${crypto.randomBytes(4).toString('hex')}.jpg`
+  ];
+  const exchanges: RecordedExchange[] = [];
+  await createRecordingClient(exchanges).getImageInfo(filenames);
+  writeFixture('imageinfo-normalized.json', filenames, exchanges);
+}
+
+// Entries are keyed by file title; each keeps its own source so recorded and hand-written ones can be told apart
+async function recordExtmetadata(client: MediaWikiClient, files: string[]) {
+  const pages = await client.getImageInfo(files, ['timestamp', 'extmetadata']);
+  const corpus = fs.existsSync(EXTMETADATA_CORPUS) ? JSON.parse(fs.readFileSync(EXTMETADATA_CORPUS, 'utf8')) : {};
+
+  for (const file of files) {
+    const page = pages.get(file);
+    const info = page?.imageinfo?.[0];
+    if (!page || !info?.extmetadata) {
+      throw new Error(`No extmetadata for ${file}; check that it exists on Commons`);
+    }
+    corpus[page.title] = { source: recordedSource(), timestamp: info.timestamp, extmetadata: info.extmetadata };
+  }
+
+  fs.writeFileSync(EXTMETADATA_CORPUS, JSON.stringify(corpus, null, 2) + '\n');
+  logger.info(`[CommonsFixtures] Wrote ${files.length} file(s) to extmetadata.json.`);
+}
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find(value => value.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+async function main() {
+  const category = getArg('category') || DEFAULT_CATEGORY;
+  const client = new MediaWikiClient();
+
+  await recordBatches(client, category);
+  await recordContinuation(getArg('history-file') || DEFAULT_HISTORY_FILE);
+  await recordNormalized(client, category);
+
+  const extmetadataFiles = getArg('extmetadata-files');
+  if (extmetadataFiles) {
+    await recordExtmetadata(client, extmetadataFiles.split('|').filter(Boolean));
+  }
+}
+
+main().catch(error => {
+  logger.error('[CommonsFixtures] Recording failed:', error);
+  process.exit(1);
+});
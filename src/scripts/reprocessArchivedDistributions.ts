@@ -0,0 +1,69 @@
+// src/scripts/reprocessArchivedDistributions.ts
+// Usage: node dist/scripts/reprocessArchivedDistributions.js <startDate> [endDate] [--bandwidth=<years>] [--step=<years>] [--min-year=<year>] [--max-year=<year>] [--archive-only] [--confirm]
+// Dry run unless --confirm is passed.
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+dotenv.config(); // Before importing modules that read env at load time
+
+import { reprocessDistributionsFromArchive, validateReprocessRequest } from '../utils/archiveReprocess';
+import { RoundGuessKdeOptions } from '../utils/distributionProcessor';
+import logger from '../utils/logger';
+
+function getNumericArg(args: string[], name: string): number | undefined {
+    const arg = args.find(a => a.startsWith(`--${name}=`));
+    return arg === undefined ? undefined : Number(arg.slice(name.length + 3));
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const [startDate, endDate = startDate] = args.filter(arg => !arg.startsWith('--'));
+    const kde: Partial<RoundGuessKdeOptions> = {};
+    const bandwidthYears = getNumericArg(args, 'bandwidth');
+    const stepYears = getNumericArg(args, 'step');
+    const minYear = getNumericArg(args, 'min-year');
+    const maxYear = getNumericArg(args, 'max-year');
+    if (bandwidthYears !== undefined) kde.bandwidthYears = bandwidthYears;
+    if (stepYears !== undefined) kde.stepYears = stepYears;
+    if (minYear !== undefined) kde.minYear = minYear;
+    if (maxYear !== undefined) kde.maxYear = maxYear;
+
+    const validationError = validateReprocessRequest(startDate, endDate, kde);
+    if (validationError) {
+        logger.error(`[ReprocessScript] ${validationError}`);
+        process.exit(1);
+    }
+
+    const connectionString = process.env.MONGODB_URI;
+    if (!connectionString) {
+        logger.error('[ReprocessScript] MONGODB_URI environment variable not set. Exiting.');
+        process.exit(1);
+    }
+
+    await mongoose.connect(connectionString);
+    logger.info('[ReprocessScript] Connected to MongoDB.');
+
+    try {
+        const result = await reprocessDistributionsFromArchive(startDate, endDate, {
+            kde,
+            includeLiveRows: !args.includes('--archive-only'),
+            confirm: args.includes('--confirm')
+        });
+        for (const date of result.dates) {
+            logger.info(`[ReprocessScript] ${date.date}: ${date.status} (${date.archivedGuesses} archived, ${date.liveGuesses} live, ${date.duplicateGuesses} duplicate guesses)`, date.rounds);
+        }
+        if (result.dryRun) {
+            logger.info('[ReprocessScript] Dry run only. Re-run with --confirm to write the reprocessed distributions.');
+        }
+    } finally {
+        await mongoose.disconnect();
+        logger.info('[ReprocessScript] MongoDB connection closed.');
+    }
+}
+
+main().catch(error => {
+    logger.error('[ReprocessScript] Reprocess failed:', error);
+    if (mongoose.connection.readyState === 1) {
+        mongoose.disconnect();
+    }
+    process.exit(1);
+});
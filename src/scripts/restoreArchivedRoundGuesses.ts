@@ -0,0 +1,62 @@
+// src/scripts/restoreArchivedRoundGuesses.ts
+// Usage: node dist/scripts/restoreArchivedRoundGuesses.js <YYYY-MM-DD> [--list] [--scratch[=name]] [--key=<s3 key>]... [--recompute] [--remove-restored]
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+dotenv.config(); // Before importing modules that read env at load time
+
+import { listArchiveFiles, restoreArchivedRoundGuesses, removeRestoredRoundGuesses } from '../utils/archiveRestore';
+import logger from '../utils/logger';
+
+async function main() {
+    const args = process.argv.slice(2);
+    const date = args.find(arg => !arg.startsWith('--'));
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        logger.error('[RestoreScript] Usage: restoreArchivedRoundGuesses <YYYY-MM-DD> [--list] [--scratch[=name]] [--key=<s3 key>]... [--recompute] [--remove-restored]');
+        process.exit(1);
+    }
+
+    const connectionString = process.env.MONGODB_URI;
+    if (!connectionString) {
+        logger.error('[RestoreScript] MONGODB_URI environment variable not set. Exiting.');
+        process.exit(1);
+    }
+
+    await mongoose.connect(connectionString);
+    logger.info('[RestoreScript] Connected to MongoDB.');
+
+    try {
+        if (args.includes('--list')) {
+            const files = await listArchiveFiles(date);
+            logger.info(`[RestoreScript] ${files.length} archive file(s) for ${date}:`, files);
+            return;
+        }
+
+        if (args.includes('--remove-restored')) {
+            const deletedCount = await removeRestoredRoundGuesses(date);
+            logger.info(`[RestoreScript] Removed ${deletedCount} restored RoundGuess rows for ${date}.`);
+            return;
+        }
+
+        const scratchArg = args.find(arg => arg === '--scratch' || arg.startsWith('--scratch='));
+        const keys = args.filter(arg => arg.startsWith('--key=')).map(arg => arg.slice('--key='.length));
+
+        const result = await restoreArchivedRoundGuesses(date, {
+            target: scratchArg ? 'scratch' : 'roundGuesses',
+            scratchName: scratchArg?.includes('=') ? scratchArg.split('=')[1] : undefined,
+            keys,
+            recompute: args.includes('--recompute')
+        });
+        logger.info(`[RestoreScript] Restore finished for ${date}:`, result);
+    } finally {
+        await mongoose.disconnect();
+        logger.info('[RestoreScript] MongoDB connection closed.');
+    }
+}
+
+main().catch(error => {
+    logger.error('[RestoreScript] Restore failed:', error);
+    if (mongoose.connection.readyState === 1) {
+        mongoose.disconnect();
+    }
+    process.exit(1);
+});
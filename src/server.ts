@@ -1,6 +1,5 @@
 import express from 'express';
 import cors from 'cors';
-import path from 'path';
 import dotenv from 'dotenv';
 dotenv.config();
 import imagesRoutes from './routes/images';
@@ -8,13 +7,23 @@ import mongoose from 'mongoose';
 import logger from './utils/logger';
 import fs from 'fs';
 import adminRoutes from './routes/admin';
+import sessionRoutes from './routes/sessions';
+import playerRoutes from './routes/players';
+import leaderboardRoutes from './routes/leaderboard';
+import groupRoutes from './routes/groups';
+import freeplayRoutes from './routes/freeplay';
+import { startJobWorker } from './utils/jobQueue';
+import { challengeStatsJobHandlers } from './utils/challengeStats';
+import { startScheduler } from './utils/scheduler';
+import { getStorageDriver, LOCAL_UPLOADS_DIR } from './utils/storage';
+import { isPlayerTokenSecretConfigured } from './utils/playerToken';
 
 
 const app = express();
 const PORT = process.env.PORT || 8080;
 
-// Define uploads path consistently using absolute path with process.cwd()
-const uploadsPath = path.resolve(process.cwd(), 'uploads');
+// Define uploads path consistently using absolute path (LOCAL_UPLOADS_DIR, default ./uploads)
+const uploadsPath = LOCAL_UPLOADS_DIR;
 
 
 // Make sure the directory exists
@@ -26,7 +35,7 @@ if (!fs.existsSync(uploadsPath)) {
 app.use(cors({
   origin: '*',  // Allow all origins
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Player-Token'],
   credentials: true  // Allow cookies if needed
 }));
 
@@ -45,6 +54,12 @@ if (!MONGODB_URI) {
     process.exit(1); // Or handle more gracefully depending on desired behavior
 }
 
+// Player tokens are signed with PLAYER_TOKEN_SECRET; without it anyone could forge a player's identity
+if (!isPlayerTokenSecretConfigured()) {
+    logger.error("Startup error: PLAYER_TOKEN_SECRET environment variable not set (only optional with NODE_ENV=development).");
+    process.exit(1);
+}
+
 // Connect to MongoDB using the MONGODB_URI from environment variables
 mongoose.connect(MONGODB_URI)
   .then(() => {
@@ -52,6 +67,15 @@ mongoose.connect(MONGODB_URI)
       // You can log part of the URI for confirmation, but be careful not to log sensitive parts
       const safeUriToLog = MONGODB_URI.replace(/\/\/(.*):(.*)@/, '//<username>:<password>@');
       logger.info(`Connected to: ${safeUriToLog}`);
+
+      // Background stats jobs; set JOB_WORKER_ENABLED=false on instances that should only serve requests
+      if (process.env.JOB_WORKER_ENABLED !== 'false') {
+          startJobWorker(challengeStatsJobHandlers);
+      }
+      // Nightly archival/finalization; instances coordinate through Mongo locks, so it's safe on every instance
+      if (process.env.SCHEDULER_ENABLED !== 'false') {
+          startScheduler();
+      }
   })
   .catch(err => logger.error('MongoDB connection error:', err));
 
@@ -80,9 +104,19 @@ app.get('/api/build-info', (req, res) => {
 // ***** END BUILD INFO ENDPOINT *****
 
 // Routes
+app.use('/api/images/daily-challenge/session', sessionRoutes);
+app.use('/api/images/daily-challenge/leaderboard', leaderboardRoutes);
+app.use('/api/images/freeplay', freeplayRoutes);
 app.use('/api/images', imagesRoutes);
+app.use('/api/players', playerRoutes);
+app.use('/api/groups', groupRoutes);
 app.use('/admin', adminRoutes);
 
+// With STORAGE_DRIVER=local, game images are written to the uploads directory and served from here
+if (getStorageDriver() === 'local') {
+  app.use('/uploads', express.static(uploadsPath));
+}
+
 // Health check route
 app.get('/', (_req, res) => {
   res.json({ 
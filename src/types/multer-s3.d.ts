@@ -1,16 +0,0 @@
-declare namespace Express {
-    namespace MulterS3 {
-      interface File extends Multer.File {
-        bucket: string;
-        key: string;
-        acl: string;
-        contentType: string;
-        contentDisposition: string;
-        storageClass: string;
-        serverSideEncryption: string;
-        metadata: any;
-        location: string;
-        etag: string;
-      }
-    }
-  }
\ No newline at end of file
@@ -21,6 +21,8 @@ export interface ProcessedDistribution {
 export interface ChallengeStats {
     averageScore: number;
     completions: number;
+    scoreSum?: number;   // Sum of all scores in distributions
+    scoreCount?: number; // Number of scores in distributions
     distributions: ScoreDistribution[]; // Raw counts
     processedDistribution?: ProcessedDistribution; // KDE results
 } 
\ No newline at end of file
@@ -1,6 +1,31 @@
 // Wikimedia API response interfaces
 
 
+export type ImageVariantFormat = 'avif' | 'webp';
+
+// One resized copy of a challenge image
+export interface ImageVariant {
+  url: string;
+  format: ImageVariantFormat;
+  width: number;
+  height: number;
+}
+
+// A <picture> <source>: every width of one format, as a srcset string
+export interface ImageSource {
+  type: string; // MIME type, e.g. "image/avif"
+  srcset: string; // "https://.../x_w480.avif 480w, https://.../x_w960.avif 960w"
+}
+
+// Credit and license of a Commons file, from imageinfo extmetadata
+export interface ImageAttribution {
+  artist?: string; // Plain text; Commons gives it as HTML
+  credit?: string;
+  licenseShortName?: string; // e.g. "CC BY-SA 4.0", "Public domain"
+  licenseUrl?: string;
+  attributionRequired?: boolean;
+}
+
 export interface WikimediaImage {
   url: string;
   title: string;
@@ -12,6 +37,34 @@ export interface WikimediaImage {
   s3BaseKey?: string;
   s3BaseIdentifier?: string;
   tinyBlurredPlaceholderUrl?: string;
+  // Intrinsic size of the full-size image at url
+  width?: number;
+  height?: number;
+  aspectRatio?: number; // width / height
+  variants?: ImageVariant[];
+  blurHash?: string;
+  dominantColor?: string; // "#rrggbb"
+  perceptualHash?: string; // 64-bit dHash as hex, for duplicate detection
+  attribution?: ImageAttribution;
+}
+
+// Image as served to a player before guessing: no answer fields
+export interface PlayImage {
+  _id?: unknown;
+  url: string;
+  title: string;
+  source: string;
+  description?: string;
+  filename?: string;
+  s3BaseIdentifier?: string;
+  tinyBlurredPlaceholderUrl?: string;
+  width?: number;
+  height?: number;
+  aspectRatio?: number;
+  blurHash?: string;
+  dominantColor?: string;
+  // Best format first; empty for images processed before variants existed
+  sources: ImageSource[];
 }
 
 export interface GuessHistoryItem {
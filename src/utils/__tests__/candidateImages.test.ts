@@ -0,0 +1,140 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { recordCandidateImages, reviewCandidates, promoteCandidate, CandidatePromotionError, FetchedCandidate } from '../candidateImages';
+import { fetchImageData } from '../wikimediaHelper';
+import { TARGET_TIMEZONE } from '../challengeDates';
+
+jest.mock('../logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../wikimediaHelper', () => ({ fetchImageData: jest.fn(async () => null) }));
+jest.mock('../imageProcessor', () => ({
+    fetchImageFromUrl: jest.fn(async () => Buffer.from('image')),
+    processAndStoreImageVariants: jest.fn(async (buffer: Buffer, baseIdentifier: string) => ({
+        imageUrl: `https://images.example.org/game-images/${baseIdentifier}.webp`, s3BaseIdentifier: baseIdentifier, variants: []
+    }))
+}));
+
+// Candidates kept in memory, with the updates the candidate pool makes
+const mockCandidates: any[] = [];
+jest.mock('../../models/CandidateImage', () => ({
+    __esModule: true,
+    default: {
+        bulkWrite: jest.fn(async (operations: any[]) => {
+            for (const { updateOne } of operations) {
+                let candidate = mockCandidates.find(existing => existing.filename === updateOne.filter.filename);
+                if (!candidate) {
+                    candidate = { _id: String(mockCandidates.length + 1).padStart(24, '0'), filename: updateOne.filter.filename, categories: [], promotions: [], ...updateOne.update.$setOnInsert };
+                    mockCandidates.push(candidate);
+                }
+                for (const category of updateOne.update.$addToSet.categories.$each) {
+                    if (!candidate.categories.includes(category)) candidate.categories.push(category);
+                }
+            }
+        }),
+        updateMany: jest.fn(async (filter: any, update: any) => {
+            const ids = filter._id.$in.map(String);
+            const matched = mockCandidates.filter(candidate => ids.includes(candidate._id));
+            matched.forEach(candidate => Object.assign(candidate, update.$set));
+            return { modifiedCount: matched.length };
+        }),
+        findById: jest.fn(async (id: string) => mockCandidates.find(candidate => candidate._id === id) || null),
+        updateOne: jest.fn(async (filter: any, update: any) => {
+            const candidate = mockCandidates.find(existing => existing._id === String(filter._id));
+            Object.assign(candidate, update.$set);
+            candidate.promotions.push(update.$push.promotions);
+        })
+    }
+}));
+
+const mockChallenges: any[] = [];
+jest.mock('../../models/DailyChallenge', () => {
+    const MockDailyChallenge: any = jest.fn(function (this: any, doc: any) {
+        Object.assign(this, { _id: `challenge-${mockChallenges.length + 1}`, ...doc });
+        this.save = async () => {
+            mockChallenges.push(this);
+            return this;
+        };
+    });
+    MockDailyChallenge.findOne = jest.fn(async (filter: any) => mockChallenges.find(challenge =>
+        challenge.date >= filter.date.$gte && challenge.date < filter.date.$lt) || null);
+    return { __esModule: true, default: MockDailyChallenge };
+});
+
+function fetchedImage(filename: string, category?: string): FetchedCandidate {
+    return {
+        filename, title: filename, url: `https://upload.wikimedia.org/${filename}`, source: 'Wikimedia Commons',
+        year: 1936, yearConfidence: 'high', yearSource: 'DateTimeOriginal', category,
+        attribution: { artist: 'Dorothea Lange', licenseShortName: 'Public domain' }
+    };
+}
+
+function daysFromToday(days: number): string {
+    const today = formatInTimeZone(new Date(), TARGET_TIMEZONE, 'yyyy-MM-dd');
+    return new Date(Date.parse(`${today}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+describe('candidate review states', () => {
+    beforeEach(() => {
+        mockCandidates.length = 0;
+        mockChallenges.length = 0;
+        jest.clearAllMocks();
+    });
+
+    it('adds new files as pending and keeps the review state of files already in the pool', async () => {
+        await recordCandidateImages([fetchedImage('Migrant Mother.jpg', 'Category:Dorothea Lange')]);
+        expect(mockCandidates[0]).toMatchObject({ status: 'pending', categories: ['Category:Dorothea Lange'] });
+
+        await reviewCandidates([mockCandidates[0]._id], 'approved');
+        await recordCandidateImages([fetchedImage('Migrant Mother.jpg', 'Category:1936 photographs')]);
+
+        expect(mockCandidates).toHaveLength(1);
+        expect(mockCandidates[0]).toMatchObject({ status: 'approved', categories: ['Category:Dorothea Lange', 'Category:1936 photographs'] });
+    });
+
+    it('moves reviewed candidates to the new status with notes and a corrected year', async () => {
+        await recordCandidateImages([fetchedImage('A.jpg'), fetchedImage('B.jpg')]);
+
+        const updated = await reviewCandidates(mockCandidates.map(candidate => candidate._id), 'rejected', { reviewerNotes: 'Modern reprint', year: 1940 });
+
+        expect(updated).toBe(2);
+        expect(mockCandidates.every(candidate => candidate.status === 'rejected' && candidate.year === 1940 && candidate.reviewedAt instanceof Date)).toBe(true);
+    });
+
+    it('only promotes approved candidates', async () => {
+        await recordCandidateImages([fetchedImage('Pending.jpg'), fetchedImage('Rejected.jpg')]);
+        await reviewCandidates([mockCandidates[1]._id], 'rejected');
+
+        for (const candidate of mockCandidates) {
+            await expect(promoteCandidate(candidate._id, { date: daysFromToday(3) }))
+                .rejects.toMatchObject({ status: 409, message: expect.stringMatching(/Only approved candidates/) });
+        }
+        expect(mockChallenges).toHaveLength(0);
+    });
+
+    it('only promotes into challenges after today', async () => {
+        await recordCandidateImages([fetchedImage('Approved.jpg')]);
+        await reviewCandidates([mockCandidates[0]._id], 'approved');
+
+        await expect(promoteCandidate(mockCandidates[0]._id, { date: daysFromToday(0) })).rejects.toBeInstanceOf(CandidatePromotionError);
+        await expect(promoteCandidate(mockCandidates[0]._id, { date: daysFromToday(-1) })).rejects.toMatchObject({ status: 409 });
+    });
+
+    it('refuses to promote a candidate whose license on Commons is no longer allowed', async () => {
+        await recordCandidateImages([fetchedImage('Relicensed.jpg')]);
+        await reviewCandidates([mockCandidates[0]._id], 'approved');
+        (fetchImageData as jest.Mock).mockResolvedValueOnce({ attribution: { licenseShortName: 'All rights reserved' } });
+
+        await expect(promoteCandidate(mockCandidates[0]._id, { date: daysFromToday(3) })).rejects.toMatchObject({ status: 409 });
+        expect(mockCandidates[0].promotions).toHaveLength(0);
+    });
+
+    it('promotes an approved candidate into a new future challenge and records the promotion', async () => {
+        await recordCandidateImages([fetchedImage('Approved.jpg')]);
+        await reviewCandidates([mockCandidates[0]._id], 'approved', { year: 1935 });
+        const date = daysFromToday(3);
+
+        const result = await promoteCandidate(mockCandidates[0]._id, { date });
+
+        expect(result).toMatchObject({ round: 1, createdChallenge: true });
+        expect(mockChallenges[0].images).toEqual([expect.objectContaining({ filename: 'Approved.jpg', year: 1935 })]);
+        expect(mockCandidates[0].promotions).toEqual([expect.objectContaining({ date, round: 1 })]);
+    });
+});
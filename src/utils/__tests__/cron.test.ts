@@ -0,0 +1,92 @@
+import { parseCronExpression, cronMatches, getNextCronRun } from '../cron';
+
+const TIMEZONE = 'America/New_York';
+
+describe('parseCronExpression', () => {
+    it('reads values, ranges, steps and lists', () => {
+        const schedule = parseCronExpression('*/15 1-3 1,15 * 1-5');
+
+        expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...schedule.hours]).toEqual([1, 2, 3]);
+        expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+        expect(schedule.months.size).toBe(12);
+        expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('reads a start with a step as every step from the start', () => {
+        expect([...parseCronExpression('5/20 0-10/5 * * *').minutes]).toEqual([5, 25, 45]);
+        expect([...parseCronExpression('5/20 0-10/5 * * *').hours]).toEqual([0, 5, 10]);
+    });
+
+    it('accepts 7 for Sunday', () => {
+        expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    });
+
+    it('only counts a day field as restricted when it does not start with *', () => {
+        expect(parseCronExpression('0 0 1 * *')).toMatchObject({ dayOfMonthRestricted: true, dayOfWeekRestricted: false });
+        expect(parseCronExpression('0 0 */2 * 1')).toMatchObject({ dayOfMonthRestricted: false, dayOfWeekRestricted: true });
+        expect(parseCronExpression('0 0 1 * */2')).toMatchObject({ dayOfMonthRestricted: true, dayOfWeekRestricted: false });
+    });
+
+    it('rejects malformed expressions', () => {
+        expect(() => parseCronExpression('0 0 * *')).toThrow('must have 5 fields');
+        expect(() => parseCronExpression('60 0 * * *')).toThrow('minute');
+        expect(() => parseCronExpression('0 5-1 * * *')).toThrow('hour');
+        expect(() => parseCronExpression('*/0 0 * * *')).toThrow('step');
+        expect(() => parseCronExpression('0 0 L * *')).toThrow('day of month');
+    });
+});
+
+describe('cronMatches', () => {
+    it('matches wall-clock time in the timezone', () => {
+        const schedule = parseCronExpression('30 3 * * *');
+
+        expect(cronMatches(schedule, new Date('2024-01-15T08:30:45Z'), TIMEZONE)).toBe(true);
+        expect(cronMatches(schedule, new Date('2024-01-15T03:30:00Z'), TIMEZONE)).toBe(false);
+    });
+
+    it('matches either day field when both are restricted', () => {
+        const schedule = parseCronExpression('0 12 13 * 5');
+
+        expect(cronMatches(schedule, new Date('2024-09-13T16:00:00Z'), TIMEZONE)).toBe(true); // The 13th (also a Friday)
+        expect(cronMatches(schedule, new Date('2024-09-06T16:00:00Z'), TIMEZONE)).toBe(true); // A Friday
+        expect(cronMatches(schedule, new Date('2024-10-13T16:00:00Z'), TIMEZONE)).toBe(true); // The 13th, a Sunday
+        expect(cronMatches(schedule, new Date('2024-09-05T16:00:00Z'), TIMEZONE)).toBe(false);
+    });
+
+    it('needs both day fields to match when one starts with *', () => {
+        const schedule = parseCronExpression('0 12 */2 * 1');
+
+        expect(cronMatches(schedule, new Date('2024-10-07T16:00:00Z'), TIMEZONE)).toBe(true); // Monday the 7th
+        expect(cronMatches(schedule, new Date('2024-09-02T16:00:00Z'), TIMEZONE)).toBe(false); // Monday the 2nd
+        expect(cronMatches(schedule, new Date('2024-09-03T16:00:00Z'), TIMEZONE)).toBe(false); // Tuesday the 3rd
+    });
+});
+
+describe('getNextCronRun', () => {
+    it('returns the next matching minute strictly after the given time', () => {
+        const schedule = parseCronExpression('30 3 * * *');
+
+        expect(getNextCronRun(schedule, new Date('2024-01-01T00:00:00Z'), TIMEZONE)).toEqual(new Date('2024-01-01T08:30:00Z'));
+        expect(getNextCronRun(schedule, new Date('2024-01-01T08:30:00Z'), TIMEZONE)).toEqual(new Date('2024-01-02T08:30:00Z'));
+    });
+
+    it('follows the timezone across a daylight saving change', () => {
+        const schedule = parseCronExpression('30 3 * * *');
+
+        // Clocks go forward on 10 March 2024, so 03:30 is 07:30 UTC instead of 08:30
+        expect(getNextCronRun(schedule, new Date('2024-03-09T12:00:00Z'), TIMEZONE)).toEqual(new Date('2024-03-10T07:30:00Z'));
+    });
+
+    it('applies the day-of-month/day-of-week rule', () => {
+        expect(getNextCronRun(parseCronExpression('0 12 13 * 5'), new Date('2024-09-01T00:00:00Z'), TIMEZONE))
+            .toEqual(new Date('2024-09-06T16:00:00Z'));
+        // Odd days that are also Mondays, so Monday the 2nd is skipped
+        expect(getNextCronRun(parseCronExpression('0 12 */2 * 1'), new Date('2024-09-01T17:00:00Z'), TIMEZONE))
+            .toEqual(new Date('2024-09-09T16:00:00Z'));
+    });
+
+    it('returns null for a schedule that never fires', () => {
+        expect(getNextCronRun(parseCronExpression('0 0 30 2 *'), new Date('2024-01-01T00:00:00Z'), TIMEZONE)).toBeNull();
+    });
+});
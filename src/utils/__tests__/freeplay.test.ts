@@ -0,0 +1,139 @@
+import {
+    toCategoryTitle, validateFreeplayMode, scoreFreeplayGuess, ensureCurrentImage, recordFreeplayScore, getFreeplayRank,
+    FREEPLAY_MISS_YEARS
+} from '../freeplay';
+import { fileCategories, findRandomImage } from '../randomImages';
+import FreeplayScore from '../../models/FreeplayScore';
+import FreeplaySession from '../../models/FreeplaySession';
+import { CLOSE_GUESS_YEARS } from '../scoring';
+
+jest.mock('../logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../randomImages', () => ({
+    ...jest.requireActual('../randomImages'),
+    findRandomImage: jest.fn(),
+    scanCategoryForUnseenImage: jest.fn(async () => ({ image: null, exhausted: true }))
+}));
+jest.mock('../../models/FreeplaySession', () => ({
+    __esModule: true,
+    default: { findOneAndUpdate: jest.fn(async (filter: any, update: any) => ({ ...update.$set, status: update.$set.status || 'active' })), findById: jest.fn() }
+}));
+jest.mock('../../models/FreeplayScore', () => ({ __esModule: true, default: { updateOne: jest.fn(), countDocuments: jest.fn(async () => 0) } }));
+jest.mock('../../models/PlayerProfile', () => ({
+    __esModule: true,
+    default: { findOne: jest.fn(() => ({ select: () => ({ lean: async () => null }) })) }
+}));
+
+const image = { filename: 'Street 1936.jpg', title: 'Street 1936', url: 'https://example.org/street.jpg', source: 'Wikimedia Commons', description: '', year: 1936, yearConfidence: 'high' as const, servedAt: new Date() };
+
+function activeSession(extra: Record<string, unknown> = {}): any {
+    return { _id: 'session-1', status: 'active', currentImage: null, guesses: [], servedFilenames: ['Seen.jpg'], decade: null, category: null, ...extra };
+}
+
+describe('freeplay modes', () => {
+    it('normalizes category names to Commons category titles', () => {
+        expect(toCategoryTitle('street photography')).toBe('Category:Street_photography');
+        expect(toCategoryTitle('Category:Street_photography')).toBe('Category:Street_photography');
+    });
+
+    it('accepts only known decade buckets and file categories', () => {
+        expect(validateFreeplayMode('1920-1939', undefined)).toBeNull();
+        expect(validateFreeplayMode(undefined, fileCategories[0])).toBeNull();
+        expect(validateFreeplayMode('1920-1929', undefined)).toMatch(/decade must be one of/);
+        expect(validateFreeplayMode(undefined, 'Category:Not_a_game_category')).toMatch(/category must be one of/);
+    });
+});
+
+describe('scoreFreeplayGuess', () => {
+    it('counts a guess within CLOSE_GUESS_YEARS as correct without costing a life', () => {
+        expect(scoreFreeplayGuess(image, 1936 + CLOSE_GUESS_YEARS, 0)).toMatchObject({ correct: true, lifeLost: false, direction: 'lower', points: expect.any(Number) });
+    });
+
+    it('costs a life only beyond FREEPLAY_MISS_YEARS', () => {
+        expect(scoreFreeplayGuess(image, 1936 - FREEPLAY_MISS_YEARS, 1)).toMatchObject({ correct: false, lifeLost: false, direction: 'higher' });
+        expect(scoreFreeplayGuess(image, 1936 - FREEPLAY_MISS_YEARS - 1, 1)).toMatchObject({ lifeLost: true, yearsOff: FREEPLAY_MISS_YEARS + 1 });
+    });
+});
+
+describe('ensureCurrentImage', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('draws an unseen image with a reliable year and records it as served', async () => {
+        (findRandomImage as jest.Mock).mockResolvedValueOnce(image);
+
+        const session = await ensureCurrentImage(activeSession());
+
+        expect(findRandomImage).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ exclude: ['Seen.jpg'], reliableYearOnly: true }));
+        expect(session.currentImage).toMatchObject({ filename: 'Street 1936.jpg', year: 1936 });
+        expect(FreeplaySession.findOneAndUpdate).toHaveBeenCalledWith(
+            expect.objectContaining({ status: 'active', currentImage: null, guesses: { $size: 0 } }),
+            expect.objectContaining({ $push: { servedFilenames: 'Street 1936.jpg' } }),
+            { new: true }
+        );
+    });
+
+    it('finishes a category run once the whole category has been served', async () => {
+        (findRandomImage as jest.Mock).mockResolvedValueOnce(null);
+
+        const session = await ensureCurrentImage(activeSession({ category: fileCategories[0] }));
+
+        expect(session).toMatchObject({ status: 'finished', endReason: 'exhausted' });
+    });
+
+    it('leaves finished runs and runs with an image alone', async () => {
+        await ensureCurrentImage(activeSession({ status: 'finished' }));
+        await ensureCurrentImage(activeSession({ currentImage: image }));
+
+        expect(findRandomImage).not.toHaveBeenCalled();
+    });
+});
+
+describe('the freeplay board', () => {
+    const finishedRun = (score: number, rounds: number) => activeSession({
+        playerId: 'player-1', status: 'finished', score, finishedAt: new Date('2024-01-01T00:00:00Z'),
+        guesses: Array.from({ length: rounds }, () => ({ yearsOff: 2 }))
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('only replaces a best with a higher score, or the same score in fewer rounds', async () => {
+        expect(await recordFreeplayScore(finishedRun(4000, 5))).toBe(true);
+
+        const [filter, update] = (FreeplayScore.updateOne as jest.Mock).mock.calls[0];
+        expect(filter).toMatchObject({
+            playerId: 'player-1', decade: null, category: null,
+            $or: [{ score: { $lt: 4000 } }, { score: 4000, roundsPlayed: { $gt: 5 } }]
+        });
+        expect(update.$set).toMatchObject({ score: 4000, roundsPlayed: 5, totalYearsOff: 10 });
+    });
+
+    it('reports a run that does not beat the existing best', async () => {
+        (FreeplayScore.updateOne as jest.Mock).mockRejectedValueOnce({ code: 11000 });
+
+        expect(await recordFreeplayScore(finishedRun(1000, 5))).toBe(false);
+    });
+
+    it('does not record runs without a player', async () => {
+        expect(await recordFreeplayScore(activeSession({ status: 'finished', score: 4000 }))).toBeNull();
+        expect(FreeplayScore.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('ranks by score, then fewest rounds, then earliest submission, within the mode', async () => {
+        (FreeplayScore.countDocuments as jest.Mock).mockResolvedValueOnce(2);
+        const submittedAt = new Date('2024-01-01T00:00:00Z');
+
+        expect(await getFreeplayRank({ decade: '1920-1939', category: null, score: 4000, roundsPlayed: 5, submittedAt } as any)).toBe(3);
+        expect(FreeplayScore.countDocuments).toHaveBeenCalledWith({
+            decade: '1920-1939',
+            category: null,
+            $or: [
+                { score: { $gt: 4000 } },
+                { score: 4000, roundsPlayed: { $lt: 5 } },
+                { score: 4000, roundsPlayed: 5, submittedAt: { $lt: submittedAt } }
+            ]
+        });
+    });
+});
@@ -0,0 +1,115 @@
+import { createImageCache, MemoryImageCache, CachedImage, MAX_IMAGES_PER_DECADE } from '../imageCache';
+import ImageCacheEntry, { IMAGE_CACHE_TTL_SECONDS } from '../../models/ImageCacheEntry';
+
+jest.mock('../../models/ImageCacheEntry', () => ({
+    __esModule: true,
+    IMAGE_CACHE_TTL_SECONDS: 24 * 60 * 60,
+    default: { countDocuments: jest.fn(async () => 3), aggregate: jest.fn(async () => []) }
+}));
+
+function cachedImage(filename: string, extra: Partial<CachedImage> = {}): CachedImage {
+    return { title: filename, filename, url: `https://example.org/${filename}`, source: 'Wikimedia Commons', year: 1930, cachedAt: Date.now(), ...extra };
+}
+
+describe('MemoryImageCache.sample', () => {
+    let cache: MemoryImageCache;
+
+    beforeEach(async () => {
+        cache = new MemoryImageCache();
+        await cache.add('1920-1939', ['a.jpg', 'b.jpg', 'c.jpg'].map(filename => cachedImage(filename)));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('draws from the requested bucket only', async () => {
+        await cache.add('1940-1959', [cachedImage('other.jpg')]);
+
+        for (let i = 0; i < 10; i++) {
+            expect(['a.jpg', 'b.jpg', 'c.jpg']).toContain((await cache.sample('1920-1939'))?.filename);
+        }
+        expect(await cache.sample('1960-1979')).toBeNull();
+    });
+
+    it('returns null while the bucket holds fewer than minStock images', async () => {
+        expect(await cache.sample('1920-1939', 4)).toBeNull();
+        expect(await cache.sample('1920-1939', 3)).not.toBeNull();
+    });
+
+    it('never returns an excluded file, and null once every file is excluded', async () => {
+        for (let i = 0; i < 10; i++) {
+            expect((await cache.sample('1920-1939', 1, ['a.jpg', 'b.jpg']))?.filename).toBe('c.jpg');
+        }
+        expect(await cache.sample('1920-1939', 1, ['a.jpg', 'b.jpg', 'c.jpg'])).toBeNull();
+    });
+
+    it('counts excluded files towards minStock', async () => {
+        expect(await cache.sample('1920-1939', 3, ['a.jpg'])).not.toBeNull();
+    });
+
+    it('only returns images with a reliable year when asked to', async () => {
+        await cache.clear();
+        await cache.add('1920-1939', [
+            cachedImage('title.jpg', { yearSource: 'ObjectName', yearConfidence: 'medium' }),
+            cachedImage('unknown.jpg'),
+            cachedImage('dated.jpg', { yearSource: 'DateTimeOriginal', yearConfidence: 'high' })
+        ]);
+
+        for (let i = 0; i < 10; i++) {
+            expect((await cache.sample('1920-1939', 1, [], true))?.filename).toBe('dated.jpg');
+        }
+        expect(await cache.sample('1920-1939', 1, ['dated.jpg'], true)).toBeNull();
+    });
+
+    it('drops expired images', async () => {
+        const expiredAt = Date.now() + IMAGE_CACHE_TTL_SECONDS * 1000 + 1;
+        jest.spyOn(Date, 'now').mockReturnValue(expiredAt);
+
+        expect(await cache.sample('1920-1939')).toBeNull();
+        expect(await cache.counts()).toEqual({});
+    });
+
+    it('refreshes a re-added file instead of duplicating it, and keeps at most MAX_IMAGES_PER_DECADE', async () => {
+        await cache.add('1920-1939', [cachedImage('a.jpg', { year: 1931 })]);
+        expect(await cache.counts()).toEqual({ '1920-1939': 3 });
+
+        await cache.add('1920-1939', Array.from({ length: MAX_IMAGES_PER_DECADE }, (_, i) => cachedImage(`new-${i}.jpg`)));
+        expect(await cache.counts()).toEqual({ '1920-1939': MAX_IMAGES_PER_DECADE });
+        expect(await cache.sample('1920-1939', 1, Array.from({ length: MAX_IMAGES_PER_DECADE }, (_, i) => `new-${i}.jpg`))).toBeNull();
+    });
+});
+
+describe('Mongo image cache sample', () => {
+    const aggregate = ImageCacheEntry.aggregate as jest.Mock;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('filters out excluded files and unreliable years before sampling', async () => {
+        await createImageCache('mongo').sample('1920-1939', 1, ['a.jpg'], true);
+
+        const [match, sample] = aggregate.mock.calls[0][0];
+        expect(match.$match).toMatchObject({
+            decadeKey: '1920-1939',
+            filename: { $nin: ['a.jpg'] },
+            yearConfidence: { $in: ['high', 'medium'] },
+            yearSource: { $nin: ['ObjectName', 'DateTime', 'upload'] }
+        });
+        expect(match.$match.cachedAt.$gt).toBeInstanceOf(Date);
+        expect(sample).toEqual({ $sample: { size: 1 } });
+    });
+
+    it('does not filter on filename or year without exclusions', async () => {
+        await createImageCache('mongo').sample('1920-1939');
+
+        const [match] = aggregate.mock.calls[0][0];
+        expect(Object.keys(match.$match).sort()).toEqual(['cachedAt', 'decadeKey']);
+    });
+
+    it('skips the sample while the bucket is below minStock', async () => {
+        expect(await createImageCache('mongo').sample('1920-1939', 4)).toBeNull();
+        expect(aggregate).not.toHaveBeenCalled();
+    });
+});
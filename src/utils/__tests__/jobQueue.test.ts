@@ -0,0 +1,92 @@
+import { runNextJob, JobHandlers } from '../jobQueue';
+
+jest.mock('../logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+// Jobs kept in memory, matched with just the operators the queue's filters use
+const mockJobs: any[] = [];
+function mockMatches(job: any, filter: any): boolean {
+    return Object.entries(filter).every(([key, condition]: [string, any]) => {
+        if (key === '$or') return condition.some((branch: any) => mockMatches(job, branch));
+        if (key === '$expr') {
+            const [op, [left, right]] = Object.entries(condition)[0] as [string, string[]];
+            const [a, b] = [job[left.slice(1)], job[right.slice(1)]];
+            return op === '$lt' ? a < b : a >= b;
+        }
+        if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+            if ('$lt' in condition) return job[key] !== undefined && job[key] < condition.$lt;
+            if ('$lte' in condition) return job[key] !== undefined && job[key] <= condition.$lte;
+        }
+        return String(job[key]) === String(condition);
+    });
+}
+function mockApply(job: any, update: any) {
+    Object.assign(job, update.$set);
+    for (const key of Object.keys(update.$unset || {})) delete job[key];
+    for (const [key, amount] of Object.entries(update.$inc || {})) job[key] += amount as number;
+}
+jest.mock('../../models/Job', () => ({
+    __esModule: true,
+    default: {
+        findOneAndUpdate: jest.fn(async (filter: any, update: any) => {
+            const job = mockJobs.find(candidate => mockMatches(candidate, filter));
+            if (job) mockApply(job, update);
+            return job ? { ...job } : null;
+        }),
+        updateOne: jest.fn(async (filter: any, update: any) => {
+            const job = mockJobs.find(candidate => mockMatches(candidate, filter));
+            if (job) mockApply(job, update);
+        }),
+        updateMany: jest.fn(async (filter: any, update: any) => {
+            const jobs = mockJobs.filter(candidate => mockMatches(candidate, filter));
+            jobs.forEach(job => mockApply(job, update));
+            return { modifiedCount: jobs.length };
+        })
+    }
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function runningJob(attempts: number, maxAttempts: number, lockedAt: Date) {
+    return {
+        _id: `job-${mockJobs.length + 1}`, type: 'processScoreDistribution', dedupeKey: 'processScoreDistribution:2024-01-01',
+        payload: { challengeDateString: '2024-01-01', challengeId: 'challenge-1' },
+        status: 'running', attempts, maxAttempts, runAt: new Date(0), lockedAt, lockedBy: 'crashed-worker'
+    };
+}
+
+describe('runNextJob', () => {
+    const handler = jest.fn(async () => undefined);
+    const handlers = { processScoreDistribution: handler, processRoundGuesses: handler, emergencyArchive: handler } as JobHandlers;
+
+    beforeEach(() => {
+        mockJobs.length = 0;
+        jest.clearAllMocks();
+    });
+
+    it('reclaims a job whose lease expired while it has attempts left', async () => {
+        mockJobs.push(runningJob(2, 5, new Date(Date.now() - HOUR_MS)));
+
+        expect(await runNextJob(handlers)).toBe(true);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(mockJobs[0]).toMatchObject({ status: 'completed', attempts: 3 });
+    });
+
+    it('fails a job whose lease expired on its final attempt instead of retrying it forever', async () => {
+        mockJobs.push(runningJob(5, 5, new Date(Date.now() - HOUR_MS)));
+
+        expect(await runNextJob(handlers)).toBe(false);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(mockJobs[0]).toMatchObject({ status: 'failed', attempts: 5 });
+        expect(mockJobs[0].lockedBy).toBeUndefined();
+    });
+
+    it('leaves a running job alone while its lease holds', async () => {
+        mockJobs.push(runningJob(5, 5, new Date()));
+
+        expect(await runNextJob(handlers)).toBe(false);
+
+        expect(mockJobs[0].status).toBe('running');
+    });
+});
@@ -0,0 +1,148 @@
+import { MediaWikiClient, MediaWikiApiError, MediaWikiTransport, MediaWikiTransportResponse, MAX_TITLES_PER_QUERY, ImageInfoPage, toFileTitle } from '../mediaWikiClient';
+import batchesFixture from './fixtures/commons/imageinfo-batches.json';
+import continueFixture from './fixtures/commons/imageinfo-continue.json';
+import normalizedFixture from './fixtures/commons/imageinfo-normalized.json';
+import retriesFixture from './fixtures/commons/retries.json';
+
+jest.mock('../logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+interface RecordedExchange {
+    request: Record<string, string | undefined>;
+    response: MediaWikiTransportResponse;
+}
+
+// Written by src/scripts/recordCommonsFixtures.ts; source says whether the responses were recorded or are synthetic
+interface CommonsFixture {
+    source: string;
+    filenames?: string[];
+    exchanges: RecordedExchange[];
+}
+
+const batches = batchesFixture as CommonsFixture;
+const continued = continueFixture as CommonsFixture;
+const normalized = normalizedFixture as CommonsFixture;
+const retries = retriesFixture as CommonsFixture;
+
+// Plays back recorded responses in order, checking each request carries the recorded params
+function replay(recording: RecordedExchange[]) {
+    const requests: Record<string, string>[] = [];
+    const transport: MediaWikiTransport = async (params) => {
+        const exchange = recording[requests.length];
+        requests.push(params);
+        if (!exchange) {
+            throw new Error(`Unexpected request ${requests.length}: ${JSON.stringify(params)}`);
+        }
+        expect(params).toMatchObject(exchange.request);
+        return exchange.response;
+    };
+    return { transport, requests };
+}
+
+function createClient(transport: MediaWikiTransport, sleeps: number[] = []) {
+    return new MediaWikiClient({ transport, sleep: async ms => { sleeps.push(ms); } });
+}
+
+function recordedPages(fixture: CommonsFixture): ImageInfoPage[] {
+    return fixture.exchanges.flatMap(exchange => exchange.response.body.query?.pages || []);
+}
+
+describe('MediaWikiClient.getImageInfo', () => {
+    it(`splits more than ${MAX_TITLES_PER_QUERY} titles into batches`, async () => {
+        const filenames = batches.filenames!;
+        const { transport, requests } = replay(batches.exchanges);
+
+        const pages = await createClient(transport).getImageInfo(filenames);
+
+        expect(filenames.length).toBeGreaterThan(MAX_TITLES_PER_QUERY);
+        expect(requests).toHaveLength(Math.ceil(filenames.length / MAX_TITLES_PER_QUERY));
+        expect(requests[0].titles.split('|')).toHaveLength(MAX_TITLES_PER_QUERY);
+        expect(requests[0]).toMatchObject({ format: 'json', formatversion: '2', maxlag: '5' });
+        expect(pages.size).toBe(filenames.length);
+        for (const filename of filenames) {
+            expect(pages.get(filename)?.imageinfo?.[0].url).toMatch(/^https:\/\/upload\.wikimedia\.org\//);
+        }
+    });
+
+    it('merges imageinfo from continued responses', async () => {
+        const { transport, requests } = replay(continued.exchanges);
+
+        const pages = await createClient(transport).getImageInfo(continued.filenames!);
+
+        expect(requests.length).toBeGreaterThan(1);
+        expect(requests[1]).toMatchObject(continued.exchanges[0].response.body.continue);
+        for (const filename of continued.filenames!) {
+            const title = pages.get(filename)!.title;
+            const recordedRevisions = recordedPages(continued)
+                .filter(page => page.title === title)
+                .flatMap(page => page.imageinfo || []);
+            expect(recordedRevisions.length).toBeGreaterThan(0);
+            expect(pages.get(filename)?.imageinfo).toEqual(recordedRevisions);
+        }
+    });
+
+    it('maps normalized and redirected titles back to the filenames passed in', async () => {
+        const { transport } = replay(normalized.exchanges);
+        const query = normalized.exchanges[0].response.body.query;
+        const aliases = new Map<string, string>(
+            [...(query.normalized || []), ...(query.redirects || [])].map(({ from, to }: { from: string; to: string }) => [from, to])
+        );
+
+        const pages = await createClient(transport).getImageInfo(normalized.filenames!);
+
+        expect(query.normalized?.length).toBeGreaterThan(0);
+        expect(query.redirects?.length).toBeGreaterThan(0);
+        for (const filename of normalized.filenames!) {
+            let title = toFileTitle(filename);
+            while (aliases.has(title)) title = aliases.get(title)!;
+            const recorded = recordedPages(normalized).find(page => page.title === title);
+            expect(pages.get(filename)).toEqual(recorded || { title, missing: true });
+        }
+        expect([...pages.values()].some(page => page.missing)).toBe(true);
+    });
+});
+
+describe('MediaWikiClient.query retries', () => {
+    it('retries maxlag, 429 and 5xx, honouring Retry-After', async () => {
+        const { transport, requests } = replay(retries.exchanges);
+        const sleeps: number[] = [];
+
+        const members = await createClient(transport, sleeps).getCategoryMembers('1930s photographs', { limit: 10, type: 'file' });
+
+        expect(requests).toHaveLength(4);
+        // Retry-After from the maxlag and 429 responses, then exponential backoff for the 503
+        expect(sleeps).toEqual([5000, 2000, 4000]);
+        expect(members.map(member => member.title)).toEqual(['File:Chicago street scene 1936.jpg', 'File:Dust Bowl farm, Texas, 1938.jpg']);
+    });
+
+    it('gives up after maxRetries', async () => {
+        const { transport, requests } = replay(retries.exchanges.slice(0, 3));
+        const client = new MediaWikiClient({ transport, maxRetries: 2, sleep: async () => undefined });
+
+        await expect(client.query({ list: 'categorymembers', cmtitle: 'Category:1930s photographs' }))
+            .rejects.toMatchObject({ code: 'retries-exhausted' });
+        expect(requests).toHaveLength(3);
+    });
+
+    it('gives up instead of waiting when Retry-After exceeds maxRetryDelayMs', async () => {
+        const { transport, requests } = replay(retries.exchanges);
+        const sleeps: number[] = [];
+        const client = new MediaWikiClient({ transport, maxRetryDelayMs: 4000, sleep: async ms => { sleeps.push(ms); } });
+
+        await expect(client.query({ list: 'categorymembers', cmtitle: 'Category:1930s photographs' }))
+            .rejects.toMatchObject({ code: 'retry-after-too-long' });
+        expect(requests).toHaveLength(1);
+        expect(sleeps).toEqual([]);
+    });
+
+    it('does not retry other API errors', async () => {
+        const { transport, requests } = replay([{
+            request: { action: 'query' },
+            response: { status: 200, body: { error: { code: 'badvalue', info: 'Unrecognized value for parameter "list": categorymember.' } } }
+        }]);
+
+        const error = await createClient(transport).query({ list: 'categorymember' }).catch(e => e);
+        expect(error).toBeInstanceOf(MediaWikiApiError);
+        expect(error.code).toBe('badvalue');
+        expect(requests).toHaveLength(1);
+    });
+});
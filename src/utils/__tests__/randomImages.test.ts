@@ -0,0 +1,81 @@
+process.env.IMAGE_CACHE_DRIVER = 'memory';
+
+import { findRandomImage, DECADE_RANGES, getDecadeKey } from '../randomImages';
+import { getImageCache, getImageCacheMetrics, CachedImage } from '../imageCache';
+import { getCommonsClient } from '../mediaWikiClient';
+
+jest.mock('../logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../candidateImages', () => ({ recordCandidateImages: jest.fn(async () => undefined) }));
+jest.mock('../mediaWikiClient', () => {
+    const client = { getCategoryMembers: jest.fn(), getImageInfo: jest.fn(), getRandomPages: jest.fn() };
+    return { getCommonsClient: () => client };
+});
+
+const client = getCommonsClient() as unknown as Record<'getCategoryMembers' | 'getImageInfo' | 'getRandomPages', jest.Mock>;
+
+function cachedImage(year: number, index: number): CachedImage {
+    return { title: `Photo ${year} ${index}.jpg`, filename: `Photo ${year} ${index}.jpg`, url: `https://example.org/${year}/${index}.jpg`, source: 'Wikimedia Commons', year, cachedAt: Date.now() };
+}
+
+// A dated photo as the imageinfo lookup returns it
+function imageInfo(year: number) {
+    return {
+        imageinfo: [{
+            url: `https://upload.wikimedia.org/${year}.jpg`,
+            timestamp: '2015-06-01T00:00:00Z',
+            mime: 'image/jpeg',
+            mediatype: 'BITMAP',
+            extmetadata: { DateTimeOriginal: { value: `${year}-05-01` }, Artist: { value: 'Unknown' } }
+        }]
+    };
+}
+
+async function flushCacheWrites() {
+    await new Promise(resolve => setImmediate(resolve));
+}
+
+describe('findRandomImage and the image cache', () => {
+    beforeEach(async () => {
+        await getImageCache().clear();
+        jest.clearAllMocks();
+    });
+
+    it('serves a range spanning several buckets from the buckets within it', async () => {
+        await getImageCache().add('1920-1939', [1925, 1930, 1931, 1938].map(cachedImage));
+
+        const image = await findRandomImage({ start: 1900, end: 1959 });
+
+        expect(image?.year).toBeGreaterThanOrEqual(1920);
+        expect(image?.year).toBeLessThanOrEqual(1939);
+        expect(client.getCategoryMembers).not.toHaveBeenCalled();
+        const bucketKeys = DECADE_RANGES.map(getDecadeKey);
+        expect(Object.keys(getImageCacheMetrics().byDecade).every(key => bucketKeys.includes(key))).toBe(true);
+    });
+
+    it('files fetched images under their own DECADE_RANGES bucket, never the requested range', async () => {
+        client.getCategoryMembers.mockResolvedValue([{ title: 'File:Street 1905.jpg', ns: 6 }, { title: 'File:Street 1915.jpg', ns: 6 }]);
+        client.getImageInfo.mockResolvedValue(new Map([['Street 1905.jpg', imageInfo(1905)], ['Street 1915.jpg', imageInfo(1915)]]));
+
+        const image = await findRandomImage({ start: 1900, end: 1919 }, { category: 'Category:Street_photography' });
+        await flushCacheWrites();
+
+        expect(image?.year).toBeGreaterThanOrEqual(1905);
+        expect(await getImageCache().counts()).toEqual({ '1900-1919': 2 });
+
+        await findRandomImage({ start: 1850, end: 2000 }, { category: 'Category:Street_photography' });
+        await flushCacheWrites();
+
+        expect(Object.keys(await getImageCache().counts())).toEqual(['1900-1919']);
+    });
+
+    it('only serves images with a reliable year when asked to', async () => {
+        const titleDated = [1925, 1930, 1931].map((year, index) => ({ ...cachedImage(year, index), yearSource: 'ObjectName' as const, yearConfidence: 'medium' as const }));
+        const dated = { ...cachedImage(1938, 3), yearSource: 'DateTimeOriginal' as const, yearConfidence: 'high' as const };
+        await getImageCache().add('1920-1939', [...titleDated, dated]);
+
+        for (let i = 0; i < 5; i++) {
+            const image = await findRandomImage({ start: 1920, end: 1939 }, { reliableYearOnly: true });
+            expect(image?.filename).toBe(dated.filename);
+        }
+    });
+});
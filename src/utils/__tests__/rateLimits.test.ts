@@ -0,0 +1,54 @@
+process.env.PLAYER_TOKEN_SECRET = 'test-player-token-secret';
+
+import express from 'express';
+import request from 'supertest';
+import { createClientRateLimiter, ClientRateLimitOptions, PER_IP_LIMIT_MULTIPLIER } from '../rateLimits';
+import { issuePlayerToken } from '../playerToken';
+
+jest.mock('../logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+function createApp(options: Partial<ClientRateLimitOptions> = {}) {
+    const app = express();
+    app.use(express.json());
+    app.post('/limited', createClientRateLimiter('test', { windowMs: 60 * 1000, max: 1, message: 'Too many requests', ...options }), (req, res) => {
+        res.status(200).json({ ok: true });
+    });
+    return app;
+}
+
+describe('createClientRateLimiter', () => {
+    it('limits each player separately', async () => {
+        const app = createApp();
+        const { token } = issuePlayerToken();
+
+        const first = await request(app).post('/limited').set('X-Player-Token', token);
+        const second = await request(app).post('/limited').set('X-Player-Token', token);
+        const otherPlayer = await request(app).post('/limited').set('X-Player-Token', issuePlayerToken().token);
+
+        expect(first.status).toBe(200);
+        expect(second.status).toBe(429);
+        expect(otherPlayer.status).toBe(200);
+    });
+
+    it('caps fresh tokens from one IP at a multiple of the per-player limit', async () => {
+        const app = createApp();
+        const statuses: number[] = [];
+        for (let i = 0; i <= PER_IP_LIMIT_MULTIPLIER; i++) {
+            const res = await request(app).post('/limited').set('X-Player-Token', issuePlayerToken().token);
+            statuses.push(res.status);
+        }
+
+        expect(statuses.slice(0, PER_IP_LIMIT_MULTIPLIER).every(status => status === 200)).toBe(true);
+        expect(statuses[PER_IP_LIMIT_MULTIPLIER]).toBe(429);
+    });
+
+    it('limits only per IP with ipOnly, whatever token is sent', async () => {
+        const app = createApp({ ipOnly: true });
+
+        const first = await request(app).post('/limited').set('X-Player-Token', issuePlayerToken().token);
+        const second = await request(app).post('/limited').set('X-Player-Token', issuePlayerToken().token);
+
+        expect(first.status).toBe(200);
+        expect(second.status).toBe(429);
+    });
+});
@@ -0,0 +1,108 @@
+import { calculateRoundScore, validateGuesses, scoreSubmission, isScoreMismatch, MAX_ROUND_SCORE, SCORING_RULES } from '../scoring';
+import { MIN_YEAR, CURRENT_YEAR } from '../randomImages';
+import { WikimediaImage } from '../../types/wikimedia';
+
+const images = [1936, 1969, 1912, 1988, 1955].map(year => ({ url: `https://example.org/${year}.jpg`, title: String(year), source: 'Wikimedia Commons', year })) as WikimediaImage[];
+const exactGuesses = images.map((image, roundIndex) => ({ roundIndex, guessedYear: image.year }));
+
+describe('calculateRoundScore', () => {
+    it('gives full points for the exact year', () => {
+        expect(calculateRoundScore(1936, 1936)).toBe(MAX_ROUND_SCORE);
+    });
+
+    it('follows the published decay curve in either direction', () => {
+        // exp(-1) of the round's points a scoreDecayYears off
+        expect(calculateRoundScore(1916, 1936)).toBe(368);
+        expect(calculateRoundScore(1956, 1936)).toBe(368);
+        expect(calculateRoundScore(1937, 1936)).toBe(Math.round(MAX_ROUND_SCORE * Math.exp(-1 / SCORING_RULES.scoreDecayYears)));
+    });
+
+    it('falls to 0 for guesses centuries off', () => {
+        expect(calculateRoundScore(1800, 2020)).toBe(0);
+        expect(calculateRoundScore(0, 1900)).toBe(0);
+    });
+});
+
+describe('validateGuesses', () => {
+    it('accepts one integer guess per round in any order', () => {
+        expect(validateGuesses([...exactGuesses].reverse(), images)).toBeNull();
+    });
+
+    it('accepts guesses at the ends of the year scale', () => {
+        expect(validateGuesses(exactGuesses.map((guess, i) => ({ ...guess, guessedYear: i % 2 ? MIN_YEAR : CURRENT_YEAR })), images)).toBeNull();
+    });
+
+    it('rejects anything but an array', () => {
+        expect(validateGuesses(undefined, images)).toMatch(/must be an array/);
+        expect(validateGuesses({ 0: 1936 }, images)).toMatch(/must be an array/);
+    });
+
+    it('rejects the wrong number of rounds', () => {
+        expect(validateGuesses(exactGuesses.slice(0, 4), images)).toBe('Expected 5 guesses but received 4');
+        expect(validateGuesses([...exactGuesses, { roundIndex: 5, guessedYear: 1950 }], images)).toBe('Expected 5 guesses but received 6');
+    });
+
+    it('rejects non-integer or missing years and round indexes', () => {
+        const withGuess = (guess: unknown) => [guess, ...exactGuesses.slice(1)];
+        expect(validateGuesses(withGuess({ roundIndex: 0, guessedYear: 1936.5 }), images)).toMatch(/integer/);
+        expect(validateGuesses(withGuess({ roundIndex: 0, guessedYear: '1936' }), images)).toMatch(/integer/);
+        expect(validateGuesses(withGuess({ roundIndex: 0 }), images)).toMatch(/integer/);
+        expect(validateGuesses(withGuess({ roundIndex: 0.5, guessedYear: 1936 }), images)).toMatch(/integer/);
+        expect(validateGuesses(withGuess(null), images)).toMatch(/integer/);
+    });
+
+    it('rejects years off the game\'s year scale', () => {
+        const withYear = (guessedYear: number) => [{ roundIndex: 0, guessedYear }, ...exactGuesses.slice(1)];
+        expect(validateGuesses(withYear(MIN_YEAR - 1), images)).toBe(`guessedYear ${MIN_YEAR - 1} is outside ${MIN_YEAR}-${CURRENT_YEAR}`);
+        expect(validateGuesses(withYear(CURRENT_YEAR + 1), images)).toMatch(/is outside/);
+        expect(validateGuesses(withYear(1e9), images)).toMatch(/is outside/);
+        expect(validateGuesses(withYear(-5000), images)).toMatch(/is outside/);
+    });
+
+    it('rejects out-of-range and duplicate round indexes', () => {
+        expect(validateGuesses([{ roundIndex: -1, guessedYear: 1936 }, ...exactGuesses.slice(1)], images)).toBe('roundIndex -1 is out of range');
+        expect(validateGuesses([...exactGuesses.slice(0, 4), { roundIndex: 5, guessedYear: 1955 }], images)).toBe('roundIndex 5 is out of range');
+        expect(validateGuesses([...exactGuesses.slice(0, 4), { roundIndex: 0, guessedYear: 1955 }], images)).toBe('Duplicate guess for roundIndex 0');
+    });
+});
+
+describe('scoreSubmission', () => {
+    it('scores a perfect game at the maximum', () => {
+        const scored = scoreSubmission(exactGuesses, images);
+
+        expect(scored.totalScore).toBe(SCORING_RULES.maxTotalScore);
+        expect(scored.totalYearsOff).toBe(0);
+    });
+
+    it('scores each round against its own image and orders rounds by index', () => {
+        const scored = scoreSubmission([
+            { roundIndex: 4, guessedYear: 1955 },
+            { roundIndex: 0, guessedYear: 1916 },
+            { roundIndex: 2, guessedYear: 1912 },
+            { roundIndex: 1, guessedYear: 1800 },
+            { roundIndex: 3, guessedYear: 1990 }
+        ], images);
+
+        expect(scored.rounds.map(round => round.roundIndex)).toEqual([0, 1, 2, 3, 4]);
+        expect(scored.rounds[0]).toEqual({ roundIndex: 0, guessedYear: 1916, actualYear: 1936, yearsOff: 20, points: 368 });
+        expect(scored.rounds[1].points).toBe(0);
+        expect(scored.totalYearsOff).toBe(20 + 169 + 0 + 2 + 0);
+        expect(scored.totalScore).toBe(scored.rounds.reduce((sum, round) => sum + round.points, 0));
+    });
+});
+
+describe('isScoreMismatch', () => {
+    it('allows scoreTolerancePerRound points of difference per round', () => {
+        const tolerance = SCORING_RULES.scoreTolerancePerRound * 5;
+        expect(isScoreMismatch(3500, 3500, 5)).toBe(false);
+        expect(isScoreMismatch(3500 + tolerance, 3500, 5)).toBe(false);
+        expect(isScoreMismatch(3500 - tolerance, 3500, 5)).toBe(false);
+    });
+
+    it('flags totals just past the tolerance', () => {
+        const tolerance = SCORING_RULES.scoreTolerancePerRound * 5;
+        expect(isScoreMismatch(3500 + tolerance + 1, 3500, 5)).toBe(true);
+        expect(isScoreMismatch(3500 - tolerance - 1, 3500, 5)).toBe(true);
+        expect(isScoreMismatch(5000, 1200, 5)).toBe(true);
+    });
+});
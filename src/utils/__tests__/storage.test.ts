@@ -0,0 +1,19 @@
+process.env.AWS_S3_BUCKET_NAME = 'game-bucket';
+process.env.AWS_REGION = 'eu-west-1';
+process.env.CLOUDFRONT_IMAGES_DOMAIN = 'images.example.org';
+
+import { createObjectStorage } from '../storage';
+
+jest.mock('../logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+describe('S3 image storage URLs', () => {
+    const storage = createObjectStorage('s3', 'images');
+
+    it('serves game images through CloudFront', () => {
+        expect(storage.publicUrl('game-images/abc.webp')).toBe('https://images.example.org/game-images/abc.webp');
+    });
+
+    it('keeps legacy root-level keys on the bucket URL, which CloudFront does not serve', () => {
+        expect(storage.legacyUrl('1699999999-photo.jpg')).toBe('https://game-bucket.s3.eu-west-1.amazonaws.com/1699999999-photo.jpg');
+    });
+});
@@ -0,0 +1,66 @@
+import { computeDailyStreaks, toTargetTimezoneDay } from '../streaks';
+
+describe('toTargetTimezoneDay', () => {
+    it('uses the New York calendar day, not the UTC one', () => {
+        // 03:30 UTC is still the previous evening in New York
+        expect(toTargetTimezoneDay(new Date('2024-07-10T03:30:00Z'))).toBe('2024-07-09');
+        expect(toTargetTimezoneDay(new Date('2024-07-10T04:30:00Z'))).toBe('2024-07-10');
+    });
+
+    it('moves the day boundary with daylight saving time', () => {
+        // EST (UTC-5) in January: midnight is 05:00 UTC
+        expect(toTargetTimezoneDay(new Date('2024-01-15T04:59:00Z'))).toBe('2024-01-14');
+        expect(toTargetTimezoneDay(new Date('2024-01-15T05:00:00Z'))).toBe('2024-01-15');
+        // Around the spring-forward and fall-back days
+        expect(toTargetTimezoneDay(new Date('2024-03-10T04:59:00Z'))).toBe('2024-03-09');
+        expect(toTargetTimezoneDay(new Date('2024-03-11T03:59:00Z'))).toBe('2024-03-10');
+        expect(toTargetTimezoneDay(new Date('2024-11-03T03:59:00Z'))).toBe('2024-11-02');
+        expect(toTargetTimezoneDay(new Date('2024-11-04T04:59:00Z'))).toBe('2024-11-03');
+    });
+});
+
+describe('computeDailyStreaks', () => {
+    it('returns zeros for a player who never played', () => {
+        expect(computeDailyStreaks([], '2024-07-10')).toEqual({ currentStreak: 0, longestStreak: 0, lastPlayedDate: null });
+    });
+
+    it('counts consecutive days ending today', () => {
+        expect(computeDailyStreaks(['2024-07-08', '2024-07-09', '2024-07-10'], '2024-07-10'))
+            .toEqual({ currentStreak: 3, longestStreak: 3, lastPlayedDate: '2024-07-10' });
+    });
+
+    it('keeps the current streak alive when the player played yesterday but not yet today', () => {
+        expect(computeDailyStreaks(['2024-07-08', '2024-07-09'], '2024-07-10'))
+            .toEqual({ currentStreak: 2, longestStreak: 2, lastPlayedDate: '2024-07-09' });
+    });
+
+    it('ends the current streak after a missed day but keeps the longest', () => {
+        expect(computeDailyStreaks(['2024-07-05', '2024-07-06', '2024-07-07', '2024-07-08'], '2024-07-10'))
+            .toEqual({ currentStreak: 0, longestStreak: 4, lastPlayedDate: '2024-07-08' });
+    });
+
+    it('restarts the run after a gap', () => {
+        expect(computeDailyStreaks(['2024-07-01', '2024-07-02', '2024-07-03', '2024-07-06', '2024-07-07'], '2024-07-07'))
+            .toEqual({ currentStreak: 2, longestStreak: 3, lastPlayedDate: '2024-07-07' });
+    });
+
+    it('ignores same-day duplicates and input order', () => {
+        expect(computeDailyStreaks(['2024-07-10', '2024-07-09', '2024-07-10', '2024-07-09', '2024-07-08'], '2024-07-10'))
+            .toEqual({ currentStreak: 3, longestStreak: 3, lastPlayedDate: '2024-07-10' });
+    });
+
+    it('ignores days after today', () => {
+        expect(computeDailyStreaks(['2024-07-09', '2024-07-10', '2024-07-11'], '2024-07-10'))
+            .toEqual({ currentStreak: 2, longestStreak: 2, lastPlayedDate: '2024-07-10' });
+    });
+
+    it('counts days across a daylight saving change as consecutive', () => {
+        expect(computeDailyStreaks(['2024-03-09', '2024-03-10', '2024-03-11'], '2024-03-11').currentStreak).toBe(3);
+        expect(computeDailyStreaks(['2024-11-02', '2024-11-03', '2024-11-04'], '2024-11-04').currentStreak).toBe(3);
+    });
+
+    it('counts days across month and year ends as consecutive', () => {
+        expect(computeDailyStreaks(['2023-12-30', '2023-12-31', '2024-01-01'], '2024-01-01').currentStreak).toBe(3);
+        expect(computeDailyStreaks(['2024-02-28', '2024-02-29', '2024-03-01'], '2024-03-01').currentStreak).toBe(3);
+    });
+});
@@ -0,0 +1,138 @@
+import { parseYearText, extractYear, hasReliableYear, ExtMetadata } from '../yearExtraction';
+import corpus from './fixtures/extmetadata.json';
+
+// Each entry's source says whether it was recorded from Commons or written by hand
+type CorpusEntry = { source: string; timestamp: string; extmetadata: ExtMetadata };
+const fixtures = corpus as Record<string, CorpusEntry>;
+
+describe('parseYearText', () => {
+    it('reads a bare year', () => {
+        expect(parseYearText('1936')).toEqual({ year: 1936, approximate: false });
+    });
+
+    it('picks the most frequently mentioned year', () => {
+        expect(parseYearText('Printed 1950 from a 1921 negative; exhibited 1921')).toEqual({ year: 1921, approximate: false });
+    });
+
+    it('parses circa forms as approximate', () => {
+        expect(parseYearText('circa 1920')).toEqual({ year: 1920, approximate: true });
+        expect(parseYearText('ca. 1915')).toEqual({ year: 1915, approximate: true });
+        expect(parseYearText('~1880')).toEqual({ year: 1880, approximate: true });
+    });
+
+    it('parses between and spans as ranges', () => {
+        expect(parseYearText('between 1901 and 1905')).toEqual({ year: 1903, range: { earliest: 1901, latest: 1905 }, approximate: false });
+        expect(parseYearText('1942–1945')).toEqual({ year: 1943, range: { earliest: 1942, latest: 1945 }, approximate: false });
+    });
+
+    it('parses decades, with early/mid/late narrowing', () => {
+        expect(parseYearText('1930s')).toEqual({ year: 1934, range: { earliest: 1930, latest: 1939 }, approximate: false });
+        expect(parseYearText("2010's")?.range).toEqual({ earliest: 2010, latest: 2019 });
+        expect(parseYearText('early 1900s')?.range).toEqual({ earliest: 1900, latest: 1902 });
+        expect(parseYearText('mid-1900s')?.range).toEqual({ earliest: 1903, latest: 1906 });
+        expect(parseYearText('late 1900s')?.range).toEqual({ earliest: 1907, latest: 1909 });
+    });
+
+    it('does not read a year that does not end in 0 as a decade', () => {
+        expect(parseYearText('2015s')?.range).toBeUndefined();
+        expect(parseYearText('1987s')?.range).toBeUndefined();
+    });
+
+    it('parses centuries', () => {
+        expect(parseYearText('19th century')).toEqual({ year: 1850, range: { earliest: 1801, latest: 1900 }, approximate: false });
+        expect(parseYearText('late 19th century')?.range).toEqual({ earliest: 1868, latest: 1900 });
+    });
+
+    it('parses before/after as approximate', () => {
+        expect(parseYearText('before 1920')).toEqual({ year: 1920, approximate: true });
+    });
+
+    it('expands date templates that leak through as wikitext', () => {
+        expect(parseYearText('{{other date|between|1890|1895}}')?.range).toEqual({ earliest: 1890, latest: 1895 });
+        expect(parseYearText('{{other date|s|1950}}')?.range).toEqual({ earliest: 1950, latest: 1959 });
+        expect(parseYearText('{{circa|1912}}')).toEqual({ year: 1912, approximate: true });
+        expect(parseYearText('{{taken on|1968-07-04}}')).toEqual({ year: 1968, approximate: false });
+    });
+
+    it('ignores the hidden Wikidata date string', () => {
+        expect(parseYearText('1936<div style="display: none;">date QS:P571,+1850-00-00T00:00:00Z/9</div>')).toEqual({ year: 1936, approximate: false });
+    });
+
+    it('returns null when there is no year', () => {
+        expect(parseYearText('Unknown date')).toBeNull();
+        expect(parseYearText(undefined)).toBeNull();
+    });
+});
+
+describe('extractYear', () => {
+    const extract = (title: string, withUpload = false) => {
+        const fixture = fixtures[title];
+        return extractYear(fixture.extmetadata, { maxYear: 2025, uploadTimestamp: withUpload ? fixture.timestamp : undefined });
+    };
+
+    it('trusts DateTimeOriginal over the upload DateTime', () => {
+        expect(extract('File:Lange-MigrantMother02.jpg')).toMatchObject({ year: 1936, confidence: 'high', source: 'DateTimeOriginal', text: '1936' });
+    });
+
+    it('reads EXIF-style timestamps', () => {
+        expect(extract('File:Times Square, New York City (HDR).jpg')).toMatchObject({ year: 2012, confidence: 'high', source: 'DateTimeOriginal' });
+    });
+
+    it('lowers confidence for circa dates', () => {
+        expect(extract('File:Flatiron Building, New York City, ca. 1920.jpg')).toMatchObject({ year: 1920, approximate: true, confidence: 'medium', text: 'circa 1920' });
+    });
+
+    it('keeps confidence for ranges under five years', () => {
+        expect(extract('File:Ellis Island immigrants, between 1901 and 1905.jpg')).toMatchObject({ year: 1903, range: { earliest: 1901, latest: 1905 }, confidence: 'high' });
+    });
+
+    it('lowers confidence for decades and wider ranges', () => {
+        expect(extract('File:Street scene, Chicago, 1930s.jpg')).toMatchObject({ year: 1934, range: { earliest: 1930, latest: 1939 }, confidence: 'medium' });
+        expect(extract('File:Harbour view, Sydney (wikitext date).jpg')).toMatchObject({ year: 1892, range: { earliest: 1890, latest: 1895 }, confidence: 'medium' });
+    });
+
+    it('gives century-wide dates low confidence', () => {
+        expect(extract('File:Albumen print, unknown studio.jpg')).toMatchObject({ year: 1850, confidence: 'low', source: 'DateTimeOriginal' });
+    });
+
+    it('falls back to the title when there are no date fields', () => {
+        expect(extract('File:Scanned postcard, Main Street.jpg')).toMatchObject({ year: 1948, confidence: 'medium', source: 'ObjectName' });
+    });
+
+    it('uses the upload year only when asked, with low confidence', () => {
+        expect(extract('File:Untitled (no date).jpg')).toBeNull();
+        expect(extract('File:Untitled (no date).jpg', true)).toMatchObject({ year: 2021, confidence: 'low', source: 'upload' });
+    });
+
+    it('does not read the upload DateTime as the year the photo was taken', () => {
+        const metadata: ExtMetadata = { DateTime: { value: '2016-01-19 13:05:44' }, ObjectName: { value: 'Untitled' } };
+        expect(extractYear(metadata, { maxYear: 2025 })).toBeNull();
+        const extracted = extractYear(metadata, { maxYear: 2025, uploadTimestamp: '2016-01-19T13:05:44Z' });
+        expect(extracted).toMatchObject({ year: 2016, confidence: 'low', source: 'upload' });
+        expect(hasReliableYear({ yearSource: extracted?.source, yearConfidence: extracted?.confidence })).toBe(false);
+    });
+
+    it('skips values outside the year bounds', () => {
+        const metadata: ExtMetadata = { DateTimeOriginal: { value: '1780' }, ObjectName: { value: 'Harbour, 1910' } };
+        expect(extractYear(metadata, { maxYear: 2025 })).toMatchObject({ year: 1910, source: 'ObjectName' });
+    });
+
+    it('returns null without metadata', () => {
+        expect(extractYear(undefined)).toBeNull();
+    });
+});
+
+describe('hasReliableYear', () => {
+    it('accepts medium or high confidence years from date fields', () => {
+        expect(hasReliableYear({ yearSource: 'DateTimeOriginal', yearConfidence: 'high' })).toBe(true);
+        expect(hasReliableYear({ yearSource: 'ImageDescription', yearConfidence: 'medium' })).toBe(true);
+    });
+
+    it('rejects years read from the title or upload date, low confidence years and unknown confidence', () => {
+        expect(hasReliableYear({ yearSource: 'ObjectName', yearConfidence: 'medium' })).toBe(false);
+        expect(hasReliableYear({ yearSource: 'upload', yearConfidence: 'low' })).toBe(false);
+        expect(hasReliableYear({ yearSource: 'DateTime', yearConfidence: 'medium' })).toBe(false);
+        expect(hasReliableYear({ yearSource: 'DateTimeOriginal', yearConfidence: 'low' })).toBe(false);
+        expect(hasReliableYear({})).toBe(false);
+    });
+});
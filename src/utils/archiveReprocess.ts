@@ -0,0 +1,272 @@
+// src/utils/archiveReprocess.ts
+import DailyChallenge from '../models/DailyChallenge';
+import RoundGuess from '../models/RoundGuess';
+import {
+    buildRoundGuessDistributions,
+    getDefaultRoundGuessKdeOptions,
+    RoundGuessDistributionItem,
+    RoundGuessKdeOptions
+} from './distributionProcessor';
+import { listArchiveFiles, readArchiveFile } from './archiveRestore';
+import logger from './logger';
+
+// Keeps a single request from streaming months of archives
+export const MAX_REPROCESS_RANGE_DAYS = 31;
+
+// Density differences below this are float noise, not a changed curve
+const DENSITY_EPSILON = 1e-9;
+
+export interface ReprocessOptions {
+    kde?: Partial<RoundGuessKdeOptions>;
+    // Also count guesses still in RoundGuess (not yet delta-archived). Defaults to true.
+    includeLiveRows?: boolean;
+    // Write the new distributions; without it the run is a dry run
+    confirm?: boolean;
+}
+
+interface DistributionSummary {
+    totalGuesses: number;
+    minGuess: number;
+    maxGuess: number;
+    medianGuess: number;
+    curvePoints: number;
+}
+
+export interface RoundDistributionDiff {
+    roundIndex: number;
+    status: 'added' | 'removed' | 'changed' | 'unchanged';
+    stored: DistributionSummary | null;
+    reprocessed: DistributionSummary | null;
+    maxDensityDelta: number; // Largest absolute density difference at any year on either curve
+}
+
+export interface DateReprocessResult {
+    date: string;
+    challengeId?: string;
+    status: 'noChallenge' | 'noGuesses' | 'unchanged' | 'dryRun' | 'written';
+    filesRead: string[];
+    archivedGuesses: number;
+    liveGuesses: number;
+    duplicateGuesses: number; // Same _id seen in more than one source
+    invalidLines: number;
+    rounds: RoundDistributionDiff[];
+}
+
+export interface ReprocessResult {
+    dryRun: boolean;
+    kdeOptions: RoundGuessKdeOptions;
+    dates: DateReprocessResult[];
+}
+
+function summarize(item: RoundGuessDistributionItem): DistributionSummary {
+    return {
+        totalGuesses: item.totalGuesses,
+        minGuess: item.minGuess,
+        maxGuess: item.maxGuess,
+        medianGuess: item.medianGuess,
+        curvePoints: item.curvePoints.length
+    };
+}
+
+function getMaxDensityDelta(stored?: RoundGuessDistributionItem, reprocessed?: RoundGuessDistributionItem): number {
+    const densities = new Map<number, [number, number]>();
+    for (const point of stored?.curvePoints || []) {
+        densities.set(point.guessedYear, [point.density, 0]);
+    }
+    for (const point of reprocessed?.curvePoints || []) {
+        const entry = densities.get(point.guessedYear) || [0, 0];
+        entry[1] = point.density;
+        densities.set(point.guessedYear, entry);
+    }
+
+    let maxDelta = 0;
+    densities.forEach(([a, b]) => { maxDelta = Math.max(maxDelta, Math.abs(a - b)); });
+    return maxDelta;
+}
+
+/**
+ * Per-round comparison of stored and reprocessed distributions.
+ */
+export function diffRoundGuessDistributions(
+    stored: RoundGuessDistributionItem[],
+    reprocessed: RoundGuessDistributionItem[]
+): RoundDistributionDiff[] {
+    const roundIndexes = Array.from(new Set([...stored, ...reprocessed].map(item => item.roundIndex))).sort((a, b) => a - b);
+
+    return roundIndexes.map(roundIndex => {
+        const before = stored.find(item => item.roundIndex === roundIndex);
+        const after = reprocessed.find(item => item.roundIndex === roundIndex);
+        const maxDensityDelta = getMaxDensityDelta(before, after);
+
+        let status: RoundDistributionDiff['status'];
+        if (!before) {
+            status = 'added';
+        } else if (!after) {
+            status = 'removed';
+        } else {
+            const beforeSummary = summarize(before);
+            const afterSummary = summarize(after);
+            const summariesMatch = (Object.keys(beforeSummary) as Array<keyof DistributionSummary>)
+                .every(key => beforeSummary[key] === afterSummary[key]);
+            status = summariesMatch && maxDensityDelta < DENSITY_EPSILON ? 'unchanged' : 'changed';
+        }
+
+        return {
+            roundIndex,
+            status,
+            stored: before ? summarize(before) : null,
+            reprocessed: after ? summarize(after) : null,
+            maxDensityDelta
+        };
+    });
+}
+
+async function reprocessDate(date: string, kdeOptions: RoundGuessKdeOptions, includeLiveRows: boolean, confirm: boolean): Promise<DateReprocessResult> {
+    const result: DateReprocessResult = {
+        date,
+        status: 'noGuesses',
+        filesRead: [],
+        archivedGuesses: 0,
+        liveGuesses: 0,
+        duplicateGuesses: 0,
+        invalidLines: 0,
+        rounds: []
+    };
+
+    // Same UTC-midnight lookup as processAndStoreRoundGuessDistributions
+    const challengeDate = new Date(`${date}T00:00:00.000Z`);
+    const challenge = await DailyChallenge.findOne({
+        date: { $gte: challengeDate, $lt: new Date(challengeDate.getTime() + 24 * 60 * 60 * 1000) }
+    }).select('_id stats.roundGuessDistributions');
+    if (!challenge) {
+        result.status = 'noChallenge';
+        return result;
+    }
+    result.challengeId = String(challenge._id);
+
+    // Initial (or emergency) file plus every delta; a row can appear in more than one
+    // source if an archival run was interrupted, so dedupe on _id
+    const seenIds = new Set<string>();
+    const guesses: Array<{ roundIndex: number; guessedYear: number }> = [];
+    const addGuess = (id: string, roundIndex: number, guessedYear: number): boolean => {
+        if (seenIds.has(id)) {
+            result.duplicateGuesses++;
+            return false;
+        }
+        seenIds.add(id);
+        guesses.push({ roundIndex, guessedYear });
+        return true;
+    };
+
+    for (const file of await listArchiveFiles(date)) {
+        result.filesRead.push(file.key);
+        for await (const doc of readArchiveFile(file.key)) {
+            if (!doc) {
+                result.invalidLines++;
+                continue;
+            }
+            if (addGuess(String(doc._id), doc.roundIndex, doc.guessedYear)) {
+                result.archivedGuesses++;
+            }
+        }
+    }
+
+    if (includeLiveRows) {
+        const liveRows = await RoundGuess.find({ challengeDate }).select('_id roundIndex guessedYear').lean();
+        for (const row of liveRows) {
+            if (addGuess(String(row._id), row.roundIndex, row.guessedYear)) {
+                result.liveGuesses++;
+            }
+        }
+    }
+
+    if (guesses.length === 0) {
+        return result;
+    }
+
+    const reprocessed = buildRoundGuessDistributions(guesses, kdeOptions);
+    const stored = (challenge.stats?.roundGuessDistributions || []) as RoundGuessDistributionItem[];
+    result.rounds = diffRoundGuessDistributions(stored, reprocessed);
+
+    if (result.rounds.every(round => round.status === 'unchanged')) {
+        result.status = 'unchanged';
+    } else if (!confirm) {
+        result.status = 'dryRun';
+    } else {
+        await DailyChallenge.updateOne(
+            { _id: challenge._id },
+            { $set: { 'stats.roundGuessDistributions': reprocessed } }
+        );
+        result.status = 'written';
+        logger.info(`[ArchiveReprocess] Wrote reprocessed round guess distributions for ${date} (${guesses.length} guesses).`);
+    }
+    return result;
+}
+
+/**
+ * Validates a reprocess date range and KDE overrides.
+ * @returns An error message, or null if the request is usable
+ */
+export function validateReprocessRequest(startDate: unknown, endDate: unknown, kde: unknown): string | null {
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if (typeof startDate !== 'string' || !datePattern.test(startDate) || typeof endDate !== 'string' || !datePattern.test(endDate)) {
+        return 'startDate and endDate must be YYYY-MM-DD';
+    }
+    const start = new Date(`${startDate}T00:00:00.000Z`);
+    const end = new Date(`${endDate}T00:00:00.000Z`);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+        return 'endDate must be a valid date on or after startDate';
+    }
+    if ((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000) + 1 > MAX_REPROCESS_RANGE_DAYS) {
+        return `Date range may cover at most ${MAX_REPROCESS_RANGE_DAYS} days`;
+    }
+
+    if (kde === undefined) return null;
+    if (!kde || typeof kde !== 'object') {
+        return 'kde must be an object';
+    }
+    const { bandwidthYears, stepYears, minYear, maxYear, roundCount } = kde as Record<string, unknown>;
+    for (const [name, value] of Object.entries({ bandwidthYears, stepYears })) {
+        if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+            return `kde.${name} must be a positive number`;
+        }
+    }
+    for (const [name, value] of Object.entries({ minYear, maxYear, roundCount })) {
+        if (value !== undefined && !Number.isInteger(value)) {
+            return `kde.${name} must be an integer`;
+        }
+    }
+    const defaults = getDefaultRoundGuessKdeOptions();
+    const effectiveMin = (minYear as number | undefined) ?? defaults.minYear;
+    const effectiveMax = (maxYear as number | undefined) ?? defaults.maxYear;
+    if (effectiveMin >= effectiveMax) {
+        return 'kde.minYear must be before kde.maxYear';
+    }
+    return null;
+}
+
+/**
+ * Rebuilds round guess distributions for a date range from the S3 archives
+ * (plus, by default, rows not archived yet) without copying anything into Mongo.
+ * Returns a per-date diff against the stored distributions; writes only with confirm.
+ * @param startDate YYYY-MM-DD, inclusive
+ * @param endDate YYYY-MM-DD, inclusive
+ */
+export async function reprocessDistributionsFromArchive(startDate: string, endDate: string, options: ReprocessOptions = {}): Promise<ReprocessResult> {
+    const kdeOptions: RoundGuessKdeOptions = { ...getDefaultRoundGuessKdeOptions(), ...options.kde };
+    const confirm = options.confirm === true;
+    const includeLiveRows = options.includeLiveRows !== false;
+
+    const dates: string[] = [];
+    for (let day = new Date(`${startDate}T00:00:00.000Z`); day <= new Date(`${endDate}T00:00:00.000Z`); day = new Date(day.getTime() + 24 * 60 * 60 * 1000)) {
+        dates.push(day.toISOString().split('T')[0]);
+    }
+
+    logger.info(`[ArchiveReprocess] Reprocessing ${dates.length} date(s) ${startDate}..${endDate} (${confirm ? 'WRITE' : 'dry run'}) with options:`, kdeOptions);
+    const results: DateReprocessResult[] = [];
+    for (const date of dates) {
+        results.push(await reprocessDate(date, kdeOptions, includeLiveRows, confirm));
+    }
+
+    return { dryRun: !confirm, kdeOptions, dates: results };
+}
@@ -0,0 +1,233 @@
+// src/utils/archiveRestore.ts
+import mongoose from 'mongoose';
+import readline from 'readline';
+import { getArchiveStorage, getStorageDriver, ObjectStorage } from './storage';
+import RoundGuess from '../models/RoundGuess';
+import { processAndStoreRoundGuessDistributions } from './distributionProcessor';
+import logger from './logger';
+
+const ARCHIVE_S3_PREFIX = String(process.env.ARCHIVE_S3_PREFIX || 'round-guesses-archive/').replace(/\/$/, '');
+
+const RESTORE_BATCH_SIZE = 1000;
+// Scratch collections are always prefixed so a restore can never write into a live collection
+export const SCRATCH_COLLECTION_PREFIX = 'roundguesses_restore_';
+
+// Raised for bad restore options, as opposed to storage or database failures
+export class ArchiveRestoreInputError extends Error {}
+
+export type ArchiveFileKind = 'initial' | 'emergency' | 'delta' | 'other';
+
+export interface ArchiveFile {
+    key: string;
+    kind: ArchiveFileKind;
+    size: number;
+    lastModified?: Date;
+}
+
+export interface RestoreOptions {
+    // Restore into RoundGuess (default) or into a scratch collection for inspection
+    target?: 'roundGuesses' | 'scratch';
+    // Suffix of the scratch collection name; defaults to the date
+    scratchName?: string;
+    // Restore only these keys (must belong to the date); defaults to every file
+    keys?: string[];
+    // Recompute the date's roundGuessDistributions afterwards (RoundGuess target only)
+    recompute?: boolean;
+}
+
+export interface RestoreFileResult {
+    key: string;
+    linesRead: number;
+    inserted: number;
+    alreadyPresent: number;
+    invalidLines: number;
+}
+
+export interface RestoreResult {
+    date: string;
+    target: string; // Collection name written to
+    files: RestoreFileResult[];
+    inserted: number;
+    alreadyPresent: number;
+    invalidLines: number;
+    recomputed: boolean;
+}
+
+// Reading only needs a bucket (credentials may come from the environment's role)
+function getReadableArchiveStorage(): ObjectStorage {
+    if (getStorageDriver() === 's3' && !process.env.ARCHIVE_S3_BUCKET_NAME) {
+        throw new Error('ARCHIVE_S3_BUCKET_NAME is not configured');
+    }
+    return getArchiveStorage();
+}
+
+function getArchiveFileKind(key: string): ArchiveFileKind {
+    const filename = key.split('/').pop() || '';
+    if (filename.endsWith('-EMERGENCY-initial.jsonl')) return 'emergency';
+    if (filename.endsWith('-initial.jsonl')) return 'initial';
+    if (filename.startsWith('delta_')) return 'delta';
+    return 'other';
+}
+
+/**
+ * Lists the archive files written for a challenge date, oldest first.
+ * @param challengeDateString YYYY-MM-DD
+ */
+export async function listArchiveFiles(challengeDateString: string): Promise<ArchiveFile[]> {
+    const objects = await getReadableArchiveStorage().list(`${ARCHIVE_S3_PREFIX}/${challengeDateString}/`);
+    const files: ArchiveFile[] = objects
+        .filter(object => object.key.endsWith('.jsonl'))
+        .map(object => ({
+            key: object.key,
+            kind: getArchiveFileKind(object.key),
+            size: object.size,
+            lastModified: object.lastModified
+        }));
+
+    return files.sort((a, b) => (a.lastModified?.getTime() || 0) - (b.lastModified?.getTime() || 0));
+}
+
+// Converts an archived JSON line (a RoundGuess toObject() dump) back into a document
+function parseArchivedRoundGuess(line: string): Record<string, any> | null {
+    let raw: any;
+    try {
+        raw = JSON.parse(line);
+    } catch {
+        return null;
+    }
+    if (!raw || !mongoose.Types.ObjectId.isValid(raw._id) ||
+        !Number.isInteger(raw.roundIndex) || !Number.isInteger(raw.guessedYear)) {
+        return null;
+    }
+    const challengeDate = new Date(raw.challengeDate);
+    if (isNaN(challengeDate.getTime())) return null;
+
+    return {
+        _id: new mongoose.Types.ObjectId(String(raw._id)),
+        challengeDate,
+        roundIndex: raw.roundIndex,
+        guessedYear: raw.guessedYear,
+        ...(raw.createdAt ? { createdAt: new Date(raw.createdAt) } : {}),
+        ...(raw.updatedAt ? { updatedAt: new Date(raw.updatedAt) } : {})
+    };
+}
+
+async function writeBatch(collection: mongoose.mongo.Collection, docs: Record<string, any>[], result: RestoreFileResult): Promise<void> {
+    if (docs.length === 0) return;
+    // Upsert on _id with $setOnInsert: rows still in Mongo (or restored earlier) are left untouched
+    const bulkResult = await collection.bulkWrite(
+        docs.map(({ _id, ...fields }) => ({
+            updateOne: { filter: { _id }, update: { $setOnInsert: fields }, upsert: true }
+        })),
+        { ordered: false }
+    );
+    result.inserted += bulkResult.upsertedCount;
+    result.alreadyPresent += docs.length - bulkResult.upsertedCount;
+}
+
+/**
+ * Streams an archive file line by line so large (e.g. emergency) archives aren't
+ * held in memory. Yields one document per non-empty line, or null for a line
+ * that isn't a valid RoundGuess.
+ */
+export async function* readArchiveFile(key: string): AsyncGenerator<Record<string, any> | null> {
+    const input = await getReadableArchiveStorage().getStream(key);
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    for await (const line of lines) {
+        if (!line.trim()) continue;
+        yield parseArchivedRoundGuess(line);
+    }
+}
+
+async function restoreFile(key: string, collection: mongoose.mongo.Collection, markRestored: boolean): Promise<RestoreFileResult> {
+    const result: RestoreFileResult = { key, linesRead: 0, inserted: 0, alreadyPresent: 0, invalidLines: 0 };
+    let batch: Record<string, any>[] = [];
+    for await (const doc of readArchiveFile(key)) {
+        result.linesRead++;
+        if (!doc) {
+            result.invalidLines++;
+            continue;
+        }
+        if (markRestored) {
+            doc.restoredFromArchive = true;
+        }
+        batch.push(doc);
+        if (batch.length >= RESTORE_BATCH_SIZE) {
+            await writeBatch(collection, batch, result);
+            batch = [];
+        }
+    }
+    await writeBatch(collection, batch, result);
+
+    logger.info(`[ArchiveRestore] Restored ${key}: ${result.inserted} inserted, ${result.alreadyPresent} already present, ${result.invalidLines} invalid line(s).`);
+    return result;
+}
+
+/**
+ * Streams a date's archived RoundGuess files back into Mongo, deduplicating on _id.
+ * Rows restored into RoundGuess are flagged restoredFromArchive so the archiver
+ * won't upload them again; remove them with removeRestoredRoundGuesses when done.
+ * @param challengeDateString YYYY-MM-DD
+ */
+export async function restoreArchivedRoundGuesses(challengeDateString: string, options: RestoreOptions = {}): Promise<RestoreResult> {
+    getReadableArchiveStorage(); // Fail fast before touching Mongo
+    const target = options.target || 'roundGuesses';
+    if (options.recompute && target !== 'roundGuesses') {
+        throw new ArchiveRestoreInputError('recompute is only supported when restoring into RoundGuess');
+    }
+
+    let collection: mongoose.mongo.Collection;
+    if (target === 'scratch') {
+        const scratchName = options.scratchName || challengeDateString.replace(/-/g, '');
+        if (!/^[A-Za-z0-9_]{1,64}$/.test(scratchName)) {
+            throw new ArchiveRestoreInputError('scratchName may only contain letters, digits and underscores');
+        }
+        collection = mongoose.connection.collection(`${SCRATCH_COLLECTION_PREFIX}${scratchName}`);
+    } else {
+        collection = RoundGuess.collection;
+    }
+
+    const availableFiles = await listArchiveFiles(challengeDateString);
+    let keys = availableFiles.map(file => file.key);
+    if (options.keys && options.keys.length > 0) {
+        const unknownKeys = options.keys.filter(key => !keys.includes(key));
+        if (unknownKeys.length > 0) {
+            throw new ArchiveRestoreInputError(`Not archive files for ${challengeDateString}: ${unknownKeys.join(', ')}`);
+        }
+        keys = keys.filter(key => options.keys!.includes(key));
+    }
+
+    logger.info(`[ArchiveRestore] Restoring ${keys.length} archive file(s) for ${challengeDateString} into ${collection.collectionName}.`);
+    const files: RestoreFileResult[] = [];
+    for (const key of keys) {
+        files.push(await restoreFile(key, collection, target === 'roundGuesses'));
+    }
+
+    let recomputed = false;
+    if (options.recompute) {
+        logger.info(`[ArchiveRestore] Recomputing round guess distributions for ${challengeDateString}.`);
+        await processAndStoreRoundGuessDistributions(challengeDateString);
+        recomputed = true;
+    }
+
+    return {
+        date: challengeDateString,
+        target: collection.collectionName,
+        files,
+        inserted: files.reduce((sum, f) => sum + f.inserted, 0),
+        alreadyPresent: files.reduce((sum, f) => sum + f.alreadyPresent, 0),
+        invalidLines: files.reduce((sum, f) => sum + f.invalidLines, 0),
+        recomputed
+    };
+}
+
+/**
+ * Deletes the rows a restore put back into RoundGuess for a date. Live rows are untouched.
+ * @returns The number of rows deleted
+ */
+export async function removeRestoredRoundGuesses(challengeDateString: string): Promise<number> {
+    const challengeDate = new Date(`${challengeDateString}T00:00:00.000Z`);
+    const deleteResult = await RoundGuess.deleteMany({ challengeDate, restoredFromArchive: true });
+    logger.info(`[ArchiveRestore] Removed ${deleteResult.deletedCount} restored RoundGuess rows for ${challengeDateString}.`);
+    return deleteResult.deletedCount;
+}
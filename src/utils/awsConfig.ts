@@ -1,16 +0,0 @@
-
-import { S3Client } from '@aws-sdk/client-s3';
-import dotenv from 'dotenv';
-
-dotenv.config();
-
-const s3Client = new S3Client({
-  region: process.env.AWS_REGION || 'us-east-1',
-  credentials: {
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || ''
-  }
-});
-
-export const s3BucketName = process.env.AWS_S3_BUCKET_NAME || 'your-bucket-name';
-export default s3Client;
\ No newline at end of file
@@ -0,0 +1,190 @@
+// src/utils/candidateImages.ts
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { formatInTimeZone } from 'date-fns-tz';
+import CandidateImage, { CandidateStatus, ICandidateImage } from '../models/CandidateImage';
+import DailyChallenge, { DailyChallengeDoc } from '../models/DailyChallenge';
+import { processAndStoreImageVariants, fetchImageFromUrl, ProcessedImageInfo } from './imageProcessor';
+import { WikimediaImage, ImageAttribution } from '../types/wikimedia';
+import { YearConfidence, YearRange, YearSource } from './yearExtraction';
+import { fetchImageData } from './wikimediaHelper';
+import { validateImageLicense } from './imageAttribution';
+import { TARGET_TIMEZONE } from './challengeDates';
+import logger from './logger';
+
+// Raised for promotions that can't go ahead; status is the HTTP status to answer with
+export class CandidatePromotionError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+    }
+}
+
+export interface FetchedCandidate {
+    filename: string;
+    title: string;
+    url: string;
+    source: string;
+    year: number;
+    yearConfidence: YearConfidence;
+    yearSource?: YearSource;
+    yearRange?: YearRange;
+    attribution?: ImageAttribution;
+    description?: string;
+    category?: string;
+}
+
+export interface PromoteCandidateOptions {
+    date: string;           // YYYY-MM-DD of the challenge to add it to (created if missing)
+    round?: number;         // 1-based position; appended when omitted
+    year?: number;          // Overrides the candidate's year
+    description?: string;
+    revealedDescription?: string;
+}
+
+export interface PromoteCandidateResult {
+    challenge: DailyChallengeDoc;
+    round: number;
+    createdChallenge: boolean;
+}
+
+/**
+ * Adds fetched Commons files to the candidate pool. Files already in the pool
+ * keep their review state; only newly seen categories are added.
+ */
+export async function recordCandidateImages(images: FetchedCandidate[]): Promise<void> {
+    const valid = images.filter(image => image.filename && image.url);
+    if (valid.length === 0) return;
+
+    await CandidateImage.bulkWrite(valid.map(image => ({
+        updateOne: {
+            filter: { filename: image.filename },
+            update: {
+                $setOnInsert: {
+                    title: image.title,
+                    url: image.url,
+                    source: image.source,
+                    description: image.description || '',
+                    year: image.year,
+                    yearConfidence: image.yearConfidence,
+                    yearSource: image.yearSource,
+                    yearRange: image.yearRange,
+                    attribution: image.attribution,
+                    status: 'pending'
+                },
+                $addToSet: { categories: { $each: image.category ? [image.category] : [] } }
+            },
+            upsert: true
+        }
+    })), { ordered: false });
+}
+
+/**
+ * Sets the review status (and optionally notes and a corrected year) of many candidates.
+ * @returns Number of candidates updated
+ */
+export async function reviewCandidates(ids: string[], status: CandidateStatus, update: { reviewerNotes?: string; year?: number } = {}): Promise<number> {
+    const set: Record<string, any> = { status, reviewedAt: new Date() };
+    if (update.reviewerNotes !== undefined) set.reviewerNotes = update.reviewerNotes;
+    if (update.year !== undefined) set.year = update.year;
+
+    const result = await CandidateImage.updateMany(
+        { _id: { $in: ids.map(id => new mongoose.Types.ObjectId(id)) } },
+        { $set: set }
+    );
+    return result.modifiedCount;
+}
+
+function toChallengeImage(candidate: ICandidateImage, attribution: ImageAttribution | undefined, processedInfo: ProcessedImageInfo, options: PromoteCandidateOptions): WikimediaImage {
+    const description = options.description ?? candidate.description ?? '';
+    return {
+        filename: candidate.filename,
+        title: candidate.title,
+        url: processedInfo.imageUrl!,
+        year: options.year ?? candidate.year,
+        source: candidate.source,
+        description,
+        revealedDescription: options.revealedDescription || description,
+        s3BaseIdentifier: processedInfo.s3BaseIdentifier,
+        tinyBlurredPlaceholderUrl: processedInfo.tinyBlurredPlaceholderUrl ?? undefined,
+        width: processedInfo.width,
+        height: processedInfo.height,
+        aspectRatio: processedInfo.aspectRatio,
+        variants: processedInfo.variants,
+        blurHash: processedInfo.blurHash,
+        dominantColor: processedInfo.dominantColor,
+        perceptualHash: processedInfo.perceptualHash,
+        attribution
+    };
+}
+
+/**
+ * Processes an approved candidate through the variant pipeline and adds it as a
+ * round of the challenge on the given date, creating the challenge if needed.
+ * The date must be in the future so no one has played the challenge yet.
+ */
+export async function promoteCandidate(candidateId: string, options: PromoteCandidateOptions): Promise<PromoteCandidateResult> {
+    const candidate = await CandidateImage.findById(candidateId);
+    if (!candidate) {
+        throw new CandidatePromotionError('Candidate not found', 404);
+    }
+    if (candidate.status !== 'approved') {
+        throw new CandidatePromotionError(`Only approved candidates can be promoted (status is ${candidate.status})`, 409);
+    }
+
+    // Inserting a round into a challenge that may already have been played would shift
+    // the roundIndex of existing guesses and results, so only future dates are allowed
+    const todayET = formatInTimeZone(new Date(), TARGET_TIMEZONE, 'yyyy-MM-dd');
+    if (options.date <= todayET) {
+        throw new CandidatePromotionError(`Candidates can only be promoted into future challenges (after ${todayET})`, 409);
+    }
+
+    const challengeDate = new Date(`${options.date}T00:00:00.000Z`);
+    const existing = await DailyChallenge.findOne({
+        date: { $gte: challengeDate, $lt: new Date(challengeDate.getTime() + 24 * 60 * 60 * 1000) }
+    });
+    if (options.round !== undefined && options.round > (existing?.images.length || 0) + 1) {
+        throw new CandidatePromotionError(`round must be between 1 and ${(existing?.images.length || 0) + 1}`, 400);
+    }
+
+    // License may have changed on Commons since the candidate was fetched
+    const commonsData = await fetchImageData(candidate.filename);
+    const attribution = commonsData?.attribution ?? candidate.attribution;
+    const licenseError = validateImageLicense(attribution);
+    if (licenseError) {
+        throw new CandidatePromotionError(`Cannot promote ${candidate.filename}: ${licenseError}`, 409);
+    }
+
+    const imageBuffer = await fetchImageFromUrl(candidate.url);
+    if (!imageBuffer) {
+        throw new CandidatePromotionError(`Could not download ${candidate.url}`, 502);
+    }
+    const processedInfo = await processAndStoreImageVariants(imageBuffer, uuidv4());
+    if (!processedInfo.imageUrl) {
+        throw new Error(`Failed to process image variants for candidate ${candidateId}`);
+    }
+    const image = toChallengeImage(candidate, attribution, processedInfo, options);
+
+    let challenge: DailyChallengeDoc;
+    let roundIndex: number;
+    if (existing) {
+        roundIndex = options.round !== undefined ? options.round - 1 : existing.images.length;
+        existing.images.splice(roundIndex, 0, image);
+        challenge = await existing.save();
+    } else {
+        roundIndex = 0;
+        challenge = await new DailyChallenge({
+            date: challengeDate,
+            images: [image],
+            stats: { averageScore: 0, completions: 0, distributions: [] },
+            active: true
+        }).save();
+    }
+
+    await CandidateImage.updateOne({ _id: candidate._id }, {
+        $set: { attribution },
+        $push: { promotions: { challengeId: String(challenge._id), date: options.date, round: roundIndex + 1, promotedAt: new Date() } }
+    });
+    logger.info(`[CandidateImages] Promoted ${candidate.filename} to ${options.date} round ${roundIndex + 1}.`);
+
+    return { challenge, round: roundIndex + 1, createdChallenge: !existing };
+}
@@ -0,0 +1,41 @@
+// src/utils/challengeDates.ts
+import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
+
+export const TARGET_TIMEZONE = 'America/New_York'; // As defined in images.ts
+
+export interface ChallengeDateRange {
+  queryDateString: string; // YYYY-MM-DD
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Resolves the UTC query range for a challenge date, mirroring the submit route:
+ * an explicit YYYY-MM-DD is treated as UTC midnight, otherwise the current
+ * TARGET_TIMEZONE date is used.
+ * @returns The range, or null if the date string is invalid
+ */
+export function getChallengeDateRange(date?: string): ChallengeDateRange | null {
+  if (date) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return null;
+    }
+    const startDate = new Date(date + 'T00:00:00.000Z');
+    if (isNaN(startDate.getTime())) {
+      return null;
+    }
+    return {
+      queryDateString: date,
+      startDate,
+      endDate: new Date(startDate.getTime() + 24 * 60 * 60 * 1000)
+    };
+  }
+
+  const queryDateString = formatInTimeZone(new Date(), TARGET_TIMEZONE, 'yyyy-MM-dd');
+  const startDate = toZonedTime(`${queryDateString}T00:00:00`, TARGET_TIMEZONE);
+  return {
+    queryDateString,
+    startDate,
+    endDate: new Date(startDate.getTime() + 24 * 60 * 60 * 1000)
+  };
+}
@@ -0,0 +1,238 @@
+// src/utils/challengeStats.ts
+import mongoose from 'mongoose';
+import DailyChallenge, { DailyChallengeDoc } from '../models/DailyChallenge';
+import PlayerResult, { IPlayerResult } from '../models/PlayerResult';
+import logger from './logger';
+import { processDistributionData } from './scoreDistribution';
+import { processAndStoreRoundGuessDistributions } from './distributionProcessor';
+import { archiveSpecificDayEmergency } from './emergencyArchiver';
+import { enqueueJob, JobHandlers } from './jobQueue';
+
+/**
+ * Maps a stored processed distribution to the shape returned to players.
+ */
+export function mapProcessedDistributionForResponse(pd: any) {
+    if (!pd) return undefined;
+    return {
+        totalParticipants: pd.totalParticipants,
+        curvePoints: pd.curvePoints,
+        minScore: pd.minScore,
+        maxScore: pd.maxScore,
+        medianScore: pd.medianScore
+    };
+}
+
+// How many recently applied submission ids are kept on a challenge for idempotency.
+// Retries of the same submission arrive within seconds, so a short window is enough.
+export const APPLIED_SUBMISSION_ID_CAP = 500;
+
+const STATS_UPDATE_ATTEMPTS = 3;
+
+export interface ApplySubmissionOptions {
+    // Past challenges only count the completion; their histogram and average stay frozen
+    includeInAggregates: boolean;
+    requireActive?: boolean;
+}
+
+export interface AppliedSubmission {
+    challenge: DailyChallengeDoc;
+    applied: boolean; // false when this submission id had already been applied
+}
+
+// Builds the single pipeline update that applies one score to a challenge's stats.
+// Everything is computed server-side from the document's current values, so
+// concurrent submissions can't overwrite each other's histogram or average.
+function buildStatsUpdatePipeline(submissionId: string, score: number, includeInAggregates: boolean): any[] {
+    const distributions = { $ifNull: ['$stats.distributions', []] };
+    const appliedIds = {
+        $slice: [
+            { $concatArrays: [{ $ifNull: ['$stats.appliedSubmissionIds', []] }, [submissionId]] },
+            -APPLIED_SUBMISSION_ID_CAP
+        ]
+    };
+    const completions = { $add: [{ $ifNull: ['$stats.completions', 0] }, 1] };
+
+    if (!includeInAggregates) {
+        return [{ $set: { 'stats.completions': completions, 'stats.appliedSubmissionIds': appliedIds } }];
+    }
+
+    // Challenges created before scoreSum/scoreCount existed derive them from the histogram once
+    const legacyScoreSum = {
+        $reduce: {
+            input: distributions,
+            initialValue: 0,
+            in: { $add: ['$$value', { $multiply: ['$$this.score', { $ifNull: ['$$this.count', 0] }] }] }
+        }
+    };
+    const legacyScoreCount = { $sum: { $ifNull: ['$stats.distributions.count', []] } };
+
+    const mergedDistributions = {
+        $cond: [
+            { $in: [score, { $ifNull: ['$stats.distributions.score', []] }] },
+            {
+                $map: {
+                    input: distributions,
+                    as: 'dist',
+                    in: {
+                        $cond: [
+                            { $eq: ['$$dist.score', score] },
+                            { $mergeObjects: ['$$dist', { count: { $add: ['$$dist.count', 1] } }] },
+                            '$$dist'
+                        ]
+                    }
+                }
+            },
+            { $concatArrays: [distributions, [{ _id: new mongoose.Types.ObjectId(), score, count: 1 }]] }
+        ]
+    };
+
+    return [
+        {
+            $set: {
+                'stats.completions': completions,
+                'stats.scoreSum': { $add: [{ $ifNull: ['$stats.scoreSum', legacyScoreSum] }, score] },
+                'stats.scoreCount': { $add: [{ $ifNull: ['$stats.scoreCount', legacyScoreCount] }, 1] },
+                'stats.distributions': mergedDistributions,
+                'stats.appliedSubmissionIds': appliedIds
+            }
+        },
+        // Second stage sees the values written by the first
+        { $set: { 'stats.averageScore': { $divide: ['$stats.scoreSum', '$stats.scoreCount'] } } }
+    ];
+}
+
+/**
+ * Atomically applies one completed game to a challenge's aggregate stats:
+ * completions, and for current challenges the score histogram, running sum
+ * and average. Idempotent per submissionId, so the update is retried on
+ * transient errors without double counting.
+ * @returns The updated challenge, or null if it doesn't exist (or is inactive when requireActive is set)
+ */
+export async function applySubmissionToChallengeStats(
+    challengeId: mongoose.Types.ObjectId | string,
+    submissionId: string,
+    score: number,
+    options: ApplySubmissionOptions
+): Promise<AppliedSubmission | null> {
+    const baseFilter: Record<string, any> = { _id: challengeId };
+    if (options.requireActive) {
+        baseFilter.active = true;
+    }
+    const pipeline = buildStatsUpdatePipeline(submissionId, score, options.includeInAggregates);
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const updated = await DailyChallenge.findOneAndUpdate(
+                { ...baseFilter, 'stats.appliedSubmissionIds': { $ne: submissionId } },
+                pipeline,
+                { new: true }
+            );
+            if (updated) {
+                return { challenge: updated, applied: true };
+            }
+
+            // Either the challenge is gone/inactive or an earlier attempt already applied this submission
+            const alreadyApplied = await DailyChallenge.findOne({ ...baseFilter, 'stats.appliedSubmissionIds': submissionId });
+            if (alreadyApplied) {
+                logger.info(`[Stats] Submission ${submissionId} was already applied to challenge ${challengeId}.`);
+                return { challenge: alreadyApplied, applied: false };
+            }
+            return null;
+        } catch (error) {
+            if (attempt >= STATS_UPDATE_ATTEMPTS) {
+                throw error;
+            }
+            logger.warn(`[Stats] Stats update attempt ${attempt} failed for submission ${submissionId} on challenge ${challengeId}. Retrying.`, error);
+        }
+    }
+}
+
+/**
+ * Applies a stored PlayerResult to its challenge's stats, keyed on the result's
+ * id, and clears its statsPending flag. Results whose stats were already applied
+ * are skipped, so a retried submission or session finish counts the completion
+ * exactly once even after its id has left the appliedSubmissionIds window.
+ * @returns The challenge, or null if it doesn't exist (or is inactive when requireActive is set)
+ */
+export async function applyPlayerResultToChallengeStats(
+    challengeId: mongoose.Types.ObjectId | string,
+    result: IPlayerResult,
+    options: { requireActive?: boolean } = {}
+): Promise<AppliedSubmission | null> {
+    if (!result.statsPending) {
+        const challenge = await DailyChallenge.findOne(options.requireActive ? { _id: challengeId, active: true } : { _id: challengeId });
+        return challenge ? { challenge, applied: false } : null;
+    }
+
+    const appliedSubmission = await applySubmissionToChallengeStats(challengeId, String(result._id), result.score, {
+        includeInAggregates: !!result.includedInAggregates,
+        requireActive: options.requireActive
+    });
+    if (appliedSubmission) {
+        await PlayerResult.updateOne({ _id: result._id }, { $unset: { statsPending: 1 } });
+    }
+    return appliedSubmission;
+}
+
+// Debounce windows for the derived stats jobs: submissions arriving within the
+// window coalesce into one pending job per challenge date
+const SCORE_DISTRIBUTION_JOB_DELAY_MS = 5 * 1000;
+const ROUND_GUESS_JOB_DELAY_MS = 60 * 1000;
+const EMERGENCY_COMPLETION_THRESHOLD = 250000;
+
+/**
+ * Enqueues the derived stats work for a current challenge after a submission
+ * has been applied: the processed KDE (eventually consistent), round guess
+ * processing and, past the completion threshold, emergency archival.
+ */
+export async function enqueueChallengeStatsJobs(challenge: DailyChallengeDoc, queryDateString: string): Promise<void> {
+    const payload = { challengeDateString: queryDateString, challengeId: String(challenge._id) };
+
+    await enqueueJob('processScoreDistribution', payload, { delayMs: SCORE_DISTRIBUTION_JOB_DELAY_MS });
+
+    if (challenge.roundStatsFinalized) {
+        return;
+    }
+    await enqueueJob('processRoundGuesses', payload, { delayMs: ROUND_GUESS_JOB_DELAY_MS });
+
+    if (challenge.stats.completions >= EMERGENCY_COMPLETION_THRESHOLD) {
+        logger.warn(`[Stats] EMERGENCY: Challenge ${queryDateString} (ID: ${payload.challengeId}) reached ${challenge.stats.completions} completions. Enqueuing immediate archival and finalization.`);
+        await enqueueJob('emergencyArchive', payload);
+    }
+}
+
+/**
+ * Rebuilds a challenge's processed score distribution from its current histogram.
+ */
+export async function recomputeProcessedDistribution(challengeId: string): Promise<void> {
+    const latestChallenge = await DailyChallenge.findById(challengeId).select('stats.distributions stats.completions');
+    if (!latestChallenge) {
+        logger.warn(`[Stats] Challenge ${challengeId} not found. Skipping processed distribution recalculation.`);
+        return;
+    }
+
+    const latestCompletions = latestChallenge.stats.completions;
+    const newlyProcessedData = processDistributionData(
+        latestChallenge.stats.distributions,
+        latestCompletions,
+        undefined // No specific user score needed for global recalc
+    );
+    // Never replace a KDE built from newer data with one built from older data
+    await DailyChallenge.updateOne(
+        {
+            _id: challengeId,
+            $or: [
+                { 'stats.processedDistribution.totalParticipants': { $exists: false } },
+                { 'stats.processedDistribution.totalParticipants': { $lte: latestCompletions } }
+            ]
+        },
+        { $set: { 'stats.processedDistribution': newlyProcessedData } }
+    );
+    logger.info(`[Stats] Saved updated processedDistribution (${latestCompletions} completions) for challenge ${challengeId}.`);
+}
+
+export const challengeStatsJobHandlers: JobHandlers = {
+    processScoreDistribution: payload => recomputeProcessedDistribution(payload.challengeId),
+    processRoundGuesses: payload => processAndStoreRoundGuessDistributions(payload.challengeDateString),
+    emergencyArchive: payload => archiveSpecificDayEmergency(payload.challengeDateString, payload.challengeId)
+};
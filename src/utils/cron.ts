@@ -0,0 +1,149 @@
+// src/utils/cron.ts
+import { formatInTimeZone } from 'date-fns-tz';
+
+/**
+ * Parsed standard 5-field cron expression: minute hour day-of-month month day-of-week.
+ * Supports `*`, single values, ranges (`1-5`), steps (`*\/15`, `0-30/10`) and lists (`1,15`).
+ * Day of week is 0-6 with Sunday as 0 (7 is also accepted for Sunday).
+ */
+export interface CronSchedule {
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    // Per cron convention, when both day fields are restricted a day matches if EITHER does.
+    // As in Vixie cron, a field is unrestricted when it starts with "*", so "*\/2" isn't restricted
+    dayOfMonthRestricted: boolean;
+    dayOfWeekRestricted: boolean;
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 7 }
+];
+
+// Upper bound on how far getNextCronRun searches (covers e.g. "0 0 29 2 *")
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        if (!/^(\*|\d+(-\d+)?)(\/\d+)?$/.test(part)) {
+            throw new Error(`Invalid ${name} value "${part}"`);
+        }
+        const [rangePart, stepPart] = part.split('/');
+        const step = stepPart === undefined ? 1 : Number(stepPart);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid step "${stepPart}" in ${name} field`);
+        }
+
+        let start: number;
+        let end: number;
+        if (rangePart === '*') {
+            start = min;
+            end = max;
+        } else if (rangePart.includes('-')) {
+            const [from, to] = rangePart.split('-');
+            start = Number(from);
+            end = Number(to);
+        } else {
+            start = Number(rangePart);
+            // "5/10" means every 10 starting at 5
+            end = stepPart === undefined ? start : max;
+        }
+
+        if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+            throw new Error(`Invalid ${name} value "${part}" (allowed ${min}-${max})`);
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Parses a 5-field cron expression.
+ * @throws Error describing the first invalid field
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Cron expression "${expression}" must have 5 fields (minute hour day-of-month month day-of-week)`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+        parseField(field, FIELD_RANGES[i].min, FIELD_RANGES[i].max, FIELD_RANGES[i].name)
+    );
+    if (daysOfWeek.has(7)) {
+        daysOfWeek.delete(7);
+        daysOfWeek.add(0);
+    }
+
+    return {
+        expression: expression.trim(),
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        dayOfMonthRestricted: !fields[2].startsWith('*'),
+        dayOfWeekRestricted: !fields[4].startsWith('*')
+    };
+}
+
+// Wall-clock fields of an instant in a timezone
+function getZonedFields(date: Date, timezone: string) {
+    const [minute, hour, dayOfMonth, month, isoDayOfWeek] = formatInTimeZone(date, timezone, 'm H d M i').split(' ').map(Number);
+    return { minute, hour, dayOfMonth, month, dayOfWeek: isoDayOfWeek % 7 };
+}
+
+function matchesDay(schedule: CronSchedule, fields: ReturnType<typeof getZonedFields>): boolean {
+    if (!schedule.months.has(fields.month)) return false;
+    const domMatch = schedule.daysOfMonth.has(fields.dayOfMonth);
+    const dowMatch = schedule.daysOfWeek.has(fields.dayOfWeek);
+    if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+        return domMatch || dowMatch;
+    }
+    return domMatch && dowMatch;
+}
+
+/**
+ * Whether the schedule fires in the wall-clock minute containing `date` in `timezone`.
+ */
+export function cronMatches(schedule: CronSchedule, date: Date, timezone: string): boolean {
+    const fields = getZonedFields(date, timezone);
+    return matchesDay(schedule, fields) && schedule.hours.has(fields.hour) && schedule.minutes.has(fields.minute);
+}
+
+/**
+ * The first minute strictly after `after` at which the schedule fires, or null
+ * if it never fires within the search window.
+ */
+export function getNextCronRun(schedule: CronSchedule, after: Date, timezone: string): Date | null {
+    const candidate = new Date(after.getTime());
+    candidate.setUTCSeconds(0, 0);
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+    const deadline = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+    while (candidate.getTime() <= deadline) {
+        const fields = getZonedFields(candidate, timezone);
+        if (!matchesDay(schedule, fields) || !schedule.hours.has(fields.hour)) {
+            // Jump to the next wall-clock hour; stepping by hours stays correct across DST changes
+            candidate.setUTCMinutes(candidate.getUTCMinutes() + (60 - fields.minute));
+            continue;
+        }
+        if (schedule.minutes.has(fields.minute)) {
+            return candidate;
+        }
+        candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+    }
+    return null;
+}
@@ -10,7 +10,7 @@ interface KdePoint {
   density: number;
 }
 
-interface RoundGuessDistributionItem {
+export interface RoundGuessDistributionItem {
   roundIndex: number;
   curvePoints: Array<{
     guessedYear: number;
@@ -23,23 +23,26 @@ interface RoundGuessDistributionItem {
 }
 
 function generateYearKdeCurve(
-  allGuessedYearsInRound: number[], // Array of ALL individual year guesses for the round
+  guessCountsByYear: Map<number, number>, // How many times each year was guessed in the round
   domainMin: number,
   domainMax: number,
   bandwidth: number, // Controls smoothness (e.g., 3, 5, or 7 years)
   step: number      // Determines how many points on the curve (e.g., 1 for yearly points)
 ): KdePoint[] {
   const kdePointsRaw: KdePoint[] = [];
+  let totalGuesses = 0;
+  guessCountsByYear.forEach(count => { totalGuesses += count; });
 
   for (let currentYearToEvaluate = domainMin; currentYearToEvaluate <= domainMax; currentYearToEvaluate += step) {
     let densityValue = 0;
-    if (allGuessedYearsInRound.length > 0 && bandwidth > 0) { // Ensure valid inputs for kernel calculation
-      for (const guessedYear of allGuessedYearsInRound) {
+    if (totalGuesses > 0 && bandwidth > 0) { // Ensure valid inputs for kernel calculation
+      // Each distinct year is evaluated once and weighted by its count
+      guessCountsByYear.forEach((count, guessedYear) => {
         const u = (currentYearToEvaluate - guessedYear) / bandwidth;
         const kernelValue = (1 / Math.sqrt(2 * Math.PI)) * Math.exp(-0.5 * u * u);
-        densityValue += kernelValue;
-      }
-      densityValue /= (allGuessedYearsInRound.length * bandwidth); // Normalize for area
+        densityValue += count * kernelValue;
+      });
+      densityValue /= (totalGuesses * bandwidth); // Normalize for area
     }
     kdePointsRaw.push({ guessedYear: currentYearToEvaluate, density: densityValue });
   }
@@ -56,6 +59,76 @@ function generateYearKdeCurve(
   return kdePointsRaw; // Return as is if all densities are 0
 }
 
+export interface RoundGuessKdeOptions {
+  bandwidthYears: number; // Larger is smoother (e.g., 3, 5, 7, 10)
+  stepYears: number;      // Spacing between curve points
+  minYear: number;
+  maxYear: number;
+  roundCount: number;
+}
+
+// A function rather than a constant so maxYear follows the current year in long-running processes
+export function getDefaultRoundGuessKdeOptions(): RoundGuessKdeOptions {
+  return {
+    bandwidthYears: 1,
+    stepYears: 1,
+    minYear: 1850,
+    maxYear: new Date().getFullYear(),
+    roundCount: 5
+  };
+}
+
+/**
+ * Builds per-round guess distributions (KDE curve and summary stats) from raw guesses.
+ * Pure: the same guesses and options always produce the same result, whether the
+ * guesses come from RoundGuess or from the S3 archive.
+ * Rounds without guesses are omitted.
+ */
+export function buildRoundGuessDistributions(
+  guesses: Array<{ roundIndex: number; guessedYear: number }>,
+  options: Partial<RoundGuessKdeOptions> = {}
+): RoundGuessDistributionItem[] {
+  const { bandwidthYears, stepYears, minYear, maxYear, roundCount } = { ...getDefaultRoundGuessKdeOptions(), ...options };
+  const processedRoundDistributions: RoundGuessDistributionItem[] = [];
+
+  for (let roundIdx = 0; roundIdx < roundCount; roundIdx++) {
+    const guessCountsByYear = new Map<number, number>();
+    let totalGuessesInRound = 0;
+    for (const guess of guesses) {
+      if (guess.roundIndex !== roundIdx) continue;
+      guessCountsByYear.set(guess.guessedYear, (guessCountsByYear.get(guess.guessedYear) || 0) + 1);
+      totalGuessesInRound++;
+    }
+    if (totalGuessesInRound === 0) continue;
+
+    // Summary stats from the sorted distinct years, weighted by count
+    const sortedYears = Array.from(guessCountsByYear.keys()).sort((a, b) => a - b);
+    const yearAtPosition = (position: number): number => {
+      let cumulative = 0;
+      for (const year of sortedYears) {
+        cumulative += guessCountsByYear.get(year)!;
+        if (position < cumulative) return year;
+      }
+      return sortedYears[sortedYears.length - 1];
+    };
+    const mid = Math.floor(totalGuessesInRound / 2);
+    const medianGuessedYear = totalGuessesInRound % 2 === 0
+      ? Math.round((yearAtPosition(mid - 1) + yearAtPosition(mid)) / 2)
+      : yearAtPosition(mid);
+
+    processedRoundDistributions.push({
+      roundIndex: roundIdx,
+      curvePoints: generateYearKdeCurve(guessCountsByYear, minYear, maxYear, bandwidthYears, stepYears),
+      totalGuesses: totalGuessesInRound,
+      minGuess: sortedYears[0],
+      maxGuess: sortedYears[sortedYears.length - 1],
+      medianGuess: medianGuessedYear,
+    });
+  }
+
+  return processedRoundDistributions;
+}
+
 export async function processAndStoreRoundGuessDistributions(challengeDateString: string): Promise<void> {
   logger.info(`[ProcessRoundGuesses] Starting processing for date: ${challengeDateString}`);
 
@@ -77,61 +150,9 @@ export async function processAndStoreRoundGuessDistributions(challengeDateString
     }
     logger.info(`[ProcessRoundGuesses] Found ${guesses.length} total round guesses for date: ${challengeDateString}.`);
 
-    const processedRoundDistributions: RoundGuessDistributionItem[] = [];
-
-    for (let roundIdx = 0; roundIdx < 5; roundIdx++) {
-      const roundGuesses = guesses.filter(g => g.roundIndex === roundIdx);
-
-      if (roundGuesses.length === 0) {
-        logger.info(`[ProcessRoundGuesses] No guesses for round ${roundIdx} on date ${challengeDateString}. Skipping.`);
-        continue;
-      }
-
-      const totalGuessesInRound = roundGuesses.length;
-      const frequencyMap: { [year: number]: number } = {};
-      const guessedYearsInRound: number[] = [];
-
-      roundGuesses.forEach(guess => {
-        frequencyMap[guess.guessedYear] = (frequencyMap[guess.guessedYear] || 0) + 1;
-        guessedYearsInRound.push(guess.guessedYear);
-      });
-
-      guessedYearsInRound.sort((a, b) => a - b);
-
-      const minGuessedYear = guessedYearsInRound[0];
-      const maxGuessedYear = guessedYearsInRound[guessedYearsInRound.length - 1];
-      
-      let medianGuessedYear: number;
-      const mid = Math.floor(guessedYearsInRound.length / 2);
-      if (guessedYearsInRound.length % 2 === 0) {
-        medianGuessedYear = Math.round((guessedYearsInRound[mid - 1] + guessedYearsInRound[mid]) / 2);
-      } else {
-        medianGuessedYear = guessedYearsInRound[mid];
-      }
-
-      // Define KDE parameters
-      const MIN_YEAR_DOMAIN = 1850;
-      const MAX_YEAR_DOMAIN = new Date().getFullYear(); // e.g., 2025
-      const KDE_BANDWIDTH_YEARS = 1; // << ADJUST THIS FOR SMOOTHNESS (e.g., 3, 5, 7, 10)
-      const KDE_STEP_YEARS = 1;      // << ADJUST THIS FOR FEWER/MORE POINTS (e.g., 1, 2, 3)
-
-      const curvePoints = generateYearKdeCurve(
-          guessedYearsInRound,       // Pass the array of all individual guesses
-          MIN_YEAR_DOMAIN,
-          MAX_YEAR_DOMAIN,
-          KDE_BANDWIDTH_YEARS,
-          KDE_STEP_YEARS
-      );
-
-      processedRoundDistributions.push({
-        roundIndex: roundIdx,
-        curvePoints,
-        totalGuesses: totalGuessesInRound,
-        minGuess: minGuessedYear,
-        maxGuess: maxGuessedYear,
-        medianGuess: medianGuessedYear,
-      });
-      logger.info(`[ProcessRoundGuesses] Processed round ${roundIdx} for ${challengeDateString}: ${totalGuessesInRound} guesses.`);
+    const processedRoundDistributions = buildRoundGuessDistributions(guesses);
+    for (const item of processedRoundDistributions) {
+      logger.info(`[ProcessRoundGuesses] Processed round ${item.roundIndex} for ${challengeDateString}: ${item.totalGuesses} guesses.`);
     }
 
     if (processedRoundDistributions.length === 0) {
@@ -172,6 +193,7 @@ export async function processAndStoreRoundGuessDistributions(challengeDateString
 
   } catch (error) {
     logger.error(`[ProcessRoundGuesses] Error processing round guess distributions for date ${challengeDateString}:`, error);
-    // Optionally, re-throw or handle more gracefully
+    // Re-throw so callers (job queue retries, archive scripts) can see the failure
+    throw error;
   }
 } 
\ No newline at end of file
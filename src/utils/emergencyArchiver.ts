@@ -3,11 +3,9 @@ import mongoose from 'mongoose';
 import DailyChallenge from '../models/DailyChallenge'; // Adjust path if your models are elsewhere
 import RoundGuess from '../models/RoundGuess';     // Adjust path
 import { processAndStoreRoundGuessDistributions } from './distributionProcessor'; // Adjust path
-import s3Client from './awsConfig';               // Adjust path
-import { PutObjectCommand } from '@aws-sdk/client-s3';
+import { getArchiveStorage, isArchiveStorageConfigured, describeArchiveStorage } from './storage';
 import logger from './logger';                    // Adjust path
 
-const ARCHIVE_S3_BUCKET_NAME_FROM_ENV = process.env.ARCHIVE_S3_BUCKET_NAME;
 const ARCHIVE_S3_PREFIX = String(process.env.ARCHIVE_S3_PREFIX || 'round-guesses-archive/').replace(/\/$/, '');
 
 export async function archiveSpecificDayEmergency(challengeDateString: string, challengeId: string): Promise<void> {
@@ -20,7 +18,7 @@ export async function archiveSpecificDayEmergency(challengeDateString: string, c
         throw new Error("MongoDB not connected for emergency archiver");
     }
 
-    const canAttemptS3Archive = ARCHIVE_S3_BUCKET_NAME_FROM_ENV && process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY && process.env.AWS_REGION;
+    const canAttemptS3Archive = isArchiveStorageConfigured();
 
     // Fetch the specific challenge to ensure it's still not finalized,
     // in case multiple requests triggered this almost simultaneously.
@@ -43,7 +41,8 @@ export async function archiveSpecificDayEmergency(challengeDateString: string, c
 
         // 2. Fetch all RoundGuess documents for this date
         const challengeUtcDate = new Date(`${challengeDateString}T00:00:00.000Z`);
-        const allRoundGuessesForDate = await RoundGuess.find({ challengeDate: challengeUtcDate });
+        // Rows restored from the archive are already in S3; only the deletion below removes them
+        const allRoundGuessesForDate = await RoundGuess.find({ challengeDate: challengeUtcDate, restoredFromArchive: { $ne: true } });
 
         if (allRoundGuessesForDate.length === 0) {
             logger.info(`[EmergencyArchiver] No RoundGuess documents found for ${challengeDateString} to archive, despite high completion count. This is unexpected. Marking as finalized.`);
@@ -54,19 +53,14 @@ export async function archiveSpecificDayEmergency(challengeDateString: string, c
         }
         logger.info(`[EmergencyArchiver] Found ${allRoundGuessesForDate.length} RoundGuess documents for ${challengeDateString}.`);
 
-        // 3. Archive to S3
+        // 3. Archive to S3 (or local disk with STORAGE_DRIVER=local)
         let s3UploadSuccessful = false;
         if (canAttemptS3Archive) {
             const emergencyArchiveFileKey = `${ARCHIVE_S3_PREFIX}/${challengeDateString}/${challengeDateString}-EMERGENCY-initial.jsonl`;
-            logger.info(`[EmergencyArchiver] Attempting to archive ${allRoundGuessesForDate.length} documents to S3: '${ARCHIVE_S3_BUCKET_NAME_FROM_ENV}/${emergencyArchiveFileKey}'.`);
+            logger.info(`[EmergencyArchiver] Attempting to archive ${allRoundGuessesForDate.length} documents to ${describeArchiveStorage()}: '${emergencyArchiveFileKey}'.`);
             try {
                 const body = allRoundGuessesForDate.map(doc => JSON.stringify(doc.toObject())).join('\n');
-                await s3Client.send(new PutObjectCommand({
-                    Bucket: ARCHIVE_S3_BUCKET_NAME_FROM_ENV!,
-                    Key: emergencyArchiveFileKey,
-                    Body: body,
-                    ContentType: 'application/jsonl'
-                }));
+                await getArchiveStorage().put(emergencyArchiveFileKey, body, 'application/jsonl');
                 logger.info(`[EmergencyArchiver] Successfully archived ${allRoundGuessesForDate.length} documents for ${challengeDateString} to S3 as '${emergencyArchiveFileKey}'.`);
                 s3UploadSuccessful = true;
             } catch (s3Error: any) {
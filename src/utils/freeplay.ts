@@ -0,0 +1,200 @@
+// src/utils/freeplay.ts
+// Endless freeplay runs: random Commons photos with no repeats within a run,
+// scored like daily challenge rounds, until the player runs out of lives.
+import FreeplaySession, { IFreeplaySession, FreeplayGuess, FreeplayImage } from '../models/FreeplaySession';
+import FreeplayScore, { IFreeplayScore } from '../models/FreeplayScore';
+import PlayerProfile from '../models/PlayerProfile';
+import logger from './logger';
+import { calculateRoundScore, getGuessDirection, CLOSE_GUESS_YEARS } from './scoring';
+import { DECADE_RANGES, DecadeRange, MIN_YEAR, CURRENT_YEAR, fileCategories, findRandomImage, scanCategoryForUnseenImage, getDecadeKey, getRandomDecadeRange } from './randomImages';
+
+export const FREEPLAY_STARTING_LIVES = 3;
+
+// A guess more than this many years off costs a life
+export const FREEPLAY_MISS_YEARS = 15;
+
+// Runs end here so a session document can't grow without bound
+export const FREEPLAY_MAX_ROUNDS = 200;
+
+// Sort order used everywhere the freeplay board is ranked
+export const FREEPLAY_LEADERBOARD_SORT = { score: -1, roundsPlayed: 1, submittedAt: 1 } as const;
+
+// "Street photography" and "Category:Street_photography" both become "Category:Street_photography"
+export function toCategoryTitle(category: string): string {
+  const name = category.trim().replace(/^Category:/i, '').replace(/\s+/g, '_');
+  return `Category:${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+}
+
+/**
+ * Validates the optional decade and category a run is limited to.
+ * @returns An error message, or null if the mode is usable
+ */
+export function validateFreeplayMode(decade: unknown, category: unknown): string | null {
+  if (decade !== undefined && decade !== null && !DECADE_RANGES.some(range => getDecadeKey(range) === decade)) {
+    return `decade must be one of: ${DECADE_RANGES.map(getDecadeKey).join(', ')}`;
+  }
+  if (category !== undefined && category !== null
+    && (typeof category !== 'string' || !fileCategories.includes(toCategoryTitle(category)))) {
+    return `category must be one of: ${fileCategories.join(', ')}`;
+  }
+  return null;
+}
+
+function getDecadeRange(decadeKey: string): DecadeRange | undefined {
+  return DECADE_RANGES.find(range => getDecadeKey(range) === decadeKey);
+}
+
+// Runs without a decade draw from a weighted random one each round, like GET /api/images/;
+// category runs without a decade take any year. exhausted is only set for category runs
+// whose whole category has been listed without finding an unseen photo
+async function drawImage(session: IFreeplaySession): Promise<{ image: FreeplayImage | null; exhausted: boolean }> {
+  const decadeRange = (session.decade && getDecadeRange(session.decade))
+    || (session.category ? { start: MIN_YEAR, end: CURRENT_YEAR } : getRandomDecadeRange());
+
+  // A miss costs a life, so only years read from a date field with some confidence are played
+  let image = await findRandomImage(decadeRange, {
+    category: session.category || undefined,
+    exclude: session.servedFilenames,
+    reliableYearOnly: true
+  });
+  let exhausted = false;
+
+  // Random listings of a small category can turn up only seen files; list all of it before giving up
+  if (!image && session.category) {
+    try {
+      const scan = await scanCategoryForUnseenImage(session.category, decadeRange, session.servedFilenames, true);
+      image = scan.image;
+      exhausted = scan.exhausted;
+    } catch (error) {
+      logger.error(`[Freeplay] Failed to scan ${session.category} for session ${session._id}:`, error);
+    }
+  }
+  if (!image) return { image: null, exhausted };
+
+  return {
+    exhausted: false,
+    image: {
+      filename: image.filename || image.title,
+      title: image.title,
+      url: image.url,
+      source: image.source,
+      description: image.description || '',
+      year: image.year,
+      yearConfidence: image.yearConfidence,
+      attribution: image.attribution,
+      servedAt: new Date()
+    }
+  };
+}
+
+/**
+ * Draws the next image for an active run that has none.
+ * @returns The session with its current image; finished with endReason 'exhausted'
+ * if its category has nothing unseen left; otherwise unchanged if no new image
+ * could be found (the caller may try again later)
+ */
+export async function ensureCurrentImage(session: IFreeplaySession): Promise<IFreeplaySession> {
+  if (session.status !== 'active' || session.currentImage) return session;
+
+  const { image, exhausted } = await drawImage(session);
+  if (exhausted) {
+    const finished = await FreeplaySession.findOneAndUpdate(
+      { _id: session._id, status: 'active', currentImage: null, guesses: { $size: session.guesses.length } },
+      { $set: { status: 'finished', endReason: 'exhausted', finishedAt: new Date() } },
+      { new: true }
+    );
+    logger.info(`[Freeplay] Session ${session._id} ran out of unseen images in ${session.category} after ${session.guesses.length} round(s).`);
+    return finished || (await FreeplaySession.findById(session._id)) || session;
+  }
+  if (!image) {
+    logger.warn(`[Freeplay] No unseen image found for session ${session._id} (decade: ${session.decade || 'any'}, category: ${session.category || 'any'}).`);
+    return session;
+  }
+
+  // Conditional on the round so a concurrent draw for the same round can't replace the image
+  const updated = await FreeplaySession.findOneAndUpdate(
+    { _id: session._id, status: 'active', currentImage: null, guesses: { $size: session.guesses.length } },
+    { $set: { currentImage: image }, $push: { servedFilenames: image.filename } },
+    { new: true }
+  );
+  return updated || (await FreeplaySession.findById(session._id)) || session;
+}
+
+/**
+ * Scores a guess against the image being played.
+ */
+export function scoreFreeplayGuess(image: FreeplayImage, guessedYear: number, roundIndex: number): FreeplayGuess {
+  const yearsOff = Math.abs(guessedYear - image.year);
+  return {
+    roundIndex,
+    filename: image.filename,
+    guessedYear,
+    actualYear: image.year,
+    yearsOff,
+    points: calculateRoundScore(guessedYear, image.year),
+    correct: yearsOff <= CLOSE_GUESS_YEARS,
+    lifeLost: yearsOff > FREEPLAY_MISS_YEARS,
+    direction: getGuessDirection(guessedYear, image.year),
+    guessedAt: new Date()
+  };
+}
+
+/**
+ * Puts a finished run on the freeplay board if it beats the player's best for its mode.
+ * Failures are logged, not thrown: the run itself has already been recorded.
+ * @returns Whether the run is the player's new best, or null if it couldn't be recorded
+ */
+export async function recordFreeplayScore(session: IFreeplaySession): Promise<boolean | null> {
+  if (!session.playerId) return null;
+
+  const filter = { playerId: session.playerId, decade: session.decade, category: session.category };
+  const run = {
+    sessionId: String(session._id),
+    score: session.score,
+    roundsPlayed: session.guesses.length,
+    totalYearsOff: session.guesses.reduce((sum, g) => sum + g.yearsOff, 0),
+    submittedAt: session.finishedAt || new Date()
+  };
+
+  try {
+    const profile = await PlayerProfile.findOne({ playerId: session.playerId }).select('displayName').lean();
+    // One conditional upsert: replaces the best only if this run beats it (higher score, or the
+    // same score in fewer rounds), inserts if there is none, and otherwise hits the unique index
+    await FreeplayScore.updateOne(
+      {
+        ...filter,
+        $or: [
+          { score: { $lt: run.score } },
+          { score: run.score, roundsPlayed: { $gt: run.roundsPlayed } }
+        ]
+      },
+      { $set: { ...run, displayName: profile?.displayName ?? null } },
+      { upsert: true }
+    );
+    return true;
+  } catch (error: any) {
+    // The player's existing best is at least as good as this run
+    if (error?.code === 11000) {
+      return false;
+    }
+    logger.error(`[Freeplay] Failed to record score for player ${session.playerId} (session ${session._id}): ${error.message}`, error);
+    return null;
+  }
+}
+
+/**
+ * 1-based rank of an entry on its mode's board: one more than the number of
+ * entries ahead of it by score, then fewest rounds, then earliest submission.
+ */
+export async function getFreeplayRank(entry: Pick<IFreeplayScore, 'decade' | 'category' | 'score' | 'roundsPlayed' | 'submittedAt'>): Promise<number> {
+  const ahead = await FreeplayScore.countDocuments({
+    decade: entry.decade,
+    category: entry.category,
+    $or: [
+      { score: { $gt: entry.score } },
+      { score: entry.score, roundsPlayed: { $lt: entry.roundsPlayed } },
+      { score: entry.score, roundsPlayed: entry.roundsPlayed, submittedAt: { $lt: entry.submittedAt } }
+    ]
+  });
+  return ahead + 1;
+}
@@ -0,0 +1,87 @@
+// src/utils/imageAttribution.ts
+import { ImageAttribution, WikimediaImage } from '../types/wikimedia';
+
+// License families challenge images may use. Override with a comma-separated
+// ALLOWED_IMAGE_LICENSES, e.g. "pd,cc0,cc-by,cc-by-sa"
+export const ALLOWED_LICENSE_FAMILIES = (process.env.ALLOWED_IMAGE_LICENSES || 'pd,cc0,cc-by,cc-by-sa')
+    .split(',')
+    .map(family => family.trim().toLowerCase())
+    .filter(family => family.length > 0);
+
+const COMMONS_SOURCE = 'Wikimedia Commons';
+
+function stripHtml(value: unknown): string {
+    return String(value ?? '')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;|&#160;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&quot;/g, '"')
+        .replace(/&#039;|&#39;/g, "'")
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Reads Artist, Credit, LicenseShortName, LicenseUrl and AttributionRequired
+ * from a Commons imageinfo extmetadata object.
+ */
+export function extractAttribution(metadata: Record<string, { value?: unknown } | undefined> | undefined): ImageAttribution {
+    const field = (name: string) => stripHtml(metadata?.[name]?.value) || undefined;
+    const attributionRequired = field('AttributionRequired');
+
+    return {
+        artist: field('Artist'),
+        credit: field('Credit'),
+        licenseShortName: field('LicenseShortName'),
+        licenseUrl: field('LicenseUrl'),
+        attributionRequired: attributionRequired === undefined ? undefined : attributionRequired.toLowerCase() === 'true'
+    };
+}
+
+/**
+ * Groups a Commons license short name into a family, ignoring version and port:
+ * "CC BY-SA 4.0" -> "cc-by-sa", "PD-US" and "Public domain" -> "pd".
+ * Unrecognised licenses come back normalised (e.g. "gfdl").
+ */
+export function getLicenseFamily(licenseShortName: string): string {
+    const normalized = licenseShortName.trim().toLowerCase().replace(/[\s_]+/g, '-');
+
+    if (/^(pd\b|public-domain|no-restrictions)/.test(normalized)) return 'pd';
+    if (/^(cc0|cc-zero)/.test(normalized)) return 'cc0';
+    const creativeCommons = normalized.match(/^cc-by((?:-(?:nc|nd|sa))*)/);
+    if (creativeCommons) return `cc-by${creativeCommons[1]}`;
+    return normalized;
+}
+
+/**
+ * Checks an image's license against ALLOWED_LICENSE_FAMILIES.
+ * @returns An error message, or null if the license is allowed
+ */
+export function validateImageLicense(attribution: ImageAttribution | undefined): string | null {
+    if (!attribution?.licenseShortName) {
+        return 'No license recorded';
+    }
+    const family = getLicenseFamily(attribution.licenseShortName);
+    if (!ALLOWED_LICENSE_FAMILIES.includes(family)) {
+        return `License "${attribution.licenseShortName}" is not allowed (allowed: ${ALLOWED_LICENSE_FAMILIES.join(', ')})`;
+    }
+    return null;
+}
+
+/**
+ * Compliance problems with a challenge image's attribution. Only Commons
+ * images are checked; uploads carry no license metadata.
+ */
+export function getAttributionIssues(image: Pick<WikimediaImage, 'source' | 'attribution'>): string[] {
+    if (image.source !== COMMONS_SOURCE) return [];
+
+    const issues: string[] = [];
+    const licenseError = validateImageLicense(image.attribution);
+    if (licenseError) {
+        issues.push(licenseError);
+    }
+    if (image.attribution?.attributionRequired !== false && !image.attribution?.artist && !image.attribution?.credit) {
+        issues.push('Attribution is required but no artist or credit is recorded');
+    }
+    return issues;
+}
@@ -0,0 +1,249 @@
+// src/utils/imageCache.ts
+// Stock of random Commons photos for GET /api/images/, in buckets keyed by
+// decade range ("1920-1939"). The Mongo driver is shared by every instance
+// and survives deploys; the memory driver keeps the old in-process behaviour.
+import ImageCacheEntry, { IImageCacheEntry, IMAGE_CACHE_TTL_SECONDS } from '../models/ImageCacheEntry';
+import { ImageAttribution } from '../types/wikimedia';
+import { YearConfidence, YearRange, YearSource, hasReliableYear, UNRELIABLE_YEAR_SOURCES, RELIABLE_YEAR_CONFIDENCES } from './yearExtraction';
+
+export interface CachedImage {
+  title: string;
+  url: string;
+  source: string;
+  year: number;
+  cachedAt: number;
+  category?: string;
+  description?: string;
+  filename?: string;
+  yearConfidence?: YearConfidence;
+  yearSource?: YearSource;
+  yearRange?: YearRange;
+  attribution?: ImageAttribution;
+}
+
+export type ImageCacheDriver = 'mongo' | 'memory';
+
+// Images kept per bucket; the oldest are dropped beyond this
+export const MAX_IMAGES_PER_DECADE = parseInt(process.env.IMAGE_CACHE_MAX_PER_DECADE || '50', 10);
+
+const IMAGE_CACHE_TTL_MS = IMAGE_CACHE_TTL_SECONDS * 1000;
+
+export interface ImageCache {
+  readonly driver: ImageCacheDriver;
+  // A random image from the bucket other than the excluded filenames (and, with
+  // reliableYearOnly, only one whose year passes hasReliableYear), or null if the
+  // bucket holds fewer than minStock images
+  sample(decadeKey: string, minStock?: number, exclude?: string[], reliableYearOnly?: boolean): Promise<CachedImage | null>;
+  // Adds images to a bucket, refreshing any already in it
+  add(decadeKey: string, images: CachedImage[]): Promise<void>;
+  // Number of unexpired images in each non-empty bucket
+  counts(): Promise<Record<string, number>>;
+  // Empties one bucket, or all of them; resolves with the number of images removed
+  clear(decadeKey?: string): Promise<number>;
+}
+
+function toCachedImage(entry: IImageCacheEntry): CachedImage {
+  return {
+    title: entry.title,
+    url: entry.url,
+    source: entry.source,
+    year: entry.year,
+    cachedAt: new Date(entry.cachedAt).getTime(),
+    category: entry.category,
+    description: entry.description,
+    filename: entry.filename,
+    yearConfidence: entry.yearConfidence,
+    yearSource: entry.yearSource,
+    yearRange: entry.yearRange,
+    attribution: entry.attribution
+  };
+}
+
+class MongoImageCache implements ImageCache {
+  readonly driver = 'mongo' as const;
+
+  // The TTL monitor runs about once a minute, so expired entries are filtered out explicitly too
+  private freshFilter(decadeKey?: string): Record<string, any> {
+    const filter: Record<string, any> = { cachedAt: { $gt: new Date(Date.now() - IMAGE_CACHE_TTL_MS) } };
+    if (decadeKey) filter.decadeKey = decadeKey;
+    return filter;
+  }
+
+  async sample(decadeKey: string, minStock = 1, exclude: string[] = [], reliableYearOnly = false): Promise<CachedImage | null> {
+    const stock = await ImageCacheEntry.countDocuments(this.freshFilter(decadeKey));
+    if (stock < minStock || stock === 0) return null;
+
+    const [entry] = await ImageCacheEntry.aggregate<IImageCacheEntry>([
+      {
+        $match: {
+          ...this.freshFilter(decadeKey),
+          ...(exclude.length > 0 ? { filename: { $nin: exclude } } : {}),
+          ...(reliableYearOnly
+            ? { yearConfidence: { $in: RELIABLE_YEAR_CONFIDENCES }, yearSource: { $nin: UNRELIABLE_YEAR_SOURCES } }
+            : {})
+        }
+      },
+      { $sample: { size: 1 } }
+    ]);
+    return entry ? toCachedImage(entry) : null;
+  }
+
+  async add(decadeKey: string, images: CachedImage[]): Promise<void> {
+    const now = new Date();
+    const entries = images.filter(image => image.filename || image.title);
+    if (entries.length === 0) return;
+
+    await ImageCacheEntry.bulkWrite(entries.map(image => ({
+      updateOne: {
+        filter: { decadeKey, filename: image.filename || image.title },
+        update: {
+          $set: {
+            title: image.title,
+            url: image.url,
+            source: image.source,
+            year: image.year,
+            yearConfidence: image.yearConfidence,
+            yearSource: image.yearSource,
+            yearRange: image.yearRange,
+            category: image.category,
+            description: image.description || '',
+            attribution: image.attribution,
+            cachedAt: now
+          }
+        },
+        upsert: true
+      }
+    })), { ordered: false });
+
+    const overflow = await ImageCacheEntry.find({ decadeKey })
+      .sort({ cachedAt: -1 })
+      .skip(MAX_IMAGES_PER_DECADE)
+      .select('_id')
+      .lean();
+    if (overflow.length > 0) {
+      await ImageCacheEntry.deleteMany({ _id: { $in: overflow.map(entry => entry._id) } });
+    }
+  }
+
+  async counts(): Promise<Record<string, number>> {
+    const groups = await ImageCacheEntry.aggregate<{ _id: string; count: number }>([
+      { $match: this.freshFilter() },
+      { $group: { _id: '$decadeKey', count: { $sum: 1 } } }
+    ]);
+    return Object.fromEntries(groups.map(group => [group._id, group.count]));
+  }
+
+  async clear(decadeKey?: string): Promise<number> {
+    const result = await ImageCacheEntry.deleteMany(decadeKey ? { decadeKey } : {});
+    return result.deletedCount;
+  }
+}
+
+/**
+ * Per-process cache, for tests and single-instance development.
+ */
+export class MemoryImageCache implements ImageCache {
+  readonly driver = 'memory' as const;
+  private buckets = new Map<string, CachedImage[]>();
+
+  private fresh(decadeKey: string): CachedImage[] {
+    const now = Date.now();
+    const images = (this.buckets.get(decadeKey) || []).filter(image => now - image.cachedAt < IMAGE_CACHE_TTL_MS);
+    this.buckets.set(decadeKey, images);
+    return images;
+  }
+
+  async sample(decadeKey: string, minStock = 1, exclude: string[] = [], reliableYearOnly = false): Promise<CachedImage | null> {
+    const images = this.fresh(decadeKey);
+    if (images.length < minStock || images.length === 0) return null;
+    const excluded = new Set(exclude);
+    const candidates = images.filter(image => !excluded.has(image.filename || image.title)
+      && (!reliableYearOnly || hasReliableYear(image)));
+    return candidates.length > 0 ? candidates[Math.floor(Math.random() * candidates.length)] : null;
+  }
+
+  async add(decadeKey: string, images: CachedImage[]): Promise<void> {
+    const added = new Set(images.map(image => image.filename || image.title));
+    const kept = this.fresh(decadeKey).filter(image => !added.has(image.filename || image.title));
+    const now = Date.now();
+    this.buckets.set(decadeKey, [...kept, ...images.map(image => ({ ...image, cachedAt: now }))].slice(-MAX_IMAGES_PER_DECADE));
+  }
+
+  async counts(): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const decadeKey of this.buckets.keys()) {
+      const count = this.fresh(decadeKey).length;
+      if (count > 0) counts[decadeKey] = count;
+    }
+    return counts;
+  }
+
+  async clear(decadeKey?: string): Promise<number> {
+    const keys = decadeKey ? [decadeKey] : [...this.buckets.keys()];
+    let removed = 0;
+    for (const key of keys) {
+      removed += this.buckets.get(key)?.length || 0;
+      this.buckets.delete(key);
+    }
+    return removed;
+  }
+}
+
+export function getImageCacheDriver(): ImageCacheDriver {
+  const driver = (process.env.IMAGE_CACHE_DRIVER || 'mongo').toLowerCase();
+  if (driver !== 'mongo' && driver !== 'memory') {
+    throw new Error(`Unknown IMAGE_CACHE_DRIVER "${process.env.IMAGE_CACHE_DRIVER}" (expected "mongo" or "memory")`);
+  }
+  return driver;
+}
+
+export function createImageCache(driver: ImageCacheDriver): ImageCache {
+  return driver === 'memory' ? new MemoryImageCache() : new MongoImageCache();
+}
+
+let imageCache: ImageCache | null = null;
+
+/**
+ * The random image cache, using the driver selected by IMAGE_CACHE_DRIVER.
+ */
+export function getImageCache(): ImageCache {
+  if (!imageCache) {
+    imageCache = createImageCache(getImageCacheDriver());
+  }
+  return imageCache;
+}
+
+interface LookupCounts {
+  hits: number;
+  misses: number;
+}
+
+// Counted per process since it started; each instance reports its own
+const lookupsSince = new Date();
+const lookupsByDecade = new Map<string, LookupCounts>();
+
+export function recordImageCacheLookup(decadeKey: string, hit: boolean): void {
+  const counts = lookupsByDecade.get(decadeKey) || { hits: 0, misses: 0 };
+  if (hit) counts.hits++;
+  else counts.misses++;
+  lookupsByDecade.set(decadeKey, counts);
+}
+
+function withHitRate(counts: LookupCounts) {
+  const lookups = counts.hits + counts.misses;
+  return { ...counts, hitRate: lookups > 0 ? Math.round((counts.hits / lookups) * 1000) / 1000 : null };
+}
+
+/**
+ * Hit/miss counts of this process, overall and per decade bucket.
+ */
+export function getImageCacheMetrics() {
+  const total: LookupCounts = { hits: 0, misses: 0 };
+  const byDecade: Record<string, ReturnType<typeof withHitRate>> = {};
+  for (const [decadeKey, counts] of lookupsByDecade) {
+    total.hits += counts.hits;
+    total.misses += counts.misses;
+    byDecade[decadeKey] = withHitRate(counts);
+  }
+  return { since: lookupsSince, ...withHitRate(total), byDecade };
+}
@@ -0,0 +1,147 @@
+// src/utils/imageMetadata.ts
+import sharp from 'sharp';
+
+// Raised when an encoded image still carries metadata that could reveal its year
+export class RevealingMetadataError extends Error {
+    constructor(public label: string, public found: string[]) {
+        super(`${label} still contains metadata: ${found.join(', ')}`);
+    }
+}
+
+// Largest image decoded, in pixels (about 8000x6000). Raw RGBA pixels for it take
+// ~200MB; anything bigger is refused instead of risking the process's memory
+export const MAX_INPUT_PIXELS = 50_000_000;
+
+export interface SanitizedImage {
+    data: Buffer; // Raw pixels, no container and no metadata
+    width: number;
+    height: number;
+    channels: 1 | 2 | 3 | 4;
+}
+
+/**
+ * Decodes an image to bare pixels, applying its EXIF orientation first so it
+ * still displays upright. Anything encoded from the result starts with no EXIF,
+ * XMP, IPTC, GPS or camera data at all, whatever sharp's output defaults are.
+ * Images over MAX_INPUT_PIXELS are rejected.
+ * @param maxWidth Images wider than this are scaled down while decoding; only
+ * for outputs that don't need full resolution, such as hashes and placeholders
+ */
+export async function sanitizeImage(imageBuffer: Buffer, maxWidth?: number): Promise<SanitizedImage> {
+    const { data, info } = await sharp(imageBuffer, { limitInputPixels: MAX_INPUT_PIXELS })
+        .rotate()
+        .resize(maxWidth ? { width: maxWidth, withoutEnlargement: true } : undefined)
+        .toColourspace('srgb')
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height, channels: info.channels };
+}
+
+/**
+ * A sharp pipeline over sanitized pixels, to encode variants from.
+ */
+export function fromSanitizedImage(image: SanitizedImage): sharp.Sharp {
+    return sharp(image.data, { raw: { width: image.width, height: image.height, channels: image.channels } });
+}
+
+// WebP RIFF chunks: EXIF and "XMP " carry metadata, VP8X flags announce them
+function findWebpMetadataChunks(buffer: Buffer): string[] {
+    const found: string[] = [];
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+        const fourCC = buffer.toString('latin1', offset, offset + 4);
+        const size = buffer.readUInt32LE(offset + 4);
+        if (fourCC === 'EXIF') found.push('webp:EXIF');
+        if (fourCC === 'XMP ') found.push('webp:XMP');
+        // RIFF chunks are padded to an even size
+        offset += 8 + size + (size % 2);
+    }
+    return found;
+}
+
+// JPEG segments before the scan data: APP1 (Exif/XMP), APP13 (Photoshop/IPTC) and COM
+function findJpegMetadataSegments(buffer: Buffer): string[] {
+    const found: string[] = [];
+    let offset = 2;
+    while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+        const marker = buffer[offset + 1];
+        // Start of scan: only entropy-coded pixel data follows
+        if (marker === 0xda) break;
+        // Standalone markers without a length
+        if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+            offset += 2;
+            continue;
+        }
+        const length = buffer.readUInt16BE(offset + 2);
+        const payload = buffer.toString('latin1', offset + 4, Math.min(offset + 2 + length, buffer.length));
+        if (marker === 0xe1 && payload.startsWith('Exif\0')) found.push('jpeg:APP1-Exif');
+        if (marker === 0xe1 && payload.startsWith('http://ns.adobe.com/xap/')) found.push('jpeg:APP1-XMP');
+        if (marker === 0xed) found.push('jpeg:APP13');
+        if (marker === 0xfe) found.push('jpeg:COM');
+        offset += 2 + length;
+    }
+    return found;
+}
+
+// PNG chunks: eXIf, and text chunks which hold XMP among others
+function findPngMetadataChunks(buffer: Buffer): string[] {
+    const found: string[] = [];
+    let offset = 8;
+    while (offset + 8 <= buffer.length) {
+        const length = buffer.readUInt32BE(offset);
+        const type = buffer.toString('latin1', offset + 4, offset + 8);
+        if (type === 'eXIf' || type === 'iTXt' || type === 'tEXt' || type === 'zTXt') {
+            found.push(`png:${type}`);
+        }
+        if (type === 'IEND') break;
+        // Length, type, data and CRC
+        offset += 12 + length;
+    }
+    return found;
+}
+
+/**
+ * Metadata blocks in the container structure itself, for blocks metadata()
+ * doesn't report. Only headers are read, never compressed pixel data.
+ */
+function findContainerMetadata(buffer: Buffer): string[] {
+    if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+        return findWebpMetadataChunks(buffer);
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+        return findJpegMetadataSegments(buffer);
+    }
+    if (buffer.length >= 8 && buffer.toString('latin1', 1, 4) === 'PNG') {
+        return findPngMetadataChunks(buffer);
+    }
+    return [];
+}
+
+/**
+ * Lists the metadata an encoded image still carries (empty when clean).
+ */
+export async function findRevealingMetadata(imageBuffer: Buffer): Promise<string[]> {
+    const metadata = await sharp(imageBuffer).metadata();
+    const found: string[] = [];
+    if (metadata.exif) found.push('exif');
+    if (metadata.xmp) found.push('xmp');
+    if (metadata.iptc) found.push('iptc');
+    if (metadata.tifftagPhotoshop) found.push('photoshop');
+    if (metadata.comments?.length) found.push('comments');
+
+    for (const block of findContainerMetadata(imageBuffer)) {
+        if (!found.includes(block)) found.push(block);
+    }
+    return found;
+}
+
+/**
+ * Verification step for the variant pipeline; throws if anything was left behind.
+ * @param label Key or name used in the error message
+ */
+export async function assertNoRevealingMetadata(imageBuffer: Buffer, label: string): Promise<void> {
+    const found = await findRevealingMetadata(imageBuffer);
+    if (found.length > 0) {
+        throw new RevealingMetadataError(label, found);
+    }
+}
@@ -1,70 +1,184 @@
 // src/utils/imageProcessor.ts
 import sharp from 'sharp';
-import s3Client, { s3BucketName } from './awsConfig';
-import { PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { encode as encodeBlurHash } from 'blurhash';
+import { getImageStorage } from './storage';
 import logger from './logger';
 import fetch from 'node-fetch';
+import { USER_AGENT } from './mediaWikiClient';
+import { ImageVariant, ImageVariantFormat } from '../types/wikimedia';
+import { computeDHash } from './perceptualHash';
+import { sanitizeImage, fromSanitizedImage, findRevealingMetadata, assertNoRevealingMetadata, SanitizedImage } from './imageMetadata';
+
+// Widths of the responsive variants; images are never enlarged, so smaller
+// originals get the widths below their own width plus one at full width
+export const RESPONSIVE_VARIANT_WIDTHS = [480, 960, 1600];
+
+// The BlurHash, dominant color and dHash don't need more detail than the largest
+// variant, so images are decoded at most this wide to compute them
+const MAX_SERVED_WIDTH = RESPONSIVE_VARIANT_WIDTHS[RESPONSIVE_VARIANT_WIDTHS.length - 1];
+
+// libvips builds without libheif can't encode AVIF; fall back to WebP only
+const AVIF_SUPPORTED = !!sharp.format.heif?.output?.buffer;
 
 export interface ProcessedImageInfo {
-  cloudFrontUrl: string | null; // Full CloudFront URL for the .webp image
+  imageUrl: string | null; // Public URL (CloudFront, S3 or /uploads) of the .webp image
   s3BaseIdentifier: string;   // Just the unique part, e.g., UUID or filename stem
-  tinyBlurredPlaceholderUrl?: string | null; // New field for CloudFront URL of the tiny blurred image
+  tinyBlurredPlaceholderUrl?: string | null; // Public URL of the tiny blurred image
+  // Size of the full-size image at imageUrl
+  width?: number;
+  height?: number;
+  aspectRatio?: number;
+  variants: ImageVariant[];
+  blurHash?: string;
+  dominantColor?: string; // "#rrggbb"
+  perceptualHash?: string;
   // We don't strictly need to return s3Keys if admin.ts doesn't use them directly after this call
 }
 
-async function uploadVariantToS3(buffer: Buffer, s3Key: string, contentType: string): Promise<void> {
-  const command = new PutObjectCommand({
-    Bucket: s3BucketName,
-    Key: s3Key, // s3Key will include "game-images/" prefix
-    Body: buffer,
-    ContentType: contentType,
-  });
-  await s3Client.send(command);
-  logger.info(`[imageProcessor] Successfully uploaded to S3: ${s3Key}`);
+/**
+ * Variant widths for an image of the given width, smallest first.
+ */
+export function getResponsiveVariantWidths(originalWidth: number): number[] {
+  const widths = RESPONSIVE_VARIANT_WIDTHS.filter(width => width < originalWidth);
+  if (originalWidth <= MAX_SERVED_WIDTH) {
+    widths.push(originalWidth);
+  }
+  return widths;
+}
+
+export interface ImagePlaceholder {
+  blurHash: string;
+  dominantColor: string;
+}
+
+// BlurHash is computed on a thumbnail; more pixels don't change the hash noticeably
+const BLURHASH_SAMPLE_SIZE = 32;
+
+function toHexColor({ r, g, b }: { r: number; g: number; b: number }): string {
+  return '#' + [r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('');
+}
+
+async function computePlaceholder(source: SanitizedImage): Promise<ImagePlaceholder> {
+  const { data, info } = await fromSanitizedImage(source)
+    .resize(BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  // 4x3 components, flipped for portrait images
+  const [componentsX, componentsY] = info.width >= info.height ? [4, 3] : [3, 4];
+  const blurHash = encodeBlurHash(new Uint8ClampedArray(data), info.width, info.height, componentsX, componentsY);
+
+  const { dominant } = await fromSanitizedImage(source).stats();
+  return { blurHash, dominantColor: toHexColor(dominant) };
+}
+
+/**
+ * BlurHash and dominant color of an image, for clients to paint before it loads.
+ */
+export async function computeImagePlaceholder(imageBuffer: Buffer): Promise<ImagePlaceholder> {
+  return computePlaceholder(await sanitizeImage(imageBuffer, MAX_SERVED_WIDTH));
+}
+
+/**
+ * Perceptual hash (dHash) of an image, as stored on challenge images.
+ */
+export async function computeImagePerceptualHash(imageBuffer: Buffer): Promise<string> {
+  return computeDHash(fromSanitizedImage(await sanitizeImage(imageBuffer, MAX_SERVED_WIDTH)));
+}
+
+async function encodeVariant(source: SanitizedImage, width: number, format: ImageVariantFormat) {
+  const resized = fromSanitizedImage(source).resize({ width, withoutEnlargement: true });
+  const encoded = format === 'avif'
+    ? resized.avif({ quality: 50, effort: 4 })
+    : resized.webp({ quality: 80 });
+  return encoded.toBuffer({ resolveWithObject: true });
+}
+
+// Every variant is checked for leftover metadata before it is stored
+async function uploadVariant(buffer: Buffer, key: string, contentType: string): Promise<void> {
+  await assertNoRevealingMetadata(buffer, key);
+  await getImageStorage().put(key, buffer, contentType); // key includes the "game-images/" prefix
+  logger.info(`[imageProcessor] Successfully uploaded to storage: ${key}`);
 }
 
 export async function processAndStoreImageVariants(
   imageBuffer: Buffer,
   baseIdentifier: string // e.g., "your-uuid" or "multer-key-without-extension-stem"
 ): Promise<ProcessedImageInfo> {
-  const results: ProcessedImageInfo = { cloudFrontUrl: null, s3BaseIdentifier: baseIdentifier, tinyBlurredPlaceholderUrl: null };
+  const results: ProcessedImageInfo = { imageUrl: null, s3BaseIdentifier: baseIdentifier, tinyBlurredPlaceholderUrl: null, variants: [] };
   const s3ObjectPrefix = "game-images/"; // Matches CloudFront behavior path segment
-  const cloudFrontDomain = process.env.CLOUDFRONT_IMAGES_DOMAIN;
+  const storage = getImageStorage();
 
-  if (!cloudFrontDomain) {
-    logger.error("[imageProcessor] CRITICAL: CLOUDFRONT_IMAGES_DOMAIN env var not set!");
-    return results; // Return nulls, caller must handle
+  // Sanitization stage: every variant below is encoded from bare pixels, so no
+  // EXIF DateTimeOriginal, GPS or camera data from the original can reach it
+  let source: SanitizedImage;
+  try {
+    source = await sanitizeImage(imageBuffer);
+  } catch (err) {
+    logger.error(`[imageProcessor] Failed to decode/sanitize image for ${baseIdentifier}:`, err);
+    return results;
   }
 
   try {
-    const webpBuffer = await sharp(imageBuffer).webp({ quality: 80 }).toBuffer();
+    const { data: webpBuffer, info } = await fromSanitizedImage(source).webp({ quality: 80 }).toBuffer({ resolveWithObject: true });
     const webpS3Key = `${s3ObjectPrefix}${baseIdentifier}.webp`;
-    await uploadVariantToS3(webpBuffer, webpS3Key, 'image/webp');
-    results.cloudFrontUrl = `https://${cloudFrontDomain}/${webpS3Key}`;
+    await uploadVariant(webpBuffer, webpS3Key, 'image/webp');
+    results.imageUrl = storage.publicUrl(webpS3Key);
+    results.width = info.width;
+    results.height = info.height;
+    results.aspectRatio = Math.round((info.width / info.height) * 10000) / 10000;
   } catch (err) {
     logger.error(`[imageProcessor] Failed to process/upload WebP for ${baseIdentifier}:`, err);
-    // Don't set cloudFrontUrl if WebP fails, or decide on a fallback strategy
+    // Don't set imageUrl if WebP fails, or decide on a fallback strategy
   }
 
   try {
     // Always generate JPEG as a fallback, even if WebP is the primary URL stored
-    const jpegBuffer = await sharp(imageBuffer).jpeg({ quality: 80 }).toBuffer();
+    const jpegBuffer = await fromSanitizedImage(source).jpeg({ quality: 80 }).toBuffer();
     const jpegS3Key = `${s3ObjectPrefix}${baseIdentifier}.jpg`;
-    await uploadVariantToS3(jpegBuffer, jpegS3Key, 'image/jpeg');
+    await uploadVariant(jpegBuffer, jpegS3Key, 'image/jpeg');
   } catch (err) {
     logger.error(`[imageProcessor] Failed to process/upload JPEG for ${baseIdentifier}:`, err);
   }
 
+  // Responsive width variants; each one that fails is just left out of the srcset
+  if (results.width) {
+    const formats: ImageVariantFormat[] = AVIF_SUPPORTED ? ['avif', 'webp'] : ['webp'];
+    for (const width of getResponsiveVariantWidths(results.width)) {
+      for (const format of formats) {
+        try {
+          const { data, info } = await encodeVariant(source, width, format);
+          const variantKey = `${s3ObjectPrefix}${baseIdentifier}_w${width}.${format}`;
+          await uploadVariant(data, variantKey, `image/${format}`);
+          results.variants.push({ url: storage.publicUrl(variantKey), format, width: info.width, height: info.height });
+        } catch (err) {
+          logger.error(`[imageProcessor] Failed to process/upload ${width}px ${format} variant for ${baseIdentifier}:`, err);
+        }
+      }
+    }
+  }
+
+  // Inline placeholder; the image is still usable without one
+  try {
+    const placeholder = await computePlaceholder(source);
+    results.blurHash = placeholder.blurHash;
+    results.dominantColor = placeholder.dominantColor;
+  } catch (err) {
+    logger.error(`[imageProcessor] Failed to compute BlurHash/dominant color for ${baseIdentifier}:`, err);
+  }
+
+  try {
+    results.perceptualHash = await computeDHash(fromSanitizedImage(source));
+  } catch (err) {
+    logger.error(`[imageProcessor] Failed to compute perceptual hash for ${baseIdentifier}:`, err);
+  }
+
   // Tiny, Pre-blurred Placeholder Variant (e.g., JPEG)
   try {
-    const tinyBlurredBuffer = await sharp(imageBuffer)
-      .resize(50) // Resize to 50px wide, maintain aspect ratio
-      .blur(5)    // Apply a moderate blur; adjust sigma as needed
-      .jpeg({ quality: 30, progressive: true }) // Heavily compress, progressive JPEG
-      .toBuffer();
+    const tinyBlurredBuffer = await encodeTinyBlurredPlaceholder(source);
     const tinyBlurredS3Key = `${s3ObjectPrefix}${baseIdentifier}_tinyblur.jpg`;
-    await uploadVariantToS3(tinyBlurredBuffer, tinyBlurredS3Key, 'image/jpeg');
-    results.tinyBlurredPlaceholderUrl = `https://${cloudFrontDomain}/${tinyBlurredS3Key}`;
+    await uploadVariant(tinyBlurredBuffer, tinyBlurredS3Key, 'image/jpeg');
+    results.tinyBlurredPlaceholderUrl = storage.publicUrl(tinyBlurredS3Key);
     logger.info(`[imageProcessor] Uploaded tiny blurred placeholder: ${results.tinyBlurredPlaceholderUrl}`);
   } catch (err) {
     logger.error(`[imageProcessor] Failed to process/upload tiny blurred placeholder for ${baseIdentifier}:`, err);
@@ -73,9 +187,86 @@ export async function processAndStoreImageVariants(
   return results;
 }
 
+function encodeTinyBlurredPlaceholder(source: SanitizedImage): Promise<Buffer> {
+  return fromSanitizedImage(source)
+    .resize(50) // Resize to 50px wide, maintain aspect ratio
+    .blur(5)    // Apply a moderate blur; adjust sigma as needed
+    .jpeg({ quality: 30, progressive: true }) // Heavily compress, progressive JPEG
+    .toBuffer();
+}
+
+// Re-encodes a stored variant from sanitized pixels with the settings it was created with
+async function reencodeStoredVariant(key: string, buffer: Buffer): Promise<{ data: Buffer; contentType: string } | null> {
+  const source = await sanitizeImage(buffer);
+  if (key.endsWith('_tinyblur.jpg')) {
+    // Already 50px wide; only re-encode
+    const data = await fromSanitizedImage(source).jpeg({ quality: 30, progressive: true }).toBuffer();
+    return { data, contentType: 'image/jpeg' };
+  }
+  const extension = key.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'webp':
+      return { data: await fromSanitizedImage(source).webp({ quality: 80 }).toBuffer(), contentType: 'image/webp' };
+    case 'avif':
+      return { data: await fromSanitizedImage(source).avif({ quality: 50, effort: 4 }).toBuffer(), contentType: 'image/avif' };
+    case 'jpg':
+    case 'jpeg':
+      return { data: await fromSanitizedImage(source).jpeg({ quality: 80 }).toBuffer(), contentType: 'image/jpeg' };
+    default:
+      return null;
+  }
+}
+
+export interface ImageMetadataAuditResult {
+  checked: number;
+  clean: number;
+  reprocessed: string[];  // Keys that carried metadata and were overwritten with a clean copy
+  failed: Array<{ key: string; error: string }>;
+  skipped: string[];      // Not an image format the pipeline produces
+}
+
+/**
+ * Audits every stored game-images/ object for leftover metadata and overwrites
+ * any that have some with a sanitized re-encode under the same key, so stored
+ * URLs stay valid.
+ */
+export async function auditGameImageMetadata(): Promise<ImageMetadataAuditResult> {
+  const storage = getImageStorage();
+  const result: ImageMetadataAuditResult = { checked: 0, clean: 0, reprocessed: [], failed: [], skipped: [] };
+
+  for (const object of await storage.list('game-images/')) {
+    const key = object.key;
+    try {
+      const buffer = await storage.get(key);
+      result.checked++;
+      const found = await findRevealingMetadata(buffer);
+      if (found.length === 0) {
+        result.clean++;
+        continue;
+      }
+
+      logger.warn(`[imageProcessor] ${key} carries metadata: ${found.join(', ')}. Reprocessing.`);
+      const reencoded = await reencodeStoredVariant(key, buffer);
+      if (!reencoded) {
+        result.skipped.push(key);
+        continue;
+      }
+      await uploadVariant(reencoded.data, key, reencoded.contentType);
+      result.reprocessed.push(key);
+    } catch (error: any) {
+      logger.error(`[imageProcessor] Metadata audit failed for ${key}:`, error);
+      result.failed.push({ key, error: String(error?.message || error) });
+    }
+  }
+
+  logger.info(`[imageProcessor] Metadata audit checked ${result.checked} object(s): ${result.clean} clean, ${result.reprocessed.length} reprocessed, ${result.failed.length} failed, ${result.skipped.length} skipped.`);
+  return result;
+}
+
 export async function fetchImageFromUrl(imageUrl: string): Promise<Buffer | null> {
     try {
-        const response = await fetch(imageUrl);
+        // upload.wikimedia.org rejects requests without a descriptive User-Agent
+        const response = await fetch(imageUrl, { headers: { 'User-Agent': USER_AGENT } });
         if (!response.ok) {
             logger.error(`Failed to fetch image from URL: ${imageUrl}, Status: ${response.status}`);
             return null;
@@ -88,15 +279,45 @@ export async function fetchImageFromUrl(imageUrl: string): Promise<Buffer | null
     }
 }
 
-export async function deleteFromS3(s3Key: string): Promise<void> {
+/**
+ * Image data of an existing challenge image: the stored full-size WebP, or the
+ * image URL when there is none (e.g. legacy uploads).
+ */
+export async function loadChallengeImageBuffer(image: { url: string; s3BaseIdentifier?: string }): Promise<Buffer | null> {
+    if (image.s3BaseIdentifier) {
+        try {
+            return await getImageStorage().get(`game-images/${image.s3BaseIdentifier}.webp`);
+        } catch (error) {
+            logger.warn(`[imageProcessor] Could not read game-images/${image.s3BaseIdentifier}.webp from storage, trying URL.`, error);
+        }
+    }
+    return fetchImageFromUrl(image.url);
+}
+
+export async function deleteImageObject(key: string): Promise<void> {
     try {
-        const command = new DeleteObjectCommand({
-            Bucket: s3BucketName,
-            Key: s3Key, // s3Key should be the full key of the object to delete
-        });
-        await s3Client.send(command);
-        logger.info(`[imageProcessor] Successfully deleted from S3: ${s3Key}`);
+        await getImageStorage().delete(key); // key should be the full key of the object to delete
+        logger.info(`[imageProcessor] Successfully deleted from storage: ${key}`);
     } catch (error) {
-        logger.error(`[imageProcessor] Failed to delete ${s3Key} from S3:`, error);
+        logger.error(`[imageProcessor] Failed to delete ${key} from storage:`, error);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Deletes every object processAndStoreImageVariants stored for baseIdentifier
+ * (full-size WebP, JPEG fallback, width variants and tiny placeholder).
+ */
+export async function deleteImageVariants(baseIdentifier: string): Promise<void> {
+    const keyStem = `game-images/${baseIdentifier}`;
+    let objects;
+    try {
+        objects = await getImageStorage().list(keyStem);
+    } catch (error) {
+        logger.error(`[imageProcessor] Failed to list stored variants of ${baseIdentifier}:`, error);
+        return;
+    }
+    // The prefix also matches identifiers that merely start with this one
+    for (const object of objects.filter(object => object.key.startsWith(`${keyStem}.`) || object.key.startsWith(`${keyStem}_`))) {
+        await deleteImageObject(object.key);
+    }
+}
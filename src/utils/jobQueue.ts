@@ -0,0 +1,193 @@
+// src/utils/jobQueue.ts
+import os from 'os';
+import mongoose from 'mongoose';
+import Job, { IJob, JobPayload, JobType } from '../models/Job';
+import logger from './logger';
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10);
+// A running job whose worker hasn't finished within this lease is assumed lost (e.g. restart)
+const JOB_LEASE_MS = parseInt(process.env.JOB_LEASE_MS || String(10 * 60 * 1000), 10);
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+export type JobHandler = (payload: JobPayload) => Promise<void>;
+export type JobHandlers = Record<JobType, JobHandler>;
+
+export interface EnqueueJobOptions {
+    delayMs?: number;     // Debounce: later enqueues within this window coalesce into the same job
+    maxAttempts?: number;
+}
+
+/**
+ * Enqueues a job unless one with the same type and challenge date is already pending.
+ * @returns The pending job (new or existing)
+ */
+export async function enqueueJob(type: JobType, payload: JobPayload, options: EnqueueJobOptions = {}): Promise<IJob | null> {
+    const dedupeKey = `${type}:${payload.challengeDateString}`;
+    const setOnInsert: Record<string, any> = {
+        type,
+        dedupeKey,
+        payload,
+        status: 'pending',
+        attempts: 0,
+        runAt: new Date(Date.now() + (options.delayMs || 0))
+    };
+    if (options.maxAttempts) {
+        setOnInsert.maxAttempts = options.maxAttempts;
+    }
+
+    try {
+        return await Job.findOneAndUpdate(
+            { dedupeKey, status: 'pending' },
+            { $setOnInsert: setOnInsert },
+            { upsert: true, new: true }
+        );
+    } catch (error: any) {
+        // Two enqueues raced on the upsert; the other one created the pending job
+        if (error?.code === 11000) {
+            return Job.findOne({ dedupeKey, status: 'pending' });
+        }
+        throw error;
+    }
+}
+
+// Running jobs whose lease expired on their last attempt, e.g. because the job crashes
+// the worker every time; reclaiming them would retry forever, so they are failed instead
+async function failExhaustedExpiredJobs(leaseExpiredBefore: Date): Promise<void> {
+    const result = await Job.updateMany(
+        { status: 'running', lockedAt: { $lt: leaseExpiredBefore }, $expr: { $gte: ['$attempts', '$maxAttempts'] } },
+        {
+            $set: { status: 'failed', lastError: 'Lease expired on the final attempt', finishedAt: new Date() },
+            $unset: { lockedAt: '', lockedBy: '' }
+        }
+    );
+    if (result.modifiedCount > 0) {
+        logger.error(`[JobQueue] Failed ${result.modifiedCount} job(s) whose lease expired on their final attempt.`);
+    }
+}
+
+// Claims the next due job, or a running job whose lease expired with attempts left
+async function claimNextJob(): Promise<IJob | null> {
+    const now = new Date();
+    const leaseExpiredBefore = new Date(now.getTime() - JOB_LEASE_MS);
+    await failExhaustedExpiredJobs(leaseExpiredBefore);
+    return Job.findOneAndUpdate(
+        {
+            $or: [
+                { status: 'pending', runAt: { $lte: now } },
+                { status: 'running', lockedAt: { $lt: leaseExpiredBefore }, $expr: { $lt: ['$attempts', '$maxAttempts'] } }
+            ]
+        },
+        {
+            $set: { status: 'running', lockedAt: now, lockedBy: WORKER_ID },
+            $inc: { attempts: 1 }
+        },
+        { sort: { runAt: 1 }, new: true }
+    );
+}
+
+function getRetryDelayMs(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_DELAY_MS);
+}
+
+async function markJobFailed(job: IJob, error: any): Promise<void> {
+    const lastError = String(error?.message || error).slice(0, 2000);
+
+    if (job.attempts >= job.maxAttempts) {
+        await Job.updateOne(
+            { _id: job._id, lockedBy: WORKER_ID },
+            { $set: { status: 'failed', lastError, finishedAt: new Date() }, $unset: { lockedAt: '', lockedBy: '' } }
+        );
+        logger.error(`[JobQueue] Job ${job._id} (${job.dedupeKey}) failed permanently after ${job.attempts} attempt(s): ${lastError}`);
+        return;
+    }
+
+    const delayMs = getRetryDelayMs(job.attempts);
+    try {
+        await Job.updateOne(
+            { _id: job._id, lockedBy: WORKER_ID },
+            {
+                $set: { status: 'pending', lastError, runAt: new Date(Date.now() + delayMs) },
+                $unset: { lockedAt: '', lockedBy: '' }
+            }
+        );
+        logger.warn(`[JobQueue] Job ${job._id} (${job.dedupeKey}) failed on attempt ${job.attempts}/${job.maxAttempts}. Retrying in ${Math.round(delayMs / 1000)}s: ${lastError}`);
+    } catch (retryError: any) {
+        // A newer pending job for the same key already exists and will redo this work
+        if (retryError?.code !== 11000) {
+            throw retryError;
+        }
+        await Job.updateOne(
+            { _id: job._id, lockedBy: WORKER_ID },
+            {
+                $set: { status: 'failed', lastError: `${lastError} (retry superseded by a newer pending job)`, finishedAt: new Date() },
+                $unset: { lockedAt: '', lockedBy: '' }
+            }
+        );
+        logger.warn(`[JobQueue] Job ${job._id} (${job.dedupeKey}) failed; retry superseded by a newer pending job.`);
+    }
+}
+
+/**
+ * Claims and runs at most one job.
+ * @returns Whether a job was claimed
+ */
+export async function runNextJob(handlers: JobHandlers): Promise<boolean> {
+    const job = await claimNextJob();
+    if (!job) return false;
+
+    const handler = handlers[job.type];
+    logger.info(`[JobQueue] Running job ${job._id} (${job.dedupeKey}), attempt ${job.attempts}/${job.maxAttempts}`);
+    try {
+        if (!handler) {
+            throw new Error(`No handler registered for job type ${job.type}`);
+        }
+        await handler(job.payload);
+        await Job.updateOne(
+            { _id: job._id, lockedBy: WORKER_ID },
+            { $set: { status: 'completed', finishedAt: new Date() }, $unset: { lockedAt: '', lockedBy: '', lastError: '' } }
+        );
+        logger.info(`[JobQueue] Job ${job._id} (${job.dedupeKey}) completed.`);
+    } catch (error) {
+        await markJobFailed(job, error);
+    }
+    return true;
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+let workerStopped = true;
+
+/**
+ * Starts polling for jobs. Due jobs are drained back to back; the worker
+ * sleeps for the poll interval once the queue is empty.
+ */
+export function startJobWorker(handlers: JobHandlers): void {
+    if (!workerStopped) return;
+    workerStopped = false;
+    logger.info(`[JobQueue] Worker ${WORKER_ID} started (poll interval ${POLL_INTERVAL_MS}ms).`);
+
+    const tick = async () => {
+        let claimed = false;
+        try {
+            if (mongoose.connection.readyState === 1) {
+                claimed = await runNextJob(handlers);
+            }
+        } catch (error) {
+            logger.error('[JobQueue] Worker loop error:', error);
+        }
+        if (!workerStopped) {
+            workerTimer = setTimeout(tick, claimed ? 0 : POLL_INTERVAL_MS);
+        }
+    };
+    workerTimer = setTimeout(tick, POLL_INTERVAL_MS);
+}
+
+export function stopJobWorker(): void {
+    workerStopped = true;
+    if (workerTimer) {
+        clearTimeout(workerTimer);
+        workerTimer = null;
+    }
+}
@@ -0,0 +1,69 @@
+// src/utils/leaderboard.ts
+import LeaderboardEntry, { ILeaderboardEntry } from '../models/LeaderboardEntry';
+import PlayerProfile from '../models/PlayerProfile';
+import logger from './logger';
+import { containsProfanity } from './profanityFilter';
+
+const DISPLAY_NAME_MIN_LENGTH = 3;
+const DISPLAY_NAME_MAX_LENGTH = 20;
+const DISPLAY_NAME_PATTERN = /^[\p{L}\p{N} _.\-']+$/u;
+
+// Sort order used everywhere a leaderboard is ranked
+export const LEADERBOARD_SORT = { score: -1, totalYearsOff: 1, submittedAt: 1 } as const;
+
+/**
+ * Validates an opt-in display name.
+ * @returns An error message, or null if the name is acceptable
+ */
+export function validateDisplayName(displayName: string): string | null {
+  const trimmed = displayName.trim();
+  if (trimmed.length < DISPLAY_NAME_MIN_LENGTH || trimmed.length > DISPLAY_NAME_MAX_LENGTH) {
+    return `Display name must be ${DISPLAY_NAME_MIN_LENGTH}-${DISPLAY_NAME_MAX_LENGTH} characters`;
+  }
+  if (!DISPLAY_NAME_PATTERN.test(trimmed)) {
+    return 'Display name may only contain letters, numbers, spaces and . _ - \'';
+  }
+  if (containsProfanity(trimmed)) {
+    return 'Display name is not allowed';
+  }
+  return null;
+}
+
+/**
+ * Adds a player's first completion of a challenge date to that day's leaderboard.
+ * Failures are logged, not thrown: the submission itself has already been recorded.
+ */
+export async function recordLeaderboardEntry(entry: {
+  playerId: string;
+  challengeDateString: string;
+  score: number;
+  totalYearsOff: number;
+  submittedAt: Date;
+}): Promise<void> {
+  try {
+    const profile = await PlayerProfile.findOne({ playerId: entry.playerId }).select('displayName').lean();
+    await LeaderboardEntry.updateOne(
+      { challengeDateString: entry.challengeDateString, playerId: entry.playerId },
+      { $setOnInsert: { ...entry, displayName: profile?.displayName ?? null } },
+      { upsert: true }
+    );
+  } catch (error: any) {
+    logger.error(`[Leaderboard] Failed to record entry for player ${entry.playerId} on ${entry.challengeDateString}: ${error.message}`, error);
+  }
+}
+
+/**
+ * 1-based rank of an entry within its day: one more than the number of entries
+ * ahead of it by score, then fewest years off, then earliest submission.
+ */
+export async function getLeaderboardRank(entry: Pick<ILeaderboardEntry, 'challengeDateString' | 'score' | 'totalYearsOff' | 'submittedAt'>): Promise<number> {
+  const ahead = await LeaderboardEntry.countDocuments({
+    challengeDateString: entry.challengeDateString,
+    $or: [
+      { score: { $gt: entry.score } },
+      { score: entry.score, totalYearsOff: { $lt: entry.totalYearsOff } },
+      { score: entry.score, totalYearsOff: entry.totalYearsOff, submittedAt: { $lt: entry.submittedAt } }
+    ]
+  });
+  return ahead + 1;
+}
@@ -0,0 +1,293 @@
+// src/utils/mediaWikiClient.ts
+// Typed client for the MediaWiki Action API (Wikimedia Commons by default).
+// All requests go through a transport, so tests can replay recorded JSON
+// responses instead of calling Commons.
+import fetch from 'node-fetch';
+import logger from './logger';
+
+export const COMMONS_API_URL = 'https://commons.wikimedia.org/w/api.php';
+export const USER_AGENT = 'Wikimedia Year Guessing Game/1.0 (ccreguer@gmail.com)';
+
+// The API accepts at most 50 titles per query for normal clients
+export const MAX_TITLES_PER_QUERY = 50;
+
+// Fields requested for imageinfo unless a caller asks for others
+export const DEFAULT_IMAGEINFO_PROPS = ['url', 'timestamp', 'user', 'extmetadata', 'mediatype', 'mime', 'size'];
+
+export type MediaWikiParams = Record<string, string | number | undefined>;
+
+export interface MediaWikiTransportResponse {
+    status: number;
+    retryAfterSeconds?: number; // From the Retry-After header, when present
+    body: any;
+}
+
+/**
+ * Sends one API request. params already include format, formatversion and maxlag.
+ */
+export type MediaWikiTransport = (params: Record<string, string>) => Promise<MediaWikiTransportResponse>;
+
+export interface MediaWikiClientOptions {
+    apiUrl?: string;
+    userAgent?: string;
+    transport?: MediaWikiTransport;
+    maxlagSeconds?: number;
+    maxRetries?: number;
+    retryBaseDelayMs?: number;
+    // Longest Retry-After the client will wait; a request asked to wait longer fails instead
+    maxRetryDelayMs?: number;
+    sleep?: (ms: number) => Promise<void>;
+}
+
+export interface ExtMetadataField {
+    value: string;
+    source?: string;
+    hidden?: string;
+}
+
+export interface ImageInfo {
+    url: string;
+    descriptionurl?: string;
+    timestamp: string;
+    user?: string;
+    mime?: string;
+    mediatype?: string;
+    width?: number;
+    height?: number;
+    size?: number;
+    extmetadata?: Record<string, ExtMetadataField>;
+}
+
+export interface ImageInfoPage {
+    title: string;
+    ns?: number;
+    pageid?: number;
+    missing?: boolean;
+    invalid?: boolean;
+    invalidreason?: string;
+    imageinfo?: ImageInfo[];
+}
+
+export interface PageReference {
+    title: string;
+    ns: number;
+    pageid?: number;
+}
+
+export class MediaWikiApiError extends Error {
+    constructor(public code: string, message: string) {
+        super(`MediaWiki API error ${code}: ${message}`);
+    }
+}
+
+/**
+ * Transport that calls the API over HTTP with node-fetch.
+ */
+export function createFetchTransport(apiUrl: string = COMMONS_API_URL, userAgent: string = USER_AGENT): MediaWikiTransport {
+    return async (params) => {
+        const response = await fetch(`${apiUrl}?${new URLSearchParams(params).toString()}`, {
+            headers: { 'User-Agent': userAgent }
+        });
+        const retryAfter = response.headers.get('retry-after');
+        let body: any = null;
+        try {
+            body = await response.json();
+        } catch {
+            // Non-JSON error pages (e.g. a 503 from the edge) are handled by status
+        }
+        return {
+            status: response.status,
+            retryAfterSeconds: retryAfter && !isNaN(Number(retryAfter)) ? Number(retryAfter) : undefined,
+            body
+        };
+    };
+}
+
+// "Foo.jpg" and "File:Foo.jpg" both become "File:Foo.jpg"
+export function toFileTitle(filename: string): string {
+    const trimmed = filename.trim().replace(/_/g, ' ');
+    return /^(File|Image):/i.test(trimmed) ? `File:${trimmed.replace(/^(File|Image):/i, '')}` : `File:${trimmed}`;
+}
+
+export class MediaWikiClient {
+    private transport: MediaWikiTransport;
+    private maxlagSeconds: number;
+    private maxRetries: number;
+    private retryBaseDelayMs: number;
+    private maxRetryDelayMs: number;
+    private sleep: (ms: number) => Promise<void>;
+
+    constructor(options: MediaWikiClientOptions = {}) {
+        this.transport = options.transport || createFetchTransport(options.apiUrl, options.userAgent);
+        this.maxlagSeconds = options.maxlagSeconds ?? 5;
+        this.maxRetries = options.maxRetries ?? 3;
+        this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+        // Callers include admin requests and freeplay guesses, which shouldn't hang on a long back-off
+        this.maxRetryDelayMs = options.maxRetryDelayMs ?? 30 * 1000;
+        this.sleep = options.sleep || (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    }
+
+    /**
+     * One query, retried with backoff when the servers are lagged (maxlag),
+     * rate limiting (429) or temporarily unavailable (5xx).
+     * @throws MediaWikiApiError for API errors other than maxlag, and when
+     * Retry-After asks for a longer wait than maxRetryDelayMs
+     */
+    async query<T = any>(params: MediaWikiParams): Promise<T> {
+        const requestParams: Record<string, string> = { action: 'query', format: 'json', formatversion: '2', maxlag: String(this.maxlagSeconds) };
+        for (const [key, value] of Object.entries(params)) {
+            if (value !== undefined) requestParams[key] = String(value);
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            let response: MediaWikiTransportResponse | null = null;
+            let failure: string;
+            try {
+                response = await this.transport(requestParams);
+                const errorCode = response.body?.error?.code;
+                if (errorCode && errorCode !== 'maxlag') {
+                    throw new MediaWikiApiError(errorCode, response.body.error.info || '');
+                }
+                if (!errorCode && response.status < 400) {
+                    if (response.body?.warnings) {
+                        logger.warn('[MediaWiki] API warnings:', response.body.warnings);
+                    }
+                    return response.body as T;
+                }
+                if (!errorCode && response.status !== 429 && response.status < 500) {
+                    throw new MediaWikiApiError(`http-${response.status}`, 'Request failed');
+                }
+                failure = errorCode ? `maxlag (${response.body.error.info || 'servers lagged'})` : `HTTP ${response.status}`;
+            } catch (error: any) {
+                if (error instanceof MediaWikiApiError) throw error;
+                failure = error?.message || String(error);
+            }
+
+            if (attempt >= this.maxRetries) {
+                throw new MediaWikiApiError('retries-exhausted', `Gave up after ${attempt + 1} attempts: ${failure}`);
+            }
+            const delayMs = response?.retryAfterSeconds !== undefined
+                ? response.retryAfterSeconds * 1000
+                : this.retryBaseDelayMs * 2 ** attempt;
+            if (delayMs > this.maxRetryDelayMs) {
+                throw new MediaWikiApiError('retry-after-too-long', `Asked to retry after ${delayMs}ms (limit ${this.maxRetryDelayMs}ms): ${failure}`);
+            }
+            logger.warn(`[MediaWiki] Request failed (${failure}); retrying in ${delayMs}ms (attempt ${attempt + 1} of ${this.maxRetries}).`);
+            await this.sleep(delayMs);
+        }
+    }
+
+    /**
+     * Runs a query and follows "continue" tokens, yielding each response.
+     * Stop iterating to stop fetching.
+     */
+    async *queryContinued(params: MediaWikiParams): AsyncGenerator<any> {
+        let continueParams: Record<string, string> = {};
+        while (true) {
+            const response = await this.query({ ...params, ...continueParams });
+            yield response;
+            if (!response.continue) return;
+            continueParams = response.continue;
+        }
+    }
+
+    /**
+     * imageinfo for many files, MAX_TITLES_PER_QUERY titles per request.
+     * @param filenames With or without the "File:" prefix
+     * @returns Pages keyed by the filename as passed in. Missing and invalid
+     * titles come back as pages with missing / invalid set.
+     */
+    async getImageInfo(filenames: string[], props: string[] = DEFAULT_IMAGEINFO_PROPS): Promise<Map<string, ImageInfoPage>> {
+        const requestedByTitle = new Map<string, string[]>();
+        for (const filename of filenames) {
+            const title = toFileTitle(filename);
+            requestedByTitle.set(title, [...(requestedByTitle.get(title) || []), filename]);
+        }
+        const titles = [...requestedByTitle.keys()];
+        const results = new Map<string, ImageInfoPage>();
+
+        for (let i = 0; i < titles.length; i += MAX_TITLES_PER_QUERY) {
+            const batch = titles.slice(i, i + MAX_TITLES_PER_QUERY);
+            const pagesByTitle = new Map<string, ImageInfoPage>();
+            const aliases = new Map<string, string>(); // Requested title -> title the API answered with
+
+            for await (const response of this.queryContinued({
+                titles: batch.join('|'),
+                prop: 'imageinfo',
+                iiprop: props.join('|'),
+                redirects: 1 // Resolve file redirects; mapped back to the requested title below
+            })) {
+                for (const { from, to } of [...(response.query?.normalized || []), ...(response.query?.redirects || [])]) {
+                    aliases.set(from, to);
+                }
+                for (const page of (response.query?.pages || []) as ImageInfoPage[]) {
+                    const existing = pagesByTitle.get(page.title);
+                    // Continued responses repeat pages; merge their imageinfo
+                    pagesByTitle.set(page.title, existing
+                        ? { ...existing, imageinfo: [...(existing.imageinfo || []), ...(page.imageinfo || [])] }
+                        : page);
+                }
+            }
+
+            for (const title of batch) {
+                let resolved = title;
+                for (let hops = 0; aliases.has(resolved) && hops < 3; hops++) {
+                    resolved = aliases.get(resolved)!;
+                }
+                const page = pagesByTitle.get(resolved) || { title: resolved, missing: true };
+                for (const filename of requestedByTitle.get(title)!) {
+                    results.set(filename, page);
+                }
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Members of a category, following continuation until limit is reached.
+     * @param options.startSortKeyPrefix List from the first member whose sort key starts at or after this prefix
+     */
+    async getCategoryMembers(category: string, options: { limit: number; type?: 'file' | 'page' | 'subcat'; startSortKeyPrefix?: string }): Promise<PageReference[]> {
+        const members: PageReference[] = [];
+        for await (const response of this.queryContinued({
+            list: 'categorymembers',
+            cmtitle: category.startsWith('Category:') ? category : `Category:${category}`,
+            cmtype: options.type,
+            cmlimit: Math.min(options.limit, 500),
+            cmsort: options.startSortKeyPrefix ? 'sortkey' : undefined,
+            cmstartsortkeyprefix: options.startSortKeyPrefix || undefined
+        })) {
+            members.push(...(response.query?.categorymembers || []));
+            if (members.length >= options.limit) break;
+        }
+        return members.slice(0, options.limit);
+    }
+
+    /**
+     * Random pages in a namespace (6 = File), following continuation until limit is reached.
+     */
+    async getRandomPages(options: { limit: number; namespace?: number }): Promise<PageReference[]> {
+        const pages: PageReference[] = [];
+        for await (const response of this.queryContinued({
+            list: 'random',
+            rnnamespace: options.namespace ?? 6,
+            rnlimit: Math.min(options.limit, 500)
+        })) {
+            pages.push(...(response.query?.random || []));
+            if (pages.length >= options.limit) break;
+        }
+        return pages.slice(0, options.limit);
+    }
+}
+
+let commonsClient: MediaWikiClient | null = null;
+
+/**
+ * Shared client for Wikimedia Commons.
+ */
+export function getCommonsClient(): MediaWikiClient {
+    if (!commonsClient) {
+        commonsClient = new MediaWikiClient();
+    }
+    return commonsClient;
+}
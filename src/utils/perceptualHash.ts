@@ -0,0 +1,144 @@
+// src/utils/perceptualHash.ts
+import sharp from 'sharp';
+import { formatInTimeZone } from 'date-fns-tz';
+import mongoose from 'mongoose';
+import DailyChallenge from '../models/DailyChallenge';
+
+// Images whose dHashes differ in at most this many of 64 bits are treated as the
+// same photo; crops, re-encodes and small edits usually land well under it
+export const DUPLICATE_HASH_THRESHOLD = parseInt(process.env.DUPLICATE_HASH_THRESHOLD || '10', 10);
+
+export interface SimilarImageMatch {
+    challengeId: string;
+    date: string; // YYYY-MM-DD
+    round: number; // 1-based
+    title: string;
+    url: string;
+    distance: number;
+}
+
+export interface DuplicateImageWarning {
+    round: number; // 1-based round of the new image in the submitted challenge
+    title: string;
+    matches: SimilarImageMatch[];
+}
+
+/**
+ * 64-bit difference hash (dHash) as 16 hex characters: each bit says whether a
+ * pixel of a 9x8 grayscale thumbnail is brighter than its right neighbour.
+ */
+export async function computeDHash(image: sharp.Sharp): Promise<string> {
+    const { data } = await image
+        .clone()
+        .grayscale()
+        .resize(9, 8, { fit: 'fill' })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    let hash = '';
+    for (let row = 0; row < 8; row++) {
+        let nibble = 0;
+        for (let col = 0; col < 8; col++) {
+            const bit = data[row * 9 + col] > data[row * 9 + col + 1] ? 1 : 0;
+            nibble = (nibble << 1) | bit;
+            if (col % 4 === 3) {
+                hash += nibble.toString(16);
+                nibble = 0;
+            }
+        }
+    }
+    return hash;
+}
+
+export function hammingDistance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < a.length; i += 4) {
+        let diff = parseInt(a.slice(i, i + 4), 16) ^ parseInt(b.slice(i, i + 4), 16);
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+    return distance;
+}
+
+interface HashedChallengeImage {
+    challengeId: string;
+    date: string;
+    round: number;
+    title: string;
+    url: string;
+    perceptualHash: string;
+}
+
+// Hashed images on every DailyChallenge, past or scheduled
+async function loadHashedChallengeImages(excludeChallengeId?: string): Promise<HashedChallengeImage[]> {
+    const filter: Record<string, any> = { 'images.perceptualHash': { $exists: true } };
+    if (excludeChallengeId) {
+        filter._id = { $ne: new mongoose.Types.ObjectId(excludeChallengeId) };
+    }
+    const challenges = await DailyChallenge.find(filter)
+        .select('_id date images.title images.url images.perceptualHash')
+        .lean();
+
+    return challenges.flatMap(challenge => challenge.images
+        .map((image, index) => ({
+            challengeId: String(challenge._id),
+            date: formatInTimeZone(challenge.date, 'UTC', 'yyyy-MM-dd'),
+            round: index + 1,
+            title: image.title,
+            url: image.url,
+            perceptualHash: image.perceptualHash || ''
+        }))
+        .filter(image => image.perceptualHash));
+}
+
+function matchSimilar(hash: string, candidates: HashedChallengeImage[]): SimilarImageMatch[] {
+    const matches: SimilarImageMatch[] = [];
+    for (const { perceptualHash, ...candidate } of candidates) {
+        const distance = hammingDistance(hash, perceptualHash);
+        if (distance <= DUPLICATE_HASH_THRESHOLD) {
+            matches.push({ ...candidate, distance });
+        }
+    }
+    return matches.sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Duplicate warnings for the newly added images of a challenge being created or
+ * edited: matches on other challenges, and on other rounds of this one.
+ * @param challenge The challenge's date (YYYY-MM-DD), id if it exists, and full image list after the change
+ * @param newImageIndexes Indexes in challenge.images that were added by this request
+ */
+export async function findDuplicateImageWarnings(
+    challenge: { id?: string; date: string; images: Array<{ title: string; url: string; perceptualHash?: string }> },
+    newImageIndexes: number[]
+): Promise<DuplicateImageWarning[]> {
+    if (!newImageIndexes.some(index => challenge.images[index]?.perceptualHash)) {
+        return [];
+    }
+
+    const otherChallengeImages = await loadHashedChallengeImages(challenge.id);
+    const warnings: DuplicateImageWarning[] = [];
+    for (const index of newImageIndexes) {
+        const image = challenge.images[index];
+        if (!image?.perceptualHash) continue;
+
+        const sameChallengeImages: HashedChallengeImage[] = challenge.images
+            .map((other, otherIndex) => ({
+                challengeId: challenge.id || '',
+                date: challenge.date,
+                round: otherIndex + 1,
+                title: other.title,
+                url: other.url,
+                perceptualHash: otherIndex === index ? '' : other.perceptualHash || ''
+            }))
+            .filter(other => other.perceptualHash);
+
+        const matches = matchSimilar(image.perceptualHash, [...otherChallengeImages, ...sameChallengeImages]);
+        if (matches.length > 0) {
+            warnings.push({ round: index + 1, title: image.title, matches });
+        }
+    }
+    return warnings;
+}
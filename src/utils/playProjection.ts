@@ -0,0 +1,49 @@
+// src/utils/playProjection.ts
+import { WikimediaImage, PlayImage, ImageSource, ImageVariant, ImageVariantFormat } from '../types/wikimedia';
+
+// Preferred first; browsers take the first <source> type they support
+const SOURCE_FORMATS: Array<{ format: ImageVariantFormat; type: string }> = [
+  { format: 'avif', type: 'image/avif' },
+  { format: 'webp', type: 'image/webp' }
+];
+
+function toImageSources(variants: ImageVariant[] = []): ImageSource[] {
+  return SOURCE_FORMATS
+    .map(({ format, type }) => ({
+      type,
+      srcset: variants
+        .filter(variant => variant.format === format)
+        .sort((a, b) => a.width - b.width)
+        .map(variant => `${variant.url} ${variant.width}w`)
+        .join(', ')
+    }))
+    .filter(source => source.srcset.length > 0);
+}
+
+/**
+ * Strips the answer fields (year, revealedDescription) from a challenge image
+ * so it can be sent to a player before they guess. Fields are copied
+ * explicitly so new answer-bearing fields are not leaked by default.
+ */
+export function toPlayImage(image: WikimediaImage & { _id?: unknown }): PlayImage {
+  return {
+    _id: image._id,
+    url: image.url,
+    title: image.title,
+    source: image.source,
+    description: image.description,
+    filename: image.filename,
+    s3BaseIdentifier: image.s3BaseIdentifier,
+    tinyBlurredPlaceholderUrl: image.tinyBlurredPlaceholderUrl,
+    width: image.width,
+    height: image.height,
+    aspectRatio: image.aspectRatio,
+    blurHash: image.blurHash,
+    dominantColor: image.dominantColor,
+    sources: toImageSources(image.variants)
+  };
+}
+
+export function toPlayImages(images: WikimediaImage[]): PlayImage[] {
+  return (images || []).map(image => toPlayImage(image));
+}
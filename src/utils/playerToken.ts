@@ -0,0 +1,88 @@
+// src/utils/playerToken.ts
+import crypto from 'crypto';
+import { Request, RequestHandler } from 'express';
+import dotenv from 'dotenv';
+import logger from './logger';
+
+dotenv.config();
+
+export const PLAYER_TOKEN_HEADER = 'x-player-token';
+
+// Only used with NODE_ENV=development, so local play works without configuration
+const DEVELOPMENT_SECRET = 'insecure-dev-player-secret';
+
+let warnedAboutSecret = false;
+
+/**
+ * Whether tokens can be signed: PLAYER_TOKEN_SECRET is set, or this is a development instance.
+ */
+export function isPlayerTokenSecretConfigured(): boolean {
+  return !!process.env.PLAYER_TOKEN_SECRET || process.env.NODE_ENV === 'development';
+}
+
+function getSecret(): string {
+  const secret = process.env.PLAYER_TOKEN_SECRET;
+  if (secret) return secret;
+  // Anyone who knows the fallback could forge any player's token, so it is never used outside development
+  if (process.env.NODE_ENV !== 'development') {
+    throw new Error('PLAYER_TOKEN_SECRET is not set; player tokens cannot be signed or verified');
+  }
+  if (!warnedAboutSecret) {
+    logger.warn('[PlayerToken] PLAYER_TOKEN_SECRET not set. Using an insecure development secret for token signing.');
+    warnedAboutSecret = true;
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+function sign(playerId: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(playerId).digest('base64url');
+}
+
+/**
+ * Issues a new anonymous player token of the form `<playerId>.<hmac>`.
+ */
+export function issuePlayerToken(): { playerId: string; token: string } {
+  const playerId = crypto.randomBytes(16).toString('hex');
+  return { playerId, token: `${playerId}.${sign(playerId)}` };
+}
+
+/**
+ * Verifies a player token's signature.
+ * @returns The player ID, or null if the token is malformed or forged
+ */
+export function verifyPlayerToken(token: unknown): string | null {
+  if (typeof token !== 'string') return null;
+  const [playerId, signature, ...rest] = token.split('.');
+  if (!playerId || !signature || rest.length > 0 || !/^[0-9a-f]{32}$/.test(playerId)) {
+    return null;
+  }
+  const expected = Buffer.from(sign(playerId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return playerId;
+}
+
+/**
+ * Reads the player token from the X-Player-Token header (or body.playerToken).
+ * @returns The verified player ID, undefined if no token was sent, or null if it is invalid
+ */
+export function getPlayerIdFromRequest(req: Request): string | null | undefined {
+  const token = req.headers[PLAYER_TOKEN_HEADER] || req.body?.playerToken;
+  if (token === undefined || token === '') return undefined;
+  return verifyPlayerToken(token);
+}
+
+/**
+ * Middleware requiring a valid player token. The player ID is stored in res.locals.playerId.
+ */
+export const requirePlayer: RequestHandler = (req, res, next) => {
+  const playerId = getPlayerIdFromRequest(req);
+  if (!playerId) {
+    res.status(401).json({ error: 'Missing or invalid player token' });
+    return;
+  }
+  res.locals.playerId = playerId;
+  next();
+};
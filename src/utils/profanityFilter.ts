@@ -0,0 +1,38 @@
+// src/utils/profanityFilter.ts
+
+// Matched anywhere in the name once separators are removed
+const BLOCKED_SUBSTRINGS = [
+  'asshole', 'bastard', 'bitch', 'bollocks', 'bullshit', 'dickhead', 'dildo', 'douche', 'faggot',
+  'fuck', 'goddamn', 'jackass', 'jerkoff', 'motherfucker', 'nigga', 'nigger', 'pussy', 'retard',
+  'shit', 'slut', 'wanker', 'whore'
+];
+
+// Only matched as whole words so innocent names ("Dickens", "Scunthorpe", "class") pass
+const BLOCKED_WHOLE_WORDS = [
+  'arse', 'ass', 'cock', 'crap', 'cunt', 'damn', 'dick', 'fag', 'kike', 'nazi', 'penis', 'piss',
+  'porn', 'prick', 'rape', 'spic', 'twat', 'vagina', 'wank'
+];
+
+const LEET_MAP: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '@': 'a', '$': 's', '!': 'i'
+};
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .split('')
+    .map(char => LEET_MAP[char] || char)
+    .join('');
+}
+
+/**
+ * Whether text contains a blocked word, including simple leetspeak and
+ * separator tricks ("f.u.c.k", "sh1t").
+ */
+export function containsProfanity(text: string): boolean {
+  const words = normalize(text).split(/[^a-z]+/).filter(Boolean);
+  const collapsed = words.join('');
+
+  return BLOCKED_SUBSTRINGS.some(word => collapsed.includes(word)) ||
+    BLOCKED_WHOLE_WORDS.some(word => words.includes(word) || words.includes(word + 's') || words.includes(word + 'es'));
+}
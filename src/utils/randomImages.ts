@@ -0,0 +1,554 @@
+// src/utils/randomImages.ts
+// Random Commons photos with a year, for GET /api/images/. Fetched photos are
+// kept in the shared image cache by decade range and added to the candidate pool.
+import logger from './logger';
+import { getCommonsClient, ImageInfo } from './mediaWikiClient';
+import { recordCandidateImages } from './candidateImages';
+import { extractYear, hasReliableYear } from './yearExtraction';
+import { extractAttribution } from './imageAttribution';
+import { getImageCache, recordImageCacheLookup, CachedImage } from './imageCache';
+
+export const MIN_YEAR = 1850; // Minimum year allowed for images
+
+// Get current year for max year limit
+export const CURRENT_YEAR = new Date().getFullYear();
+
+export interface DecadeRange {
+  start: number;
+  end: number;
+}
+
+// Decade ranges to ensure even distribution
+export const DECADE_RANGES: Array<DecadeRange & { weight: number }> = [
+  { start: 1850, end: 1899, weight: 1 },  // Less weight for oldest photos
+  { start: 1900, end: 1919, weight: 2 },
+  { start: 1920, end: 1939, weight: 3 },
+  { start: 1940, end: 1959, weight: 3 },
+  { start: 1960, end: 1979, weight: 3 },
+  { start: 1980, end: 1999, weight: 3 },
+  { start: 2000, end: CURRENT_YEAR, weight: 5 }
+];
+
+// Every image the fetchers return also goes into the CandidateImage pool for review
+function recordCandidates(images: CachedImage[]): void {
+  recordCandidateImages(images.map(image => ({
+    filename: image.filename || image.title,
+    title: image.title,
+    url: image.url,
+    source: image.source,
+    year: image.year,
+    yearConfidence: image.yearConfidence || 'medium',
+    yearSource: image.yearSource,
+    yearRange: image.yearRange,
+    attribution: image.attribution,
+    description: image.description,
+    category: image.category
+  }))).catch(err => logger.error('[Images] Failed to record candidate images:', err));
+}
+
+// STRICTLY photo-only file extensions
+const ALLOWED_EXTENSIONS = ['.jpg', '.jpeg'];
+
+
+// Categories focused specifically on photographs
+export const photoCategories = [
+  'Category:Photographs_by_decade',
+  'Category:Historical_photographs',
+  'Category:Portrait_photographs',
+  'Category:Documentary_photographs',
+  'Category:Photojournalism',
+  'Category:Landscape_photographs',
+  'Category:Architecture_photographs',
+  'Category:Wildlife_photography',
+  'Category:Street_photography',
+  'Category:Photographs',
+  'Category:People_in_photographs',
+  'Category:Group_photographs',
+  'Category:Color_photographs',
+  'Category:Black_and_white_photographs',
+  'Category:Digital_photographs',
+  'Category:Photographers',
+  'Category:Vintage_photographs',
+  'Category:Festival_photographs',
+  'Category:Event_photographs'
+];
+
+// Parent categories whose members are nearly all subcategories, so listing their files finds next to nothing
+const SUBCATEGORY_ONLY_CATEGORIES = ['Category:Photographs_by_decade', 'Category:Photographers', 'Category:Photographs'];
+
+// photoCategories that hold files directly; the ones draws are made from
+export const fileCategories = photoCategories.filter(category => !SUBCATEGORY_ONLY_CATEGORIES.includes(category));
+
+// Maximum number of API retries
+const MAX_RETRIES = 3;
+const IMAGES_PER_REQUEST = 100;
+
+// Category listings start at a random sort key so repeated draws don't re-list the same first files.
+// The empty prefix lists from the start, where titles beginning with digits sort
+const SORT_KEY_PREFIXES = ['', ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ'];
+
+// Most files listed when checking whether a category has any unseen photo left
+const CATEGORY_SCAN_LIMIT = 1000;
+
+// Helper function to check if a file is a photograph by its extension
+function isPhotoFile(filename: string): boolean {
+  const lowerFilename = filename.toLowerCase();
+  return ALLOWED_EXTENSIONS.some(ext => lowerFilename.endsWith(ext));
+}
+
+// Helper function to determine if metadata indicates a real photograph
+function isLikelyRealPhoto(metadata: any): boolean {
+  if (!metadata) return false;
+  
+  // Accept more images by being more lenient with metadata checks
+  
+  // Check for camera information (strong indicators)
+  if (metadata.Artist || metadata.Make || metadata.Model) return true;
+  
+  // Accept images with copyright information as they're likely real photos
+  if (metadata.Copyright || metadata.LicenseShortName) return true;
+  
+  // Check for photo-specific categories with broader terms
+  if (metadata.Categories) {
+    const categories = metadata.Categories.value || '';
+    const photoKeywords = ['photograph', 'photo', 'portrait', 'camera', 'picture', 'image', 'snapshot'];
+    const negativeKeywords = ['drawing', 'illustration', 'clipart', 'diagram', 'logo', 'chart'];
+    
+    if (photoKeywords.some(keyword => categories.toLowerCase().includes(keyword)) &&
+        !negativeKeywords.some(keyword => categories.toLowerCase().includes(keyword))) {
+      return true;
+    }
+  }
+  
+  // Check for description suggesting it's a photograph with broader terms
+  if (metadata.ImageDescription) {
+    const description = metadata.ImageDescription.value || '';
+    const photoKeywords = ['photograph', 'photo', 'taken', 'camera', 'picture', 'captured', 'shot', 'image'];
+    const negativeKeywords = ['drawing', 'illustration', 'clipart', 'diagram', 'logo', 'chart'];
+    
+    if (photoKeywords.some(keyword => description.toLowerCase().includes(keyword)) &&
+        !negativeKeywords.some(keyword => description.toLowerCase().includes(keyword))) {
+      return true;
+    }
+  }
+
+  // Check if the file has a date that looks like a photo date
+  if (metadata.DateTimeOriginal || metadata.DateTime || metadata.DateTimeDigitized) {
+    return true;
+  }
+  
+  // More lenient check: if it has author information, it might be a photo
+  if (metadata.AuthorCreditText || metadata.Artist || metadata.Credit) {
+    return true;
+  }
+  
+  // Accept images with GPS data as they're almost certainly photographs
+  if (metadata.GPSLatitude || metadata.GPSLongitude) {
+    return true;
+  }
+  
+  // If it has credit or attribution, it's more likely to be a real photo
+  if (metadata.Attribution || metadata.Credit) {
+    return true;
+  }
+  
+  // If the mime type is known to be a photo type, that's a good indicator
+  if (metadata.MIMEType && 
+      (metadata.MIMEType.value?.includes('image/jpeg') || 
+       metadata.MIMEType.value?.includes('image/png'))) {
+    return true;
+  }
+  
+  return false;
+}
+
+// Photo files among category members; video and audio extensions are excluded
+function toPhotoTitles(files: Array<{ title: string }>): string[] {
+  return files
+    .map(file => file.title.replace('File:', ''))
+    .filter(title => {
+      // Skip if not a photo file (strict check)
+      if (!isPhotoFile(title)) {
+        return false;
+      }
+
+      // Additional check for video/audio extensions that should be excluded
+      const lowerTitle = title.toLowerCase();
+      return !['.mp4', '.webm', '.ogv', '.avi', '.mov', '.mpg', '.mpeg', '.mp3', '.ogg'].some(ext => lowerTitle.endsWith(ext));
+    });
+}
+
+// A category file as a cached image, or null if it isn't a dated photo within decadeRange
+function toCategoryImage(title: string, imageInfo: ImageInfo | undefined, category: string, decadeRange: DecadeRange): CachedImage | null {
+  if (!imageInfo) {
+    return null;
+  }
+
+  // Triple-check: verify it's an image type by checking mime type too
+  if (imageInfo.mime && !imageInfo.mime.startsWith('image/')) {
+    return null;
+  }
+
+  // Verify it's a bitmap image, not another type
+  if (imageInfo.mediatype && imageInfo.mediatype !== 'BITMAP') {
+    return null;
+  }
+
+  // Check for real photo indications - be more strict here
+  if (!isLikelyRealPhoto(imageInfo.extmetadata)) {
+    return null;
+  }
+
+  // Get year with confidence level, falling back to the upload year
+  const extracted = extractYear(imageInfo.extmetadata, {
+    uploadTimestamp: imageInfo.timestamp,
+    minYear: MIN_YEAR,
+    maxYear: CURRENT_YEAR
+  });
+  if (!extracted) {
+    return null;
+  }
+  const { year, confidence } = extracted;
+
+  // Skip if confidence is low or year isn't in our target decade range
+  if (year < decadeRange.start || year > decadeRange.end) {
+    return null;
+  }
+  if (confidence === 'low' && year < 1950) {
+    return null;
+  }
+
+  return {
+    title,
+    url: imageInfo.url,
+    source: 'Wikimedia Commons',
+    year,
+    yearConfidence: confidence,
+    yearSource: extracted.source,
+    yearRange: extracted.range,
+    attribution: extractAttribution(imageInfo.extmetadata),
+    cachedAt: Date.now(),
+    category,
+    description: imageInfo.extmetadata?.ImageDescription?.value || '',
+    filename: title
+  };
+}
+
+// Function to fetch images from a specific category, listed from a random sort key
+export async function getImagesFromCategory(category: string, decadeRange: DecadeRange): Promise<CachedImage[]> {
+  try {
+    const client = getCommonsClient();
+    const files = await client.getCategoryMembers(category, {
+      limit: IMAGES_PER_REQUEST,
+      type: 'file',
+      startSortKeyPrefix: SORT_KEY_PREFIXES[Math.floor(Math.random() * SORT_KEY_PREFIXES.length)]
+    });
+    const titles = toPhotoTitles(files);
+
+    // Get image info including upload date, URL, etc., in batches
+    const pages = await client.getImageInfo(titles);
+
+    const images = titles
+      .map(title => toCategoryImage(title, pages.get(title)?.imageinfo?.[0], category, decadeRange))
+      .filter(img => img !== null) as CachedImage[];
+    recordCandidates(images);
+    return images;
+  } catch (error) {
+    logger.error(`[RandomImages] Failed to fetch images from ${category}:`, error);
+    return [];
+  }
+}
+
+export interface CategoryScanResult {
+  image: CachedImage | null; // A random unseen photo within the range, if any is left
+  exhausted: boolean; // The whole category was listed and has no unseen photo within the range
+}
+
+/**
+ * Lists a whole category (up to CATEGORY_SCAN_LIMIT files) for a photo within
+ * decadeRange that isn't excluded, for when random listings only turn up seen ones.
+ * With reliableYearOnly, photos whose year fails hasReliableYear don't count.
+ * Larger categories are never reported as exhausted.
+ * @throws When Commons can't be reached, so a failed scan is never taken for an exhausted category
+ */
+export async function scanCategoryForUnseenImage(category: string, decadeRange: DecadeRange, exclude: string[], reliableYearOnly = false): Promise<CategoryScanResult> {
+  const client = getCommonsClient();
+  const files = await client.getCategoryMembers(category, { limit: CATEGORY_SCAN_LIMIT + 1, type: 'file' });
+  const complete = files.length <= CATEGORY_SCAN_LIMIT;
+
+  const excluded = new Set(exclude);
+  const titles = toPhotoTitles(files.slice(0, CATEGORY_SCAN_LIMIT)).filter(title => !excluded.has(title));
+  const pages = titles.length > 0 ? await client.getImageInfo(titles) : new Map();
+  const images = titles
+    .map(title => toCategoryImage(title, pages.get(title)?.imageinfo?.[0], category, decadeRange))
+    .filter(img => img !== null && (!reliableYearOnly || hasReliableYear(img))) as CachedImage[];
+
+  return {
+    image: images.length > 0 ? images[Math.floor(Math.random() * images.length)] : null,
+    exhausted: complete && images.length === 0
+  };
+}
+
+// Function to get random decade range with balanced distribution
+export function getRandomDecadeRange(): DecadeRange {
+  // Calculate the total weight
+  const totalWeight = DECADE_RANGES.reduce((sum, range) => sum + range.weight, 0);
+  
+  // Generate a random value between 0 and the total weight
+  const randomValue = Math.random() * totalWeight;
+  
+  // Use the random value to select a decade range based on its weight
+  let weightSum = 0;
+  for (const range of DECADE_RANGES) {
+    weightSum += range.weight;
+    if (randomValue <= weightSum) {
+      return { start: range.start, end: range.end };
+    }
+  }
+  
+  // Fallback (should never reach here if weights are positive)
+  return DECADE_RANGES[DECADE_RANGES.length - 1];
+}
+
+// Function to fetch random images directly
+export async function getRandomWikimediaImages(decadeRange: DecadeRange): Promise<CachedImage[]> {
+  try {
+    // Fetch random files from Wikimedia API
+    const client = getCommonsClient();
+    const randomImages = await client.getRandomPages({ limit: IMAGES_PER_REQUEST, namespace: 6 });
+
+    // Skip anything that isn't a photo file
+    const titles = randomImages
+      .map(img => img.title.replace('File:', ''))
+      .filter(title => isPhotoFile(title));
+
+    // Get image info including upload date, URL, etc., in batches
+    const pages = await client.getImageInfo(titles);
+
+    // Process each image to get more details and year information
+    const processedImages = titles.map((title): CachedImage | null => {
+        const imageInfo = pages.get(title)?.imageinfo?.[0];
+        if (!imageInfo) {
+          return null;
+        }
+        
+        // Verify it's an image type by checking mime type
+        if (imageInfo.mime && !imageInfo.mime.startsWith('image/')) {
+          return null;
+        }
+        
+        // Verify it's a bitmap image
+        if (imageInfo.mediatype && imageInfo.mediatype !== 'BITMAP') {
+          return null;
+        }
+        
+        // Check for real photo indications
+        if (!isLikelyRealPhoto(imageInfo.extmetadata)) {
+          return null;
+        }
+        
+        // Get year with confidence level, falling back to the upload year
+        const extracted = extractYear(imageInfo.extmetadata, {
+          uploadTimestamp: imageInfo.timestamp,
+          minYear: MIN_YEAR,
+          maxYear: CURRENT_YEAR
+        });
+        if (!extracted) {
+          return null;
+        }
+        const { year, confidence } = extracted;
+        
+        // Skip if confidence is low or year isn't in our target decade range
+        if (confidence === 'low' && year < 1950) {
+          return null;
+        }
+        
+        return {
+          title,
+          url: imageInfo.url,
+          source: 'Wikimedia Commons',
+          year,
+          yearConfidence: confidence,
+          yearSource: extracted.source,
+          yearRange: extracted.range,
+          attribution: extractAttribution(imageInfo.extmetadata),
+          cachedAt: Date.now(),
+          description: imageInfo.extmetadata?.ImageDescription?.value || '',
+          filename: title
+        };
+    });
+
+    const images = processedImages.filter(img => img !== null) as CachedImage[];
+    recordCandidates(images);
+    return images;
+  } catch (error) {
+
+    return [];
+  }
+}
+
+// A bucket is served from once it holds at least this many images
+const MIN_STOCK_TO_SERVE = 4;
+
+// The warmer tops every DECADE_RANGES bucket up to this many images
+export const IMAGE_CACHE_MIN_STOCK = parseInt(process.env.IMAGE_CACHE_MIN_STOCK || '10', 10);
+
+// Fetches per bucket in one warmer run, so a sparse decade can't hold the run up
+const WARM_ATTEMPTS_PER_DECADE = 6;
+
+export function getDecadeKey(range: DecadeRange): string {
+  return `${range.start}-${range.end}`;
+}
+
+function getDecadeRangeForYear(year: number): DecadeRange | undefined {
+  return DECADE_RANGES.find(range => year >= range.start && year <= range.end);
+}
+
+// DECADE_RANGES buckets that lie wholly within a range; a bucket's own range gives just that bucket
+function getBucketsWithin(decadeRange: DecadeRange): DecadeRange[] {
+  return DECADE_RANGES.filter(range => range.start >= decadeRange.start && range.end <= decadeRange.end);
+}
+
+// Files every image under its own DECADE_RANGES bucket, whatever range it was fetched for,
+// so only the buckets the warmer stocks (and the metrics report) are ever written
+async function cacheImages(images: CachedImage[]): Promise<void> {
+  const byDecade = new Map<string, CachedImage[]>();
+  for (const image of images) {
+    const range = getDecadeRangeForYear(image.year);
+    if (!range) continue;
+    const decadeKey = getDecadeKey(range);
+    byDecade.set(decadeKey, [...(byDecade.get(decadeKey) || []), image]);
+  }
+
+  const cache = getImageCache();
+  await Promise.all([...byDecade].map(([decadeKey, bucket]) => cache.add(decadeKey, bucket)));
+}
+
+export interface FindRandomImageOptions {
+  category?: string; // Draw only from this category instead of random categories and list=random
+  exclude?: string[]; // Filenames that must not be returned
+  skipCache?: boolean; // Fetch fresh images even when the bucket has stock
+  reliableYearOnly?: boolean; // Only images whose year passes hasReliableYear
+}
+
+/**
+ * A random photo with its year within decadeRange. Served from the image cache
+ * when a DECADE_RANGES bucket within the range has stock (a wider range tries
+ * each of its buckets, starting from a random one); otherwise fetched from Commons (random categories
+ * first, then list=random) and cached.
+ * @returns null if no photo in the range could be found
+ */
+export async function findRandomImage(decadeRange: DecadeRange, options: FindRandomImageOptions = {}): Promise<CachedImage | null> {
+  const decadeKey = getDecadeKey(decadeRange);
+  const excluded = new Set(options.exclude || []);
+
+  // Buckets aren't kept per category, so category draws always go to Commons
+  if (!options.skipCache && !options.category) {
+    const buckets = getBucketsWithin(decadeRange);
+    const first = Math.floor(Math.random() * buckets.length);
+    for (let i = 0; i < buckets.length; i++) {
+      const bucketKey = getDecadeKey(buckets[(first + i) % buckets.length]);
+      try {
+        const cached = await getImageCache().sample(bucketKey, MIN_STOCK_TO_SERVE, options.exclude, options.reliableYearOnly);
+        recordImageCacheLookup(bucketKey, cached !== null);
+        if (cached) {
+          return cached;
+        }
+      } catch (error) {
+        logger.error(`[RandomImages] Image cache lookup failed for ${bucketKey}:`, error);
+      }
+    }
+  }
+
+  const fetchers = options.category
+    ? [() => getImagesFromCategory(options.category!, decadeRange)]
+    : [
+        () => getImagesFromCategory(fileCategories[Math.floor(Math.random() * fileCategories.length)], decadeRange),
+        () => getRandomWikimediaImages(decadeRange)
+      ];
+  for (const fetchImages of fetchers) {
+    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+      const images = await fetchImages();
+      if (images.length > 0) {
+        cacheImages(images)
+          .catch(err => logger.error(`[RandomImages] Failed to cache images for ${decadeKey}:`, err));
+      }
+
+      // list=random isn't filtered by decade, so check the range here
+      const usable = images.filter(image =>
+        image.year >= decadeRange.start && image.year <= decadeRange.end && !excluded.has(image.filename || image.title)
+        && (!options.reliableYearOnly || hasReliableYear(image)));
+      if (usable.length > 0) {
+        return usable[Math.floor(Math.random() * usable.length)];
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * A random photo with its year from the given decade range, or from a weighted
+ * random one. Falls back to another decade, then to a fixed image, rather than failing.
+ * @param options.skipCache Fetch fresh images even when the bucket has stock
+ */
+export async function getRandomImageWithYear(targetDecade?: DecadeRange, options: { skipCache?: boolean } = {}): Promise<CachedImage> {
+  // If no target decade specified, choose one randomly
+  const decadeRange = targetDecade || getRandomDecadeRange();
+
+  const image = await findRandomImage(decadeRange, options);
+  if (image) {
+    return image;
+  }
+
+  // If we still have no images, try with a different decade
+  if (targetDecade) {
+    return getRandomImageWithYear();
+  }
+
+  // Final fallback: if all else fails, generate a simple image with the decade range
+  return {
+    title: "Historical photograph",
+    url: "https://upload.wikimedia.org/wikipedia/commons/thumb/1/1e/Apollo_11_first_step.jpg/800px-Apollo_11_first_step.jpg",
+    source: "Wikimedia Commons",
+    year: Math.floor((decadeRange.start + decadeRange.end) / 2),
+    cachedAt: Date.now(),
+    description: "Fallback image - no images found for this decade range",
+    filename: "Apollo_11_first_step.jpg"
+  };
+}
+
+export interface ImageCacheWarmResult {
+  fetched: number;
+  counts: Record<string, number>; // Stock per bucket after the run
+  understocked: string[]; // Buckets still below IMAGE_CACHE_MIN_STOCK
+}
+
+/**
+ * Tops every DECADE_RANGES bucket up to IMAGE_CACHE_MIN_STOCK images,
+ * alternating between category and list=random fetches.
+ */
+export async function warmImageCache(): Promise<ImageCacheWarmResult> {
+  const cache = getImageCache();
+  let counts = await cache.counts();
+  let fetched = 0;
+
+  for (const range of DECADE_RANGES) {
+    const decadeKey = getDecadeKey(range);
+    for (let attempt = 0; (counts[decadeKey] || 0) < IMAGE_CACHE_MIN_STOCK && attempt < WARM_ATTEMPTS_PER_DECADE; attempt++) {
+      const images = attempt % 2 === 0
+        ? await getImagesFromCategory(fileCategories[Math.floor(Math.random() * fileCategories.length)], range)
+        : await getRandomWikimediaImages(range);
+      if (images.length === 0) continue;
+
+      await cacheImages(images);
+      fetched += images.length;
+      counts = await cache.counts();
+    }
+  }
+
+  const understocked = DECADE_RANGES
+    .map(range => getDecadeKey(range))
+    .filter(decadeKey => (counts[decadeKey] || 0) < IMAGE_CACHE_MIN_STOCK);
+  logger.info(`[RandomImages] Warmed image cache: fetched ${fetched} image(s); ${understocked.length} bucket(s) below ${IMAGE_CACHE_MIN_STOCK}.`);
+  return { fetched, counts, understocked };
+}
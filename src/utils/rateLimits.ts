@@ -0,0 +1,65 @@
+// src/utils/rateLimits.ts
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import rateLimit from 'express-rate-limit';
+import logger from './logger';
+import { getPlayerIdFromRequest } from './playerToken';
+
+// Every per-player limit is also applied per IP at this multiple. Tokens are cheap to mint
+// in advance, so without it each one would bring a fresh allowance from the same machine;
+// the multiple leaves room for several players behind a shared NAT
+export const PER_IP_LIMIT_MULTIPLIER = 5;
+
+export interface ClientRateLimitOptions {
+  windowMs: number;
+  max: number; // Per player, or per IP for callers without a token
+  message: string;
+  keySuffix?: (req: Request) => string; // Narrows both keys, e.g. to the challenge date
+  ipOnly?: boolean; // Limit per IP alone, even for callers sending a player token
+}
+
+export function getClientIp(req: Request): string {
+  // Use 'x-forwarded-for' if behind a proxy, otherwise fallback
+  return req.headers['x-forwarded-for']?.toString().split(',')[0] || req.socket.remoteAddress || 'unknown-ip';
+}
+
+/**
+ * Rate limit key for a caller: the player ID when a valid token is sent (so a
+ * shared NAT doesn't block everyone behind it), otherwise the client IP.
+ */
+export function getClientRateLimitKey(req: Request): string {
+  const playerId = getPlayerIdFromRequest(req);
+  if (playerId) {
+    return 'player-' + playerId;
+  }
+  return getClientIp(req);
+}
+
+function createLimiter(name: string, options: ClientRateLimitOptions, baseKey: (req: Request) => string): RequestHandler {
+  const keyGenerator = (req: Request): string => options.keySuffix ? baseKey(req) + '-' + options.keySuffix(req) : baseKey(req);
+  return rateLimit({
+    windowMs: options.windowMs,
+    max: options.max,
+    message: { error: options.message },
+    standardHeaders: true,
+    legacyHeaders: false,
+    keyGenerator,
+    handler: (req: Request, res: Response, next: NextFunction, limitOptions: any) => {
+      logger.warn(`[Rate Limit Blocked] Key: ${keyGenerator(req)} exceeded ${name} limit.`);
+      res.status(limitOptions.statusCode).send(limitOptions.message);
+    }
+  });
+}
+
+/**
+ * Per-caller limiter for game endpoints, backed by a per-IP limit of
+ * PER_IP_LIMIT_MULTIPLIER times max. With ipOnly, a single per-IP limit of max.
+ * @param name Shown in the log line when a caller is blocked
+ */
+export function createClientRateLimiter(name: string, options: ClientRateLimitOptions): RequestHandler {
+  if (options.ipOnly) {
+    return createLimiter(name, options, req => 'ip-' + getClientIp(req));
+  }
+  const callerLimiter = createLimiter(name, options, getClientRateLimitKey);
+  const ipLimiter = createLimiter(`${name} per-IP`, { ...options, max: options.max * PER_IP_LIMIT_MULTIPLIER }, req => 'ip-' + getClientIp(req));
+  return (req, res, next) => callerLimiter(req, res, (error?: unknown) => error ? next(error) : ipLimiter(req, res, next));
+}
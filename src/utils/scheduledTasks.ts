@@ -0,0 +1,116 @@
+// src/utils/scheduledTasks.ts
+import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
+import { subDays } from 'date-fns';
+import DailyChallenge from '../models/DailyChallenge';
+import { archiveAndCleanupRoundGuesses } from '../scripts/archiveOldRoundGuesses';
+import { processAndStoreRoundGuessDistributions } from './distributionProcessor';
+import { recomputeProcessedDistribution } from './challengeStats';
+import { auditGameImageMetadata } from './imageProcessor';
+import { TARGET_TIMEZONE } from './challengeDates';
+import { warmImageCache, IMAGE_CACHE_MIN_STOCK } from './randomImages';
+import logger from './logger';
+
+export interface ScheduledTask {
+    name: string;
+    description: string;
+    // Cron expression used when the task's env var is unset; evaluated in TARGET_TIMEZONE
+    defaultSchedule: string;
+    // Env var overriding the schedule; "off" disables the task
+    scheduleEnvVar: string;
+    // How long a run may hold the task's lock before another instance may take over
+    leaseMs: number;
+    // Resolves with an optional summary stored in the run history
+    run: () => Promise<string | void>;
+}
+
+// Challenges that ended within this many days are finalized if still open
+const FINALIZE_LOOKBACK_DAYS = 7;
+
+/**
+ * Recomputes the round guess and score distributions one last time for
+ * challenges that have ended but are not finalized yet, so their final stats
+ * are in place before the archival run removes the raw guesses.
+ */
+async function finalizeEndedChallengeDistributions(): Promise<string> {
+    const todayET = formatInTimeZone(new Date(), TARGET_TIMEZONE, 'yyyy-MM-dd');
+    const todayStart = toZonedTime(`${todayET}T00:00:00`, TARGET_TIMEZONE);
+
+    const endedChallenges = await DailyChallenge.find({
+        date: { $gte: subDays(todayStart, FINALIZE_LOOKBACK_DAYS), $lt: todayStart },
+        roundStatsFinalized: { $ne: true }
+    }).select('_id date').sort({ date: 1 });
+
+    const failedDates: string[] = [];
+    for (const challenge of endedChallenges) {
+        const challengeDateString = formatInTimeZone(challenge.date, 'UTC', 'yyyy-MM-dd');
+        try {
+            await processAndStoreRoundGuessDistributions(challengeDateString);
+            await recomputeProcessedDistribution(String(challenge._id));
+            logger.info(`[Scheduler] Finalized distributions for ${challengeDateString}.`);
+        } catch (error) {
+            logger.error(`[Scheduler] Failed to finalize distributions for ${challengeDateString}:`, error);
+            failedDates.push(challengeDateString);
+        }
+    }
+
+    if (failedDates.length > 0) {
+        throw new Error(`Failed to finalize distributions for ${failedDates.join(', ')}`);
+    }
+    return `Finalized distributions for ${endedChallenges.length} challenge(s)`;
+}
+
+export const SCHEDULED_TASKS: ScheduledTask[] = [
+    {
+        name: 'finalizeRoundDistributions',
+        description: 'Final recompute of round guess and score distributions for challenges that have ended',
+        defaultSchedule: '5 0 * * *',
+        scheduleEnvVar: 'SCHEDULE_FINALIZE_ROUND_DISTRIBUTIONS',
+        leaseMs: 30 * 60 * 1000,
+        run: finalizeEndedChallengeDistributions
+    },
+    {
+        name: 'archiveRoundGuesses',
+        description: 'Archive raw round guesses of past challenges to S3 and remove them from MongoDB',
+        defaultSchedule: '30 3 * * *',
+        scheduleEnvVar: 'SCHEDULE_ARCHIVE_ROUND_GUESSES',
+        leaseMs: 2 * 60 * 60 * 1000,
+        run: async () => {
+            const result = await archiveAndCleanupRoundGuesses(true);
+            const summary = `Processed ${result.processed} challenge(s)`;
+            if (result.failed.length > 0) {
+                throw new Error(`${summary}, ${result.failed.length} failed: ${result.failed.map(f => `${f.challengeDateString} (${f.error})`).join('; ')}`);
+            }
+            return summary;
+        }
+    },
+    {
+        // Off by default: reads every stored image. Run it from POST /admin/scheduler/tasks/sanitizeGameImages/run
+        name: 'sanitizeGameImages',
+        description: 'Audit stored game-images/ variants for EXIF/XMP/IPTC metadata and re-encode any that carry it',
+        defaultSchedule: 'off',
+        scheduleEnvVar: 'SCHEDULE_SANITIZE_GAME_IMAGES',
+        leaseMs: 2 * 60 * 60 * 1000,
+        run: async () => {
+            const result = await auditGameImageMetadata();
+            const summary = `Checked ${result.checked} image(s): ${result.clean} clean, ${result.reprocessed.length} reprocessed, ${result.skipped.length} skipped`;
+            if (result.failed.length > 0) {
+                throw new Error(`${summary}, ${result.failed.length} failed: ${result.failed.map(f => `${f.key} (${f.error})`).join('; ')}`);
+            }
+            return summary;
+        }
+    },
+    {
+        name: 'warmImageCache',
+        description: `Top up every decade bucket of the random image cache to ${IMAGE_CACHE_MIN_STOCK} images`,
+        defaultSchedule: '*/10 * * * *',
+        scheduleEnvVar: 'SCHEDULE_WARM_IMAGE_CACHE',
+        leaseMs: 10 * 60 * 1000,
+        run: async () => {
+            const result = await warmImageCache();
+            const summary = `Fetched ${result.fetched} image(s)`;
+            return result.understocked.length > 0
+                ? `${summary}; still below ${IMAGE_CACHE_MIN_STOCK}: ${result.understocked.map(key => `${key} (${result.counts[key] || 0})`).join(', ')}`
+                : summary;
+        }
+    }
+];
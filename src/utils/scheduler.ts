@@ -0,0 +1,224 @@
+// src/utils/scheduler.ts
+import os from 'os';
+import mongoose from 'mongoose';
+import SchedulerLock from '../models/SchedulerLock';
+import SchedulerRun, { ISchedulerRun, SchedulerRunTrigger } from '../models/SchedulerRun';
+import { CronSchedule, parseCronExpression, cronMatches, getNextCronRun } from './cron';
+import { SCHEDULED_TASKS, ScheduledTask } from './scheduledTasks';
+import { TARGET_TIMEZONE } from './challengeDates';
+import logger from './logger';
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+interface ConfiguredTask {
+    task: ScheduledTask;
+    expression: string | null; // null when disabled
+    schedule: CronSchedule | null;
+    configError?: string;
+}
+
+export interface StartedTaskRun {
+    run: ISchedulerRun;
+    completion: Promise<void>;
+}
+
+let configuredTasks: ConfiguredTask[] | null = null;
+
+// Reads each task's schedule from its env var (falling back to the default).
+// An invalid expression disables that task rather than the whole scheduler.
+function getConfiguredTasks(): ConfiguredTask[] {
+    if (configuredTasks) return configuredTasks;
+
+    configuredTasks = SCHEDULED_TASKS.map(task => {
+        const expression = (process.env[task.scheduleEnvVar] || task.defaultSchedule).trim();
+        if (expression.toLowerCase() === 'off') {
+            return { task, expression: null, schedule: null };
+        }
+        try {
+            return { task, expression, schedule: parseCronExpression(expression) };
+        } catch (error: any) {
+            logger.error(`[Scheduler] Invalid schedule "${expression}" in ${task.scheduleEnvVar} for task ${task.name}. Task disabled: ${error.message}`);
+            return { task, expression, schedule: null, configError: error.message };
+        }
+    });
+    return configuredTasks;
+}
+
+export function getScheduledTask(name: string): ScheduledTask | undefined {
+    return SCHEDULED_TASKS.find(task => task.name === name);
+}
+
+// Takes the task's lease. Scheduled runs also claim the scheduled minute, so
+// instances ticking the same minute run the task once between them.
+async function acquireTaskLock(task: ScheduledTask, scheduledFor: Date | null): Promise<boolean> {
+    const now = new Date();
+    const conditions: Record<string, any>[] = [
+        { $or: [{ lockedUntil: null }, { lockedUntil: { $lt: now } }] }
+    ];
+    const update: Record<string, any> = { lockedBy: INSTANCE_ID, lockedUntil: new Date(now.getTime() + task.leaseMs) };
+    if (scheduledFor) {
+        conditions.push({ $or: [{ lastScheduledFor: { $exists: false } }, { lastScheduledFor: { $lt: scheduledFor } }] });
+        update.lastScheduledFor = scheduledFor;
+    }
+
+    try {
+        const lock = await SchedulerLock.findOneAndUpdate(
+            { _id: task.name, $and: conditions },
+            { $set: update },
+            { upsert: true, new: true }
+        );
+        return !!lock;
+    } catch (error: any) {
+        // The lock document exists but didn't match: another instance holds it or already ran this minute
+        if (error?.code === 11000) return false;
+        throw error;
+    }
+}
+
+async function releaseTaskLock(task: ScheduledTask): Promise<void> {
+    await SchedulerLock.updateOne(
+        { _id: task.name, lockedBy: INSTANCE_ID },
+        { $set: { lockedBy: null, lockedUntil: null } }
+    );
+}
+
+/**
+ * Takes the task's lock and starts a run, recording it in the run history.
+ * @returns The started run, or null if another run holds the lock
+ */
+export async function startTaskRun(task: ScheduledTask, trigger: SchedulerRunTrigger, scheduledFor: Date): Promise<StartedTaskRun | null> {
+    const acquired = await acquireTaskLock(task, trigger === 'schedule' ? scheduledFor : null);
+    if (!acquired) {
+        return null;
+    }
+
+    const startedAt = new Date();
+    const run = await SchedulerRun.create({
+        task: task.name,
+        trigger,
+        scheduledFor,
+        instance: INSTANCE_ID,
+        status: 'running',
+        startedAt
+    });
+    logger.info(`[Scheduler] Starting ${trigger} run ${run._id} of task ${task.name}.`);
+
+    const completion = (async () => {
+        try {
+            const summary = await task.run();
+            const finishedAt = new Date();
+            await SchedulerRun.updateOne({ _id: run._id }, {
+                $set: {
+                    status: 'succeeded',
+                    finishedAt,
+                    durationMs: finishedAt.getTime() - startedAt.getTime(),
+                    ...(summary ? { summary } : {})
+                }
+            });
+            logger.info(`[Scheduler] Task ${task.name} succeeded in ${finishedAt.getTime() - startedAt.getTime()}ms.${summary ? ` ${summary}` : ''}`);
+        } catch (error: any) {
+            const finishedAt = new Date();
+            await SchedulerRun.updateOne({ _id: run._id }, {
+                $set: {
+                    status: 'failed',
+                    finishedAt,
+                    durationMs: finishedAt.getTime() - startedAt.getTime(),
+                    error: String(error?.message || error).slice(0, 2000)
+                }
+            });
+            logger.error(`[Scheduler] Task ${task.name} failed after ${finishedAt.getTime() - startedAt.getTime()}ms:`, error);
+        } finally {
+            await releaseTaskLock(task);
+        }
+    })().catch(err => logger.error(`[Scheduler] Could not record the outcome of task ${task.name}:`, err));
+
+    return { run, completion };
+}
+
+async function runDueTasks(minute: Date): Promise<void> {
+    for (const { task, schedule } of getConfiguredTasks()) {
+        if (!schedule || !cronMatches(schedule, minute, TARGET_TIMEZONE)) continue;
+        try {
+            const started = await startTaskRun(task, 'schedule', minute);
+            if (!started) {
+                logger.info(`[Scheduler] Task ${task.name} for ${minute.toISOString()} is running or already ran on another instance.`);
+            }
+        } catch (error) {
+            logger.error(`[Scheduler] Failed to start task ${task.name}:`, error);
+        }
+    }
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Starts evaluating task schedules at the top of every minute.
+ */
+export function startScheduler(): void {
+    if (schedulerTimer) return;
+
+    for (const { task, expression, schedule } of getConfiguredTasks()) {
+        if (schedule) {
+            const nextRun = getNextCronRun(schedule, new Date(), TARGET_TIMEZONE);
+            logger.info(`[Scheduler] Task ${task.name} scheduled "${expression}" (${TARGET_TIMEZONE}), next run ${nextRun?.toISOString() ?? 'never'}.`);
+        } else {
+            logger.info(`[Scheduler] Task ${task.name} is disabled.`);
+        }
+    }
+
+    const scheduleNextTick = () => {
+        const now = Date.now();
+        const nextMinute = Math.floor(now / 60000) * 60000 + 60000;
+        schedulerTimer = setTimeout(() => {
+            scheduleNextTick();
+            if (mongoose.connection.readyState !== 1) {
+                logger.warn('[Scheduler] MongoDB not connected. Skipping this minute.');
+                return;
+            }
+            runDueTasks(new Date(nextMinute))
+                .catch(err => logger.error('[Scheduler] Error evaluating schedules:', err));
+        }, nextMinute - now);
+    };
+    scheduleNextTick();
+    logger.info(`[Scheduler] Scheduler started on ${INSTANCE_ID}.`);
+}
+
+export function stopScheduler(): void {
+    if (schedulerTimer) {
+        clearTimeout(schedulerTimer);
+        schedulerTimer = null;
+    }
+}
+
+/**
+ * Schedule, lock and last-run state of every task, for the admin view.
+ */
+export async function getSchedulerStatus() {
+    const now = new Date();
+    const tasks = getConfiguredTasks();
+    const [locks, lastRuns] = await Promise.all([
+        SchedulerLock.find({ _id: { $in: tasks.map(t => t.task.name) } }),
+        Promise.all(tasks.map(t => SchedulerRun.findOne({ task: t.task.name }).sort({ startedAt: -1 })))
+    ]);
+
+    return {
+        timezone: TARGET_TIMEZONE,
+        instance: INSTANCE_ID,
+        running: !!schedulerTimer,
+        tasks: tasks.map(({ task, expression, schedule, configError }, i) => {
+            const lock = locks.find(l => l._id === task.name);
+            const lockHeld = !!lock?.lockedUntil && lock.lockedUntil > now;
+            return {
+                name: task.name,
+                description: task.description,
+                schedule: expression,
+                scheduleEnvVar: task.scheduleEnvVar,
+                enabled: !!schedule,
+                ...(configError ? { configError } : {}),
+                nextRunAt: schedule ? getNextCronRun(schedule, now, TARGET_TIMEZONE) : null,
+                lock: lockHeld ? { lockedBy: lock!.lockedBy, lockedUntil: lock!.lockedUntil } : null,
+                lastRun: lastRuns[i]
+            };
+        })
+    };
+}
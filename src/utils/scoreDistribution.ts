@@ -0,0 +1,223 @@
+// src/utils/scoreDistribution.ts
+import logger from './logger';
+import { ProcessedDistribution, ProcessedDistributionPoint } from '../types/types';
+
+// Helper function to generate curve points
+function generateCurvePoints(distributions: { score: number; count: number }[], n: number): ProcessedDistributionPoint[] {
+    // *** ADDED LOGGING ***
+    logger.info(`[generateCurvePoints] Called with n=${n}, distributions.length=${distributions.length}`);
+    if (n < 5) { // Log distributions for small datasets
+        logger.info(`[generateCurvePoints] Input distributions (n=${n}):`, distributions);
+    }
+    // *** END LOGGING ***
+
+    const step = 25;
+    const bandwidth = 175;
+    const minScoreDomain = 0;
+    const maxScoreDomain = 5000;
+
+    // Gaussian kernel function
+    const gaussianKernel = (u: number): number => (1 / Math.sqrt(2 * Math.PI)) * Math.exp(-0.5 * u * u);
+
+    // Calculate KDE points, weighting each distinct score by its count rather than
+    // flattening every completion (keeps this cheap for very popular days)
+    const kdePointsRaw: Array<{ score: number, density: number }> = [];
+    for (let x = minScoreDomain; x <= maxScoreDomain; x += step) {
+        let density = 0;
+        for (const dist of distributions) {
+            const u = (x - dist.score) / bandwidth;
+            density += (dist.count || 0) * gaussianKernel(u);
+        }
+        density /= (n * bandwidth); // n can be 0 here, will result in Infinity if not handled
+        if (n === 0) density = 0; // Handle n=0 case to prevent Infinity
+        kdePointsRaw.push({ score: x, density });
+    }
+    // *** ADDED LOGGING ***
+    // Log a few sample density values
+    if (kdePointsRaw.length > 5) {
+        logger.info(`[generateCurvePoints] Sample kdePointsRaw (first 5):`, kdePointsRaw.slice(0, 5));
+    } else {
+        logger.info(`[generateCurvePoints] kdePointsRaw:`, kdePointsRaw);
+    }
+    // *** END LOGGING ***
+    
+    // Normalize densities
+    let maxDensity = 0;
+    kdePointsRaw.forEach(p => {
+        if (p.density > maxDensity && isFinite(p.density)) maxDensity = p.density; // Ensure finite
+    });
+    // *** ADDED LOGGING ***
+    logger.info(`[generateCurvePoints] maxDensity (before normalization): ${maxDensity}`);
+    // *** END LOGGING ***
+
+    if (maxDensity > 0) {
+        kdePointsRaw.forEach(p => {
+            p.density = isFinite(p.density) ? p.density / maxDensity : 0; // Ensure finite result
+        });
+    }
+    // *** ADDED LOGGING ***
+    if (kdePointsRaw.length > 5) {
+        logger.info(`[generateCurvePoints] Sample kdePointsRaw (normalized, first 5):`, kdePointsRaw.slice(0, 5));
+    }
+    // *** END LOGGING ***
+
+    // Calculate percentiles and create final curve points
+    const finalCurvePointsCalculated: ProcessedDistributionPoint[] = [];
+    let cumulativeCount = 0;
+    let distIndex = 0;
+    const sortedDistributions = [...distributions].sort((a, b) => a.score - b.score);
+
+    for (const kdePoint of kdePointsRaw) {
+        while (distIndex < sortedDistributions.length && sortedDistributions[distIndex].score <= kdePoint.score) {
+            cumulativeCount += sortedDistributions[distIndex].count || 0;
+            distIndex++;
+        }
+        const percentile = n > 0 ? Math.round((cumulativeCount / n) * 100) : 0;
+        finalCurvePointsCalculated.push({
+            score: kdePoint.score,
+            density: isFinite(kdePoint.density) ? kdePoint.density : 0, // Ensure finite
+            percentile
+        });
+    }
+    // *** ADDED LOGGING ***
+    logger.info(`[generateCurvePoints] finalCurvePointsCalculated (before fallback, count): ${finalCurvePointsCalculated.length}`);
+    if (finalCurvePointsCalculated.length > 0 && finalCurvePointsCalculated.length < 10) {
+        logger.info(`[generateCurvePoints] finalCurvePointsCalculated (content):`, finalCurvePointsCalculated);
+    }
+    // *** END LOGGING ***
+
+    // Ensure we have points at domain boundaries (fallback)
+    if (finalCurvePointsCalculated.length === 0 && n > 0) { // Modified fallback to only apply if n > 0
+        logger.warn(`[generateCurvePoints] finalCurvePointsCalculated was empty with n=${n}. Applying fallback for single data point.`);
+        // If only one unique score, create a simple peak
+        if (distributions.length === 1 && distributions[0].count === n) {
+             const singleScore = distributions[0].score;
+             finalCurvePointsCalculated.push({ score: Math.max(0, singleScore - bandwidth * 2), density: 0, percentile: 0 });
+             finalCurvePointsCalculated.push({ score: singleScore, density: 1, percentile: 50 });
+             finalCurvePointsCalculated.push({ score: Math.min(maxScoreDomain, singleScore + bandwidth * 2), density: 0, percentile: 100 });
+        } else { // Generic fallback if still empty for other reasons with n > 0
+            finalCurvePointsCalculated.push(
+                { score: 0, density: 0, percentile: 0 },
+                { score: maxScoreDomain, density: 0, percentile: 100 }
+            );
+        }
+        logger.info(`[generateCurvePoints] Applied fallback, finalCurvePointsCalculated:`, finalCurvePointsCalculated);
+    } else if (finalCurvePointsCalculated.length === 0 && n === 0) {
+        logger.info(`[generateCurvePoints] finalCurvePointsCalculated was empty with n=0. Applying standard empty fallback.`);
+        finalCurvePointsCalculated.push(
+            { score: 0, density: 0, percentile: 0 },
+            { score: maxScoreDomain, density: 0, percentile: 100 }
+        );
+    }
+    // *** ADDED LOGGING ***
+    logger.info(`[generateCurvePoints] Returning finalCurvePointsCalculated (count): ${finalCurvePointsCalculated.length}`);
+    // *** END LOGGING ***
+    return finalCurvePointsCalculated;
+}
+
+// Median of a histogram sorted by score, averaging the two middle values for even totals
+function weightedMedian(sortedDistributions: { score: number; count: number }[]): number {
+    const total = sortedDistributions.reduce((sum, d) => sum + d.count, 0);
+    if (total === 0) return 0;
+
+    const scoreAtPosition = (position: number): number => {
+        let cumulative = 0;
+        for (const dist of sortedDistributions) {
+            cumulative += dist.count;
+            if (position < cumulative) return dist.score;
+        }
+        return sortedDistributions[sortedDistributions.length - 1].score;
+    };
+
+    const mid = Math.floor(total / 2);
+    return total % 2 === 0
+        ? Math.round((scoreAtPosition(mid - 1) + scoreAtPosition(mid)) / 2)
+        : scoreAtPosition(mid);
+}
+
+export function processDistributionData(
+    distributions: { score: number; count: number }[],
+    n: number,
+    userScore?: number
+): ProcessedDistribution {
+    // *** ADDED LOGGING ***
+  
+    if (n < 5) {
+      
+    }
+    // *** END LOGGING ***
+
+    // Calculate total participants
+    const totalParticipants = n;
+
+    // Calculate user percentile rank: count-weighted share of other players scoring lower
+    let percentileRank: number | undefined = undefined;
+    if (userScore !== undefined && n > 0) {
+        percentileRank = computeScoreStanding(distributions, userScore).betterThanPercent;
+    }
+
+    // Generate curve points
+    const curvePoints = generateCurvePoints(distributions, n);
+
+    // Calculate summary statistics (median is weighted by each score's count)
+    const sortedDistributions = distributions
+        .filter(d => (d.count || 0) > 0)
+        .sort((a, b) => a.score - b.score);
+    const minScore = sortedDistributions[0]?.score ?? 0;
+    const maxScore = sortedDistributions[sortedDistributions.length - 1]?.score ?? 0;
+    const medianScore = weightedMedian(sortedDistributions);
+
+    // *** ADDED LOGGING ***
+ 
+    // *** END LOGGING ***
+
+    // Return only the data needed for global storage
+    return {
+        ...(percentileRank !== undefined ? { percentileRank } : {}),
+        totalParticipants,
+        curvePoints,
+        minScore,
+        maxScore,
+        medianScore
+    };
+}
+
+
+export interface ScoreStanding {
+    rank: number;             // 1-based; players with the same score share a rank
+    totalParticipants: number;
+    betterThanPercent: number; // Share of other players with a strictly lower score
+}
+
+/**
+ * Count-weighted standing of a score within a score histogram.
+ * Runs in one pass over the distinct scores, so it stays cheap regardless of
+ * how many completions the histogram represents.
+ * @param countScore Pass true when the histogram does not yet include this score
+ *                   (e.g. right after a submission, before the background update)
+ */
+export function computeScoreStanding(
+    distributions: { score: number; count: number }[],
+    score: number,
+    countScore: boolean = false
+): ScoreStanding {
+    let totalParticipants = countScore ? 1 : 0;
+    let playersAbove = 0;
+    let playersBelow = 0;
+    for (const dist of distributions) {
+        const count = dist.count || 0;
+        totalParticipants += count;
+        if (dist.score > score) playersAbove += count;
+        else if (dist.score < score) playersBelow += count;
+    }
+
+    // Exclude the player themselves from the comparison pool when they are counted
+    const others = Math.max(totalParticipants - 1, 0);
+    const betterThanPercent = others > 0 ? Math.round((playersBelow / others) * 1000) / 10 : 100;
+
+    return {
+        rank: playersAbove + 1,
+        totalParticipants,
+        betterThanPercent: Math.min(betterThanPercent, 100)
+    };
+}
@@ -0,0 +1,142 @@
+// src/utils/scoring.ts
+import { WikimediaImage } from '../types/wikimedia';
+import { MIN_YEAR, CURRENT_YEAR } from './randomImages';
+
+export const MAX_ROUND_SCORE = 1000;
+export const MAX_TOTAL_SCORE = 5000;
+
+// How quickly points fall off as a guess drifts from the actual year.
+// A guess SCORE_DECAY_YEARS off keeps ~37% of the round's points.
+const SCORE_DECAY_YEARS = 20;
+
+// A round counts as "correct" (and extends a session streak) within this many years
+export const CLOSE_GUESS_YEARS = 5;
+
+// Allowed difference between a client-reported total and the server total
+// before the submission is flagged (covers per-round rounding differences).
+const SCORE_TOLERANCE_PER_ROUND = 1;
+
+/**
+ * The scoring rules, shared with the game client through
+ * GET /api/images/daily-challenge/scoring so the points it shows come from the
+ * same formula and constants as calculateRoundScore rather than a separate copy.
+ */
+export const SCORING_RULES = {
+  formula: 'round(maxRoundScore * exp(-yearsOff / scoreDecayYears))',
+  maxRoundScore: MAX_ROUND_SCORE,
+  maxTotalScore: MAX_TOTAL_SCORE,
+  scoreDecayYears: SCORE_DECAY_YEARS,
+  closeGuessYears: CLOSE_GUESS_YEARS,
+  scoreTolerancePerRound: SCORE_TOLERANCE_PER_ROUND
+} as const;
+
+export interface SubmittedGuess {
+  roundIndex: number;
+  guessedYear: number;
+}
+
+export interface ScoredRound {
+  roundIndex: number;
+  guessedYear: number;
+  actualYear: number;
+  yearsOff: number;
+  points: number;
+}
+
+export interface ScoredSubmission {
+  totalScore: number;
+  totalYearsOff: number;
+  rounds: ScoredRound[];
+}
+
+/**
+ * Points awarded for a single round: SCORING_RULES.formula, as served to the client.
+ * @param guessedYear The year the player guessed
+ * @param actualYear The stored answer year for the round
+ */
+export function calculateRoundScore(guessedYear: number, actualYear: number): number {
+  const yearsOff = Math.abs(guessedYear - actualYear);
+  return Math.round(MAX_ROUND_SCORE * Math.exp(-yearsOff / SCORE_DECAY_YEARS));
+}
+
+/**
+ * Direction of the actual year relative to a guess, as shown in guess history.
+ */
+export function getGuessDirection(guessedYear: number, actualYear: number): 'higher' | 'lower' | null {
+  if (actualYear > guessedYear) return 'higher';
+  if (actualYear < guessedYear) return 'lower';
+  return null;
+}
+
+/**
+ * Whether a guessed year is an integer on the game's year scale (MIN_YEAR to the
+ * current year). Anything else would skew the stored guess distributions and medians.
+ */
+export function isValidGuessYear(guessedYear: unknown): guessedYear is number {
+  return Number.isInteger(guessedYear) && (guessedYear as number) >= MIN_YEAR && (guessedYear as number) <= CURRENT_YEAR;
+}
+
+/**
+ * Validates raw guesses from a request body against a challenge's images.
+ * Every round must be guessed exactly once with an integer year on the game's scale.
+ * @returns An error message, or null if the guesses are usable
+ */
+export function validateGuesses(guesses: unknown, images: WikimediaImage[]): string | null {
+  if (!Array.isArray(guesses)) {
+    return 'guesses must be an array of { roundIndex, guessedYear }';
+  }
+  if (guesses.length !== images.length) {
+    return `Expected ${images.length} guesses but received ${guesses.length}`;
+  }
+
+  const seenRounds = new Set<number>();
+  for (const guess of guesses) {
+    if (!guess || !Number.isInteger(guess.roundIndex) || !Number.isInteger(guess.guessedYear)) {
+      return 'Each guess must have an integer roundIndex and guessedYear';
+    }
+    if (guess.roundIndex < 0 || guess.roundIndex >= images.length) {
+      return `roundIndex ${guess.roundIndex} is out of range`;
+    }
+    if (!isValidGuessYear(guess.guessedYear)) {
+      return `guessedYear ${guess.guessedYear} is outside ${MIN_YEAR}-${CURRENT_YEAR}`;
+    }
+    if (seenRounds.has(guess.roundIndex)) {
+      return `Duplicate guess for roundIndex ${guess.roundIndex}`;
+    }
+    seenRounds.add(guess.roundIndex);
+  }
+
+  return null;
+}
+
+/**
+ * Scores validated guesses against the stored answer years.
+ * Call validateGuesses first; this assumes one guess per round.
+ */
+export function scoreSubmission(guesses: SubmittedGuess[], images: WikimediaImage[]): ScoredSubmission {
+  const rounds = [...guesses]
+    .sort((a, b) => a.roundIndex - b.roundIndex)
+    .map(guess => {
+      const actualYear = images[guess.roundIndex].year;
+      return {
+        roundIndex: guess.roundIndex,
+        guessedYear: guess.guessedYear,
+        actualYear,
+        yearsOff: Math.abs(guess.guessedYear - actualYear),
+        points: calculateRoundScore(guess.guessedYear, actualYear)
+      };
+    });
+
+  return {
+    totalScore: rounds.reduce((sum, round) => sum + round.points, 0),
+    totalYearsOff: rounds.reduce((sum, round) => sum + round.yearsOff, 0),
+    rounds
+  };
+}
+
+/**
+ * Whether a client-reported total disagrees with the server-computed total.
+ */
+export function isScoreMismatch(clientScore: number, serverScore: number, roundCount: number): boolean {
+  return Math.abs(clientScore - serverScore) > SCORE_TOLERANCE_PER_ROUND * roundCount;
+}
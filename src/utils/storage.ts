@@ -0,0 +1,285 @@
+// src/utils/storage.ts
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+    S3Client,
+    PutObjectCommand,
+    GetObjectCommand,
+    DeleteObjectCommand,
+    ListObjectsV2Command
+} from '@aws-sdk/client-s3';
+import dotenv from 'dotenv';
+import logger from './logger';
+
+dotenv.config();
+
+export type StorageDriver = 's3' | 'local';
+// Images are public game assets; archives are raw round guess dumps and never served
+export type StorageArea = 'images' | 'archive';
+
+export interface StoredObjectInfo {
+    key: string;
+    size: number;
+    lastModified?: Date;
+}
+
+/**
+ * Object storage used for game images and round guess archives.
+ * Keys are '/'-separated paths such as "game-images/<id>.webp".
+ */
+export interface ObjectStorage {
+    readonly driver: StorageDriver;
+    put(key: string, body: Buffer | string, contentType?: string): Promise<void>;
+    get(key: string): Promise<Buffer>;
+    // For large objects (e.g. archives) that shouldn't be buffered
+    getStream(key: string): Promise<Readable>;
+    delete(key: string): Promise<void>;
+    list(prefix: string): Promise<StoredObjectInfo[]>;
+    publicUrl(key: string): string;
+    // For legacy images stored at the root of the storage, outside the paths publicUrl's host serves
+    legacyUrl(key: string): string;
+}
+
+export class StorageObjectNotFoundError extends Error {
+    constructor(public key: string) {
+        super(`Storage object not found: ${key}`);
+    }
+}
+
+class S3ObjectStorage implements ObjectStorage {
+    readonly driver = 's3' as const;
+
+    // legacyBaseUrl is the bucket itself: the CloudFront distribution only serves game-images/
+    constructor(private client: S3Client, private bucket: string, private publicBaseUrl: string, private legacyBaseUrl: string = publicBaseUrl) {}
+
+    async put(key: string, body: Buffer | string, contentType?: string): Promise<void> {
+        await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: body, ContentType: contentType }));
+    }
+
+    async get(key: string): Promise<Buffer> {
+        const response = await this.send(key);
+        return Buffer.from(await response.Body!.transformToByteArray());
+    }
+
+    async getStream(key: string): Promise<Readable> {
+        const response = await this.send(key);
+        return response.Body as Readable;
+    }
+
+    private async send(key: string) {
+        try {
+            const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+            if (!response.Body) {
+                throw new StorageObjectNotFoundError(key);
+            }
+            return response;
+        } catch (error: any) {
+            if (error?.name === 'NoSuchKey') {
+                throw new StorageObjectNotFoundError(key);
+            }
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    }
+
+    async list(prefix: string): Promise<StoredObjectInfo[]> {
+        const objects: StoredObjectInfo[] = [];
+        let continuationToken: string | undefined;
+        do {
+            const response = await this.client.send(new ListObjectsV2Command({
+                Bucket: this.bucket,
+                Prefix: prefix,
+                ContinuationToken: continuationToken
+            }));
+            for (const object of response.Contents || []) {
+                if (!object.Key) continue;
+                objects.push({ key: object.Key, size: object.Size || 0, lastModified: object.LastModified });
+            }
+            continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+        } while (continuationToken);
+        return objects;
+    }
+
+    publicUrl(key: string): string {
+        return `${this.publicBaseUrl}/${key}`;
+    }
+
+    legacyUrl(key: string): string {
+        return `${this.legacyBaseUrl}/${key}`;
+    }
+}
+
+class LocalObjectStorage implements ObjectStorage {
+    readonly driver = 'local' as const;
+
+    constructor(private rootDir: string, private publicBaseUrl: string) {}
+
+    // Resolves a key inside the root; keys can never escape it
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.rootDir, key);
+        if (filePath !== this.rootDir && !filePath.startsWith(this.rootDir + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return filePath;
+    }
+
+    async put(key: string, body: Buffer | string): Promise<void> {
+        const filePath = this.resolve(key);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, body);
+    }
+
+    async get(key: string): Promise<Buffer> {
+        try {
+            return await fs.promises.readFile(this.resolve(key));
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') throw new StorageObjectNotFoundError(key);
+            throw error;
+        }
+    }
+
+    async getStream(key: string): Promise<Readable> {
+        const filePath = this.resolve(key);
+        if (!fs.existsSync(filePath)) {
+            throw new StorageObjectNotFoundError(key);
+        }
+        return fs.createReadStream(filePath);
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.promises.rm(this.resolve(key), { force: true });
+    }
+
+    async list(prefix: string): Promise<StoredObjectInfo[]> {
+        const objects: StoredObjectInfo[] = [];
+        const walk = async (dir: string): Promise<void> => {
+            let entries: fs.Dirent[];
+            try {
+                entries = await fs.promises.readdir(dir, { withFileTypes: true });
+            } catch (error: any) {
+                if (error?.code === 'ENOENT') return;
+                throw error;
+            }
+            for (const entry of entries) {
+                const entryPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    await walk(entryPath);
+                    continue;
+                }
+                const key = path.relative(this.rootDir, entryPath).split(path.sep).join('/');
+                if (!key.startsWith(prefix)) continue;
+                const stats = await fs.promises.stat(entryPath);
+                objects.push({ key, size: stats.size, lastModified: stats.mtime });
+            }
+        };
+        // Only walk the directory part of the prefix; the rest is matched per key
+        const prefixDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+        await walk(this.resolve(prefixDir));
+        return objects.sort((a, b) => a.key.localeCompare(b.key));
+    }
+
+    publicUrl(key: string): string {
+        return `${this.publicBaseUrl}/${key}`;
+    }
+
+    legacyUrl(key: string): string {
+        return this.publicUrl(key);
+    }
+}
+
+export function getStorageDriver(): StorageDriver {
+    const driver = (process.env.STORAGE_DRIVER || 's3').toLowerCase();
+    if (driver !== 's3' && driver !== 'local') {
+        throw new Error(`Unknown STORAGE_DRIVER "${process.env.STORAGE_DRIVER}" (expected "s3" or "local")`);
+    }
+    return driver;
+}
+
+let s3Client: S3Client | null = null;
+
+// Shared by the image and archive storages; built on first use so the local driver never needs AWS settings
+function getS3Client(): S3Client {
+    if (!s3Client) {
+        s3Client = new S3Client({
+            region: process.env.AWS_REGION || 'us-east-1',
+            credentials: {
+                accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+                secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || ''
+            }
+        });
+    }
+    return s3Client;
+}
+
+// Local images live in the uploads/ directory served by server.ts at /uploads
+export const LOCAL_UPLOADS_DIR = path.resolve(process.cwd(), process.env.LOCAL_UPLOADS_DIR || 'uploads');
+const LOCAL_ARCHIVE_DIR = path.resolve(process.cwd(), process.env.LOCAL_ARCHIVE_DIR || 'archives');
+
+/**
+ * Builds a storage for an area with an explicit driver.
+ * Most code should use getImageStorage / getArchiveStorage instead.
+ */
+export function createObjectStorage(driver: StorageDriver, area: StorageArea): ObjectStorage {
+    if (driver === 'local') {
+        return area === 'images'
+            ? new LocalObjectStorage(LOCAL_UPLOADS_DIR, `${(process.env.PUBLIC_BASE_URL || '').replace(/\/$/, '')}/uploads`)
+            : new LocalObjectStorage(LOCAL_ARCHIVE_DIR, `file://${LOCAL_ARCHIVE_DIR}`);
+    }
+
+    const region = process.env.AWS_REGION || 'us-east-1';
+    if (area === 'images') {
+        const bucket = process.env.AWS_S3_BUCKET_NAME || 'your-bucket-name';
+        const cloudFrontDomain = process.env.CLOUDFRONT_IMAGES_DOMAIN;
+        if (!cloudFrontDomain) {
+            logger.warn('[Storage] CLOUDFRONT_IMAGES_DOMAIN not set. Image URLs will point at the S3 bucket directly.');
+        }
+        const bucketUrl = `https://${bucket}.s3.${region}.amazonaws.com`;
+        return new S3ObjectStorage(getS3Client(), bucket, cloudFrontDomain ? `https://${cloudFrontDomain}` : bucketUrl, bucketUrl);
+    }
+
+    const archiveBucket = process.env.ARCHIVE_S3_BUCKET_NAME || '';
+    return new S3ObjectStorage(getS3Client(), archiveBucket, `https://${archiveBucket}.s3.${region}.amazonaws.com`);
+}
+
+let imageStorage: ObjectStorage | null = null;
+let archiveStorage: ObjectStorage | null = null;
+
+/**
+ * Storage for game images, using the driver selected by STORAGE_DRIVER.
+ */
+export function getImageStorage(): ObjectStorage {
+    if (!imageStorage) {
+        imageStorage = createObjectStorage(getStorageDriver(), 'images');
+    }
+    return imageStorage;
+}
+
+/**
+ * Storage for round guess archives, using the driver selected by STORAGE_DRIVER.
+ */
+export function getArchiveStorage(): ObjectStorage {
+    if (!archiveStorage) {
+        archiveStorage = createObjectStorage(getStorageDriver(), 'archive');
+    }
+    return archiveStorage;
+}
+
+/**
+ * Whether archives can be written: always for local disk, and for S3 only with
+ * an archive bucket and credentials.
+ */
+export function isArchiveStorageConfigured(): boolean {
+    if (getStorageDriver() === 'local') return true;
+    return !!(process.env.ARCHIVE_S3_BUCKET_NAME && process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY);
+}
+
+/**
+ * Human-readable archive location for log messages.
+ */
+export function describeArchiveStorage(): string {
+    return getStorageDriver() === 'local' ? `local disk (${LOCAL_ARCHIVE_DIR})` : `S3 bucket ${process.env.ARCHIVE_S3_BUCKET_NAME}`;
+}
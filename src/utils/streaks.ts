@@ -0,0 +1,49 @@
+// src/utils/streaks.ts
+import { formatInTimeZone } from 'date-fns-tz';
+import { TARGET_TIMEZONE } from './challengeDates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyStreaks {
+  currentStreak: number;
+  longestStreak: number;
+  lastPlayedDate: string | null;
+}
+
+// Whole days between two YYYY-MM-DD strings (b - a)
+function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) in TARGET_TIMEZONE for a timestamp.
+ */
+export function toTargetTimezoneDay(date: Date): string {
+  return formatInTimeZone(date, TARGET_TIMEZONE, 'yyyy-MM-dd');
+}
+
+/**
+ * Computes daily streaks from the days a player completed the daily challenge.
+ * A current streak stays alive through today until the player misses a full day.
+ * @param playedDays YYYY-MM-DD days in TARGET_TIMEZONE, in any order, duplicates allowed
+ * @param today Today's YYYY-MM-DD in TARGET_TIMEZONE
+ */
+export function computeDailyStreaks(playedDays: string[], today: string): DailyStreaks {
+  const days = Array.from(new Set(playedDays)).filter(day => day <= today).sort();
+  if (days.length === 0) {
+    return { currentStreak: 0, longestStreak: 0, lastPlayedDate: null };
+  }
+
+  let longestStreak = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = daysBetween(days[i - 1], days[i]) === 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  // `run` is now the streak ending on the most recent played day
+  const lastPlayedDate = days[days.length - 1];
+  const currentStreak = daysBetween(lastPlayedDate, today) <= 1 ? run : 0;
+
+  return { currentStreak, longestStreak, lastPlayedDate };
+}
@@ -1,107 +1,107 @@
-import fetch from 'node-fetch';
 import { WikimediaImage } from '../types/wikimedia';
 import logger from './logger';
+import { extractYear } from './yearExtraction';
+import { extractAttribution } from './imageAttribution';
+import { getCommonsClient, ImageInfo, MAX_TITLES_PER_QUERY } from './mediaWikiClient';
+
+export type ImageLookupStatus = 'found' | 'missing' | 'not-a-photo' | 'no-year' | 'error';
+
+export interface ImageLookupResult {
+  filename: string; // As requested
+  status: ImageLookupStatus;
+  image?: WikimediaImage; // Set when status is 'found'
+  reason?: string; // Why the file can't be used, for any other status
+}
+
+export interface ImageLookupOptions {
+  // When false, files without a year in their metadata get their upload year
+  // instead of a 'no-year' status (for callers that set the year themselves)
+  requireYear?: boolean;
+}
+
+// Only bitmap photos can be played; SVG drawings, audio and video can't
+function isPhoto(imageInfo: ImageInfo): boolean {
+  if (imageInfo.mime && (!imageInfo.mime.startsWith('image/') || imageInfo.mime === 'image/svg+xml')) {
+    return false;
+  }
+  return !imageInfo.mediatype || imageInfo.mediatype === 'BITMAP';
+}
+
+function toLookupResult(filename: string, imageInfo: ImageInfo, options: ImageLookupOptions): ImageLookupResult {
+  if (!isPhoto(imageInfo)) {
+    return { filename, status: 'not-a-photo', reason: `Not a photo (${imageInfo.mime || imageInfo.mediatype})` };
+  }
+
+  const extracted = extractYear(imageInfo.extmetadata, {
+    uploadTimestamp: options.requireYear === false ? imageInfo.timestamp : undefined
+  });
+  if (!extracted) {
+    return { filename, status: 'no-year', reason: 'No year found in the file\'s date, title or description' };
+  }
+
+  const title = filename.replace(/^File:/, '');
+  return {
+    filename,
+    status: 'found',
+    image: {
+      title,
+      url: imageInfo.url,
+      source: 'Wikimedia Commons',
+      year: extracted.year,
+      description: imageInfo.extmetadata?.ImageDescription?.value || '',
+      filename: title,
+      attribution: extractAttribution(imageInfo.extmetadata)
+    }
+  };
+}
 
 /**
- * Fetches complete image data from Wikimedia Commons
- * @param filename The image filename (without "File:" prefix)
- * @returns Complete WikimediaImage object or null if fetch fails
+ * Looks up many Commons files with batched imageinfo queries and reports on
+ * each one, in the order given.
+ * @param filenames Filenames with or without the "File:" prefix
  */
-export async function fetchImageData(filename: string): Promise<WikimediaImage | null> {
-  try {
-    // Add "File:" prefix if not present
-    const fullTitle = filename.startsWith('File:') ? filename : `File:${filename}`;
-    
-    // Get image info including upload date, URL, metadata, etc.
-    const infoResponse = await fetch(
-      `https://commons.wikimedia.org/w/api.php?action=query&titles=${encodeURIComponent(fullTitle)}&prop=imageinfo&iiprop=url|timestamp|user|extmetadata|mediatype|mime&format=json`,
-      {
-        headers: {
-          'User-Agent': 'Wikimedia Year Guessing Game/1.0 (ccreguer@gmail.com)'
-        }
-      }
-    );
+export async function lookupImages(filenames: string[], options: ImageLookupOptions = {}): Promise<ImageLookupResult[]> {
+  const client = getCommonsClient();
+  const results: ImageLookupResult[] = [];
 
-    const infoData = await infoResponse.json();
-    const pages = infoData.query.pages;
-    const pageId = Object.keys(pages)[0];
-    
-    if (!pages[pageId].imageinfo || !pages[pageId].imageinfo[0]) {
-      logger.warn(`No image info found for ${filename}`);
-      return null;
-    }
-    
-    const imageInfo = pages[pageId].imageinfo[0];
-    
-    // Extract year from metadata with high confidence
-    let year = new Date().getFullYear(); // Default to current year as fallback
-    let confidenceLevel = 'low';
-    
-    if (imageInfo.extmetadata) {
-      // Try DateTimeOriginal first (highest confidence)
-      if (imageInfo.extmetadata.DateTimeOriginal) {
-        const dateString = imageInfo.extmetadata.DateTimeOriginal.value;
-        const yearMatch = dateString.match(/\b(18\d{2}|19\d{2}|20\d{2})\b/);
-        if (yearMatch) {
-          year = parseInt(yearMatch[0]);
-          confidenceLevel = 'high';
-        }
-      } 
-      // Try other date fields with medium confidence
-      else if (imageInfo.extmetadata.DateTime) {
-        const dateString = imageInfo.extmetadata.DateTime.value;
-        const yearMatch = dateString.match(/\b(18\d{2}|19\d{2}|20\d{2})\b/);
-        if (yearMatch) {
-          year = parseInt(yearMatch[0]);
-          confidenceLevel = 'medium';
-        }
-      }
-      // Look for year in description
-      else if (imageInfo.extmetadata.ImageDescription) {
-        const description = imageInfo.extmetadata.ImageDescription.value;
-        const yearMatch = description.match(/\b(18\d{2}|19\d{2}|20\d{2})\b/);
-        if (yearMatch) {
-          year = parseInt(yearMatch[0]);
-          confidenceLevel = 'medium';
+  // One client call per batch so a failed request only affects its own files
+  for (let i = 0; i < filenames.length; i += MAX_TITLES_PER_QUERY) {
+    const batch = filenames.slice(i, i + MAX_TITLES_PER_QUERY);
+    try {
+      const pages = await client.getImageInfo(batch);
+      for (const filename of batch) {
+        const page = pages.get(filename);
+        const imageInfo = page?.imageinfo?.[0];
+        if (!imageInfo) {
+          results.push({ filename, status: 'missing', reason: page?.invalid ? `Invalid title: ${page.invalidreason || filename}` : 'File not found on Wikimedia Commons' });
+          continue;
         }
+        results.push(toLookupResult(filename, imageInfo, options));
       }
+    } catch (error: any) {
+      logger.error(`Error looking up ${batch.length} image(s) on Wikimedia Commons:`, error);
+      results.push(...batch.map(filename => ({ filename, status: 'error' as const, reason: error?.message || 'Lookup failed' })));
     }
-    
-    // Extract title without "File:" prefix
-    const title = fullTitle.replace(/^File:/, '');
-    
-    logger.info(`Successfully fetched image data for ${filename}`, { confidenceLevel });
-    
-    return {
-      title: title,
-      url: imageInfo.url,
-      source: 'Wikimedia Commons',
-      year: year,
-      description: imageInfo.extmetadata?.ImageDescription?.value || '',
-      filename: title
-    };
-  } catch (error) {
-    logger.error(`Error fetching image data for ${filename}:`, error);
-    return null;
   }
+
+  const found = results.filter(result => result.status === 'found').length;
+  logger.info(`Looked up ${filenames.length} image(s): ${found} found, ${filenames.length - found} rejected`);
+  return results;
 }
 
 /**
- * Fetches complete image data for multiple filenames
- * @param filenames Array of image filenames
- * @returns Array of successfully fetched WikimediaImage objects
+ * Fetches complete image data from Wikimedia Commons
+ * @param filename The image filename (without "File:" prefix)
+ * @returns Complete WikimediaImage object, with the upload year when the metadata
+ * has none, or null if the file can't be used
  */
-export async function fetchMultipleImageData(filenames: string[]): Promise<WikimediaImage[]> {
-  logger.info(`Fetching data for ${filenames.length} images`);
-  
-  const imagePromises = filenames.map(filename => fetchImageData(filename));
-  const results = await Promise.all(imagePromises);
-  
-  // Filter out nulls (failed fetches)
-  const validImages = results.filter(img => img !== null) as WikimediaImage[];
-  
-  logger.info(`Successfully fetched ${validImages.length} of ${filenames.length} images`);
-  return validImages;
+export async function fetchImageData(filename: string): Promise<WikimediaImage | null> {
+  const [result] = await lookupImages([filename], { requireYear: false });
+  if (!result?.image) {
+    logger.warn(`No image data for ${filename}: ${result?.reason}`);
+    return null;
+  }
+  return result.image;
 }
 
 /**
@@ -0,0 +1,246 @@
+// src/utils/yearExtraction.ts
+// Works out when a Commons photo was taken from its imageinfo extmetadata.
+// Handles the forms Commons date templates render to ("circa 1920", "1930s",
+// "between 1901 and 1905", "19th century", "before 1920") as well as the raw
+// {{other date}} / {{circa}} / {{date}} wikitext that sometimes leaks through.
+
+export type YearConfidence = 'high' | 'medium' | 'low';
+
+// The extmetadata field the year came from, or 'upload' for the upload timestamp.
+// 'DateTime' is no longer read but remains on images cached before it was dropped
+export type YearSource =
+    | 'DateTimeOriginal'
+    | 'DateTime'
+    | 'DateTimeDigitized'
+    | 'DateCreated'
+    | 'MetadataDate'
+    | 'CreateDate'
+    | 'ModifyDate'
+    | 'ObjectName'
+    | 'ImageDescription'
+    | 'upload';
+
+export interface YearRange {
+    earliest: number;
+    latest: number;
+}
+
+export interface ParsedYear {
+    year: number;          // The exact year, or the middle of range
+    range?: YearRange;     // Set when the text gives a span: a decade, a century, "between X and Y"
+    approximate: boolean;  // "circa", "before" and "after" dates
+}
+
+export interface YearExtraction extends ParsedYear {
+    confidence: YearConfidence;
+    source: YearSource;
+    text: string;          // The value the year was read from, with markup removed
+}
+
+export interface ExtractYearOptions {
+    uploadTimestamp?: string; // imageinfo timestamp; used as a low-confidence last resort
+    minYear?: number;
+    maxYear?: number;
+}
+
+export type ExtMetadata = Record<string, { value?: unknown } | undefined>;
+
+// Fields that hold a date, most trustworthy first. DateTimeOriginal is the
+// "date" of the {{Information}} template; the rest usually come from EXIF and
+// often record when a print was scanned rather than when it was taken.
+// DateTime is left out: Commons sets it to the file's upload or last modification
+// time on nearly every file, so it says nothing about when the photo was taken.
+const DATE_FIELDS: YearSource[] = ['DateTimeOriginal', 'DateTimeDigitized', 'DateCreated', 'MetadataDate', 'CreateDate', 'ModifyDate'];
+const TEXT_FIELDS: YearSource[] = ['ObjectName', 'ImageDescription'];
+
+const YEAR = '(1[89]\\d{2}|20\\d{2})';
+const YEAR_PATTERN = new RegExp(`\\b${YEAR}\\b`, 'g');
+const BETWEEN_PATTERN = new RegExp(`\\bbetween\\s+${YEAR}\\s+and\\s+${YEAR}\\b`, 'i');
+const SPAN_PATTERN = new RegExp(`\\b${YEAR}\\s*(?:-|–|—|to|or)\\s*${YEAR}\\b`, 'i');
+// Years ending in 0, for decades; "2015s" is not a decade
+const DECADE_START = '(1[89]\\d0|20\\d0)';
+const DECADE_PATTERN = new RegExp(`\\b(?:(early|mid|late)[\\s-]*)?${DECADE_START}'?s\\b`, 'i');
+const CENTURY_PATTERN = /\b(?:(early|mid|late)[\s-]*)?(19|20|21)(?:st|nd|rd|th)[\s-]+century\b/i;
+const CIRCA_PATTERN = new RegExp(`(?:\\b(?:circa|ca\\.?|c\\.|approx(?:imately|\\.)?|around)|~)\\s*${YEAR}\\b`, 'i');
+const BEFORE_AFTER_PATTERN = new RegExp(`\\b(before|after|not before|not after)\\s+${YEAR}\\b`, 'i');
+
+const OTHER_DATE_TEMPLATE = /\{\{\s*other[ _]date\s*\|([^}]*)\}\}/gi;
+const CIRCA_TEMPLATE = /\{\{\s*(?:circa|c\.)\s*\|\s*(\d{4})[^}]*\}\}/gi;
+const DATE_TEMPLATE = /\{\{\s*(?:date|taken on|according to exif data)\s*\|\s*(\d{4})[^}]*\}\}/gi;
+
+// Rewrites the templates we understand into the text they render as, so one parser handles both
+function expandDateTemplates(text: string): string {
+    return text
+        .replace(OTHER_DATE_TEMPLATE, (match, args: string) => {
+            const [code, first, second] = args.split('|').map(arg => arg.trim());
+            switch (code.toLowerCase()) {
+                case '~': case 'c': case 'ca': case 'circa':
+                    return `circa ${first}`;
+                case 'between': case '-': case '–':
+                    return `between ${first} and ${second}`;
+                case 'or':
+                    return `${first} or ${second}`;
+                case 's': case 'decade':
+                    return `${first.replace(/s$/, '')}s`;
+                case 'century':
+                    return `${first}th century`;
+                case 'early': case 'mid': case 'late':
+                    return /^\d{2}$/.test(first) ? `${code} ${first}th century` : `${code} ${first.replace(/s$/, '')}s`;
+                case 'before': case '<':
+                    return `before ${first}`;
+                case 'after': case '>':
+                    return `after ${first}`;
+                default:
+                    return args;
+            }
+        })
+        .replace(CIRCA_TEMPLATE, 'circa $1')
+        .replace(DATE_TEMPLATE, '$1');
+}
+
+// extmetadata values are HTML; Commons also hides a Wikidata "date QS:" string in a display:none div
+function toPlainText(value: unknown): string {
+    return expandDateTemplates(String(value ?? ''))
+        .replace(/<div[^>]*display:\s*none[^>]*>[\s\S]*?<\/div>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;|&#160;/g, ' ')
+        .replace(/&ndash;|&#8211;/g, '–')
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+// Narrows a span to its first, middle or last third for "early", "mid" and "late"
+function applyPeriodModifier(range: YearRange, modifier: string | undefined): YearRange {
+    if (!modifier) return range;
+    const third = Math.floor((range.latest - range.earliest + 1) / 3);
+    switch (modifier.toLowerCase()) {
+        case 'early': return { earliest: range.earliest, latest: range.earliest + third - 1 };
+        case 'mid': return { earliest: range.earliest + third, latest: range.latest - third };
+        default: return { earliest: range.latest - third + 1, latest: range.latest };
+    }
+}
+
+function fromRange(range: YearRange, approximate = false): ParsedYear {
+    return { year: Math.floor((range.earliest + range.latest) / 2), range, approximate };
+}
+
+/**
+ * Parses one date value. Structured forms (ranges, decades, centuries, circa)
+ * win over bare years; among bare years the most frequently mentioned wins.
+ * @returns null if the text contains no year
+ */
+export function parseYearText(value: unknown): ParsedYear | null {
+    const text = toPlainText(value);
+    let match: RegExpMatchArray | null;
+
+    if ((match = text.match(BETWEEN_PATTERN)) || (match = text.match(SPAN_PATTERN))) {
+        const [first, second] = [parseInt(match[1], 10), parseInt(match[2], 10)];
+        if (second > first) {
+            return fromRange({ earliest: first, latest: second });
+        }
+    }
+
+    if ((match = text.match(DECADE_PATTERN))) {
+        const start = parseInt(match[2], 10);
+        return fromRange(applyPeriodModifier({ earliest: start, latest: start + 9 }, match[1]));
+    }
+
+    if ((match = text.match(CENTURY_PATTERN))) {
+        const century = parseInt(match[2], 10);
+        return fromRange(applyPeriodModifier({ earliest: (century - 1) * 100 + 1, latest: century * 100 }, match[1]));
+    }
+
+    if ((match = text.match(CIRCA_PATTERN))) {
+        return { year: parseInt(match[1], 10), approximate: true };
+    }
+
+    if ((match = text.match(BEFORE_AFTER_PATTERN))) {
+        return { year: parseInt(match[2], 10), approximate: true };
+    }
+
+    const years = text.match(YEAR_PATTERN);
+    if (!years) return null;
+
+    const counts = new Map<number, number>();
+    for (const year of years.map(y => parseInt(y, 10))) {
+        counts.set(year, (counts.get(year) || 0) + 1);
+    }
+    // Map keeps insertion order, so ties go to the first year mentioned
+    const [year] = [...counts.entries()].reduce((best, entry) => entry[1] > best[1] ? entry : best);
+    return { year, approximate: false };
+}
+
+function lowerConfidence(confidence: YearConfidence): YearConfidence {
+    return confidence === 'high' ? 'medium' : 'low';
+}
+
+// Wider spans and approximate dates are less useful as an answer to guess
+function scoreConfidence(parsed: ParsedYear, base: YearConfidence): YearConfidence {
+    let confidence = base;
+    if (parsed.approximate) {
+        confidence = lowerConfidence(confidence);
+    }
+    if (parsed.range) {
+        const span = parsed.range.latest - parsed.range.earliest;
+        if (span > 20) return 'low';
+        if (span >= 5) confidence = lowerConfidence(confidence);
+    }
+    return confidence;
+}
+
+function isWithinBounds(parsed: ParsedYear, minYear: number, maxYear: number): boolean {
+    const earliest = parsed.range?.earliest ?? parsed.year;
+    const latest = parsed.range?.latest ?? parsed.year;
+    return earliest >= minYear && latest <= maxYear;
+}
+
+/**
+ * Extracts the year a Commons file was taken from its imageinfo extmetadata.
+ * Date fields are tried before the title and description; the upload year is
+ * only used when uploadTimestamp is given, and always with low confidence.
+ * @returns The year with its range, confidence and source field, or null if none was found
+ */
+export function extractYear(metadata: ExtMetadata | undefined, options: ExtractYearOptions = {}): YearExtraction | null {
+    const minYear = options.minYear ?? 1800;
+    const maxYear = options.maxYear ?? new Date().getFullYear();
+
+    const fields: Array<[YearSource, YearConfidence]> = [
+        ...DATE_FIELDS.map((field): [YearSource, YearConfidence] => [field, field === 'DateTimeOriginal' ? 'high' : 'medium']),
+        ...TEXT_FIELDS.map((field): [YearSource, YearConfidence] => [field, 'medium'])
+    ];
+
+    for (const [source, base] of fields) {
+        const value = metadata?.[source]?.value;
+        if (value === undefined || value === null || value === '') continue;
+
+        const parsed = parseYearText(value);
+        if (parsed && isWithinBounds(parsed, minYear, maxYear)) {
+            return { ...parsed, confidence: scoreConfidence(parsed, base), source, text: toPlainText(value) };
+        }
+    }
+
+    if (options.uploadTimestamp) {
+        const uploadYear = new Date(options.uploadTimestamp).getUTCFullYear();
+        if (uploadYear >= minYear && uploadYear <= maxYear) {
+            return { year: uploadYear, approximate: false, confidence: 'low', source: 'upload', text: options.uploadTimestamp };
+        }
+    }
+
+    return null;
+}
+
+// Years a scored guess can't fairly be held to: the title is shown before the
+// guess, and the upload date is when the file reached Commons, not when it was taken.
+// DateTime is the upload time too; images cached before it was dropped from DATE_FIELDS may still carry it
+export const UNRELIABLE_YEAR_SOURCES: YearSource[] = ['ObjectName', 'DateTime', 'upload'];
+export const RELIABLE_YEAR_CONFIDENCES: YearConfidence[] = ['high', 'medium'];
+
+/**
+ * Whether an image's year is trustworthy enough to score a guess against:
+ * medium confidence or better, and not read from the title or upload date.
+ */
+export function hasReliableYear(image: { yearSource?: YearSource; yearConfidence?: YearConfidence }): boolean {
+    return !!image.yearConfidence && RELIABLE_YEAR_CONFIDENCES.includes(image.yearConfidence)
+        && !(image.yearSource && UNRELIABLE_YEAR_SOURCES.includes(image.yearSource));
+}